@@ -0,0 +1,72 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { TestApiWrapper, NotificationsApi } from '../../wrappers/api';
+import { TestDataManager } from '../../utils';
+
+/**
+ * Bearer-token session handling of BaseApiWrapper against the enhanced server
+ */
+
+test.describe('API Auth Session Tests', () => {
+  let testData: TestDataManager;
+
+  test.beforeEach(async ({ request }) => {
+    testData = TestDataManager.getInstance();
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test('should log in lazily with the configured credentials', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+    expect(apiWrapper.getSession()).toBeUndefined();
+
+    const users = await apiWrapper.getUsers();
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(apiWrapper.getSession()?.token).toMatch(/^mock_token_1_\d+$/);
+  });
+
+  test('should keep the token returned by loginUser', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request, { auth: {} });
+    const admin = testData.getUser('admin');
+
+    const user = await apiWrapper.loginUser(admin.email, admin.password);
+
+    expect(user.email).toBe(admin.email);
+    expect(apiWrapper.getSession()?.token).toMatch(/^mock_token_3_\d+$/);
+    await expect(apiWrapper.getUserById(1)).resolves.toBeDefined();
+  });
+
+  test('should re-authenticate when the token is rejected', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+    const user = testData.getUser('regular');
+    apiWrapper.useSession({
+      token: 'mock_token_999_0',
+      credentials: { email: user.email, password: user.password },
+      createdAt: Date.now(),
+    });
+
+    const users = await apiWrapper.getUsers();
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(apiWrapper.getSession()?.token).toMatch(/^mock_token_1_\d+$/);
+  });
+
+  test('should switch users per call', async ({ request }) => {
+    const notificationsApi = new NotificationsApi(request);
+    const jane = testData.getAllUsers().find(u => u.username === 'janesmith')!;
+
+    const johnNotifications = await notificationsApi.getNotifications();
+    const janeNotifications = await notificationsApi
+      .as({ email: jane.email, password: jane.password })
+      .getNotifications();
+
+    johnNotifications.forEach(notification => expect(notification.userId).toBe(1));
+    janeNotifications.forEach(notification => expect(notification.userId).toBe(2));
+    expect(notificationsApi.getSession()?.token).toMatch(/^mock_token_1_\d+$/);
+  });
+
+  test('should fail without a session', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request, { auth: {} });
+
+    await expect(apiWrapper.getUsers()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,151 @@
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ProjectsApi,
+  TasksApi,
+  NotificationsApi,
+  ReportsApi,
+  AnalyticsApi,
+  SettingsApi,
+  SearchApi,
+  TestApiWrapper,
+} from '../../wrappers/api';
+
+/**
+ * Typed wrapper coverage for the enhanced server dashboard endpoints
+ */
+
+test.describe('Dashboard Endpoints API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test.describe('ProjectsApi', () => {
+    test('should create, read, update and delete a project', async ({ request }) => {
+      const projectsApi = new ProjectsApi(request);
+
+      const created = await projectsApi.createProject({
+        name: 'API Wrapper Project',
+        description: 'Created through ProjectsApi',
+        status: 'planning',
+        priority: 'medium',
+        tags: ['api'],
+      });
+      expect(created.id).toBeDefined();
+      expect(created.createdBy).toBe(1);
+
+      const fetched = await projectsApi.getProjectById(created.id);
+      expect(fetched.name).toBe('API Wrapper Project');
+
+      const updated = await projectsApi.updateProject(created.id, { status: 'active', progress: 10 });
+      expect(updated.status).toBe('active');
+      expect(updated.progress).toBe(10);
+
+      await projectsApi.deleteProject(created.id);
+      await expect(projectsApi.getProjectById(created.id)).rejects.toThrow();
+    });
+
+    test('should filter projects by status and search term', async ({ request }) => {
+      const projectsApi = new ProjectsApi(request);
+
+      const active = await projectsApi.getProjects({ status: 'active' });
+      expect(active.length).toBeGreaterThan(0);
+      active.forEach(project => expect(project.status).toBe('active'));
+
+      const searched = await projectsApi.getProjects({ search: 'e-commerce' });
+      expect(searched.map(project => project.name)).toContain('E-commerce Platform');
+    });
+  });
+
+  test.describe('TasksApi', () => {
+    test('should create and update a task', async ({ request }) => {
+      const tasksApi = new TasksApi(request);
+
+      const created = await tasksApi.createTask({
+        title: 'Write wrapper tests',
+        status: 'pending',
+        priority: 'high',
+        projectId: 1,
+        assignedTo: 1,
+      });
+      expect(created.title).toBe('Write wrapper tests');
+
+      const updated = await tasksApi.updateTask(created.id, { status: 'completed' });
+      expect(updated.status).toBe('completed');
+
+      const completed = await tasksApi.getTasks({ status: 'completed', projectId: 1 });
+      expect(completed.map(task => task.id)).toContain(created.id);
+    });
+  });
+
+  test.describe('NotificationsApi', () => {
+    test('should only return notifications of the logged in user', async ({ request }) => {
+      const notificationsApi = new NotificationsApi(request);
+
+      const notifications = await notificationsApi.getNotifications();
+      expect(notifications.length).toBeGreaterThan(0);
+      notifications.forEach(notification => expect(notification.userId).toBe(1));
+    });
+
+    test('should mark a notification as read', async ({ request }) => {
+      const notificationsApi = new NotificationsApi(request);
+
+      const [first] = await notificationsApi.getNotifications();
+      await notificationsApi.markAsRead(first.id);
+
+      const unread = await notificationsApi.getUnreadNotifications();
+      expect(unread.map(notification => notification.id)).not.toContain(first.id);
+    });
+  });
+
+  test.describe('ReportsApi and AnalyticsApi', () => {
+    test('should return typed reports', async ({ request }) => {
+      const reportsApi = new ReportsApi(request);
+
+      const [progress] = await reportsApi.getReportsByType('progress');
+      expect(progress.data.teamProductivity).toEqual(expect.any(Number));
+    });
+
+    test('should return dashboard analytics consistent with projects', async ({ request }) => {
+      const analyticsApi = new AnalyticsApi(request);
+      const projectsApi = new ProjectsApi(request);
+
+      const analytics = await analyticsApi.getDashboardAnalytics();
+      const projects = await projectsApi.getProjects();
+
+      expect(analytics.totalProjects).toBe(projects.length);
+      expect(analytics.activeProjects).toBe(projects.filter(p => p.status === 'active').length);
+    });
+  });
+
+  test.describe('SettingsApi', () => {
+    test('should update user preferences', async ({ request }) => {
+      const settingsApi = new SettingsApi(request);
+
+      const preferences = await settingsApi.updatePreferences({ theme: 'dark' });
+      expect(preferences.theme).toBe('dark');
+
+      const settings = await settingsApi.getSettings();
+      expect(settings.userPreferences.theme).toBe('dark');
+      expect(settings.systemSettings.sessionTimeout).toEqual(expect.any(Number));
+    });
+  });
+
+  test.describe('SearchApi', () => {
+    test('should search across users, projects and tasks', async ({ request }) => {
+      const searchApi = new SearchApi(request);
+
+      const results = await searchApi.search('john');
+      expect(results.users.map(user => user.email)).toContain('john.doe@example.com');
+      results.users.forEach(user => expect(user).not.toHaveProperty('password'));
+    });
+
+    test('should restrict search to a single type', async ({ request }) => {
+      const searchApi = new SearchApi(request);
+
+      const results = await searchApi.search('infrastructure', 'tasks');
+      expect(results.tasks.length).toBeGreaterThan(0);
+      expect(results.users).toHaveLength(0);
+      expect(results.projects).toHaveLength(0);
+    });
+  });
+});
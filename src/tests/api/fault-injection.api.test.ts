@@ -0,0 +1,130 @@
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ApiHttpError,
+  ApiValidationError,
+  FAULT_SCOPE_HEADER,
+  FaultInjectionApi,
+  ProjectsApi,
+  SettingsApi,
+  TestApiWrapper,
+} from '../../wrappers/api';
+
+/**
+ * Server-side faults of the enhanced test-app, injected through /api/admin/faults
+ * The serverFaults fixture scopes the faults to the test and removes them after it; wrappers
+ * under test run without retries unless a test is about recovering from the fault
+ */
+
+test.describe('Fault Injection API Tests', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  test.beforeEach(async ({ request }) => {
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test('should add latency to matching requests only', async ({ request, serverFaults }) => {
+    const projectsApi = new ProjectsApi(request);
+    await serverFaults.injectLatency('/api/projects', 600, { method: 'GET' });
+
+    let startedAt = Date.now();
+    await projectsApi.getProjectById(1);
+    expect(Date.now() - startedAt).toBeLessThan(600);
+
+    startedAt = Date.now();
+    await projectsApi.getProjects();
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(600);
+  });
+
+  test('should answer with the injected error status', async ({ request, serverFaults }) => {
+    await serverFaults.injectError('/api/users/:id', 500, { method: 'GET', message: 'Database unavailable' });
+
+    const error = await new TestApiWrapper(request, { retries: 0 })
+      .getUserById(1)
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiHttpError);
+    expect(error.response.status).toBe(500);
+    expect(error.response.body).toEqual({ success: false, message: 'Database unavailable' });
+    expect(error.response.headers['x-injected-fault']).toBeDefined();
+  });
+
+  test('should only fail every nth matching request', async ({ request, serverFaults }) => {
+    const settingsApi = new SettingsApi(request, { retries: 0 });
+    const fault = await serverFaults.injectError('/api/settings', 503, { every: 2 });
+
+    const outcomes: string[] = [];
+    for (let call = 0; call < 4; call++) {
+      outcomes.push(await settingsApi.getSettings().then(() => 'ok', (error: ApiHttpError) => String(error.response?.status)));
+    }
+
+    expect(outcomes).toEqual(['ok', '503', 'ok', '503']);
+    expect(await serverFaults.getFaults()).toEqual([{ ...fault, matched: 4, injected: 2 }]);
+  });
+
+  test('should fail to parse a malformed JSON body', async ({ request, serverFaults }) => {
+    await serverFaults.injectMalformedJson('/api/settings');
+
+    const error = await new SettingsApi(request)
+      .getSettings()
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.message).toContain('Response body is not valid JSON');
+  });
+
+  test('should drop connections and recover once the fault expires', async ({ request, serverFaults }) => {
+    await serverFaults.dropConnections('/api/projects/:id', { times: 1 });
+
+    await expect(new ProjectsApi(request, { retries: 0 }).getProjectById(1)).rejects.toThrow(/socket hang up|ECONNRESET/);
+    expect((await new ProjectsApi(request, { retries: 0 }).getProjectById(1)).id).toBe(1);
+    expect(await serverFaults.getFaults()).toEqual([]);
+  });
+
+  test('should retry dropped connections of idempotent calls', async ({ request, serverFaults, apiJournal }) => {
+    await serverFaults.dropConnections('/api/projects/:id', { method: 'GET', times: 2 });
+
+    const project = await new ProjectsApi(request).getProjectById(1);
+
+    expect(project.id).toBe(1);
+    expect(apiJournal.entries.find(entry => entry.url.endsWith('/api/projects/1'))?.attempts).toBe(3);
+  });
+
+  test('should keep faults to the scope of the test that injected them', async ({ request, serverFaults, playwright, baseURL }) => {
+    await serverFaults.injectError('/api/settings', 503);
+    const otherTest = await playwright.request.newContext({ baseURL, extraHTTPHeaders: { [FAULT_SCOPE_HEADER]: 'another-test' } });
+
+    try {
+      expect((await otherTest.get('/api/settings')).headers()['x-injected-fault']).toBeUndefined();
+      expect(await new FaultInjectionApi(otherTest).getFaults()).toEqual([]);
+      expect(await new FaultInjectionApi(otherTest).clearFaults()).toBe(0);
+    } finally {
+      await otherTest.dispose();
+    }
+    expect((await request.get('/api/settings')).status()).toBe(503);
+    expect(await serverFaults.getFaults()).toHaveLength(1);
+  });
+
+  test('should only send the fault scope to the test-app', async ({ request, serverFaults, baseURL }) => {
+    await serverFaults.injectError('/api/settings', 503);
+    // The same server under another host name counts as a host other than the test-app
+    const otherHost = new URL('/api/settings', baseURL);
+    otherHost.hostname = otherHost.hostname === '127.0.0.1' ? 'localhost' : '127.0.0.1';
+
+    expect((await request.get('/api/settings')).status()).toBe(503);
+    expect((await request.get(otherHost.toString())).headers()['x-injected-fault']).toBeUndefined();
+  });
+
+  test('should list, remove and clear faults', async ({ request, serverFaults }) => {
+    const latency = await serverFaults.injectLatency('/api/**', 100);
+    const error = await serverFaults.injectError('/api/tasks', 502, { method: 'post', times: 3 });
+    expect(error).toMatchObject({ path: '/api/tasks', method: 'POST', type: 'error', status: 502, every: 1, times: 3, matched: 0 });
+
+    await serverFaults.removeFault(latency.id);
+    expect((await serverFaults.getFaults()).map(fault => fault.id)).toEqual([error.id]);
+    expect(await serverFaults.clearFaults()).toBe(1);
+
+    const invalid = await request.post('/api/admin/faults', { data: { path: '/api/tasks', type: 'error' } });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).message).toBe('error faults need a status between 400 and 599');
+  });
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { ApiGraphQLError, TestApiWrapper, TestAppGraphQLApi } from '../../wrappers/api';
+
+/**
+ * GraphQL API tests against the enhanced server's /graphql endpoint
+ * Runs as John Doe (user 1), who is a member of project 1
+ */
+
+test.describe('GraphQL API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test('should query a project with owner and members through shared fragments', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+
+    const project = await graphql.getProject(1);
+
+    expect(project).toMatchObject({ id: '1', name: 'E-commerce Platform' });
+    expect(project?.members.map(member => member.id)).toEqual(['1', '2']);
+    expect(project?.owner).toEqual(expect.objectContaining({ id: expect.any(String), email: expect.any(String) }));
+  });
+
+  test('should filter projects by status', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+
+    const projects = await graphql.getProjects('active');
+
+    expect(projects.length).toBeGreaterThan(0);
+    projects.forEach(project => expect(project.status).toBe('active'));
+  });
+
+  test('should raise typed errors with the partial data', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+
+    const error = await graphql.getUser(99).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiGraphQLError);
+    expect(error.operationName).toBe('GetUser');
+    expect(error.codes).toEqual(['NOT_FOUND']);
+    expect(error.errors[0].path).toEqual(['user']);
+    expect(error.data).toEqual({ user: null });
+  });
+
+  test('should reject invalid input with BAD_USER_INPUT', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+
+    const error = await graphql.createProject({ name: '  ' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiGraphQLError);
+    expect(error.codes).toEqual(['BAD_USER_INPUT']);
+  });
+
+  test('should create a project and change its status', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+
+    const created = await graphql.createProject({ name: 'GraphQL Gateway', priority: 'high', tags: ['api'] });
+    const updated = await graphql.updateProjectStatus(created.id, 'active');
+
+    expect(created).toMatchObject({ name: 'GraphQL Gateway', status: 'planning', priority: 'high', progress: 0 });
+    expect(created.owner?.id).toBe('1');
+    expect(updated).toMatchObject({ id: created.id, status: 'active' });
+    expect((await graphql.getUser(1))?.projects.map(project => project.name)).toContain('GraphQL Gateway');
+  });
+
+  test('should reject variables that are not an object without taking the server down', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+    const { token } = await graphql.authenticate();
+
+    const response = await request.post('/graphql', {
+      headers: { Authorization: `Bearer ${token}` },
+      data: { query: 'query GetUser($id: ID!) { user(id: $id) { name } }', variables: 'x' },
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).errors[0]).toMatchObject({
+      message: 'Variables must be provided as an object.',
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+    expect((await graphql.getUser(1))?.name).toBe('John Doe');
+  });
+
+  test('should log in again when the token is rejected', async ({ request }) => {
+    const graphql = new TestAppGraphQLApi(request);
+    const session = await graphql.authenticate();
+    graphql.useSession({ ...session, token: 'mock_token_999_0' });
+
+    const users = await graphql.getUsers();
+
+    expect(users.map(user => user.name)).toContain('John Doe');
+    expect(graphql.getSession()?.token).not.toBe('mock_token_999_0');
+  });
+});
@@ -0,0 +1,53 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { TestDataManager } from '../../utils/test-data';
+import { TestApiWrapper, formatLoadReport, loadThresholdViolations, runLoad } from '../../wrappers/api';
+
+/**
+ * Load test of the local test-app through the users wrapper
+ * A short smoke run by default; scale it with API_LOAD_USERS and API_LOAD_DURATION (ms)
+ * Every virtual user deletes the users it creates, so the data other tests see is unchanged
+ */
+
+const virtualUsers = Number(process.env.API_LOAD_USERS || 5);
+const duration = Number(process.env.API_LOAD_DURATION || 4000);
+
+test.describe('Load Tests', () => {
+  test('should serve logins, listings and sign-ups to concurrent users within budget', async ({ request }) => {
+    test.setTimeout(duration + 30000);
+    const regularUser = TestDataManager.getInstance().getUser('regular');
+
+    const report = await runLoad({
+      name: 'users',
+      virtualUsers,
+      rampUp: Math.min(1000, duration / 4),
+      duration,
+      thinkTime: { min: 50, max: 150 },
+      setUp: async () => new TestApiWrapper(request, { retries: 0 }),
+      iteration: async (user, apiWrapper) => {
+        await user.step('loginUser', () => apiWrapper.loginUser(regularUser.email, regularUser.password));
+        await user.step('getUsers', () => apiWrapper.getUsers());
+
+        const suffix = `${user.id}x${user.iteration}x${Date.now()}`;
+        const created = await user.step('createUser', () =>
+          apiWrapper.createUser({
+            name: `Load User ${suffix}`,
+            email: `load.${suffix}@example.com`,
+            username: `load${suffix}`,
+            password: 'LoadPass123!',
+          })
+        );
+        await user.step('deleteUser', () => apiWrapper.deleteUser(created.id));
+      },
+    });
+
+    expect(report.iterations).toBeGreaterThan(0);
+    expect(
+      loadThresholdViolations(report, {
+        maxErrorRate: 0,
+        p95: 1000,
+        steps: { getUsers: { p99: 2000 }, createUser: { p99: 2000 } },
+      }),
+      formatLoadReport(report)
+    ).toEqual([]);
+  });
+});
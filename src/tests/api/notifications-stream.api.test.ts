@@ -0,0 +1,125 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { TestDataManager } from '../../utils/test-data';
+import {
+  Activity,
+  Notification,
+  NotificationsApi,
+  ProjectsApi,
+  StreamMessage,
+  TestApiWrapper,
+  WebSocketClient,
+} from '../../wrappers/api';
+
+/**
+ * Live notification stream of the enhanced server, over Server-Sent Events and WebSocket
+ * Other tests may create projects and tasks at the same time, so activities are matched by name
+ */
+
+const titles = (messages: StreamMessage<unknown>[]) => messages.map(message => (message.data as Notification).title);
+
+test.describe('Notification Stream API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test('should push new notifications in the order they were created', async ({ request }) => {
+    const notificationsApi = new NotificationsApi(request);
+    const stream = await notificationsApi.streamNotifications();
+
+    try {
+      for (const title of ['First', 'Second', 'Third']) {
+        await notificationsApi.createNotification({ title, message: `${title} live notification` });
+      }
+
+      const received = await stream.waitForCount(3, 'notification');
+      expect(titles(received)).toEqual(['First', 'Second', 'Third']);
+      expect(received.map(message => Number(message.id))).toEqual(
+        [...received.map(message => Number(message.id))].sort((a, b) => a - b)
+      );
+      expect((received[0].data as Notification).read).toBe(false);
+    } finally {
+      stream.close();
+    }
+  });
+
+  test('should only push notifications to their recipient', async ({ request }) => {
+    const adminUser = TestDataManager.getInstance().getUser('admin');
+    const notificationsApi = new NotificationsApi(request);
+    const adminStream = await notificationsApi.as({ email: adminUser.email, password: adminUser.password }).streamNotifications();
+    const userStream = await notificationsApi.streamNotifications();
+
+    try {
+      const forAdmin = await notificationsApi.createNotification({ title: 'For the admin', message: 'Admins only', userId: 3 });
+      await notificationsApi.createNotification({ title: 'For me', message: 'Regular user' });
+
+      expect(titles([await userStream.waitFor('notification')])).toEqual(['For me']);
+      const adminMessage = await adminStream.waitFor('notification');
+      expect(adminMessage.data).toEqual(forAdmin);
+    } finally {
+      adminStream.close();
+      userStream.close();
+    }
+  });
+
+  test('should resume after the last event when the server drops the stream', async ({ request }) => {
+    const notificationsApi = new NotificationsApi(request);
+    const stream = await notificationsApi.streamNotifications();
+
+    try {
+      await notificationsApi.createNotification({ title: 'Before', message: 'Sent while connected' });
+      await stream.waitFor('notification');
+
+      expect(await notificationsApi.disconnectStreams()).toBe(1);
+      await notificationsApi.createNotification({ title: 'While away', message: 'Sent while reconnecting' });
+
+      await stream.waitForCount(2, 'notification', { timeout: 5000 });
+      expect(stream.connections).toBe(2);
+      expect(titles(stream.received('notification'))).toEqual(['Before', 'While away']);
+    } finally {
+      stream.close();
+    }
+  });
+
+  test('should replay missed events to a client that reconnects itself', async ({ request }) => {
+    const notificationsApi = new NotificationsApi(request);
+    const stream = await notificationsApi.streamNotifications({ reconnect: false });
+    await notificationsApi.createNotification({ title: 'Seen', message: 'Received before dropping' });
+    await stream.waitFor('notification');
+    stream.close();
+
+    await notificationsApi.createNotification({ title: 'Missed', message: 'Created while offline' });
+    const resumed = await notificationsApi.streamNotifications({ lastEventId: stream.lastEventId });
+
+    try {
+      expect(titles([await resumed.waitFor('notification')])).toEqual(['Missed']);
+    } finally {
+      resumed.close();
+    }
+  });
+
+  test('should push activities and answer pings over WebSocket', async ({ request }) => {
+    const socket = await new NotificationsApi(request).connectNotifications();
+
+    try {
+      const project = await new ProjectsApi(request).createProject({ name: `Streamed Project ${Date.now()}` });
+      const activity = await socket.waitFor(
+        message => message.event === 'activity' && (message.data as Activity).subject.name === project.name
+      );
+      expect(activity.data).toMatchObject({ action: 'created', user: { id: 1 }, subject: { type: 'project', id: project.id } });
+
+      socket.send({ type: 'ping', data: 'are you there?' });
+      expect((await socket.waitFor('pong')).data).toBe('are you there?');
+      expect(socket.messages.filter(message => message.direction === 'sent').map(message => message.event)).toEqual(['ping']);
+    } finally {
+      await socket.close();
+    }
+  });
+
+  test('should reject stream connections without a token', async ({ request }) => {
+    const baseURL = test.info().project.use.baseURL || 'http://localhost:3000';
+
+    await expect(WebSocketClient.open(`${baseURL.replace(/^http/, 'ws')}/ws/notifications`)).rejects.toThrow(/401/);
+    const response = await request.get('/api/notifications/stream');
+    expect(response.status()).toBe(401);
+  });
+});
@@ -0,0 +1,143 @@
+import * as path from 'path';
+import { test, expect } from '../../utils/api-fixtures';
+import * as api from '../../wrappers/api';
+import {
+  BaseApiWrapper,
+  BaseGraphQLWrapper,
+  TestAppApiWrapper,
+  WrapperClass,
+  checkWrapperContract,
+  formatContractViolations,
+  loadOpenApiDocument,
+} from '../../wrappers/api';
+
+/**
+ * Contract tests: every API wrapper method against test-app/openapi.json
+ * Each wrapper exported from wrappers/api must either have a sample call for every method
+ * below or be listed as out of scope, so new wrappers and methods cannot skip the check
+ */
+
+const OUT_OF_SCOPE: Record<string, string> = {
+  ExampleApiWrapper: 'targets the external JSONPlaceholder API, not the test-app',
+  TestAppGraphQLApi: 'speaks GraphQL, covered by graphql.api.test.ts',
+};
+
+/** Methods that open streams instead of making calls, by wrapper */
+const OUT_OF_SCOPE_METHODS: Record<string, Record<string, string>> = {
+  NotificationsApi: {
+    streamNotifications: 'Server-Sent Events, covered by notifications-stream.api.test.ts',
+    connectNotifications: 'WebSocket, covered by notifications-stream.api.test.ts',
+  },
+};
+
+function contractSamples(outputDir: string): Record<string, Record<string, unknown[]>> {
+  const newUser = { name: 'Contract User', email: 'contract.user@example.com', username: 'contractuser', password: 'Secret123!' };
+
+  return {
+    TestApiWrapper: {
+      getUsers: [],
+      getUsersPage: [{ page: 1, pageSize: 5, sort: '-name', filter: { role: 'admin' } }],
+      iterateUsers: [{ pageSize: 2 }],
+      getUserById: [1],
+      createUser: [newUser],
+      updateUser: [1, { name: 'Jane Doe' }],
+      deleteUser: [4],
+      searchUsers: ['john'],
+      uploadAvatar: [1, 'avatar.png', 'Contract avatar'],
+      uploadAvatarBytes: [1, Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png'],
+      downloadAvatar: [1],
+      saveAvatar: [1, path.join(outputDir, 'avatar.png')],
+      loginUser: ['john.doe@example.com', 'SecurePass123!'],
+      healthCheck: [],
+      resetData: [],
+    },
+    ProjectsApi: {
+      getProjects: [{ status: 'active', priority: 'high', search: 'platform', sort: ['priority', '-budget'] }],
+      getProjectsPage: [{ page: 2, pageSize: 5, filter: { status: ['active', 'planning'] } }],
+      iterateProjects: [{ pageSize: 2, filter: { tags: 'api' } }],
+      getProjectById: [1],
+      createProject: [{ name: 'Contract Project', priority: 'low', tags: ['contract'] }],
+      updateProject: [1, { status: 'completed', progress: 100 }],
+      deleteProject: [1],
+    },
+    TasksApi: {
+      getTasks: [{ status: 'pending', projectId: 1, assignedTo: 2 }],
+      getTasksPage: [{ page: 1, pageSize: 10, sort: 'dueDate' }],
+      iterateTasks: [{ filter: { priority: 'high' } }],
+      createTask: [{ title: 'Contract Task', projectId: 1, estimatedHours: 3 }],
+      updateTask: [1, { status: 'completed', actualHours: 4 }],
+    },
+    NotificationsApi: {
+      getNotifications: [{ sort: '-createdAt' }],
+      getNotificationsPage: [{ page: 1, pageSize: 2 }],
+      iterateNotifications: [{ pageSize: 1 }],
+      getUnreadNotifications: [],
+      markAsRead: [1],
+      createNotification: [{ title: 'Contract notification', message: 'Sent by the contract test', type: 'info' }],
+      disconnectStreams: [],
+    },
+    ReportsApi: {
+      getReports: [],
+      getReportsByType: ['progress'],
+    },
+    AnalyticsApi: {
+      getDashboardAnalytics: [],
+    },
+    SettingsApi: {
+      getSettings: [],
+      updatePreferences: [{ theme: 'dark', notifications: false }],
+    },
+    SearchApi: {
+      search: ['platform', 'projects'],
+    },
+    FaultInjectionApi: {
+      injectFault: [{ path: '/api/users/:id', method: 'GET', type: 'error', status: 503, every: 2, times: 4 }],
+      injectLatency: ['/api/projects', 300],
+      injectError: ['/api/tasks', 500, { message: 'Database unavailable' }],
+      injectMalformedJson: ['/api/settings', { status: 200 }],
+      dropConnections: ['/api/**', { method: 'POST', times: 1 }],
+      getFaults: [],
+      removeFault: [1],
+      removeInjectedFaults: [],
+      clearFaults: [],
+    },
+  };
+}
+
+/** Abstract bases: their methods are helpers, checked through the wrappers that use them */
+const SHARED_BASES: unknown[] = [TestAppApiWrapper, BaseGraphQLWrapper];
+
+const document = loadOpenApiDocument();
+
+const wrapperClasses = (Object.values(api) as unknown[]).filter(
+  (value): value is WrapperClass => typeof value === 'function' && value.prototype instanceof BaseApiWrapper
+);
+
+test.describe('OpenAPI Contract Tests', () => {
+  test('should serve the same document the contract is checked against', async ({ request }) => {
+    const response = await request.get('/api/openapi.json');
+
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual(document);
+  });
+
+  for (const wrapperClass of wrapperClasses) {
+    test(`should keep ${wrapperClass.name} in line with the OpenAPI document`, async () => {
+      test.skip(
+        !!OUT_OF_SCOPE[wrapperClass.name] || SHARED_BASES.includes(wrapperClass),
+        OUT_OF_SCOPE[wrapperClass.name] || 'shared base class'
+      );
+      const samples = contractSamples(test.info().outputDir)[wrapperClass.name];
+      expect(samples, `${wrapperClass.name} has no contract samples; add them or list it as out of scope`).toBeDefined();
+
+      const violations = await checkWrapperContract(wrapperClass, {
+        document,
+        samples,
+        skip: OUT_OF_SCOPE_METHODS[wrapperClass.name],
+        stopAt: [TestAppApiWrapper],
+      });
+
+      expect(violations, formatContractViolations(violations)).toEqual([]);
+    });
+  }
+});
@@ -0,0 +1,46 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { TestDataManager } from '../../utils/test-data';
+import { TestApiWrapper, formatPactVerification, loadPacts, pactModeFromEnv, verifyPact } from '../../wrappers/api';
+
+/**
+ * Provider verification: replays the consumer contracts recorded with API_PACT_MODE=record
+ * against the test-app (or API_PACT_PROVIDER_URL) when API_PACT_MODE=verify
+ * Each provider state starts from freshly reset data; authenticated interactions log in
+ * as the recorded test user
+ */
+
+const verifying = pactModeFromEnv() === 'verify';
+const pacts = verifying ? loadPacts().filter(pact => pact.provider.name === 'test-app') : [];
+
+test.describe('Consumer Contract Verification', () => {
+  test.skip(!verifying, 'set API_PACT_MODE=verify to replay recorded consumer contracts');
+
+  test('should honour every consumer contract of the test-app', async ({ request }, testInfo) => {
+    expect(pacts.length, 'no pacts found, record them first with API_PACT_MODE=record').toBeGreaterThan(0);
+    const baseURL = process.env.API_PACT_PROVIDER_URL || testInfo.project.use.baseURL || 'http://localhost:3000';
+    const provider = new TestApiWrapper(request, { baseURL });
+
+    const results = await verifyPact(request, pacts, {
+      baseURL,
+      setUp: async () => {
+        await provider.resetData();
+      },
+      authenticate: async identity => {
+        const user = identity
+          ? TestDataManager.getInstance().getAllUsers().find(candidate => candidate.email === identity)
+          : TestDataManager.getInstance().getUser('regular');
+        if (!user) {
+          throw new Error(`No test credentials for ${identity}`);
+        }
+        const session = await provider.authenticate({ email: user.email, password: user.password });
+        return { Authorization: `${session.scheme || 'Bearer'} ${session.token}` };
+      },
+    });
+
+    await testInfo.attach('pact-verification', {
+      body: JSON.stringify(results, null, 2),
+      contentType: 'application/json',
+    });
+    expect(results.filter(result => result.problems.length > 0), formatPactVerification(results)).toEqual([]);
+  });
+});
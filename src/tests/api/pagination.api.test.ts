@@ -0,0 +1,128 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { ApiHttpError, NotificationsApi, ProjectsApi, TasksApi, TestApiWrapper } from '../../wrappers/api';
+
+/**
+ * Page, sort and filter conventions of the enhanced server list endpoints
+ */
+
+test.describe('Pagination API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test('should return one page with its page info', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+
+    const first = await apiWrapper.getUsersPage({ page: 1, pageSize: 3, sort: 'id' });
+    expect(first.items.map(user => user.id)).toEqual([1, 2, 3]);
+    expect(first).toMatchObject({ page: 1, pageSize: 3, total: 4, totalPages: 2 });
+
+    const second = await apiWrapper.getUsersPage({ page: 2, pageSize: 3, sort: 'id' });
+    expect(second.items.map(user => user.id)).toEqual([4]);
+
+    const beyond = await apiWrapper.getUsersPage({ page: 3, pageSize: 3 });
+    expect(beyond.items).toEqual([]);
+  });
+
+  test('should return the whole list as one page without page params', async ({ request }) => {
+    const page = await new ProjectsApi(request).getProjectsPage();
+
+    expect(page.items).toHaveLength(page.total);
+    expect(page).toMatchObject({ page: 1, totalPages: 1 });
+  });
+
+  test('should sort ascending and descending on several fields', async ({ request }) => {
+    const projectsApi = new ProjectsApi(request);
+
+    const byName = await projectsApi.getProjects({ sort: 'name' });
+    expect(byName.map(project => project.name)).toEqual(byName.map(project => project.name).sort());
+
+    const byBudget = await projectsApi.getProjects({ sort: ['priority', '-budget'] });
+    for (let i = 1; i < byBudget.length; i++) {
+      const [previous, current] = [byBudget[i - 1], byBudget[i]];
+      expect(previous.priority.localeCompare(current.priority)).toBeLessThanOrEqual(0);
+      if (previous.priority === current.priority) {
+        expect(previous.budget).toBeGreaterThanOrEqual(current.budget);
+      }
+    }
+  });
+
+  test('should filter by exact value, any of several values and substring', async ({ request }) => {
+    const projectsApi = new ProjectsApi(request);
+
+    const active = await projectsApi.getProjects({ filter: { status: 'active' } });
+    expect(active.length).toBeGreaterThan(0);
+    active.forEach(project => expect(project.status).toBe('active'));
+
+    const open = await projectsApi.getProjects({ filter: { status: ['active', 'planning'] } });
+    open.forEach(project => expect(['active', 'planning']).toContain(project.status));
+    expect(open.length).toBeGreaterThanOrEqual(active.length);
+
+    const matching = await projectsApi.getProjects({ filter: { name: '~COMMERCE' } });
+    expect(matching.map(project => project.name)).toEqual(['E-commerce Platform']);
+  });
+
+  test('should combine filters with the endpoint specific query params', async ({ request }) => {
+    const tasksApi = new TasksApi(request);
+    const all = await tasksApi.getTasks();
+    const { projectId } = all.find(task => task.projectId !== null)!;
+
+    const tasks = await tasksApi.getTasks({ projectId: projectId!, sort: '-id', pageSize: 1, page: 1 });
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].projectId).toBe(projectId);
+  });
+
+  test('should iterate every page lazily', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+    const fetched: number[] = [];
+
+    for await (const user of apiWrapper.iterateUsers({ pageSize: 1, sort: '-id' })) {
+      fetched.push(user.id);
+    }
+
+    expect(fetched).toEqual([4, 3, 2, 1]);
+  });
+
+  test('should stop iterating once the caller breaks out', async ({ request, apiJournal }) => {
+    const projectsApi = new ProjectsApi(request);
+
+    for await (const project of projectsApi.iterateProjects({ pageSize: 1 })) {
+      expect(project.id).toBeDefined();
+      break;
+    }
+
+    expect(apiJournal.entries.filter(entry => entry.url.includes('/api/projects'))).toHaveLength(1);
+  });
+
+  test('should filter notifications on the server', async ({ request }) => {
+    const notificationsApi = new NotificationsApi(request);
+
+    const unread = await notificationsApi.getUnreadNotifications();
+    const all = await notificationsApi.getNotifications();
+
+    expect(unread).toEqual(all.filter(notification => !notification.read));
+  });
+
+  test('should search users on the server', async ({ request, apiJournal }) => {
+    const users = await new TestApiWrapper(request).searchUsers('jane');
+
+    expect(users.map(user => user.name)).toEqual(['Jane Smith']);
+    expect(apiJournal.entries.at(-1)?.url).toContain('filter%5Bname%5D=%7Ejane');
+  });
+
+  test('should reject invalid list queries', async ({ request }) => {
+    const projectsApi = new ProjectsApi(request);
+
+    const invalidPage = await projectsApi.getProjectsPage({ page: 0 }).catch(error => error);
+    expect(invalidPage).toBeInstanceOf(ApiHttpError);
+    expect(invalidPage.status).toBe(400);
+    expect(invalidPage.message).toContain('page must be a positive integer');
+
+    await expect(projectsApi.getProjectsPage({ pageSize: 500 })).rejects.toThrow('pageSize must not exceed 100');
+    await expect(projectsApi.getProjects({ sort: 'owner' as 'name' })).rejects.toThrow('Unknown sort field: owner');
+    await expect(projectsApi.getProjects({ filter: { owner: 1 } as object })).rejects.toThrow(
+      'Unknown filter field: owner'
+    );
+  });
+});
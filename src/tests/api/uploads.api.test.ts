@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import { test, expect } from '../../utils/api-fixtures';
+import { ApiHttpError, TestApiWrapper, fileFromPath, fileStream, resolveTestFile } from '../../wrappers/api';
+
+/**
+ * Avatar uploads and downloads against the enhanced server
+ * Runs as John Doe (user 1); avatar.png lives in src/tests/fixtures
+ */
+
+class FormLoginApi extends TestApiWrapper {
+  async loginWithForm(email: string, password: string): Promise<number> {
+    const response = await this.post('/api/login', { form: { email, password }, auth: false });
+    return response.status();
+  }
+
+  async uploadAvatarStream(userId: number, filePath: string): Promise<number> {
+    const response = await this.post(`/api/users/${userId}/avatar`, { multipart: { avatar: fileStream(filePath) } });
+    return response.status();
+  }
+}
+
+test.describe('Upload API Tests', () => {
+  test.beforeEach(async ({ request }) => {
+    await new TestApiWrapper(request).resetData();
+  });
+
+  test('should upload an avatar from the fixtures folder and download it again', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+    const original = fs.readFileSync(resolveTestFile('avatar.png'));
+
+    const avatar = await apiWrapper.uploadAvatar(1, 'avatar.png', 'John in 1x1');
+
+    expect(avatar).toEqual({
+      url: '/api/users/1/avatar',
+      filename: 'avatar.png',
+      mimeType: 'image/png',
+      size: original.length,
+      alt: 'John in 1x1',
+    });
+    expect(await apiWrapper.downloadAvatar(1)).toEqual(original);
+    expect((await apiWrapper.getUserById(1)) as object).toMatchObject({ avatar: '/api/users/1/avatar' });
+  });
+
+  test('should save a downloaded avatar to disk', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+    await apiWrapper.uploadAvatar(1, fileFromPath('avatar.png'));
+
+    const saved = await apiWrapper.saveAvatar(1, test.info().outputPath('avatars', 'john.png'));
+
+    expect(fs.readFileSync(saved)).toEqual(fs.readFileSync(resolveTestFile('avatar.png')));
+  });
+
+  test('should upload raw image bytes', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+    const bytes = fs.readFileSync(resolveTestFile('avatar.png'));
+
+    const avatar = await apiWrapper.uploadAvatarBytes(1, bytes, 'image/png');
+
+    expect(avatar.size).toBe(bytes.length);
+    expect(await apiWrapper.downloadAvatar(1)).toEqual(bytes);
+  });
+
+  test('should stream a file into a multipart upload', async ({ request }) => {
+    const apiWrapper = new FormLoginApi(request);
+
+    expect(await apiWrapper.uploadAvatarStream(1, 'avatar.png')).toBe(201);
+    expect(await apiWrapper.downloadAvatar(1)).toEqual(fs.readFileSync(resolveTestFile('avatar.png')));
+  });
+
+  test('should send url-encoded forms', async ({ request }) => {
+    const apiWrapper = new FormLoginApi(request);
+
+    expect(await apiWrapper.loginWithForm('john.doe@example.com', 'SecurePass123!')).toBe(200);
+    expect(await apiWrapper.loginWithForm('john.doe@example.com', 'wrong')).toBe(401);
+  });
+
+  test('should reject unsupported files and other users avatars', async ({ request }) => {
+    const apiWrapper = new TestApiWrapper(request);
+
+    const unsupported = await apiWrapper
+      .uploadAvatar(1, { name: 'notes.txt', mimeType: 'text/plain', buffer: Buffer.from('not an image') })
+      .catch(error => error);
+    expect(unsupported).toBeInstanceOf(ApiHttpError);
+    expect(unsupported.status).toBe(415);
+
+    await expect(apiWrapper.uploadAvatar(2, 'avatar.png')).rejects.toThrow('Expected status 201, got 403');
+    await expect(apiWrapper.downloadAvatar(2)).rejects.toThrow('Expected status 200, got 404');
+  });
+});
@@ -1,5 +1,5 @@
-import { test, expect } from '@playwright/test';
-import { TestApiWrapper, CreateTestUserRequest } from '../../wrappers/api';
+import { test, expect } from '../../utils/api-fixtures';
+import { TestApiWrapper, CreateTestUserRequest, ApiHttpError } from '../../wrappers/api';
 import { TestDataManager } from '../../utils';
 
 test.describe('Users API Tests', () => {
@@ -93,6 +93,9 @@ test.describe('Users API Tests', () => {
   test('should handle non-existent user', async () => {
     const nonExistentId = 99999;
     
-    await expect(apiWrapper.getUserById(nonExistentId)).rejects.toThrow();
+    const error = await apiWrapper.getUserById(nonExistentId).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiHttpError);
+    expect(error.status).toBe(404);
   });
 });
\ No newline at end of file
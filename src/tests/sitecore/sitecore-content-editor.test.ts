@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../utils/ui-fixtures';
 import { SitecoreLoginPage, SitecoreContentEditor } from '../../wrappers/ui';
 import { SitecoreAuthHelpers } from '../../utils/sitecore-auth';
 
@@ -32,8 +32,8 @@ test.describe('Sitecore Content Editor', () => {
     await contentEditor.navigate();
     
     // Verify Content Editor components are visible
-    await expect(contentEditor.contentTreePane).toBeVisible();
-    await expect(contentEditor.contentArea).toBeVisible();
+    await contentEditor.contentTreePane.expectVisible();
+    await contentEditor.contentArea.expectVisible();
     await expect(contentEditor.ribbon).toBeVisible();
     
     // Verify Content Editor is functional
@@ -154,7 +154,7 @@ test.describe('Sitecore Content Editor', () => {
       await page.waitForTimeout(2000);
       
       // Verify search results are displayed
-      await expect(contentEditor.searchResults).toBeVisible({ timeout: 10000 });
+      await contentEditor.searchResults.expectVisible(10000);
       
     } catch (error) {
       console.log(`⚠️ Search functionality not available: ${error.message}`);
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../utils/ui-fixtures';
 import { SitecoreLoginPage, SitecoreContentEditor } from '../../wrappers/ui';
 import { SitecoreAuthHelpers } from '../../utils/sitecore-auth';
 
@@ -1,836 +1,513 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../utils/ui-fixtures';
+import { NotificationsApi, ProjectsApi } from '../../wrappers/api';
+import { CreateProjectModal, CreateTaskModal, DASHBOARD_SECTIONS, DashboardPage } from '../../wrappers/ui';
 
 // Test server configuration
 const TEST_APP_URL = process.env.TEST_APP_URL || 'http://localhost:3000';
+const TEST_USER = { email: 'test@example.com', password: 'password123' };
+
+const tomorrow = () => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    return date.toISOString().split('T')[0];
+};
 
 test.describe('Dashboard Comprehensive UI Tests', () => {
+    let dashboard: DashboardPage;
+
     // Setup: Login before each test and navigate to dashboard
     test.beforeEach(async ({ page }) => {
-        await page.goto(TEST_APP_URL);
-        
-        // Login with test user
-        await page.fill('[data-testid="email-input"]', 'test@example.com');
-        await page.fill('[data-testid="password-input"]', 'password123');
-        await page.click('[data-testid="login-submit"]');
-        
-        // Wait for redirect to Sitecore Launchpad
-        await page.waitForURL('**/sitecore-launchpad');
-        
-        // Navigate to the old dashboard for these tests
-        await page.goto(`${TEST_APP_URL}/dashboard`);
-        await page.waitForSelector('[data-testid="overview-section"]');
+        dashboard = new DashboardPage(page, { baseURL: TEST_APP_URL });
+        await dashboard.login(TEST_USER.email, TEST_USER.password);
     });
 
     // Test 1: Dashboard Navigation and Sidebar
-    test('should navigate through all dashboard sections', async ({ page }) => {
-        // Test Overview section (default)
-        await expect(page.locator('[data-testid="overview-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-overview"]')).toHaveClass(/active/);
-
-        // Test Projects section
-        await page.click('[data-testid="nav-projects"]');
-        await expect(page.locator('[data-testid="projects-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-projects"]')).toHaveClass(/active/);
-
-        // Test Tasks section
-        await page.click('[data-testid="nav-tasks"]');
-        await expect(page.locator('[data-testid="tasks-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-tasks"]')).toHaveClass(/active/);
-
-        // Test Users section
-        await page.click('[data-testid="nav-users"]');
-        await expect(page.locator('[data-testid="users-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-users"]')).toHaveClass(/active/);
-
-        // Test Reports section
-        await page.click('[data-testid="nav-reports"]');
-        await expect(page.locator('[data-testid="reports-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-reports"]')).toHaveClass(/active/);
-
-        // Test Settings section
-        await page.click('[data-testid="nav-settings"]');
-        await expect(page.locator('[data-testid="settings-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-settings"]')).toHaveClass(/active/);
-
-        // Test Profile section
-        await page.click('[data-testid="nav-profile"]');
-        await expect(page.locator('[data-testid="profile-section"]')).toBeVisible();
-        await expect(page.locator('[data-testid="nav-profile"]')).toHaveClass(/active/);
+    test('should navigate through all dashboard sections', async () => {
+        // Overview section is the default
+        await dashboard.expectSection('overview');
+
+        for (const section of DASHBOARD_SECTIONS.slice(1)) {
+            await dashboard.openSection(section);
+            await dashboard.expectSection(section);
+        }
     });
 
     // Test 2: Sidebar Toggle Functionality
-    test('should toggle sidebar visibility', async ({ page }) => {
-        const sidebar = page.locator('#sidebar');
-        const menuToggle = page.locator('[data-testid="menu-toggle"]');
-
+    test('should toggle sidebar visibility', async () => {
         // Initial state - sidebar should be visible
-        await expect(sidebar).not.toHaveClass(/collapsed/);
+        await dashboard.sidebar.expectCollapsed(false);
 
-        // Click toggle to collapse
-        await menuToggle.click();
-        await expect(sidebar).toHaveClass(/collapsed/);
+        await dashboard.sidebar.toggle();
+        await dashboard.sidebar.expectCollapsed();
 
-        // Click toggle to expand
-        await menuToggle.click();
-        await expect(sidebar).not.toHaveClass(/collapsed/);
+        await dashboard.sidebar.toggle();
+        await dashboard.sidebar.expectCollapsed(false);
     });
 
     // Test 3: Dashboard Analytics Cards
-    test('should display dashboard analytics cards with data', async ({ page }) => {
-        await page.click('[data-testid="nav-overview"]');
-        
-        // Wait for analytics to load
-        await page.waitForTimeout(1000);
-
-        // Check all analytics cards are visible
-        await expect(page.locator('[data-testid="total-projects-card"]')).toBeVisible();
-        await expect(page.locator('[data-testid="active-tasks-card"]')).toBeVisible();
-        await expect(page.locator('[data-testid="team-members-card"]')).toBeVisible();
-        await expect(page.locator('[data-testid="budget-utilization-card"]')).toBeVisible();
+    test('should display dashboard analytics cards with data', async () => {
+        await dashboard.openSection('overview');
 
-        // Check values are numeric
-        const totalProjects = await page.textContent('[data-testid="total-projects-value"]');
-        expect(parseInt(totalProjects || '0')).toBeGreaterThanOrEqual(0);
-
-        const activeTasks = await page.textContent('[data-testid="active-tasks-value"]');
-        expect(parseInt(activeTasks || '0')).toBeGreaterThanOrEqual(0);
-
-        const teamMembers = await page.textContent('[data-testid="team-members-value"]');
-        expect(parseInt(teamMembers || '0')).toBeGreaterThanOrEqual(0);
+        expect(await dashboard.getCardValue('total-projects')).toBeGreaterThanOrEqual(0);
+        expect(await dashboard.getCardValue('active-tasks')).toBeGreaterThanOrEqual(0);
+        expect(await dashboard.getCardValue('team-members')).toBeGreaterThanOrEqual(0);
+        expect(await dashboard.getCardValue('budget-utilization')).toBeGreaterThanOrEqual(0);
     });
 
     // Test 4: Global Search Functionality
-    test('should perform global search', async ({ page }) => {
-        const searchInput = page.locator('[data-testid="global-search"]');
-        
-        // Type in search input
-        await searchInput.fill('project');
-        
-        // Verify search input contains text
-        await expect(searchInput).toHaveValue('project');
-        
-        // Clear search
-        await searchInput.clear();
-        await expect(searchInput).toHaveValue('');
+    test('should perform global search', async () => {
+        await dashboard.search('project');
+        await dashboard.expectSearchValue('project');
+
+        await dashboard.clearSearch();
+        await dashboard.expectSearchValue('');
     });
 
     // Test 5: Notifications System
-    test('should display and interact with notifications', async ({ page }) => {
-        const notificationsBtn = page.locator('[data-testid="notifications-btn"]');
-        const notificationsDropdown = page.locator('[data-testid="notifications-dropdown"]');
-        const badge = page.locator('[data-testid="notification-badge"]');
-
-        // Click notifications button
-        await notificationsBtn.click();
-        
-        // Verify dropdown is visible
-        await expect(notificationsDropdown).toHaveClass(/show/);
-        
-        // Check badge exists
-        await expect(badge).toBeVisible();
-        
-        // Click outside to close
-        await page.click('body');
-        await expect(notificationsDropdown).not.toHaveClass(/show/);
+    test('should display and interact with notifications', async () => {
+        await dashboard.notifications.open();
+        expect(await dashboard.notifications.getBadgeCount()).toBeGreaterThanOrEqual(0);
+
+        // Clicking outside closes the dropdown
+        await dashboard.notifications.close();
     });
 
     // Test 6: User Menu and Logout
-    test('should display user menu and logout functionality', async ({ page }) => {
-        const userMenu = page.locator('[data-testid="user-menu"]');
-        const logoutBtn = page.locator('[data-testid="logout-btn"]');
-        const userAvatar = page.locator('[data-testid="user-avatar"]');
-        const userName = page.locator('[data-testid="current-user-name"]');
-
-        // Verify user menu components
-        await expect(userMenu).toBeVisible();
-        await expect(userAvatar).toBeVisible();
-        await expect(userName).toBeVisible();
-        await expect(logoutBtn).toBeVisible();
-
-        // Verify user name is displayed
-        const nameText = await userName.textContent();
-        expect(nameText).toBeTruthy();
-        expect(nameText?.length).toBeGreaterThan(0);
+    test('should display user menu and logout functionality', async () => {
+        expect(await dashboard.userMenu.isVisible()).toBe(true);
+        expect(await dashboard.userMenu.getUserName()).not.toBe('');
+        expect(await dashboard.userMenu.getInitials()).not.toBe('');
 
-        // Test logout (but don't actually logout to avoid affecting other tests)
-        await expect(logoutBtn).toBeEnabled();
+        // Don't actually logout to avoid affecting other tests
+        await dashboard.userMenu.expectLogoutAvailable();
     });
 
     // Test 7: Recent Projects Table
-    test('should display and interact with recent projects table', async ({ page }) => {
-        await page.click('[data-testid="nav-overview"]');
-        
-        const recentProjectsTable = page.locator('[data-testid="recent-projects-table"]');
-        const addProjectBtn = page.locator('[data-testid="add-project-btn"]');
-
-        // Verify table is visible
-        await expect(recentProjectsTable).toBeVisible();
-        
-        // Verify add project button
-        await expect(addProjectBtn).toBeVisible();
-        await expect(addProjectBtn).toBeEnabled();
+    test('should display and interact with recent projects table', async () => {
+        await dashboard.openSection('overview');
+        await dashboard.expectOverview();
     });
 
     // Test 8: Create Project Modal
-    test('should open and interact with create project modal', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        
-        const createProjectBtn = page.locator('[data-testid="create-project-btn"]');
-        const modal = page.locator('[data-testid="create-project-modal"]');
-        
-        // Click create project button
-        await createProjectBtn.click();
-        
-        // Verify modal is visible
-        await expect(modal).toBeVisible();
-        
-        // Check form fields exist
-        await expect(page.locator('[data-testid="project-name-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="project-description-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="project-status-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="project-priority-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="project-budget-input"]')).toBeVisible();
-        
-        // Close modal
-        await page.click('.close');
-        await expect(modal).not.toBeVisible();
+    test('should open and interact with create project modal', async () => {
+        await dashboard.openSection('projects');
+        await dashboard.projectsTable.openCreateModal();
+
+        await dashboard.createProjectModal.expectOpen();
+        await dashboard.createProjectModal.expectFields(CreateProjectModal.FIELDS);
+
+        await dashboard.createProjectModal.close();
     });
 
     // Test 9: Create Project Form Submission
-    test('should create a new project successfully', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        await page.click('[data-testid="create-project-btn"]');
-        
-        // Fill out form
-        await page.fill('[data-testid="project-name-input"]', 'Test Project UI');
-        await page.fill('[data-testid="project-description-input"]', 'Test project description');
-        await page.selectOption('[data-testid="project-status-input"]', 'active');
-        await page.selectOption('[data-testid="project-priority-input"]', 'high');
-        await page.fill('[data-testid="project-budget-input"]', '50000');
-        
-        // Submit form
-        await page.click('[data-testid="submit-project-btn"]');
-        
-        // Wait for success message or modal to close
-        await page.waitForTimeout(1000);
+    test('should create a new project successfully', async () => {
+        const id = await dashboard.createProject({
+            name: 'Test Project UI',
+            description: 'Test project description',
+            status: 'active',
+            priority: 'high',
+            budget: 50000,
+        });
+
+        expect(id).toBeGreaterThan(0);
     });
 
     // Test 10: Projects Table and Filtering
-    test('should display projects table and filter by status', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        
-        const projectsTable = page.locator('[data-testid="projects-table-tbody"]');
-        const statusFilter = page.locator('[data-testid="project-status-filter"]');
-        
-        // Verify table is visible
-        await expect(projectsTable).toBeVisible();
-        
-        // Test status filter
-        await statusFilter.selectOption('active');
-        await page.waitForTimeout(500);
-        
+    test('should display projects table and filter by status', async () => {
+        await dashboard.filterProjects('active');
+        expect((await dashboard.projectsTable.getRows()).filter(row => row.status !== 'active')).toEqual([]);
+
         // Reset filter
-        await statusFilter.selectOption('');
-        await page.waitForTimeout(500);
+        await dashboard.filterProjects('');
+        await dashboard.projectsTable.waitForRows();
     });
 
     // Test 11: Create Task Modal
-    test('should open and interact with create task modal', async ({ page }) => {
-        await page.click('[data-testid="nav-tasks"]');
-        
-        const createTaskBtn = page.locator('[data-testid="create-task-btn"]');
-        const modal = page.locator('[data-testid="create-task-modal"]');
-        
-        // Click create task button
-        await createTaskBtn.click();
-        
-        // Verify modal is visible
-        await expect(modal).toBeVisible();
-        
-        // Check form fields exist
-        await expect(page.locator('[data-testid="task-title-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="task-description-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="task-project-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="task-assignee-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="task-priority-input"]')).toBeVisible();
-        await expect(page.locator('[data-testid="task-due-date-input"]')).toBeVisible();
-        
-        // Close modal
-        await page.click('.close');
-        await expect(modal).not.toBeVisible();
+    test('should open and interact with create task modal', async () => {
+        await dashboard.openSection('tasks');
+        await dashboard.tasksTable.openCreateModal();
+
+        await dashboard.createTaskModal.expectOpen();
+        await dashboard.createTaskModal.expectFields(CreateTaskModal.FIELDS);
+
+        await dashboard.createTaskModal.close();
     });
 
     // Test 12: Create Task Form Submission
-    test('should create a new task successfully', async ({ page }) => {
-        await page.click('[data-testid="nav-tasks"]');
-        await page.click('[data-testid="create-task-btn"]');
-        
-        // Fill out form
-        await page.fill('[data-testid="task-title-input"]', 'Test Task UI');
-        await page.fill('[data-testid="task-description-input"]', 'Test task description');
-        await page.selectOption('[data-testid="task-priority-input"]', 'medium');
-        
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        await page.fill('[data-testid="task-due-date-input"]', tomorrow.toISOString().split('T')[0]);
-        
-        // Submit form
-        await page.click('[data-testid="submit-task-btn"]');
-        
-        // Wait for success message or modal to close
-        await page.waitForTimeout(1000);
+    test('should create a new task successfully', async () => {
+        const id = await dashboard.createTask({
+            title: 'Test Task UI',
+            description: 'Test task description',
+            priority: 'medium',
+            dueDate: tomorrow(),
+        });
+
+        expect(await dashboard.tasksTable.getCellText(id, 'status')).toBe('pending');
     });
 
     // Test 13: Tasks Table and Filtering
-    test('should display tasks table and filter by status', async ({ page }) => {
-        await page.click('[data-testid="nav-tasks"]');
-        
-        const tasksTable = page.locator('[data-testid="tasks-table-tbody"]');
-        const statusFilter = page.locator('[data-testid="task-status-filter"]');
-        
-        // Verify table is visible
-        await expect(tasksTable).toBeVisible();
-        
-        // Test status filter
-        await statusFilter.selectOption('pending');
-        await page.waitForTimeout(500);
-        
+    test('should display tasks table and filter by status', async () => {
+        await dashboard.filterTasks('pending');
+        expect((await dashboard.tasksTable.getColumn('status')).filter(status => status !== 'pending')).toEqual([]);
+
         // Reset filter
-        await statusFilter.selectOption('');
-        await page.waitForTimeout(500);
+        await dashboard.filterTasks('');
+        await dashboard.tasksTable.waitForRows();
     });
 
     // Test 14: Users Management
-    test('should display users table', async ({ page }) => {
-        await page.click('[data-testid="nav-users"]');
-        
-        const usersTable = page.locator('[data-testid="users-table-tbody"]');
-        const addUserBtn = page.locator('[data-testid="add-user-btn"]');
-        
-        // Verify table is visible
-        await expect(usersTable).toBeVisible();
-        
-        // Verify add user button
-        await expect(addUserBtn).toBeVisible();
-        await expect(addUserBtn).toBeEnabled();
+    test('should display users table', async () => {
+        await dashboard.openSection('users');
+
+        await dashboard.usersTable.waitForRows();
+        await dashboard.usersTable.expectAddUserAvailable();
     });
 
     // Test 15: Reports and Analytics
-    test('should display reports section with metrics', async ({ page }) => {
-        await page.click('[data-testid="nav-reports"]');
-        
-        // Check performance metrics card
-        const performanceCard = page.locator('[data-testid="performance-metrics-card"]');
-        await expect(performanceCard).toBeVisible();
-        
-        // Check financial overview card
-        const financialCard = page.locator('[data-testid="financial-overview-card"]');
-        await expect(financialCard).toBeVisible();
-        
-        // Check generate report button
-        const generateBtn = page.locator('[data-testid="generate-report-btn"]');
-        await expect(generateBtn).toBeVisible();
-        await expect(generateBtn).toBeEnabled();
+    test('should display reports section with metrics', async () => {
+        await dashboard.openSection('reports');
+
+        // Performance metrics and financial overview cards
+        expect(await dashboard.reportsTable.getMetric('quality-score')).not.toBe('');
+        expect(await dashboard.reportsTable.getMetric('remaining-budget')).not.toBe('');
+
+        await dashboard.reportsTable.expectGenerateAvailable();
     });
 
     // Test 16: Performance Metrics Display
-    test('should display performance metrics with values', async ({ page }) => {
-        await page.click('[data-testid="nav-reports"]');
-        
-        const teamProductivity = page.locator('[data-testid="team-productivity"]');
-        const onTimeDelivery = page.locator('[data-testid="on-time-delivery"]');
-        const qualityScore = page.locator('[data-testid="quality-score"]');
-        
-        // Verify metrics are visible
-        await expect(teamProductivity).toBeVisible();
-        await expect(onTimeDelivery).toBeVisible();
-        await expect(qualityScore).toBeVisible();
-        
-        // Check values contain percentages
-        const productivityText = await teamProductivity.textContent();
-        expect(productivityText).toContain('%');
+    test('should display performance metrics with values', async () => {
+        await dashboard.openSection('reports');
+
+        expect(await dashboard.reportsTable.getMetric('team-productivity')).toContain('%');
+        expect(await dashboard.reportsTable.getMetric('on-time-delivery')).toContain('%');
+        expect(await dashboard.reportsTable.getMetric('quality-score')).not.toBe('');
     });
 
     // Test 17: Financial Metrics Display
-    test('should display financial metrics with values', async ({ page }) => {
-        await page.click('[data-testid="nav-reports"]');
-        
-        const totalBudget = page.locator('[data-testid="total-budget"]');
-        const amountSpent = page.locator('[data-testid="amount-spent"]');
-        const remainingBudget = page.locator('[data-testid="remaining-budget"]');
-        
-        // Verify metrics are visible
-        await expect(totalBudget).toBeVisible();
-        await expect(amountSpent).toBeVisible();
-        await expect(remainingBudget).toBeVisible();
-        
-        // Check values contain currency symbols
-        const budgetText = await totalBudget.textContent();
-        expect(budgetText).toContain('$');
+    test('should display financial metrics with values', async () => {
+        await dashboard.openSection('reports');
+
+        expect(await dashboard.reportsTable.getMetric('total-budget')).toContain('$');
+        expect(await dashboard.reportsTable.getMetric('amount-spent')).toContain('$');
+        expect(await dashboard.reportsTable.getMetric('remaining-budget')).toContain('$');
     });
 
     // Test 18: Generate Report Functionality
-    test('should generate report successfully', async ({ page }) => {
-        await page.click('[data-testid="nav-reports"]');
-        
-        const generateBtn = page.locator('[data-testid="generate-report-btn"]');
-        
-        // Click generate report
-        await generateBtn.click();
-        
-        // Wait for potential success message
-        await page.waitForTimeout(1000);
+    test('should generate report successfully', async () => {
+        await dashboard.generateReport();
     });
 
     // Test 19: Settings User Preferences
-    test('should display and interact with user preferences', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        // Check form elements
-        await expect(page.locator('[data-testid="theme-select"]')).toBeVisible();
-        await expect(page.locator('[data-testid="language-select"]')).toBeVisible();
-        await expect(page.locator('[data-testid="timezone-select"]')).toBeVisible();
-        await expect(page.locator('[data-testid="notifications-enabled"]')).toBeVisible();
-        
-        // Check save button
-        const saveBtn = page.locator('[data-testid="save-preferences-btn"]');
-        await expect(saveBtn).toBeVisible();
-        await expect(saveBtn).toBeEnabled();
+    test('should display and interact with user preferences', async () => {
+        await dashboard.openSection('settings');
+        await dashboard.settings.expectForm();
     });
 
     // Test 20: Theme Selection
-    test('should change theme preference', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const themeSelect = page.locator('[data-testid="theme-select"]');
-        
-        // Change to dark theme
-        await themeSelect.selectOption('dark');
-        
-        // Submit preferences
-        await page.click('[data-testid="save-preferences-btn"]');
-        
-        // Wait for save
-        await page.waitForTimeout(1000);
-        
+    test('should change theme preference', async () => {
+        await dashboard.savePreferences({ theme: 'dark' });
+        expect(await dashboard.isDarkTheme()).toBe(true);
+
         // Change back to light
-        await themeSelect.selectOption('light');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
+        await dashboard.savePreferences({ theme: 'light' });
+        expect(await dashboard.isDarkTheme()).toBe(false);
     });
 
     // Test 21: Language Selection
-    test('should change language preference', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const languageSelect = page.locator('[data-testid="language-select"]');
-        
-        // Change language
-        await languageSelect.selectOption('es');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
-        
+    test('should change language preference', async () => {
+        await dashboard.savePreferences({ language: 'es' });
+        await dashboard.settings.expectPreferences({ language: 'es' });
+
         // Change back to English
-        await languageSelect.selectOption('en');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
+        await dashboard.savePreferences({ language: 'en' });
     });
 
     // Test 22: Timezone Selection
-    test('should change timezone preference', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const timezoneSelect = page.locator('[data-testid="timezone-select"]');
-        
-        // Change timezone
-        await timezoneSelect.selectOption('PST');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
-        
+    test('should change timezone preference', async () => {
+        await dashboard.savePreferences({ timezone: 'PST' });
+        await dashboard.settings.expectPreferences({ timezone: 'PST' });
+
         // Change back to EST
-        await timezoneSelect.selectOption('EST');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
+        await dashboard.savePreferences({ timezone: 'EST' });
     });
 
     // Test 23: Notifications Toggle
-    test('should toggle notifications preference', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const notificationsCheckbox = page.locator('[data-testid="notifications-enabled"]');
-        
-        // Get current state
-        const isChecked = await notificationsCheckbox.isChecked();
-        
-        // Toggle checkbox
-        await notificationsCheckbox.click();
-        
-        // Save preferences
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
-        
-        // Verify state changed
-        expect(await notificationsCheckbox.isChecked()).toBe(!isChecked);
+    test('should toggle notifications preference', async () => {
+        await dashboard.openSection('settings');
+        const { notifications } = await dashboard.settings.getPreferences();
+
+        await dashboard.savePreferences({ notifications: !notifications });
+
+        await dashboard.settings.expectPreferences({ notifications: !notifications });
     });
 
     // Test 24: Account Settings Buttons
-    test('should display account settings buttons', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        // Check account settings buttons
-        await expect(page.locator('[data-testid="change-password-btn"]')).toBeVisible();
-        await expect(page.locator('[data-testid="export-data-btn"]')).toBeVisible();
-        await expect(page.locator('[data-testid="delete-account-btn"]')).toBeVisible();
+    test('should display account settings buttons', async () => {
+        await dashboard.openSection('settings');
+        await dashboard.settings.expectAccountActions();
     });
 
     // Test 25: Change Password Button
-    test('should interact with change password button', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const changePasswordBtn = page.locator('[data-testid="change-password-btn"]');
-        
-        // Click change password button
-        await changePasswordBtn.click();
-        
-        // Wait for potential modal or action
-        await page.waitForTimeout(500);
+    test('should interact with change password button', async () => {
+        await dashboard.openSection('settings');
+        await dashboard.settings.changePassword();
+
+        await dashboard.expectToast('Change password modal would open here');
     });
 
     // Test 26: Export Data Functionality
-    test('should interact with export data button', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const exportDataBtn = page.locator('[data-testid="export-data-btn"]');
-        
-        // Click export data button
-        await exportDataBtn.click();
-        
-        // Wait for potential action
-        await page.waitForTimeout(500);
+    test('should interact with export data button', async () => {
+        await dashboard.openSection('settings');
+        await dashboard.settings.exportData();
+
+        await dashboard.expectToast('Data export started');
     });
 
     // Test 27: Profile Form Display
-    test('should display profile form with fields', async ({ page }) => {
-        await page.click('[data-testid="nav-profile"]');
-        
-        // Check all profile form fields
-        await expect(page.locator('[data-testid="profile-name"]')).toBeVisible();
-        await expect(page.locator('[data-testid="profile-email"]')).toBeVisible();
-        await expect(page.locator('[data-testid="profile-phone"]')).toBeVisible();
-        await expect(page.locator('[data-testid="profile-department"]')).toBeVisible();
-        await expect(page.locator('[data-testid="profile-location"]')).toBeVisible();
-        
-        // Check update button
-        const updateBtn = page.locator('[data-testid="update-profile-btn"]');
-        await expect(updateBtn).toBeVisible();
-        await expect(updateBtn).toBeEnabled();
+    test('should display profile form with fields', async () => {
+        await dashboard.openSection('profile');
+        await dashboard.profile.expectFields();
     });
 
     // Test 28: Profile Form Update
-    test('should update profile information', async ({ page }) => {
-        await page.click('[data-testid="nav-profile"]');
-        
-        // Fill profile fields
-        await page.fill('[data-testid="profile-name"]', 'Updated Test User');
-        await page.fill('[data-testid="profile-phone"]', '+1-555-1234');
-        await page.fill('[data-testid="profile-department"]', 'Updated QA');
-        await page.fill('[data-testid="profile-location"]', 'Updated Location');
-        
-        // Submit form
-        await page.click('[data-testid="update-profile-btn"]');
-        
-        // Wait for update
-        await page.waitForTimeout(1000);
+    test('should update profile information', async () => {
+        await dashboard.updateProfile({
+            name: 'Updated Test User',
+            phone: '+1-555-1234',
+            department: 'Updated QA',
+            location: 'Updated Location',
+        });
+
+        await dashboard.userMenu.expectUserName('Updated Test User');
     });
 
     // Test 29: Form Validation - Required Fields
-    test('should validate required fields in create project form', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        await page.click('[data-testid="create-project-btn"]');
-        
+    test('should validate required fields in create project form', async () => {
+        await dashboard.openSection('projects');
+        await dashboard.projectsTable.openCreateModal();
+
         // Try to submit empty form
-        await page.click('[data-testid="submit-project-btn"]');
-        
-        // Check that form doesn't submit (modal should still be visible)
-        await expect(page.locator('[data-testid="create-project-modal"]')).toBeVisible();
+        await dashboard.createProjectModal.submit();
+
+        // The form doesn't submit, so the modal stays open
+        await dashboard.createProjectModal.expectOpen();
     });
 
     // Test 30: Form Validation - Email Format
-    test('should validate email format in profile form', async ({ page }) => {
-        await page.click('[data-testid="nav-profile"]');
-        
-        const emailInput = page.locator('[data-testid="profile-email"]');
-        
-        // Clear and enter invalid email
-        await emailInput.clear();
-        await emailInput.fill('invalid-email');
-        
-        // Try to submit
-        await page.click('[data-testid="update-profile-btn"]');
-        
-        // Check for validation (browser validation should prevent submission)
-        const validationMessage = await emailInput.evaluate((input: HTMLInputElement) => input.validationMessage);
-        expect(validationMessage.length).toBeGreaterThan(0);
+    test('should validate email format in profile form', async () => {
+        await dashboard.openSection('profile');
+
+        await dashboard.profile.fill({ email: 'invalid-email' });
+        await dashboard.profile.submit();
+
+        // Browser validation should prevent submission
+        expect((await dashboard.profile.getValidationMessage('email')).length).toBeGreaterThan(0);
     });
 
     // Test 31: Responsive Design - Mobile Menu
     test('should handle responsive design for mobile', async ({ page }) => {
-        // Set mobile viewport
         await page.setViewportSize({ width: 375, height: 667 });
-        
-        const sidebar = page.locator('#sidebar');
-        const menuToggle = page.locator('[data-testid="menu-toggle"]');
-        
+
         // On mobile, sidebar should be initially hidden
-        await expect(sidebar).toHaveClass(/collapsed/);
-        
-        // Click toggle to show sidebar
-        await menuToggle.click();
-        await expect(sidebar).toHaveClass(/show/);
+        await dashboard.sidebar.expectCollapsed();
+
+        await dashboard.sidebar.toggle();
+        await dashboard.sidebar.expectShown();
     });
 
     // Test 32: Data Persistence
-    test('should persist data between page refreshes', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        await page.click('[data-testid="create-project-btn"]');
-        
-        // Create a project
-        await page.fill('[data-testid="project-name-input"]', 'Persistence Test Project');
-        await page.selectOption('[data-testid="project-status-input"]', 'active');
-        await page.click('[data-testid="submit-project-btn"]');
-        
-        await page.waitForTimeout(1000);
-        
-        // Refresh page
-        await page.reload();
-        await page.waitForSelector('[data-testid="overview-section"]');
-        
-        // Navigate back to projects
-        await page.click('[data-testid="nav-projects"]');
-        
-        // Check if project exists in table
-        await page.waitForTimeout(1000);
+    test('should persist data between page refreshes', async () => {
+        const totalProjects = await dashboard.getCardValue('total-projects');
+
+        await dashboard.createProject({ name: 'Persistence Test Project', status: 'active' });
+
+        await dashboard.reloadDashboard();
+        expect(await dashboard.getCardValue('total-projects')).toBe(totalProjects + 1);
     });
 
     // Test 33: Error Handling - Network Errors
     test('should handle network errors gracefully', async ({ page }) => {
+        await dashboard.openSection('projects');
+        await dashboard.projectsTable.openCreateModal();
+
         // Block network requests
         await page.route('**/api/**', route => route.abort());
-        
-        await page.click('[data-testid="nav-projects"]');
-        await page.click('[data-testid="create-project-btn"]');
-        
-        // Try to create project
-        await page.fill('[data-testid="project-name-input"]', 'Network Error Test');
-        await page.click('[data-testid="submit-project-btn"]');
-        
-        // Wait for error handling
-        await page.waitForTimeout(2000);
+
+        await dashboard.createProjectModal.fill({ name: 'Network Error Test' });
+        await dashboard.createProjectModal.submit();
+
+        await dashboard.expectToast('Failed to create project', 'error');
+        await dashboard.createProjectModal.expectOpen();
     });
 
     // Test 34: Accessibility - Keyboard Navigation
     test('should support keyboard navigation', async ({ page }) => {
         // Focus on first navigation item
         await page.keyboard.press('Tab');
-        
+
         // Navigate through menu items with arrows
         await page.keyboard.press('ArrowDown');
         await page.keyboard.press('ArrowDown');
-        
+
         // Press Enter to select
         await page.keyboard.press('Enter');
-        
+
         // Verify navigation worked
         await page.waitForTimeout(500);
     });
 
     // Test 35: Accessibility - ARIA Labels
-    test('should have proper ARIA labels and roles', async ({ page }) => {
+    test('should have proper ARIA labels and roles', async () => {
         // Check navigation has proper role
-        const nav = page.locator('nav.sidebar');
-        await expect(nav).toBeVisible();
-        
+        expect(await dashboard.sidebar.isVisible()).toBe(true);
+
         // Check form labels
-        await page.click('[data-testid="nav-profile"]');
-        const nameInput = page.locator('[data-testid="profile-name"]');
-        const nameLabel = page.locator('label[for="profileName"]');
-        
-        await expect(nameLabel).toBeVisible();
-        await expect(nameInput).toBeVisible();
+        await dashboard.openSection('profile');
+        await expect(dashboard.profile.label('name')).toBeVisible();
+        await expect(dashboard.profile.field('name')).toBeVisible();
     });
 
     // Test 36: Performance - Page Load Time
     test('should load dashboard within reasonable time', async ({ page }) => {
         const startTime = Date.now();
-        
-        await page.goto(TEST_APP_URL);
-        
-        // Login
-        await page.fill('[data-testid="email-input"]', 'test@example.com');
-        await page.fill('[data-testid="password-input"]', 'password123');
-        await page.click('[data-testid="login-submit"]');
-        
-        // Wait for redirect to Sitecore Launchpad then navigate to dashboard
-        await page.waitForURL('**/sitecore-launchpad');
-        await page.goto(`${TEST_APP_URL}/dashboard`);
-        await page.waitForSelector('[data-testid="overview-section"]');
-        
+
+        await new DashboardPage(page, { baseURL: TEST_APP_URL }).login(TEST_USER.email, TEST_USER.password);
+
         const loadTime = Date.now() - startTime;
         expect(loadTime).toBeLessThan(10000); // Should load within 10 seconds
     });
 
     // Test 37: Security - XSS Prevention
-    test('should prevent XSS attacks in form inputs', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        await page.click('[data-testid="create-project-btn"]');
-        
-        // Try to enter script tag
+    test('should prevent XSS attacks in form inputs', async () => {
         const xssPayload = '<script>alert("XSS")</script>';
-        await page.fill('[data-testid="project-name-input"]', xssPayload);
-        await page.fill('[data-testid="project-description-input"]', xssPayload);
-        
-        // Submit form
-        await page.click('[data-testid="submit-project-btn"]');
-        
-        // Wait and check that no alert appeared
-        await page.waitForTimeout(1000);
-        
-        // Navigate to projects to see if data was properly escaped
-        await page.click('[data-testid="nav-projects"]');
-        await page.waitForTimeout(1000);
+        await dashboard.createProject({ name: xssPayload, description: xssPayload });
+
+        // The project is rendered without running the script
+        await dashboard.projectsTable.waitForRows();
+        expect(dashboard.dialogs.records).toEqual([]);
     });
 
     // Test 38: Data Sorting
-    test('should handle table data sorting', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        
-        // Wait for table to load
-        await page.waitForTimeout(1000);
-        
-        // Check if table headers are clickable for sorting
-        const tableHeaders = page.locator('thead th');
-        const headerCount = await tableHeaders.count();
-        
-        expect(headerCount).toBeGreaterThan(0);
+    test('should handle table data sorting', async () => {
+        await dashboard.openSection('projects');
+        await dashboard.projectsTable.waitForRows();
+
+        expect((await dashboard.projectsTable.getHeaders()).length).toBeGreaterThan(0);
     });
 
     // Test 39: Pagination
-    test('should handle pagination if implemented', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        
-        // Look for pagination controls
-        const paginationControls = page.locator('.pagination, [data-testid*="pagination"]');
-        
-        // If pagination exists, test it
-        if (await paginationControls.count() > 0) {
-            await expect(paginationControls).toBeVisible();
+    test('should page through projects with next and previous', async ({ request }) => {
+        // Five projects fit on a page; make sure there is a second one
+        const projectsApi = new ProjectsApi(request);
+        for (let index = 0; index < 6; index++) {
+            await projectsApi.createProject({ name: `Paged Project ${Date.now()}-${index}` });
         }
+
+        await dashboard.openSection('projects');
+        await dashboard.projectsTable.waitForRows();
+        await dashboard.projectsTable.expectPage(1);
+        const { totalPages } = await dashboard.projectsTable.getPageInfo();
+        expect(totalPages).toBeGreaterThanOrEqual(2);
+        const firstPage = (await dashboard.projectsTable.getRows()).map(row => row.id);
+        expect(firstPage).toHaveLength(5);
+
+        await dashboard.projectsTable.nextPage();
+        await dashboard.projectsTable.expectPage(2, totalPages);
+        const secondPage = (await dashboard.projectsTable.getRows()).map(row => row.id);
+        expect(secondPage.length).toBeGreaterThan(0);
+        expect(secondPage.filter(id => firstPage.includes(id))).toEqual([]);
+
+        await dashboard.projectsTable.previousPage();
+        await dashboard.projectsTable.expectPage(1, totalPages);
+        expect((await dashboard.projectsTable.getRows()).map(row => row.id)).toEqual(firstPage);
     });
 
     // Test 40: Bulk Operations
     test('should handle bulk operations if available', async ({ page }) => {
-        await page.click('[data-testid="nav-projects"]');
-        
-        // Look for checkboxes or bulk operation buttons
-        const checkboxes = page.locator('input[type="checkbox"]');
-        const bulkButtons = page.locator('[data-testid*="bulk"], [data-testid*="select-all"]');
-        
-        // If bulk operations exist, test them
+        await dashboard.openSection('projects');
+
+        // Look for checkboxes of bulk operations
+        const checkboxes = page.locator('[data-testid="projects-section"] input[type="checkbox"]');
+
         if (await checkboxes.count() > 0) {
             await expect(checkboxes.first()).toBeVisible();
         }
     });
 
     // Test 41: Real-time Updates
-    test('should handle real-time updates', async ({ page }) => {
-        // Test notification updates
-        await page.click('[data-testid="notifications-btn"]');
-        
-        const badge = page.locator('[data-testid="notification-badge"]');
-        const initialCount = await badge.textContent();
-        
-        // Simulate some action that might trigger notifications
-        await page.click('[data-testid="nav-projects"]');
-        await page.waitForTimeout(2000);
-        
-        // Check if badge updated
-        await page.click('[data-testid="notifications-btn"]');
+    test('should handle real-time updates', async ({ request }) => {
+        const notificationsApi = new NotificationsApi(request).as(TEST_USER);
+
+        // Wait until the initial load has set the badge and the stream is open
+        const unread = (await notificationsApi.getUnreadNotifications()).length;
+        await dashboard.notifications.expectBadgeCount(unread);
+        await dashboard.expectLiveStatus('connected');
+
+        // A new notification is pushed and counted
+        await notificationsApi.createNotification({ title: 'Build finished', message: 'Pipeline #42 passed' });
+        await dashboard.notifications.expectBadgeCount(unread + 1);
+        await dashboard.expectToast('Build finished');
+
+        // Activities of other users show up in the live feed
+        const project = await new ProjectsApi(request).createProject({ name: `Live Project ${Date.now()}` });
+        await dashboard.expectLatestActivity(`created project "${project.name}"`);
+
+        // After the server drops the stream, the page reconnects and gets what it missed
+        await notificationsApi.disconnectStreams();
+        await notificationsApi.createNotification({ title: 'Sent while reconnecting', message: 'Delivered after resuming' });
+        await dashboard.notifications.expectBadgeCount(unread + 2);
+        await dashboard.expectLiveStatus('connected');
     });
 
     // Test 42: Export Functionality
-    test('should handle data export operations', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const exportBtn = page.locator('[data-testid="export-data-btn"]');
-        
-        // Click export button
-        await exportBtn.click();
-        
-        // Wait for potential download or confirmation
-        await page.waitForTimeout(1000);
+    test('should handle data export operations', async () => {
+        await dashboard.openSection('settings');
+        await dashboard.settings.exportData();
+
+        await dashboard.expectToast('Data export started');
     });
 
     // Test 43: Import Functionality
     test('should handle data import operations if available', async ({ page }) => {
         // Look for import buttons or file inputs
         const importControls = page.locator('[data-testid*="import"], input[type="file"]');
-        
+
         if (await importControls.count() > 0) {
             await expect(importControls.first()).toBeVisible();
         }
     });
 
     // Test 44: Advanced Search
-    test('should handle advanced search functionality', async ({ page }) => {
-        const searchInput = page.locator('[data-testid="global-search"]');
-        
-        // Test various search terms
-        const searchTerms = ['project', 'task', 'user', 'test'];
-        
-        for (const term of searchTerms) {
-            await searchInput.clear();
-            await searchInput.fill(term);
-            await page.waitForTimeout(500);
+    test('should handle advanced search functionality', async () => {
+        for (const term of ['project', 'task', 'user', 'test']) {
+            await dashboard.search(term);
+            await dashboard.expectSearchValue(term);
         }
-        
-        await searchInput.clear();
+
+        await dashboard.clearSearch();
     });
 
     // Test 45: Multi-language Support
-    test('should handle language switching', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        const languageSelect = page.locator('[data-testid="language-select"]');
-        const languages = ['en', 'es', 'fr'];
-        
-        for (const lang of languages) {
-            await languageSelect.selectOption(lang);
-            await page.click('[data-testid="save-preferences-btn"]');
-            await page.waitForTimeout(500);
+    test('should handle language switching', async () => {
+        for (const language of ['en', 'es', 'fr'] as const) {
+            await dashboard.savePreferences({ language });
         }
+
+        await dashboard.savePreferences({ language: 'en' });
     });
 
     // Test 46: Theme Persistence
-    test('should persist theme changes across sessions', async ({ page }) => {
-        await page.click('[data-testid="nav-settings"]');
-        
-        // Change to dark theme
-        await page.selectOption('[data-testid="theme-select"]', 'dark');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
-        
-        // Refresh page
-        await page.reload();
-        await page.waitForSelector('[data-testid="overview-section"]');
-        
+    test('should persist theme changes across sessions', async () => {
+        await dashboard.savePreferences({ theme: 'dark' });
+
+        await dashboard.reloadDashboard();
+
         // Check if theme persisted
-        await page.click('[data-testid="nav-settings"]');
-        const themeValue = await page.locator('[data-testid="theme-select"]').inputValue();
-        expect(themeValue).toBe('dark');
-        
+        await dashboard.openSection('settings');
+        await dashboard.settings.expectPreferences({ theme: 'dark' });
+
         // Reset to light theme
-        await page.selectOption('[data-testid="theme-select"]', 'light');
-        await page.click('[data-testid="save-preferences-btn"]');
+        await dashboard.savePreferences({ theme: 'light' });
     });
 
     // Test 47: Session Timeout
@@ -839,27 +516,22 @@ test.describe('Dashboard Comprehensive UI Tests', () => {
         await page.evaluate(() => {
             sessionStorage.clear();
         });
-        
+
         // Try to perform an action that requires authentication
-        await page.click('[data-testid="nav-projects"]');
-        await page.waitForTimeout(1000);
-        
+        await dashboard.openSection('projects');
+
         // Should redirect to login or show error
         // This test depends on how session timeout is implemented
     });
 
     // Test 48: Concurrent User Actions
-    test('should handle multiple rapid user actions', async ({ page }) => {
-        // Rapidly click through different sections
-        const sections = ['projects', 'tasks', 'users', 'reports', 'settings', 'profile', 'overview'];
-        
-        for (const section of sections) {
-            await page.click(`[data-testid="nav-${section}"]`);
-            await page.waitForTimeout(100);
+    test('should handle multiple rapid user actions', async () => {
+        // Rapidly click through different sections, ending in overview
+        for (const section of [...DASHBOARD_SECTIONS.slice(1), DASHBOARD_SECTIONS[0]]) {
+            await dashboard.sidebar.navLink(section).click();
         }
-        
-        // Should end up in overview section
-        await expect(page.locator('[data-testid="overview-section"]')).toBeVisible();
+
+        await dashboard.expectSection('overview');
     });
 
     // Test 49: Browser Compatibility Features
@@ -869,13 +541,13 @@ test.describe('Dashboard Comprehensive UI Tests', () => {
             localStorage.setItem('test', 'value');
             return localStorage.getItem('test') === 'value';
         });
-        
+
         // Test sessionStorage support
         await page.evaluate(() => {
             sessionStorage.setItem('test', 'value');
             return sessionStorage.getItem('test') === 'value';
         });
-        
+
         // Clean up
         await page.evaluate(() => {
             localStorage.removeItem('test');
@@ -885,75 +557,48 @@ test.describe('Dashboard Comprehensive UI Tests', () => {
 
     // Test 50: Complete User Workflow
     test('should complete full user workflow from login to logout', async ({ page }) => {
-        // Start fresh
-        await page.goto(TEST_APP_URL);
-        
         // 1. Login
-        await page.fill('[data-testid="email-input"]', 'test@example.com');
-        await page.fill('[data-testid="password-input"]', 'password123');
-        await page.click('[data-testid="login-submit"]');
-        
-        // Wait for redirect to Sitecore Launchpad then navigate to dashboard
-        await page.waitForURL('**/sitecore-launchpad');
-        await page.goto(`${TEST_APP_URL}/dashboard`);
-        await page.waitForSelector('[data-testid="overview-section"]');
-        
+        dashboard = new DashboardPage(page, { baseURL: TEST_APP_URL });
+        await dashboard.login(TEST_USER.email, TEST_USER.password);
+
         // 2. View dashboard overview
-        await expect(page.locator('[data-testid="total-projects-card"]')).toBeVisible();
-        
+        expect(await dashboard.getCardValue('total-projects')).toBeGreaterThan(0);
+
         // 3. Create a project
-        await page.click('[data-testid="nav-projects"]');
-        await page.click('[data-testid="create-project-btn"]');
-        await page.fill('[data-testid="project-name-input"]', 'Workflow Test Project');
-        await page.fill('[data-testid="project-description-input"]', 'End-to-end test project');
-        await page.selectOption('[data-testid="project-status-input"]', 'active');
-        await page.selectOption('[data-testid="project-priority-input"]', 'high');
-        await page.fill('[data-testid="project-budget-input"]', '100000');
-        await page.click('[data-testid="submit-project-btn"]');
-        await page.waitForTimeout(1000);
-        
+        await dashboard.createProject({
+            name: 'Workflow Test Project',
+            description: 'End-to-end test project',
+            status: 'active',
+            priority: 'high',
+            budget: 100000,
+        });
+
         // 4. Create a task
-        await page.click('[data-testid="nav-tasks"]');
-        await page.click('[data-testid="create-task-btn"]');
-        await page.fill('[data-testid="task-title-input"]', 'Workflow Test Task');
-        await page.fill('[data-testid="task-description-input"]', 'End-to-end test task');
-        await page.selectOption('[data-testid="task-priority-input"]', 'high');
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        await page.fill('[data-testid="task-due-date-input"]', tomorrow.toISOString().split('T')[0]);
-        await page.click('[data-testid="submit-task-btn"]');
-        await page.waitForTimeout(1000);
-        
+        await dashboard.createTask({
+            title: 'Workflow Test Task',
+            description: 'End-to-end test task',
+            priority: 'high',
+            dueDate: tomorrow(),
+        });
+
         // 5. Update profile
-        await page.click('[data-testid="nav-profile"]');
-        await page.fill('[data-testid="profile-phone"]', '+1-555-WORKFLOW');
-        await page.click('[data-testid="update-profile-btn"]');
-        await page.waitForTimeout(1000);
-        
+        await dashboard.updateProfile({ phone: '+1-555-WORKFLOW' });
+
         // 6. Change settings
-        await page.click('[data-testid="nav-settings"]');
-        await page.selectOption('[data-testid="theme-select"]', 'dark');
-        await page.click('[data-testid="save-preferences-btn"]');
-        await page.waitForTimeout(1000);
-        
+        await dashboard.savePreferences({ theme: 'dark' });
+
         // 7. View reports
-        await page.click('[data-testid="nav-reports"]');
-        await expect(page.locator('[data-testid="performance-metrics-card"]')).toBeVisible();
-        
+        await dashboard.openSection('reports');
+        expect(await dashboard.reportsTable.getMetric('team-productivity')).toContain('%');
+
         // 8. Check notifications
-        await page.click('[data-testid="notifications-btn"]');
-        await page.waitForTimeout(500);
-        
+        await dashboard.notifications.open();
+
         // 9. Return to overview
-        await page.click('[data-testid="nav-overview"]');
-        await expect(page.locator('[data-testid="overview-section"]')).toBeVisible();
-        
-        // 10. Logout (test the button exists and is clickable)
-        const logoutBtn = page.locator('[data-testid="logout-btn"]');
-        await expect(logoutBtn).toBeVisible();
-        await expect(logoutBtn).toBeEnabled();
-        
-        // Complete workflow test
-        expect(true).toBe(true); // Workflow completed successfully
-    });
-});
\ No newline at end of file
+        await dashboard.openSection('overview');
+
+        // 10. Logout
+        await dashboard.logout();
+        await expect(page.locator('[data-testid="login-form"]')).toBeVisible();
+    });
+});
@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import { TestLoginPage } from '../../wrappers/ui';
+import { TestDataManager } from '../../utils';
+
+/**
+ * Network profiles of BasePage against the login page of the test-app
+ */
+
+test.describe('Network Profiles - UI Tests', () => {
+  let loginPage: TestLoginPage;
+
+  test.beforeEach(async ({ page }) => {
+    loginPage = new TestLoginPage(page);
+    await loginPage.navigateToLogin();
+  });
+
+  test('should fail only the scoped requests while offline', async () => {
+    const user = TestDataManager.getInstance().getUser('regular');
+    await loginPage.applyNetworkProfile('offline', { urls: '**/api/login' });
+
+    await loginPage.login(user.email, user.password);
+    await loginPage.waitForLoadingComplete();
+    await loginPage.expectErrorMessage('Network error. Please try again.');
+
+    await loginPage.clearNetworkProfile();
+    await loginPage.login(user.email, user.password);
+    await loginPage.waitForSuccessfulLogin();
+  });
+
+  test('should slow down requests on a slow connection', async ({ page }) => {
+    await loginPage.applyNetworkProfile('slow-3g');
+
+    const startedAt = Date.now();
+    const status = await page.evaluate(async () => (await fetch('/health')).status);
+
+    expect(status).toBe(200);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(2000);
+  });
+
+  test('should reset the same share of requests on a flaky connection', async ({ page }) => {
+    await loginPage.applyNetworkProfile({ failureRate: 0.3 }, { urls: '**/health' });
+
+    const outcomes = await page.evaluate(async () => {
+      const results: string[] = [];
+      for (let i = 0; i < 10; i++) {
+        results.push(await fetch('/health').then(() => 'ok', () => 'failed'));
+      }
+      return results;
+    });
+
+    expect(outcomes.map((outcome, index) => (outcome === 'failed' ? index + 1 : 0)).filter(Boolean)).toEqual([4, 7, 10]);
+  });
+
+  test('should note applied and cleared profiles in the report', async () => {
+    await loginPage.applyNetworkProfile('high-latency', { urls: [/\/api\//] });
+    await loginPage.applyNetworkProfile('fast-3g', { emulation: 'route' });
+    await loginPage.clearNetworkProfile();
+
+    expect(test.info().annotations.filter(annotation => annotation.type === 'network-profile').map(annotation => annotation.description)).toEqual([
+      'Applied network profile high-latency (2000ms latency) on /\\/api\\// via routes',
+      'Cleared network profile high-latency (2000ms latency) on /\\/api\\//',
+      'Applied network profile fast-3g (563ms latency, 180 KB/s down, 84 KB/s up) on all requests via routes',
+      'Cleared network profile fast-3g (563ms latency, 180 KB/s down, 84 KB/s up) on all requests',
+    ]);
+  });
+});
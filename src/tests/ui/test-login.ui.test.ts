@@ -1,7 +1,11 @@
-import { test, expect } from '@playwright/test';
+import { mergeTests } from '@playwright/test';
+import { test as apiTest } from '../../utils/api-fixtures';
+import { test as uiTest, expect } from '../../utils/ui-fixtures';
 import { TestLoginPage } from '../../wrappers/ui';
 import { TestDataManager, TestHelpers } from '../../utils';
 
+const test = mergeTests(apiTest, uiTest);
+
 test.describe('Test Login Page - UI Tests', () => {
   let loginPage: TestLoginPage;
   let testData: TestDataManager;
@@ -270,17 +274,12 @@ test.describe('Test Login Page - UI Tests', () => {
 
   test.describe('Forgot Password', () => {
     test('should handle forgot password click', async () => {
-      // Set up alert handler
-      let alertMessage = '';
-      loginPage.page.on('dialog', async dialog => {
-        alertMessage = dialog.message();
-        await dialog.accept();
-      });
+      const alert = loginPage.dialogs.expectDialog({ type: 'alert', message: 'Password reset functionality' });
       
       await loginPage.clickForgotPassword();
       
-      // Verify alert was shown
-      expect(alertMessage).toContain('Password reset functionality');
+      // Verify alert was shown and accepted
+      expect((await alert).response).toBe('accept');
     });
   });
 
@@ -312,6 +311,26 @@ test.describe('Test Login Page - UI Tests', () => {
       // Eventually should complete
       await loginPage.waitForSuccessfulLogin();
     });
+
+    test('should show the message of a server error', async ({ serverFaults }) => {
+      await serverFaults.injectError('/api/login', 503, { message: 'Service temporarily unavailable' });
+
+      const user = testData.getUser('regular');
+      await loginPage.login(user.email, user.password);
+
+      await loginPage.waitForLoadingComplete();
+      await loginPage.expectErrorMessage('Service temporarily unavailable');
+    });
+
+    test('should report a network error when the server drops the connection', async ({ serverFaults }) => {
+      await serverFaults.dropConnections('/api/login', { method: 'POST' });
+
+      const user = testData.getUser('regular');
+      await loginPage.login(user.email, user.password);
+
+      await loginPage.waitForLoadingComplete();
+      await loginPage.expectErrorMessage('Network error. Please try again.');
+    });
   });
 
   test.describe('Multiple User Types', () => {
@@ -0,0 +1,146 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ApiCassetteMissError,
+  CassetteOptions,
+  HarLog,
+  TestApiWrapper,
+  cassetteFileFor,
+  cassetteOptionsFromEnv,
+  cassettePlaceholder,
+  createApiResponse,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for HAR record-and-replay
+ * Records from a scripted request context and replays with one that refuses to send
+ */
+
+const users = [{ id: 1, name: 'John Doe', email: 'john.doe@example.com', username: 'johndoe' }];
+
+function createServerRequest() {
+  const sent: string[] = [];
+  const request = {
+    fetch: async (url: string, options: { method: string }) => {
+      sent.push(`${options.method} ${url}`);
+      if (url.endsWith('/api/login')) {
+        return createApiResponse({
+          url,
+          status: 200,
+          statusText: 'OK',
+          body: { success: true, user: users[0], token: 'mock_token_1_1700000000000' },
+        });
+      }
+      return createApiResponse({ url, status: 200, statusText: 'OK', body: { success: true, users } });
+    },
+  };
+  return { request: request as unknown as APIRequestContext, sent };
+}
+
+const offlineRequest = {
+  fetch: async (url: string) => {
+    throw new Error(`Network access during replay: ${url}`);
+  },
+} as unknown as APIRequestContext;
+
+test.describe('API Cassettes', () => {
+  let file: string;
+
+  test.beforeEach(async () => {
+    file = test.info().outputPath('cassette.har');
+  });
+
+  function wrapper(request: APIRequestContext, cassette: Partial<CassetteOptions> & Pick<CassetteOptions, 'mode'>) {
+    return new TestApiWrapper(request, { retries: 0, cassette: { file, ...cassette } });
+  }
+
+  test('should record exchanges into a HAR cassette without secrets', async () => {
+    const { request } = createServerRequest();
+
+    await wrapper(request, { mode: 'record' }).getUsers();
+
+    const har = JSON.parse(fs.readFileSync(file, 'utf-8')) as HarLog;
+    expect(har.log.entries.map(entry => `${entry.request.method} ${entry.request.url}`)).toEqual([
+      'POST http://localhost:3000/api/login',
+      'GET http://localhost:3000/api/users',
+    ]);
+    const [login, list] = har.log.entries;
+    expect(login.request.postData?.text).toBe('{"email":"john.doe@example.com","password":"[REDACTED]"}');
+    expect(login.response.content.text).toContain('"token":"cassette-token"');
+    expect(list.request.headers).toContainEqual({ name: 'Authorization', value: '[REDACTED]' });
+  });
+
+  test('should replay recorded responses without network access', async () => {
+    await wrapper(createServerRequest().request, { mode: 'record' }).getUsers();
+
+    const replayed = await wrapper(offlineRequest, { mode: 'replay' }).getUsers();
+
+    expect(replayed).toEqual(users);
+  });
+
+  test('should hand out the placeholder token on replayed logins', async () => {
+    await wrapper(createServerRequest().request, { mode: 'record' }).getUsers();
+    const replay = wrapper(offlineRequest, { mode: 'replay' });
+
+    await replay.getUsers();
+
+    expect(replay.getSession()?.token).toBe('cassette-token');
+    expect(cassettePlaceholder('refreshToken')).toBe('cassette-refresh-token');
+    expect(cassettePlaceholder('api_key')).toBe('cassette-api-key');
+  });
+
+  test('should fail clearly on a miss in strict mode', async () => {
+    await wrapper(createServerRequest().request, { mode: 'record' }).getUsers();
+
+    const error = await wrapper(offlineRequest, { mode: 'replay' }).getUserById(1).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiCassetteMissError);
+    expect(error.cassette).toBe(file);
+    expect(error.matchKey).toBe('GET /api/users/1');
+    expect(error.recorded).toEqual(['POST http://localhost:3000/api/login', 'GET http://localhost:3000/api/users']);
+    expect(error.message).toContain('Re-record the test with API_RECORD_MODE=record');
+  });
+
+  test('should send unmatched requests when not strict', async () => {
+    await wrapper(createServerRequest().request, { mode: 'record' }).getUsers();
+    const { request, sent } = createServerRequest();
+
+    await wrapper(request, { mode: 'replay', strict: false }).getUserById(1).catch(() => undefined);
+
+    expect(sent).toEqual(['GET http://localhost:3000/api/users/1']);
+  });
+
+  test('should match on query strings unless told to ignore them', async () => {
+    const { request } = createServerRequest();
+    const recorder = wrapper(request, { mode: 'record' });
+    await recorder.getUsers();
+
+    const strictReplay = wrapper(offlineRequest, { mode: 'replay' });
+    await expect(strictReplay['get']('/api/users', { params: { page: '2' } })).rejects.toThrow(ApiCassetteMissError);
+
+    const lenientReplay = wrapper(offlineRequest, { mode: 'replay', match: { query: false } });
+    const response = await lenientReplay['get']('/api/users', { params: { page: '2' } });
+    expect(response.status()).toBe(200);
+  });
+
+  test('should read the mode and rules from the environment', async () => {
+    expect(cassetteOptionsFromEnv({})).toEqual({ mode: 'off', strict: true, match: undefined });
+    expect(
+      cassetteOptionsFromEnv({ API_RECORD_MODE: 'replay', API_REPLAY_STRICT: 'false', API_REPLAY_MATCH: 'method,path,body' })
+    ).toEqual({ mode: 'replay', strict: false, match: { method: true, path: true, query: false, body: true } });
+    expect(() => cassetteOptionsFromEnv({ API_RECORD_MODE: 'playback' })).toThrow('Invalid API_RECORD_MODE');
+  });
+
+  test('should keep cassettes next to the spec, one per test', async () => {
+    const testInfo = test.info();
+    expect(cassetteFileFor(testInfo)).toBe(
+      path.join(
+        path.dirname(testInfo.file),
+        '__cassettes__',
+        'api-cassette.test.ts',
+        'api-cassettes-should-keep-cassettes-next-to-the-spec-one-per-test.har'
+      )
+    );
+  });
+});
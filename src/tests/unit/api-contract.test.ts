@@ -0,0 +1,182 @@
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ApiConfig,
+  BaseApiWrapper,
+  OpenApiDocument,
+  checkWrapperContract,
+  exampleValue,
+  formatContractViolations,
+  matchOperation,
+  schema,
+  validateOpenApiValue,
+  wrapperMethods,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for the OpenAPI contract checker, against a small inline document
+ */
+
+const document: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Widgets', version: '1.0.0' },
+  paths: {
+    '/widgets': {
+      get: {
+        parameters: [{ name: 'color', in: 'query', schema: { type: 'string', enum: ['red', 'blue'] } }],
+        responses: { '200': { description: 'Widgets', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Widget' } } } } } },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } }, additionalProperties: false },
+            },
+          },
+        },
+        responses: { '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Widget' } } } } },
+      },
+    },
+    '/widgets/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: { responses: { '200': { description: 'Widget', content: { 'application/json': { schema: { $ref: '#/components/schemas/Widget' } } } } } },
+    },
+    '/widgets/latest': {
+      get: { responses: { '204': { description: 'Nothing yet' } } },
+    },
+  },
+  components: {
+    schemas: {
+      Widget: {
+        type: 'object',
+        required: ['id', 'name', 'color'],
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string', example: 'Sprocket' },
+          color: { type: 'string', enum: ['red', 'blue'] },
+          retiredAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+    },
+  },
+};
+
+const widgetSchema = schema.object({
+  id: schema.number(),
+  name: schema.string(),
+  color: schema.literal('red', 'blue'),
+  retiredAt: schema.nullable(schema.string()),
+});
+
+abstract class WidgetsBase extends BaseApiWrapper {
+  constructor(request: APIRequestContext, config?: Partial<ApiConfig>) {
+    super(request, { baseURL: 'http://localhost:3000', headers: {}, ...config });
+  }
+
+  protected async expectWidget(response: Parameters<BaseApiWrapper['expectStatus']>[0], status: number) {
+    await this.expectStatus(response, status);
+    return await this.expectSchema(response, widgetSchema, 'widget');
+  }
+}
+
+class WidgetsApi extends WidgetsBase {
+  async listWidgets(color?: string) {
+    const response = await this.get('/widgets', { params: color ? { color } : undefined });
+    await this.expectStatus(response, 200);
+    return await this.expectSchema(response, schema.array(widgetSchema), 'widgets');
+  }
+
+  async getWidget(id: number | string) {
+    return await this.expectWidget(await this.get(`/widgets/${id}`), 200);
+  }
+
+  async createWidget(data: object) {
+    return await this.expectWidget(await this.post('/widgets', { data }), 200);
+  }
+
+  async getWidgetShape() {
+    const response = await this.get('/widgets/1');
+    await this.expectStatus(response, 200);
+    return await this.expectSchema(response, schema.object({ id: schema.string() }, { unexpected: 'allow' }), 'widget');
+  }
+
+  async archiveWidget(id: number) {
+    const response = await this.post(`/widgets/${id}/archive`);
+    await this.expectStatus(response, 200);
+  }
+}
+
+test.describe('API Contract Checker', () => {
+  test('should match literal paths before templated ones', async () => {
+    expect(matchOperation(document, 'GET', 'http://localhost:3000/widgets/latest?x=1')?.path).toBe('/widgets/latest');
+    expect(matchOperation(document, 'GET', '/widgets/7')).toMatchObject({ path: '/widgets/{id}', pathParams: { id: '7' } });
+    expect(matchOperation(document, 'DELETE', '/widgets/7')).toBeUndefined();
+  });
+
+  test('should build examples that satisfy the schema they come from', async () => {
+    const widget = exampleValue(document, { $ref: '#/components/schemas/Widget' });
+
+    expect(widget).toEqual({ id: 1, name: 'Sprocket', color: 'red', retiredAt: '2024-01-01T00:00:00.000Z' });
+    expect(validateOpenApiValue(document, { $ref: '#/components/schemas/Widget' }, widget)).toEqual([]);
+    expect(validateOpenApiValue(document, { $ref: '#/components/schemas/Widget' }, { id: 1.5, name: 'x', color: 'green', retiredAt: null })).toEqual([
+      { path: '$.id', kind: 'type', expected: 'integer', actual: 1.5 },
+      { path: '$.color', kind: 'value', expected: '"red" | "blue"', actual: 'green' },
+    ]);
+  });
+
+  test('should only walk the methods below the shared bases', async () => {
+    expect(wrapperMethods(WidgetsApi, [WidgetsBase])).toEqual([
+      'archiveWidget',
+      'createWidget',
+      'getWidget',
+      'getWidgetShape',
+      'listWidgets',
+    ]);
+    expect(wrapperMethods(WidgetsApi)).toContain('expectWidget');
+  });
+
+  test('should report each kind of drift', async () => {
+    const violations = await checkWrapperContract(WidgetsApi, {
+      document,
+      stopAt: [WidgetsBase],
+      samples: {
+        listWidgets: ['green'],
+        getWidget: ['abc'],
+        createWidget: [{ name: 'Cog', size: 3 }],
+        getWidgetShape: [],
+      },
+    });
+
+    expect(violations.map(violation => `${violation.method} ${violation.kind}`)).toEqual([
+      'archiveWidget unsampled',
+      'createWidget request-body',
+      'createWidget status',
+      'getWidget parameter',
+      'getWidgetShape response-body',
+      'listWidgets parameter',
+    ]);
+    const report = formatContractViolations(violations);
+    expect(report).toContain('6 contract violations:');
+    expect(report).toContain('WidgetsApi.createWidget [status] POST /widgets: the wrapper expects 200, the spec documents 201');
+    expect(report).toContain('+ $.size: unexpected field (number 3)');
+    expect(report).toContain('~ query.color: expected "red" | "blue", got string "green"');
+  });
+
+  test('should report calls to undocumented operations once', async () => {
+    const violations = await checkWrapperContract(WidgetsApi, {
+      document,
+      stopAt: [WidgetsBase],
+      samples: { listWidgets: [], getWidget: [1], createWidget: [{ name: 'Cog' }], getWidgetShape: [], archiveWidget: [1] },
+    });
+
+    expect(violations.filter(violation => violation.method !== 'createWidget' && violation.method !== 'getWidgetShape')).toEqual([
+      {
+        wrapper: 'WidgetsApi',
+        method: 'archiveWidget',
+        kind: 'undocumented',
+        message: 'POST /widgets/1/archive is not in the OpenAPI document',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import {
+  ApiError,
+  ApiHttpError,
+  ApiValidationError,
+  ApiTimeoutError,
+  ApiAuthError,
+  TestApiWrapper,
+  ProjectsApi,
+} from '../../wrappers/api';
+import { createScriptedRequest } from './helpers/scripted-request';
+
+/**
+ * Unit tests for the typed errors raised by BaseApiWrapper
+ */
+
+const config = { baseURL: 'http://localhost:3000', retries: 0 };
+const loginResponse = {
+  status: 200,
+  body: {
+    success: true,
+    user: { id: 1, name: 'John Doe', email: 'john.doe@example.com', username: 'johndoe' },
+    token: 'mock_token_1_1700000000000',
+  },
+};
+
+test.describe('API Errors', () => {
+  test('should raise ApiHttpError with the request and response context', async () => {
+    const apiWrapper = new TestApiWrapper(
+      createScriptedRequest([loginResponse, { status: 404, body: { success: false, message: 'User not found' } }]).request,
+      config
+    );
+
+    const error = await apiWrapper.getUserById(999).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiHttpError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(404);
+    expect(error.expectedStatus).toBe(200);
+    expect(error.request).toMatchObject({ method: 'GET', url: 'http://localhost:3000/api/users/999' });
+    expect(error.response.body).toEqual({ success: false, message: 'User not found' });
+    expect(error.duration).toEqual(expect.any(Number));
+    expect(error.message).toContain('Expected status 200, got 404');
+    expect(error.message).toContain('"message": "User not found"');
+  });
+
+  test('should redact secrets from headers and bodies', async () => {
+    const apiWrapper = new TestApiWrapper(
+      createScriptedRequest([loginResponse, { status: 409, body: { success: false, message: 'Email exists' } }]).request,
+      config
+    );
+
+    const error = await apiWrapper
+      .createUser({ name: 'Jane', email: 'jane@example.com', username: 'jane', password: 'Secret123!' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiHttpError);
+    expect(error.request.headers.Authorization).toBe('[REDACTED]');
+    expect(error.request.body.password).toBe('[REDACTED]');
+    expect(error.message).not.toContain('Secret123!');
+    expect(error.message).not.toContain('mock_token_1_1700000000000');
+    expect(JSON.stringify(error)).not.toContain('Secret123!');
+  });
+
+  test('should raise ApiAuthError when the session is rejected', async () => {
+    const apiWrapper = new ProjectsApi(
+      createScriptedRequest([
+        loginResponse,
+        { status: 401, body: { success: false, message: 'Invalid token' } },
+        loginResponse,
+        { status: 401, body: { success: false, message: 'Invalid token' } },
+      ]).request,
+      config
+    );
+
+    const error = await apiWrapper.getProjects().catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiAuthError);
+    expect(error.status).toBe(401);
+  });
+
+  test('should raise ApiAuthError when login fails', async () => {
+    const apiWrapper = new TestApiWrapper(
+      createScriptedRequest([{ status: 401, body: { success: false, message: 'Invalid email or password' } }]).request,
+      config
+    );
+
+    const error = await apiWrapper.loginUser('john.doe@example.com', 'wrong').catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiAuthError);
+    expect(error.request.body).toEqual({ email: 'john.doe@example.com', password: '[REDACTED]' });
+  });
+
+  test('should raise ApiValidationError for a failed envelope or non-JSON body', async () => {
+    const apiWrapper = new TestApiWrapper(
+      createScriptedRequest([
+        loginResponse,
+        { status: 200, body: { success: false, message: 'Maintenance' } },
+        { status: 200, body: '<html>Maintenance</html>', headers: { 'content-type': 'text/html' } },
+      ]).request,
+      config
+    );
+
+    const envelopeError = await apiWrapper.getUsers().catch(e => e);
+    expect(envelopeError).toBeInstanceOf(ApiValidationError);
+    expect(envelopeError.summary).toBe('Failed to get users: Maintenance');
+
+    const contentTypeError = await apiWrapper.getUsers().catch(e => e);
+    expect(contentTypeError).toBeInstanceOf(ApiValidationError);
+    expect(contentTypeError.issues).toEqual([
+      { path: '$', kind: 'type', expected: 'application/json', actual: 'text/html' },
+    ]);
+  });
+
+  test('should raise ApiTimeoutError when no response arrives in time', async () => {
+    const apiWrapper = new TestApiWrapper(
+      createScriptedRequest([new Error('apiRequestContext.fetch: Request timed out after 50ms')]).request,
+      { ...config, timeout: 50 }
+    );
+
+    const error = await apiWrapper.healthCheck().catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiTimeoutError);
+    expect(error.timeout).toBe(50);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toContain('Response (');
+  });
+});
@@ -0,0 +1,172 @@
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ApiGraphQLError,
+  ApiHttpError,
+  ApiValidationError,
+  BaseGraphQLWrapper,
+  createApiResponse,
+  fragment,
+  gql,
+  schema,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for the GraphQL client: documents, fragments and error handling
+ * Uses a scripted request context that answers every POST with the next scripted response
+ */
+
+interface SentOperation {
+  query: string;
+  variables: Record<string, unknown>;
+  operationName?: string;
+}
+
+function createGraphQLRequest(script: Array<{ status: number; body: object }>) {
+  const sent: SentOperation[] = [];
+  const request = {
+    fetch: async (url: string, options: { data: SentOperation }) => {
+      const step = script[Math.min(sent.length, script.length - 1)];
+      sent.push(options.data);
+      return createApiResponse({ url, status: step.status, body: step.body });
+    },
+  };
+  return { request: request as unknown as APIRequestContext, sent };
+}
+
+const NAME = fragment(`fragment Name on User { name }`);
+const CONTACT = fragment(`fragment Contact on User { ...Name email }`, NAME);
+
+const GET_USER = gql<{ user: { name: string; email: string } | null }, { id: string }>(
+  `query GetUser($id: ID!) { user(id: $id) { ...Contact ...Name } }`,
+  CONTACT,
+  NAME
+);
+
+const RENAME = gql<{ rename: { name: string } }, { id: string; name: string }>(
+  `mutation Rename($id: ID!, $name: String!) { rename(id: $id, name: $name) { ...Name } }`,
+  NAME
+);
+
+class UsersGraphQLApi extends BaseGraphQLWrapper {
+  constructor(request: APIRequestContext, retries = 0) {
+    super(request, {
+      baseURL: 'http://localhost:3000',
+      endpoint: '/api/graphql',
+      headers: { 'Content-Type': 'application/json' },
+      retries,
+      retryPolicy: { baseDelay: 1, maxDelay: 1, jitter: 0 },
+    });
+  }
+
+  getUser(id: string) {
+    return this.query(GET_USER, { id });
+  }
+
+  getUserChecked(id: string) {
+    return this.query(GET_USER, { id }, {
+      schema: schema.object({ user: schema.nullable(schema.object({ name: schema.string(), email: schema.string() })) }),
+    });
+  }
+
+  rename(id: string, name: string) {
+    return this.mutate(RENAME, { id, name });
+  }
+}
+
+const john = { user: { name: 'John Doe', email: 'john.doe@example.com' } };
+
+test.describe('GraphQL Client', () => {
+  test('should append every fragment an operation uses exactly once', async () => {
+    expect(GET_USER.kind).toBe('query');
+    expect(GET_USER.name).toBe('GetUser');
+    expect(GET_USER.document.match(/fragment Name on User/g)).toHaveLength(1);
+    expect(GET_USER.document.indexOf('fragment Contact')).toBeLessThan(GET_USER.document.indexOf('fragment Name'));
+    expect(RENAME.kind).toBe('mutation');
+  });
+
+  test('should reject spreads of fragments that were not passed in', async () => {
+    expect(() => gql(`query Broken { me { ...Contact } }`, NAME)).toThrow(
+      'Operation Broken spreads "Contact" but the fragment was not passed in'
+    );
+    expect(() => fragment(`{ name }`)).toThrow('Expected a fragment definition');
+    expect(() => gql(`subscription OnUser { user { name } }`)).toThrow('GraphQL subscriptions are not supported');
+    expect(gql(`{ me { ... on User { name } } }`).name).toBeUndefined();
+  });
+
+  test('should ignore spreads inside strings and comments', async () => {
+    const search = gql(`
+      # Matches "...Contact" as typed
+      query Search {
+        search(text: "...Contact", note: """...Name""") { ...Name }
+      }
+    `, NAME);
+
+    expect(search.document).toContain('fragment Name on User');
+  });
+
+  test('should send the document, variables and operation name', async () => {
+    const { request, sent } = createGraphQLRequest([{ status: 200, body: { data: john } }]);
+
+    const data = await new UsersGraphQLApi(request).getUserChecked('1');
+
+    expect(data.user?.name).toBe('John Doe');
+    expect(sent[0]).toEqual({ query: GET_USER.document, variables: { id: '1' }, operationName: 'GetUser' });
+  });
+
+  test('should raise GraphQL errors with their codes and partial data', async () => {
+    const { request } = createGraphQLRequest([
+      {
+        status: 200,
+        body: {
+          data: { user: null },
+          errors: [{ message: 'User 9 not found', path: ['user'], extensions: { code: 'NOT_FOUND' } }],
+        },
+      },
+    ]);
+
+    const error = await new UsersGraphQLApi(request).getUser('9').catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiGraphQLError);
+    expect(error.message).toContain('GraphQL GetUser failed with 1 error:\n  - [NOT_FOUND] User 9 not found (at user)');
+    expect(error.codes).toEqual(['NOT_FOUND']);
+    expect(error.data).toEqual({ user: null });
+    expect(test.info().attachments.map(attachment => attachment.name)).toContain('api-error ApiGraphQLError');
+  });
+
+  test('should treat 400 responses with errors as GraphQL errors', async () => {
+    const { request } = createGraphQLRequest([
+      {
+        status: 400,
+        body: { errors: [{ message: 'Cannot query field "age" on type "User".', extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } }] },
+      },
+    ]);
+
+    const error = await new UsersGraphQLApi(request).getUser('1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiGraphQLError);
+    expect(error.codes).toEqual(['GRAPHQL_VALIDATION_FAILED']);
+    expect(error.data).toBeUndefined();
+  });
+
+  test('should retry queries but not mutations on server errors', async () => {
+    const failing = [{ status: 503, body: { errors: [{ message: 'Unavailable' }] } }, { status: 200, body: { data: john } }];
+
+    const queries = createGraphQLRequest(failing);
+    expect((await new UsersGraphQLApi(queries.request, 1).getUser('1')).user?.name).toBe('John Doe');
+    expect(queries.sent).toHaveLength(2);
+
+    const mutations = createGraphQLRequest(failing);
+    await expect(new UsersGraphQLApi(mutations.request, 1).rename('1', 'Jane')).rejects.toThrow(ApiHttpError);
+    expect(mutations.sent).toHaveLength(1);
+  });
+
+  test('should validate data against the operation schema', async () => {
+    const { request } = createGraphQLRequest([{ status: 200, body: { data: { user: { name: 'John Doe' } } } }]);
+
+    const error = await new UsersGraphQLApi(request).getUserChecked('1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.message).toContain('data.user.email');
+  });
+});
@@ -0,0 +1,139 @@
+import { test, expect, APIResponse } from '@playwright/test';
+import {
+  BaseApiWrapper,
+  RequestOptions,
+  ApiInterceptor,
+  correlationIdInterceptor,
+  headersInterceptor,
+  bearerTokenInterceptor,
+  latencyInterceptor,
+  faultInjectionInterceptor,
+  responseRewriteInterceptor,
+} from '../../wrappers/api';
+import { test as fixtureTest } from '../../utils/api-fixtures';
+import { createScriptedRequest } from './helpers/scripted-request';
+
+/**
+ * Unit tests for the BaseApiWrapper interceptor pipeline
+ */
+
+class RecordingApi extends BaseApiWrapper {
+  call(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
+    return this.send('GET', endpoint, options);
+  }
+}
+
+const config = { baseURL: 'http://localhost:3000', retryPolicy: { baseDelay: 1, maxDelay: 5, jitter: 0 } };
+
+function tracing(name: string, trace: string[]): ApiInterceptor {
+  return {
+    name,
+    intercept: async (request, next) => {
+      trace.push(`> ${name}`);
+      const response = await next(request);
+      trace.push(`< ${name}`);
+      return response;
+    },
+  };
+}
+
+test.describe('API Interceptors', () => {
+  test.afterEach(() => {
+    BaseApiWrapper.removeGlobal('global');
+  });
+
+  test('should run global interceptors around wrapper interceptors in registration order', async () => {
+    const trace: string[] = [];
+    const { request } = createScriptedRequest(() => ({ status: 200, body: { success: true } }));
+    BaseApiWrapper.useGlobal(tracing('global', trace));
+    const api = new RecordingApi(request, { ...config, interceptors: [tracing('config', trace)] });
+    api.use(tracing('used', trace));
+
+    await api.call('/api/users');
+
+    expect(trace).toEqual(['> global', '> config', '> used', '< used', '< config', '< global']);
+  });
+
+  test('should send the headers set by interceptors', async () => {
+    const { request, sent } = createScriptedRequest(() => ({ status: 200, body: { success: true } }));
+    const api = new RecordingApi(request, {
+      ...config,
+      interceptors: [
+        correlationIdInterceptor('X-Correlation-ID', () => 'corr-1'),
+        headersInterceptor({ 'X-Client': 'playwright', Accept: 'text/plain' }),
+        bearerTokenInterceptor(async () => 'static-token'),
+      ],
+    });
+
+    await api.call('/api/users', { headers: { Accept: 'application/json' } });
+
+    expect(sent[0].headers).toMatchObject({
+      'X-Correlation-ID': 'corr-1',
+      'X-Client': 'playwright',
+      Accept: 'application/json',
+      Authorization: 'Bearer static-token',
+    });
+  });
+
+  test('should let an interceptor be removed again', async () => {
+    const { request, sent } = createScriptedRequest(() => ({ status: 200, body: { success: true } }));
+    const api = new RecordingApi(request, config).use(headersInterceptor({ 'X-Client': 'playwright' }));
+
+    api.removeInterceptor('headers');
+    await api.call('/api/users');
+
+    expect(sent[0].headers['X-Client']).toBeUndefined();
+  });
+
+  test('should inject faults per attempt so retries still apply', async () => {
+    const { request, sent } = createScriptedRequest(() => ({ status: 200, body: { success: true } }));
+    const latency = latencyInterceptor();
+    const api = new RecordingApi(request, {
+      ...config,
+      retries: 2,
+      interceptors: [latency, faultInjectionInterceptor({ match: /\/api\/users/, status: 503, times: 1 })],
+    });
+
+    const response = await api.call('/api/users');
+
+    expect(response.status()).toBe(200);
+    expect(sent).toHaveLength(1);
+    expect(latency.samples.map(sample => [sample.attempt, sample.status])).toEqual([[1, 503], [2, 200]]);
+  });
+
+  test('should rewrite matching JSON responses', async () => {
+    const { request } = createScriptedRequest(() => ({ status: 200, body: { success: true, users: [{ id: 1 }] } }));
+    const api = new RecordingApi(request, {
+      ...config,
+      interceptors: [responseRewriteInterceptor<{ success: boolean; users: unknown[] }>(/\/api\/users/, body => ({ ...body, users: [] }))],
+    });
+
+    const response = await api.call('/api/users');
+
+    expect(await response.json()).toEqual({ success: true, users: [] });
+  });
+});
+
+fixtureTest.describe('API Interceptors fixture', () => {
+  fixtureTest.describe.configure({ mode: 'serial' });
+  const trace: string[] = [];
+  fixtureTest.use({ apiInterceptors: [tracing('fixture', trace)] });
+
+  fixtureTest.beforeEach(() => {
+    trace.length = 0;
+  });
+
+  fixtureTest('should install the interceptors of the test', async () => {
+    BaseApiWrapper.useGlobal(tracing('leaked', trace));
+
+    await new RecordingApi(createScriptedRequest(() => ({ status: 200, body: { success: true } })).request, config).call('/api/users');
+
+    expect(trace).toEqual(['> fixture', '> leaked', '< leaked', '< fixture']);
+  });
+
+  fixtureTest('should drop global interceptors an earlier test left behind', async () => {
+    await new RecordingApi(createScriptedRequest(() => ({ status: 200, body: { success: true } })).request, config).call('/api/users');
+
+    expect(trace).toEqual(['> fixture', '< fixture']);
+  });
+});
@@ -0,0 +1,108 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { ApiJournal, TestApiWrapper, createApiResponse } from '../../wrappers/api';
+import { createScriptedRequest } from './helpers/scripted-request';
+
+/**
+ * Unit tests for the per-test API call journal
+ */
+
+function createServerRequest() {
+  return createScriptedRequest(({ url }) => {
+    if (url.endsWith('/api/login')) {
+      return {
+        status: 200,
+        body: {
+          success: true,
+          user: { id: 1, name: 'John Doe', email: 'john.doe@example.com', username: 'johndoe' },
+          token: 'mock_token_1_1700000000000',
+        },
+      };
+    }
+    if (url.includes('/api/users')) {
+      return { status: 200, body: { success: true, users: [] } };
+    }
+    return new Error('connect ECONNREFUSED 127.0.0.1:3000');
+  }).request;
+}
+
+test.describe('API Journal', () => {
+  test('should record every wrapper call of the test with secrets masked', async ({ apiJournal }) => {
+    const apiWrapper = new TestApiWrapper(createServerRequest(), { retries: 0 });
+
+    await apiWrapper.getUsers();
+
+    expect(apiJournal.entries.map(entry => `${entry.method} ${entry.url} ${entry.status}`)).toEqual([
+      'POST http://localhost:3000/api/login 200',
+      'GET http://localhost:3000/api/users 200',
+    ]);
+    const [login, users] = apiJournal.entries;
+    expect(login.requestBody).toEqual({ email: 'john.doe@example.com', password: '[REDACTED]' });
+    expect(login.responseExcerpt).toContain('"token":"[REDACTED]"');
+    expect(users.requestHeaders.Authorization).toBe('[REDACTED]');
+    expect(users.wrapper).toBe('TestApiWrapper');
+  });
+
+  test('should record calls that failed without a response', async ({ apiJournal }) => {
+    const apiWrapper = new TestApiWrapper(createServerRequest(), { retries: 0 });
+
+    await expect(apiWrapper.healthCheck()).rejects.toThrow('ECONNREFUSED');
+
+    expect(apiJournal.entries).toHaveLength(1);
+    expect(apiJournal.entries[0].error).toContain('ECONNREFUSED');
+    expect(apiJournal.toTimeline()).toContain('GET    http://localhost:3000/health → 💥 connect ECONNREFUSED');
+  });
+
+  test('should render a timeline and a HAR log', async () => {
+    const journal = new ApiJournal('journal');
+    await journal.record({
+      wrapper: 'ProjectsApi',
+      request: { method: 'GET', url: 'http://localhost:3000/api/projects?status=active', headers: {} },
+      params: { status: 'active' },
+      startedAt: Date.now() - 15,
+      attempts: 2,
+      response: createApiResponse({
+        url: 'http://localhost:3000/api/projects?status=active',
+        status: 200,
+        statusText: 'OK',
+        body: { success: true, projects: [] },
+      }),
+    });
+
+    expect(journal.toTimeline()).toContain(
+      '+0ms     GET    http://localhost:3000/api/projects?status=active → 200 OK'
+    );
+    expect(journal.toTimeline()).toContain('2 attempts) [ProjectsApi]');
+
+    const har = journal.toHar();
+    expect(har.log.entries).toHaveLength(1);
+    expect(har.log.entries[0].request.queryString).toEqual([{ name: 'status', value: 'active' }]);
+    expect(har.log.entries[0].response.content.text).toBe('{"success":true,"projects":[]}');
+  });
+
+  test('should only leave out the calls made while suspended', async ({ apiJournal }) => {
+    const apiWrapper = new TestApiWrapper(createServerRequest(), { retries: 0 });
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+
+    const suspended = ApiJournal.suspend(async () => {
+      await released;
+      await apiWrapper.getUsers();
+    });
+    await ApiJournal.suspend(() => apiWrapper.getUsers());
+    // Neither the running suspension nor the overlapping one that ended keeps this call out
+    await expect(apiWrapper.healthCheck()).rejects.toThrow('ECONNREFUSED');
+    release();
+    await suspended;
+
+    expect(apiJournal.entries.map(entry => `${entry.method} ${entry.url}`)).toEqual(['GET http://localhost:3000/health']);
+  });
+
+  test('should stop recording once the journal is stopped', async ({ apiJournal }) => {
+    ApiJournal.stop();
+    const apiWrapper = new TestApiWrapper(createServerRequest(), { retries: 0 });
+
+    await apiWrapper.getUsers();
+
+    expect(apiJournal.entries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ApiLatencyError,
+  LatencyBudgetMode,
+  TestApiWrapper,
+  createApiResponse,
+  endpointKey,
+  findLatencyBudget,
+  formatLatencySummary,
+  latencyBudgetsFromEnv,
+  matchesEndpoint,
+  summarizeLatencies,
+  toLatencyBaseline,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for latency budgets and the per-run latency summary
+ * Uses a scripted request context whose user listing answers after 80ms
+ */
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createSlowRequest() {
+  const request = {
+    fetch: async (url: string) => {
+      if (url.endsWith('/api/login')) {
+        return createApiResponse({
+          url,
+          status: 200,
+          body: {
+            success: true,
+            user: { id: 1, name: 'John Doe', email: 'john.doe@example.com', username: 'johndoe' },
+            token: 'mock_token_1_1700000000000',
+          },
+        });
+      }
+      await pause(80);
+      return createApiResponse({ url, status: 200, body: { success: true, users: [] } });
+    },
+  };
+  return request as unknown as APIRequestContext;
+}
+
+function wrapperWithBudgets(mode: LatencyBudgetMode) {
+  return new TestApiWrapper(createSlowRequest(), {
+    retries: 0,
+    latencyBudgets: { mode, budgets: [{ endpoint: 'POST /api/login', max: 800 }, { endpoint: '/api/**', max: 20 }] },
+  });
+}
+
+test.describe('Latency Budgets', () => {
+  test('should match endpoint patterns with methods and wildcards', async () => {
+    expect(matchesEndpoint('POST /api/login', 'post', 'http://localhost:3000/api/login?next=1')).toBe(true);
+    expect(matchesEndpoint('POST /api/login', 'GET', 'http://localhost:3000/api/login')).toBe(false);
+    expect(matchesEndpoint('/api/users/:id', 'DELETE', 'http://localhost:3000/api/users/42')).toBe(true);
+    expect(matchesEndpoint('/api/users/*', 'GET', 'http://localhost:3000/api/users')).toBe(false);
+    expect(matchesEndpoint('/api/**', 'GET', 'http://localhost:3000/api/users/42/avatar')).toBe(true);
+    expect(
+      findLatencyBudget([{ endpoint: 'POST /api/login', max: 800 }, { endpoint: '/api/**', max: 500 }], 'POST', '/api/login')
+    ).toEqual({ endpoint: 'POST /api/login', max: 800 });
+    expect(endpointKey('get', 'http://localhost:3000/api/users/42?page=2')).toBe('GET /api/users/:id');
+    expect(endpointKey('GET', '/api/orders/3f2b8c1e-9a4d-4e6f-8b1a-2c3d4e5f6a7b')).toBe('GET /api/orders/:id');
+    expect(() => latencyBudgetsFromEnv({ API_LATENCY_BUDGETS: 'fail' })).toThrow('Invalid API_LATENCY_BUDGETS "fail"');
+  });
+
+  test('should fail a call over its budget in strict mode', async ({ apiJournal }) => {
+    const error = await wrapperWithBudgets('strict')
+      .getUsers()
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiLatencyError);
+    expect(error.budget).toBe(20);
+    expect(error.endpoint).toBe('/api/**');
+    expect(error.latency).toBeGreaterThanOrEqual(70);
+    expect(error.message).toContain('over the 20ms budget of /api/**');
+    expect(apiJournal.entries[1].latency).toBeGreaterThanOrEqual(70);
+  });
+
+  test('should only warn about a call over its budget in warn mode', async () => {
+    await wrapperWithBudgets('warn').getUsers();
+
+    expect(test.info().attachments.map(attachment => attachment.name)).toContain(
+      'api-latency-warning GET http://localhost:3000/api/users'
+    );
+  });
+
+  test('should summarize the slowest endpoints against the baseline', async () => {
+    const samples = [
+      ...[120, 140, 600].map(latency => ({ endpoint: 'POST /api/login', latency })),
+      ...[30, 40].map(latency => ({ endpoint: 'GET /api/users', latency })),
+      { endpoint: 'GET /health', latency: 5 },
+    ];
+
+    const summary = summarizeLatencies(samples, { 'POST /api/login': { p50: 120, p95: 400 }, 'GET /api/users': { p50: 30, p95: 40 } });
+
+    expect(summary.map(entry => `${entry.endpoint} ${entry.count} ${entry.p50}/${entry.p95}`)).toEqual([
+      'POST /api/login 3 140/600',
+      'GET /api/users 2 30/40',
+      'GET /health 1 5/5',
+    ]);
+    expect(summary[0].regression).toBe(0.5);
+    expect(toLatencyBaseline(summary)).toEqual({
+      'GET /api/users': { p50: 30, p95: 40 },
+      'GET /health': { p50: 5, p95: 5 },
+      'POST /api/login': { p50: 140, p95: 600 },
+    });
+
+    const lines = formatLatencySummary(summary, { top: 2 }).split('\n');
+    expect(lines[0]).toBe('Slowest 2 of 3 endpoints, 1 slower than baseline by more than 20%:');
+    expect(lines[2]).toMatch(/^POST \/api\/login\s+3\s+140ms\s+600ms\s+600ms\s+\+50% \(400ms\) ⚠️$/);
+    expect(lines[3]).toMatch(/^GET \/api\/users\s+2\s+30ms\s+40ms\s+40ms\s+\+0% \(40ms\)$/);
+  });
+});
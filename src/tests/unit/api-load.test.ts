@@ -0,0 +1,142 @@
+import { test, expect } from '../../utils/api-fixtures';
+import { LoadReport, formatLoadReport, latencyStats, loadThresholdViolations, runLoad } from '../../wrappers/api';
+
+/**
+ * Unit tests for the load runner: scheduling of virtual users, statistics and thresholds
+ * Steps are plain async functions, no HTTP calls are made
+ */
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function reportWith(overrides: Partial<LoadReport>): LoadReport {
+  const latency = { min: 5, mean: 20, p50: 15, p95: 60, p99: 90, max: 120 };
+  return {
+    name: 'users',
+    virtualUsers: 2,
+    duration: 2000,
+    iterations: 40,
+    count: 80,
+    errors: 2,
+    errorRate: 0.025,
+    throughput: 40,
+    latency,
+    steps: [
+      { name: 'getUsers', count: 40, errors: 0, errorRate: 0, throughput: 20, latency, errorMessages: {} },
+      {
+        name: 'createUser',
+        count: 40,
+        errors: 2,
+        errorRate: 0.05,
+        throughput: 20,
+        latency: { ...latency, p95: 250 },
+        errorMessages: { 'Expected status 201, got 409': 2 },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+test.describe('Load Runner', () => {
+  test('should compute nearest-rank percentiles', async () => {
+    const durations = Array.from({ length: 100 }, (_, index) => 100 - index);
+
+    expect(latencyStats(durations)).toEqual({ min: 1, mean: 50.5, p50: 50, p95: 95, p99: 99, max: 100 });
+    expect(latencyStats([7])).toEqual({ min: 7, mean: 7, p50: 7, p95: 7, p99: 7, max: 7 });
+    expect(latencyStats([]).p99).toBe(0);
+  });
+
+  test('should ramp up virtual users and count steps, failures and iterations', async () => {
+    const setUps: number[] = [];
+    const starts = new Map<number, number>();
+    const startedAt = Date.now();
+
+    const report = await runLoad({
+      name: 'unit',
+      virtualUsers: 3,
+      rampUp: 300,
+      duration: 5000,
+      maxIterations: 4,
+      setUp: async ({ id }) => {
+        setUps.push(id);
+        starts.set(id, Date.now() - startedAt);
+        return { label: `vu-${id}` };
+      },
+      iteration: async (user, context) => {
+        expect(context.label).toBe(`vu-${user.id}`);
+        await user.step('read', () => pause(1));
+        await user.step('write', async () => {
+          if (user.iteration % 2 === 0) {
+            throw new Error(`conflict on iteration ${user.iteration}`);
+          }
+        });
+        await user.step('after write', () => pause(1));
+        if (user.id === 3 && user.iteration === 1) {
+          throw new Error('outside any step');
+        }
+      },
+    });
+
+    expect(setUps.sort()).toEqual([1, 2, 3]);
+    expect(starts.get(3)!).toBeGreaterThanOrEqual(190);
+    expect(report.iterations).toBe(12);
+    expect(report.steps.map(step => `${step.name} ${step.count}/${step.errors}`)).toEqual([
+      'read 12/0',
+      'write 12/6',
+      'after write 6/0',
+      '(iteration) 1/1',
+    ]);
+    expect(report.steps[1].errorMessages).toEqual({ 'conflict on iteration 2': 3, 'conflict on iteration 4': 3 });
+    expect(report.count).toBe(31);
+    expect(report.errorRate).toBeCloseTo(7 / 31);
+    expect(test.info().attachments.map(attachment => attachment.name)).toContain('load-report unit');
+  });
+
+  test('should stop virtual users when the duration is over', async () => {
+    const startedAt = Date.now();
+
+    const report = await runLoad({
+      virtualUsers: 2,
+      duration: 300,
+      thinkTime: { min: 20, max: 40 },
+      iteration: async user => {
+        await user.step('tick', () => pause(10));
+      },
+    });
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(report.name).toBe('load');
+    expect(report.iterations).toBeGreaterThan(4);
+    expect(report.steps[0].latency.p50).toBeGreaterThanOrEqual(9);
+  });
+
+  test('should list every threshold the report breaks', async () => {
+    const report = reportWith({});
+
+    expect(loadThresholdViolations(report, { p95: 100, maxErrorRate: 0.05, steps: { getUsers: { p99: 100 } } })).toEqual([]);
+    expect(
+      loadThresholdViolations(report, {
+        p95: 50,
+        maxErrorRate: 0,
+        minThroughput: 50,
+        steps: { createUser: { p95: 200, maxErrorRate: 0.01 }, deleteUser: { p95: 100 } },
+      })
+    ).toEqual([
+      'users: p95 latency 60ms exceeds 50ms',
+      'users: error rate 2.5% (2/80) exceeds 0.0%',
+      'users: throughput 40/s is below 50/s',
+      'createUser: p95 latency 250ms exceeds 200ms',
+      'createUser: error rate 5.0% (2/40) exceeds 1.0%',
+      'deleteUser: no operations were run',
+    ]);
+  });
+
+  test('should format the report as a table with error messages', async () => {
+    const lines = formatLoadReport(reportWith({})).split('\n');
+
+    expect(lines[0]).toBe('users: 2 virtual users, 2.0s, 40 iterations');
+    expect(lines[1]).toMatch(/^step\s+count\s+errors\s+rps\s+p50\s+p95\s+p99\s+max$/);
+    expect(lines[3]).toMatch(/^createUser\s+40\s+2 \(5\.0%\)\s+20\s+15ms\s+250ms\s+90ms\s+120ms$/);
+    expect(lines[4]).toMatch(/^total\s+80\s+2 \(2\.5%\)\s+40\s+/);
+    expect(lines[5]).toBe('  createUser ×2: Expected status 201, got 409');
+  });
+});
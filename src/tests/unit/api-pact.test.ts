@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ApiCredentials,
+  AuthSession,
+  BaseApiWrapper,
+  PactFile,
+  PactRecorder,
+  createApiResponse,
+  formatPactVerification,
+  pactFileFor,
+  schema,
+  verifyPact,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for consumer contracts: recording from wrapper calls, merging pact files
+ * and verifying a provider, against scripted request contexts
+ */
+
+interface ScriptedResponse {
+  status: number;
+  body?: object | Buffer;
+  headers?: Record<string, string>;
+}
+
+interface SentRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+}
+
+function createScriptedRequest(script: Record<string, ScriptedResponse>) {
+  const sent: SentRequest[] = [];
+  const request = {
+    fetch: async (url: string, options: { method: string; headers?: Record<string, string>; data?: unknown }) => {
+      const route = `${options.method} ${new URL(url).pathname}`;
+      sent.push({ method: options.method, url, headers: options.headers || {}, data: options.data });
+      const step = script[route] || { status: 404, body: { message: `No script for ${route}` } };
+      return createApiResponse({ url, ...step });
+    },
+  };
+  return { request: request as unknown as APIRequestContext, sent };
+}
+
+const widgetSchema = schema.object({ id: schema.number(), name: schema.string() }, { forbid: ['secret'] });
+
+class WidgetsApi extends BaseApiWrapper {
+  constructor(request: APIRequestContext) {
+    super(request, {
+      baseURL: 'http://localhost:3000',
+      headers: { 'Content-Type': 'application/json' },
+      provider: 'widget-service',
+      auth: { credentials: { email: 'ann@example.com', password: 'Secret123!' } },
+    });
+  }
+
+  protected async login(credentials: ApiCredentials): Promise<AuthSession> {
+    const response = await this.post('/login', { data: credentials, auth: false });
+    await this.expectStatus(response, 200);
+    return { token: 'token-ann', credentials, createdAt: Date.now() };
+  }
+
+  async listWidgets(color: string) {
+    const response = await this.get('/widgets', { params: { color } });
+    await this.expectStatus(response, 200);
+    return await this.expectSchema(response, schema.array(widgetSchema), 'widgets');
+  }
+
+  async createWidget(data: object) {
+    const response = await this.post('/widgets', { data });
+    await this.expectStatus(response, 201);
+    return await this.expectSchema(response, widgetSchema, 'widget');
+  }
+
+  async downloadWidget(id: number) {
+    const response = await this.get(`/widgets/${id}/image`, { auth: false });
+    await this.expectStatus(response, 200);
+    return await this.expectBinary(response, 'image/png');
+  }
+
+  async widgetStatus(id: number) {
+    return (await this.get(`/widgets/${id}`)).status();
+  }
+}
+
+const widgetScript: Record<string, ScriptedResponse> = {
+  'POST /login': { status: 200, body: { token: 'token-ann' } },
+  'GET /widgets': { status: 200, body: [{ id: 1, name: 'Sprocket' }] },
+  'POST /widgets': { status: 201, body: { id: 2, name: 'Cog' } },
+  'GET /widgets/1/image': { status: 200, headers: { 'Content-Type': 'image/png' }, body: Buffer.from([0x89, 0x50]) },
+  'GET /widgets/1': { status: 200, body: { id: 1, name: 'Sprocket' } },
+};
+
+function pactWith(consumer: string, interactions: PactFile['interactions']): PactFile {
+  return {
+    consumer: { name: consumer },
+    provider: { name: 'widget-service' },
+    interactions,
+    metadata: { pactSpecification: { version: '2.0.0' } },
+  };
+}
+
+test.describe('Consumer Contracts', () => {
+  test('should record wrapper calls and what the consumer checked, without the login flow', async () => {
+    const { request } = createScriptedRequest(widgetScript);
+    const recorder = PactRecorder.start('widgets › list and create');
+    try {
+      const api = new WidgetsApi(request);
+      await api.listWidgets('red');
+      await api.listWidgets('red');
+      await api.createWidget({ name: 'Cog', secret: 'hunter2' });
+      await api.downloadWidget(1);
+      await api.widgetStatus(1);
+    } finally {
+      PactRecorder.stop();
+    }
+
+    const [pact, ...others] = recorder.pacts();
+    expect(others).toEqual([]);
+    expect(pact.consumer).toBe('WidgetsApi');
+    expect(pact.provider).toBe('widget-service');
+    expect(pact.interactions.map(interaction => interaction.description)).toEqual([
+      'WidgetsApi: GET /widgets',
+      'WidgetsApi: POST /widgets',
+      'WidgetsApi: GET /widgets/1/image',
+      'WidgetsApi: GET /widgets/1',
+    ]);
+
+    const [list, create, download, unchecked] = pact.interactions;
+    expect(list).toEqual({
+      description: 'WidgetsApi: GET /widgets',
+      providerState: 'widgets › list and create',
+      sequence: 0,
+      auth: { identity: 'ann@example.com' },
+      request: { method: 'GET', path: '/widgets', query: { color: 'red' } },
+      response: {
+        status: 200,
+        shapes: [
+          {
+            type: 'array',
+            items: {
+              type: 'object',
+              fields: { id: { type: 'number' }, name: { type: 'string' } },
+              unexpected: 'allow',
+              forbid: ['secret'],
+            },
+          },
+        ],
+      },
+    });
+    expect(create.request.body).toEqual({ name: 'Cog', secret: '[REDACTED]' });
+    expect(download.auth).toBeUndefined();
+    expect(new RegExp(download.response.contentType!).test('image/png; charset=binary')).toBe(true);
+    expect(new RegExp(download.response.contentType!).test('image/pngx')).toBe(false);
+    expect(unchecked.response).toEqual({});
+    expect(unchecked.sequence).toBe(3);
+  });
+
+  test('should keep recording the calls made outside a suspension', async () => {
+    const { request } = createScriptedRequest(widgetScript);
+    const api = new WidgetsApi(request);
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+    const recorder = PactRecorder.start('widgets › suspended');
+    try {
+      const suspended = PactRecorder.suspend(async () => {
+        await released;
+        await api.listWidgets('red');
+      });
+      await PactRecorder.suspend(() => api.widgetStatus(1));
+      await api.createWidget({ name: 'Cog' });
+      release();
+      await suspended;
+    } finally {
+      PactRecorder.stop();
+    }
+
+    expect(recorder.pacts()[0].interactions.map(interaction => interaction.description)).toEqual([
+      'WidgetsApi: POST /widgets',
+    ]);
+  });
+
+  test('should merge pact files by provider state', async () => {
+    const dir = test.info().outputDir;
+    const record = async (state: string, path: string) => {
+      const recorder = new PactRecorder(state);
+      recorder
+        .capture({ consumer: 'WidgetsApi', provider: 'widget-service', method: 'GET', url: `http://localhost:3000${path}` })
+        .expectStatus(200);
+      return await recorder.write(dir);
+    };
+
+    await record('b state', '/widgets/1');
+    await record('a state', '/widgets/2');
+    const [file] = await record('b state', '/widgets/3');
+
+    expect(file).toBe(pactFileFor(dir, 'WidgetsApi', 'widget-service'));
+    const pact = JSON.parse(fs.readFileSync(file, 'utf8')) as PactFile;
+    expect(pact.interactions.map(interaction => `${interaction.providerState} ${interaction.request.path}`)).toEqual([
+      'a state /widgets/2',
+      'b state /widgets/3',
+    ]);
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  test('should verify the pacts of a provider state by state and report what broke', async () => {
+    const { request, sent } = createScriptedRequest({
+      ...widgetScript,
+      'GET /widgets': { status: 200, body: [{ id: '1', name: 'Sprocket', secret: 'x' }] },
+      'POST /widgets': { status: 200, body: { id: 2, name: 'Cog' } },
+    });
+    const states: string[] = [];
+    const identities: Array<string | undefined> = [];
+    const shape = widgetSchema.shape;
+    const widgets = pactWith('WidgetsApi', [
+      {
+        description: 'WidgetsApi: GET /widgets',
+        providerState: 'listing',
+        sequence: 0,
+        auth: { identity: 'ann@example.com' },
+        request: { method: 'GET', path: '/widgets', query: { color: 'red' } },
+        response: { status: 200, shapes: [{ type: 'array', items: shape }] },
+      },
+      {
+        description: 'WidgetsApi: GET /widgets/1/image',
+        providerState: 'creating',
+        sequence: 1,
+        request: { method: 'GET', path: '/widgets/1/image' },
+        response: { status: 200, contentType: '^image/jpeg' },
+      },
+    ]);
+    const gallery = pactWith('GalleryApi', [
+      {
+        description: 'GalleryApi: POST /widgets',
+        providerState: 'creating',
+        sequence: 0,
+        auth: { identity: 'ann@example.com' },
+        request: { method: 'POST', path: '/widgets', body: { name: 'Cog' } },
+        response: { status: 201, shapes: [shape] },
+      },
+      {
+        description: 'GalleryApi: GET /widgets/1',
+        providerState: 'listing',
+        sequence: 1,
+        request: { method: 'GET', path: '/widgets/1' },
+        response: {},
+      },
+    ]);
+
+    const results = await verifyPact(request, [widgets, gallery], {
+      baseURL: 'http://provider.test:8080',
+      setUp: async state => {
+        states.push(state);
+      },
+      authenticate: async identity => {
+        identities.push(identity);
+        return { Authorization: 'Bearer verified' };
+      },
+    });
+
+    expect(states).toEqual(['creating', 'listing']);
+    expect(identities).toEqual(['ann@example.com']);
+    expect(sent.map(call => `${call.method} ${call.url}`)).toEqual([
+      'POST http://provider.test:8080/widgets',
+      'GET http://provider.test:8080/widgets/1/image',
+      'GET http://provider.test:8080/widgets?color=red',
+      'GET http://provider.test:8080/widgets/1',
+    ]);
+    expect(sent[0].headers).toEqual({ Authorization: 'Bearer verified' });
+    expect(sent[1].headers).toEqual({});
+    expect(results.map(result => `${result.consumer} ${result.problems.length}`)).toEqual([
+      'GalleryApi 1',
+      'WidgetsApi 1',
+      'WidgetsApi 1',
+      'GalleryApi 0',
+    ]);
+
+    const report = formatPactVerification(results);
+    expect(report).toContain('1/4 interactions verified');
+    expect(report).toContain('GalleryApi: POST /widgets (creating)\n      expected status 201, got 200');
+    expect(report).toContain('$[0].id');
+    expect(report).toContain('$[0].secret');
+    expect(report).toContain('expected a Content-Type matching /^image/jpeg/, got image/png');
+  });
+});
@@ -0,0 +1,181 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import {
+  ApiAuthError,
+  PollTimeoutError,
+  TestApiWrapper,
+  createApiResponse,
+  expectPollOptions,
+  pollIntervals,
+  pollUntil,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for polling eventually consistent APIs
+ * The scripted user is missing at first, then appears and is renamed after a few calls
+ */
+
+const login = {
+  success: true,
+  user: { id: 1, name: 'John Doe', email: 'john.doe@example.com', username: 'johndoe' },
+  token: 'mock_token_1_1700000000000',
+};
+
+function createEventualRequest(script: Array<{ status: number; name?: string }>) {
+  let calls = 0;
+  const request = {
+    fetch: async (url: string) => {
+      if (url.endsWith('/api/login')) {
+        return createApiResponse({ url, status: 200, statusText: 'OK', body: login });
+      }
+      const step = script[Math.min(calls++, script.length - 1)];
+      return step.status === 200
+        ? createApiResponse({
+            url,
+            status: 200,
+            statusText: 'OK',
+            body: { success: true, user: { id: 7, name: step.name, email: 'jane@example.com', username: 'jane' } },
+          })
+        : createApiResponse({ url, status: step.status, body: { success: false, message: 'Not ready' } });
+    },
+  };
+  return { request: request as unknown as APIRequestContext, calls: () => calls };
+}
+
+const fast = { interval: 1, backoff: 1, maxInterval: 1 };
+
+test.describe('API Polling', () => {
+  test('should return the first value that satisfies the predicate', async () => {
+    const { request, calls } = createEventualRequest([
+      { status: 404 },
+      { status: 200, name: 'Draft' },
+      { status: 200, name: 'Published' },
+    ]);
+    const apiWrapper = new TestApiWrapper(request, { retries: 0 });
+
+    const user = await apiWrapper.pollUntil(() => apiWrapper.getUserById(7), user => user.name === 'Published', fast);
+
+    expect(user.name).toBe('Published');
+    expect(calls()).toBe(3);
+  });
+
+  test('should time out with the last observed values', async () => {
+    const { request } = createEventualRequest([
+      { status: 404 },
+      { status: 404 },
+      { status: 200, name: 'Draft' },
+    ]);
+    const apiWrapper = new TestApiWrapper(request, { retries: 0 });
+
+    const error = await apiWrapper
+      .pollUntil(() => apiWrapper.getUserById(7), user => user.name === 'Published', {
+        ...fast,
+        timeout: 50,
+        history: 3,
+        message: 'user 7 to be published',
+      })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(PollTimeoutError);
+    expect(error.attempts).toBeGreaterThan(3);
+    expect(error.observations).toHaveLength(3);
+    expect(error.message).toContain('Timed out after 50ms waiting for user 7 to be published');
+    expect(error.message).toContain('Last 3 observed values:');
+    expect(error.message).toContain('"name":"Draft"');
+    expect(error.lastValue).toMatchObject({ id: 7, name: 'Draft' });
+    const attachments = test.info().attachments.map(attachment => attachment.name);
+    expect(attachments).toContain('api-poll user 7 to be published');
+    expect(attachments).not.toContain('api-error ApiHttpError');
+  });
+
+  test('should still report errors of calls made alongside a poll', async () => {
+    const polled = new TestApiWrapper(createEventualRequest([{ status: 404 }]).request, { retries: 0 });
+    const other = new TestApiWrapper(createEventualRequest([{ status: 500 }]).request, { retries: 0 });
+
+    const [pollError, callError] = await Promise.all([
+      polled.pollUntil(() => polled.getUserById(7), () => true, { ...fast, timeout: 50 }).catch(e => e),
+      new Promise(resolve => setTimeout(resolve, 10)).then(() => other.getUserById(7)).catch(e => e),
+    ]);
+
+    expect(pollError).toBeInstanceOf(PollTimeoutError);
+    expect(callError.name).toBe('ApiHttpError');
+    const errors = test.info().attachments.filter(attachment => attachment.name === 'api-error ApiHttpError');
+    expect(errors).toHaveLength(1);
+  });
+
+  test('should record errors thrown while polling as observations', async () => {
+    const error = await pollUntil(
+      async () => {
+        throw new Error('connect ECONNREFUSED 127.0.0.1:3000');
+      },
+      () => true,
+      { ...fast, timeout: 10 }
+    ).catch(e => e);
+
+    expect(error).toBeInstanceOf(PollTimeoutError);
+    expect(error.observations[0].error).toBe('Error: connect ECONNREFUSED 127.0.0.1:3000');
+    expect(error.lastValue).toBeUndefined();
+  });
+
+  test('should stop at once on authentication failures', async () => {
+    const { request, calls } = createEventualRequest([{ status: 401 }]);
+    const apiWrapper = new TestApiWrapper(request, { retries: 0, auth: undefined });
+
+    await expect(
+      apiWrapper.pollUntil(() => apiWrapper.getUserById(7), () => true, { ...fast, timeout: 1000 })
+    ).rejects.toThrow(ApiAuthError);
+    expect(calls()).toBe(1);
+  });
+
+  test('should use the polling defaults of the wrapper config', async () => {
+    const { request } = createEventualRequest([{ status: 404 }]);
+    const apiWrapper = new TestApiWrapper(request, { retries: 0, polling: { ...fast, timeout: 20, history: 1 } });
+
+    const error = await apiWrapper.pollUntil(() => apiWrapper.getUserById(7), () => true).catch(e => e);
+
+    expect(error.timeout).toBe(20);
+    expect(error.observations).toHaveLength(1);
+    expect(error.observations[0].error).toContain('ApiHttpError: Expected status 200, got 404');
+  });
+
+  test('should back off up to the maximum interval', async () => {
+    expect(pollIntervals({ timeout: 10000, interval: 100, backoff: 2, maxInterval: 1000 })).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+    expect(pollIntervals({ timeout: 250, interval: 100, backoff: 1 })).toEqual([100, 100, 100]);
+  });
+
+  test('should reject intervals that never add up to the timeout', async () => {
+    expect(() => pollIntervals({ interval: 0 })).toThrow('interval and maxInterval must be positive, got 0 and 2000');
+    expect(() => pollIntervals({ interval: -50 })).toThrow('must be positive');
+    expect(() => pollIntervals({ maxInterval: 0 })).toThrow('must be positive');
+    expect(() => expectPollOptions({ interval: 0 })).toThrow('must be positive');
+    await expect(pollUntil(async () => 1, () => true, { interval: 0 })).rejects.toThrow('must be positive');
+  });
+
+  test('should reject a backoff that shrinks the delay', async () => {
+    expect(() => pollIntervals({ backoff: 0 })).toThrow('backoff must be at least 1, got 0');
+    expect(() => pollIntervals({ backoff: 0.5 })).toThrow('backoff must be at least 1');
+    expect(() => pollIntervals({ backoff: Number.NaN })).toThrow('backoff must be at least 1');
+    expect(() => expectPollOptions({ backoff: 0 })).toThrow('backoff must be at least 1');
+    await expect(pollUntil(async () => 1, () => true, { backoff: 0 })).rejects.toThrow('backoff must be at least 1');
+    // Sub-millisecond delays would round to zero
+    expect(pollIntervals({ timeout: 3, interval: 0.4, backoff: 1 })).toEqual([0.4, 1, 1, 1]);
+  });
+
+  test('should drive expect.poll with the same schedule', async () => {
+    const { request } = createEventualRequest([{ status: 404 }, { status: 200, name: 'Published' }]);
+    const apiWrapper = new TestApiWrapper(request, { retries: 0 });
+
+    await expect
+      .poll(
+        () => apiWrapper.getUserById(7).then(user => user.name, () => 'missing'),
+        expectPollOptions({ ...fast, timeout: 1000 })
+      )
+      .toBe('Published');
+    expect(expectPollOptions({ timeout: 500, interval: 100, message: 'user published' })).toEqual({
+      timeout: 500,
+      intervals: [100, 150, 225, 338],
+      message: 'user published',
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect, APIResponse } from '@playwright/test';
+import { BaseApiWrapper, RequestOptions, DEFAULT_RETRY_POLICY, computeBackoff, parseRetryAfter } from '../../wrappers/api';
+import { createScriptedRequest } from './helpers/scripted-request';
+
+/**
+ * Unit tests for the BaseApiWrapper retry policy
+ */
+
+class ScriptedApi extends BaseApiWrapper {
+  call(method: 'GET' | 'POST', endpoint: string, options?: RequestOptions): Promise<APIResponse> {
+    return this.send(method, endpoint, options);
+  }
+}
+
+const fastPolicy = { baseDelay: 1, maxDelay: 5, jitter: 0 };
+
+test.describe('API Retry Policy', () => {
+  test('should retry retryable status codes until success', async () => {
+    const { request, sent } = createScriptedRequest([{ status: 503 }, { status: 502 }, { status: 200 }]);
+    const api = new ScriptedApi(request, { baseURL: 'http://localhost:3000', retries: 3, retryPolicy: fastPolicy });
+
+    const response = await api.call('GET', '/api/users');
+
+    expect(response.status()).toBe(200);
+    expect(sent).toHaveLength(3);
+  });
+
+  test('should return the last response once retries are exhausted', async () => {
+    const { request, sent } = createScriptedRequest([{ status: 503 }, { status: 503 }, { status: 503 }]);
+    const api = new ScriptedApi(request, { baseURL: 'http://localhost:3000', retries: 2, retryPolicy: fastPolicy });
+
+    const response = await api.call('GET', '/api/users');
+
+    expect(response.status()).toBe(503);
+    expect(sent).toHaveLength(3);
+  });
+
+  test('should not retry non-retryable status codes', async () => {
+    const { request, sent } = createScriptedRequest([{ status: 404 }]);
+    const api = new ScriptedApi(request, { baseURL: 'http://localhost:3000', retries: 3, retryPolicy: fastPolicy });
+
+    const response = await api.call('GET', '/api/users/99');
+
+    expect(response.status()).toBe(404);
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should not retry POST unless marked idempotent', async () => {
+    const first = createScriptedRequest([{ status: 503 }, { status: 201 }]);
+    const api = new ScriptedApi(first.request, { baseURL: 'http://localhost:3000', retries: 3, retryPolicy: fastPolicy });
+    expect((await api.call('POST', '/api/users')).status()).toBe(503);
+    expect(first.sent).toHaveLength(1);
+
+    const second = createScriptedRequest([{ status: 503 }, { status: 201 }]);
+    const idempotentApi = new ScriptedApi(second.request, { baseURL: 'http://localhost:3000', retries: 3, retryPolicy: fastPolicy });
+    expect((await idempotentApi.call('POST', '/api/users', { idempotent: true })).status()).toBe(201);
+    expect(second.sent).toHaveLength(2);
+  });
+
+  test('should retry network errors but rethrow other errors', async () => {
+    const network = createScriptedRequest([new Error('connect ECONNREFUSED 127.0.0.1:3000'), { status: 200 }]);
+    const api = new ScriptedApi(network.request, { baseURL: 'http://localhost:3000', retries: 1, retryPolicy: fastPolicy });
+    expect((await api.call('GET', '/health')).status()).toBe(200);
+
+    const unexpected = createScriptedRequest([new TypeError('Invalid URL'), { status: 200 }]);
+    const failingApi = new ScriptedApi(unexpected.request, { baseURL: 'http://localhost:3000', retries: 1, retryPolicy: fastPolicy });
+    await expect(failingApi.call('GET', '/health')).rejects.toThrow('Invalid URL');
+    expect(unexpected.sent).toHaveLength(1);
+  });
+
+  test('should honor per-call retries override', async () => {
+    const { request, sent } = createScriptedRequest([{ status: 503 }, { status: 200 }]);
+    const api = new ScriptedApi(request, { baseURL: 'http://localhost:3000', retries: 3, retryPolicy: fastPolicy });
+
+    const response = await api.call('GET', '/api/users', { retries: 0 });
+
+    expect(response.status()).toBe(503);
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should parse Retry-After seconds and HTTP dates', async () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+
+  test('should grow backoff exponentially within the jitter band and cap it', async () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000, jitter: 0.2 };
+
+    for (let retry = 1; retry <= 3; retry++) {
+      const expected = 100 * Math.pow(2, retry - 1);
+      const delay = computeBackoff(retry, policy);
+      expect(delay).toBeGreaterThanOrEqual(expected * 0.8);
+      expect(delay).toBeLessThanOrEqual(expected * 1.2);
+    }
+    expect(computeBackoff(10, policy)).toBe(1000);
+  });
+});
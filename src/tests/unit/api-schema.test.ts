@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+import {
+  schema,
+  validateSchema,
+  assertSchema,
+  SchemaValidationError,
+  ApiValidationError,
+  TestApiWrapper,
+  projectSchema,
+  reportSchema,
+} from '../../wrappers/api';
+import { createScriptedRequest } from './helpers/scripted-request';
+
+/**
+ * Unit tests for response schema validation
+ */
+
+const validProject = {
+  id: 1,
+  name: 'E-commerce Platform',
+  description: 'Modern e-commerce solution',
+  status: 'active',
+  priority: 'high',
+  startDate: '2023-01-01',
+  endDate: null,
+  progress: 75,
+  budget: 150000,
+  spent: 112500,
+  teamMembers: [1, 2],
+  tags: ['react'],
+  createdBy: 1,
+  createdAt: '2023-01-01T00:00:00Z',
+};
+
+test.describe('API Response Schemas', () => {
+  test('should accept a valid payload', async () => {
+    expect(validateSchema(projectSchema, validProject)).toEqual([]);
+  });
+
+  test('should report missing, mistyped, invalid and unexpected fields', async () => {
+    const issues = validateSchema(projectSchema, {
+      ...validProject,
+      name: undefined,
+      progress: '75',
+      status: 'archived',
+      archived: true,
+    });
+
+    expect(issues).toEqual([
+      { path: '$.name', kind: 'missing', expected: 'string' },
+      { path: '$.status', kind: 'value', expected: '"planning" | "active" | "completed" | "on-hold"', actual: 'archived' },
+      { path: '$.progress', kind: 'type', expected: 'number', actual: '75' },
+      { path: '$.archived', kind: 'unexpected', actual: true },
+    ]);
+  });
+
+  test('should render issues as a readable diff', async () => {
+    const error = new SchemaValidationError(
+      'get project response',
+      validateSchema(projectSchema, { ...validProject, tags: 'react', owner: 'john' })
+    );
+
+    expect(error.message).toBe(
+      [
+        'Schema validation failed for get project response (2 issues):',
+        '  ~ $.tags: expected array, got string "react"',
+        '  + $.owner: unexpected field (string "john")',
+      ].join('\n')
+    );
+  });
+
+  test('should pick the closest union option when none matches', async () => {
+    const issues = validateSchema(reportSchema, {
+      id: 1,
+      name: 'Q1 Progress',
+      type: 'progress',
+      generatedAt: '2023-04-01T00:00:00Z',
+      generatedBy: 1,
+      data: {
+        totalProjects: 3,
+        activeProjects: 2,
+        completedTasks: 10,
+        pendingTasks: 4,
+        teamProductivity: 85,
+      },
+    });
+
+    expect(issues).toEqual([{ path: '$.data.budgetUtilization', kind: 'missing', expected: 'number' }]);
+  });
+
+  test('should redact secrets in failure messages', async () => {
+    const userSchema = schema.object({ id: schema.number() }, { unexpected: 'allow', forbid: ['password'] });
+
+    expect(() => assertSchema(userSchema, { id: 1, name: 'John', password: 'SecurePass123!' }, 'user')).toThrow(
+      '+ $.password: unexpected field (string "[REDACTED]")'
+    );
+  });
+
+  test('should fail a wrapper call when the response leaks a password', async () => {
+    const apiWrapper = new TestApiWrapper(
+      createScriptedRequest(() => ({
+        status: 200,
+        body: {
+          success: true,
+          users: [{ id: 1, name: 'John Doe', email: 'john.doe@example.com', username: 'johndoe', password: 'SecurePass123!' }],
+        },
+      })).request,
+      { auth: {} }
+    );
+
+    const error = await apiWrapper.getUsers().catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.issues).toEqual([{ path: '$.users[0].password', kind: 'unexpected', actual: '[REDACTED]' }]);
+    expect(error.message).toContain('$.users[0].password');
+    expect(error.message).not.toContain('SecurePass123!');
+  });
+
+  test('should only warn in warn mode', async () => {
+    const apiWrapper = new TestApiWrapper(createScriptedRequest(() => ({ status: 200, body: { success: true, users: [{ id: '1' }] } })).request, {
+      auth: {},
+      schemaValidation: 'warn',
+    });
+
+    const users = await apiWrapper.getUsers();
+
+    expect(users).toEqual([{ id: '1' }]);
+  });
+});
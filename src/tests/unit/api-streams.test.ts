@@ -0,0 +1,75 @@
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ServerSentEvent,
+  StreamLog,
+  StreamTimeoutError,
+  createEventStreamParser,
+  eventToMessage,
+  frameToMessage,
+} from '../../wrappers/api';
+
+/**
+ * Unit tests for the stream helpers: parsing text/event-stream, reading WebSocket frames and
+ * waiting on a stream log; no connections are opened
+ */
+
+test.describe('Streams', () => {
+  test('should parse server-sent events split across chunks', async () => {
+    const events: ServerSentEvent[] = [];
+    const parser = createEventStreamParser(event => events.push(event));
+
+    ['retry: 1500\n\n: heartbeat\n\nid: 7\nevent: notif', 'ication\ndata: {"title":', '"Hi"}\r\n\r\n', 'data: line one\ndata: line two\n\n', 'data: no end yet'].forEach(
+      chunk => parser.push(chunk)
+    );
+
+    expect(events).toEqual([
+      { event: 'message', data: '', id: undefined, retry: 1500 },
+      { event: 'notification', data: '{"title":"Hi"}', id: '7', retry: undefined },
+      { event: 'message', data: 'line one\nline two', id: undefined, retry: undefined },
+    ]);
+  });
+
+  test('should read JSON payloads of events and frames', async () => {
+    expect(eventToMessage('notification', '{"title":"Hi"}', '7')).toMatchObject({ event: 'notification', data: { title: 'Hi' }, id: '7' });
+    expect(eventToMessage('message', 'plain text').data).toBe('plain text');
+    expect(frameToMessage('{"id":3,"type":"activity","data":{"action":"created"}}', 'received')).toMatchObject({
+      event: 'activity',
+      id: '3',
+      data: { action: 'created' },
+      direction: 'received',
+    });
+    expect(frameToMessage(Buffer.from('{"type":"ping"}'), 'sent')).toMatchObject({ event: 'ping', data: { type: 'ping' }, id: undefined });
+    expect(frameToMessage('[1,2]', 'received')).toMatchObject({ event: 'message', data: [1, 2] });
+  });
+
+  test('should wait for messages that arrive later, in order', async () => {
+    const log = new StreamLog<{ title: string }>('unit stream');
+    log.push(eventToMessage('notification', '{"title":"Earlier"}'));
+    const from = log.messages.length;
+
+    const waiting = log.waitForCount(2, 'notification', { from });
+    setTimeout(() => log.push(eventToMessage('activity', '{"title":"Other"}')), 10);
+    setTimeout(() => log.push(eventToMessage('notification', '{"title":"First"}')), 20);
+    setTimeout(() => log.push(eventToMessage('notification', '{"title":"Second"}')), 30);
+
+    expect((await waiting).map(message => message.data.title)).toEqual(['First', 'Second']);
+    expect((await log.waitFor(message => message.data.title === 'Earlier')).event).toBe('notification');
+    expect(log.received('activity')).toHaveLength(1);
+  });
+
+  test('should list the last messages when nothing matches in time', async () => {
+    const log = new StreamLog('unit stream');
+    log.push(eventToMessage('activity', '{"action":"created"}', '1'));
+    log.push(frameToMessage('{"type":"ping"}', 'sent'));
+
+    const error = await log.waitFor('notification', { timeout: 50 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(StreamTimeoutError);
+    expect(error.message.split('\n')).toEqual([
+      'Timed out after 50ms waiting for 1 "notification" events on unit stream (got 0)',
+      'Last 2 of 2 messages:',
+      '  ← activity #1 {"action":"created"}',
+      '  → ping {"type":"ping"}',
+    ]);
+  });
+});
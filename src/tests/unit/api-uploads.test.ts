@@ -0,0 +1,121 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { test, expect } from '../../utils/api-fixtures';
+import {
+  ApiValidationError,
+  BaseApiWrapper,
+  RequestOptions,
+  describeRequestBody,
+  fileFromPath,
+  fileStream,
+  mimeTypeFor,
+  resolveTestFile,
+} from '../../wrappers/api';
+import { createScriptedRequest } from './helpers/scripted-request';
+
+/**
+ * Unit tests for form, multipart and binary bodies and binary responses
+ */
+
+class UploadApi extends BaseApiWrapper {
+  constructor(request: APIRequestContext) {
+    super(request, {
+      baseURL: 'http://localhost:3000',
+      headers: { 'Content-Type': 'application/json' },
+      retries: 2,
+      retryPolicy: { baseDelay: 1, maxDelay: 1, jitter: 0, retryNonIdempotent: true },
+    });
+  }
+
+  call(options: RequestOptions): Promise<APIResponse> {
+    return this.send('POST', '/files/report.pdf', options);
+  }
+
+  binary(response: APIResponse, contentType?: string | RegExp): Promise<Buffer> {
+    return this.expectBinary(response, contentType);
+  }
+
+  save(response: APIResponse, filePath?: string): Promise<string> {
+    return this.saveResponse(response, filePath);
+  }
+}
+
+test.describe('API Uploads', () => {
+  test('should let Playwright set the Content-Type of form and multipart bodies', async () => {
+    const { request, sent } = createScriptedRequest(() => ({ status: 200 }));
+    const api = new UploadApi(request);
+
+    await api.call({ form: { q: 'playwright' } });
+    await api.call({ multipart: { file: fileFromPath('avatar.png') } });
+    await api.call({ form: { q: 'x' }, headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=latin1' } });
+
+    expect(sent[0].form).toEqual({ q: 'playwright' });
+    expect(sent[0].headers['Content-Type']).toBeUndefined();
+    expect(sent[1].multipart?.file).toMatchObject({ name: 'avatar.png', mimeType: 'image/png' });
+    expect(sent[1].headers['Content-Type']).toBeUndefined();
+    expect(sent[2].headers['Content-Type']).toBe('application/x-www-form-urlencoded; charset=latin1');
+  });
+
+  test('should send Buffers as octet-stream unless a Content-Type is given', async () => {
+    const { request, sent } = createScriptedRequest(() => ({ status: 200 }));
+    const api = new UploadApi(request);
+
+    await api.call({ data: Buffer.from([1, 2, 3]) });
+    await api.call({ data: Buffer.from([1, 2, 3]), headers: { 'content-type': 'image/png' } });
+
+    expect(sent[0].headers['Content-Type']).toBe('application/octet-stream');
+    expect(sent[1].headers).toMatchObject({ 'Content-Type': 'application/json', 'content-type': 'image/png' });
+  });
+
+  test('should retry file uploads but not streamed ones', async () => {
+    const { request, sent } = createScriptedRequest(() => ({ status: 503 }));
+    const api = new UploadApi(request);
+
+    await api.call({ multipart: { file: fileFromPath('avatar.png') } });
+    expect(sent).toHaveLength(3);
+
+    await api.call({ multipart: { file: fileStream('avatar.png') } });
+    expect(sent).toHaveLength(4);
+  });
+
+  test('should describe uploads in the journal instead of their bytes', async ({ apiJournal }) => {
+    const api = new UploadApi(createScriptedRequest(() => ({ status: 200 })).request);
+
+    await api.call({ multipart: { file: fileFromPath('avatar.png'), alt: 'me' } });
+
+    const size = fileFromPath('avatar.png').buffer.length;
+    expect(apiJournal.entries[0].requestBody).toEqual({ file: `<file avatar.png, image/png, ${size} bytes>`, alt: 'me' });
+    expect(describeRequestBody({ data: Buffer.alloc(4) })).toBe('<binary 4 bytes>');
+    expect(describeRequestBody({ form: { a: 1 } })).toEqual({ a: 1 });
+  });
+
+  test('should find test files in the fixtures folder', async () => {
+    expect(resolveTestFile('avatar.png')).toMatch(/src[\\/]tests[\\/]fixtures[\\/]avatar\.png$/);
+    expect(() => resolveTestFile('missing.png')).toThrow('Test file "missing.png" not found');
+    expect(mimeTypeFor('report.PDF')).toBe('application/pdf');
+    expect(mimeTypeFor('data.bin')).toBe('application/octet-stream');
+  });
+
+  test('should check binary responses and save them to disk', async () => {
+    const pdf = Buffer.from('%PDF-1.7');
+    const { request } = createScriptedRequest(() => ({
+      status: 200,
+      headers: {
+        'content-type': 'application/pdf',
+        'content-disposition': 'attachment; filename="quarterly report.pdf"',
+      },
+      body: pdf,
+    }));
+    const api = new UploadApi(request);
+    const response = await api.call({});
+
+    expect(await api.binary(response, 'application/pdf')).toEqual(pdf);
+    await expect(api.binary(response, /^image\//)).rejects.toThrow(ApiValidationError);
+
+    const saved = await api.save(response, test.info().outputPath('report.pdf'));
+    expect(saved).toBe(test.info().outputPath('report.pdf'));
+
+    const emptyApi = new UploadApi(createScriptedRequest(() => ({ status: 200 })).request);
+    const empty = await emptyApi.call({});
+    await expect(emptyApi.binary(empty)).rejects.toThrow('Expected a binary response body, got an empty one');
+  });
+});
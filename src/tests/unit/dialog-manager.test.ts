@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+import { test, expect, Page, Dialog } from '@playwright/test';
+import { DialogExpectationError, DialogManager, matchesExpectedDialog } from '../../wrappers/ui/dialog-manager';
+
+/**
+ * Unit tests for the dialog manager, with a scripted page and dialogs instead of a browser
+ */
+
+interface FakeDialog {
+  answer?: string;
+}
+
+function fakePage(): { page: Page; show: (type: string, message: string) => Promise<FakeDialog> } {
+  const emitter = new EventEmitter();
+  const show = async (type: string, message: string) => {
+    const shown: FakeDialog = {};
+    const dialog = {
+      type: () => type,
+      message: () => message,
+      accept: async (promptText?: string) => { shown.answer = `accepted${promptText ? `: ${promptText}` : ''}`; },
+      dismiss: async () => { shown.answer = 'dismissed'; },
+    } as unknown as Dialog;
+    emitter.emit('dialog', dialog);
+    await new Promise(resolve => setImmediate(resolve));
+    return shown;
+  };
+  return { page: emitter as unknown as Page, show };
+}
+
+test.describe('Dialog Manager', () => {
+  test.afterEach(() => {
+    DialogManager.takeCreated().forEach(manager => manager.dispose());
+  });
+
+  test('should match dialogs by type and message', async () => {
+    expect(matchesExpectedDialog({}, 'alert', 'Saved')).toBe(true);
+    expect(matchesExpectedDialog({ type: 'confirm' }, 'alert', 'Saved')).toBe(false);
+    expect(matchesExpectedDialog({ type: 'confirm', message: 'delete' }, 'confirm', 'Are you sure you want to delete this project?')).toBe(true);
+    expect(matchesExpectedDialog({ message: /^Saved$/ }, 'alert', 'Saved!')).toBe(false);
+  });
+
+  test('should answer expected dialogs in any order with one listener', async () => {
+    const { page, show } = fakePage();
+    const manager = DialogManager.for(page);
+    expect(DialogManager.for(page)).toBe(manager);
+    expect((page as unknown as EventEmitter).listenerCount('dialog')).toBe(1);
+
+    const name = manager.expectDialog({ type: 'prompt', promptText: 'Apollo' });
+    const confirmed = manager.expectDialog({ type: 'confirm', message: 'delete', response: 'dismiss' });
+
+    expect((await show('confirm', 'Really delete?')).answer).toBe('dismissed');
+    expect((await show('prompt', 'Name?')).answer).toBe('accepted: Apollo');
+    expect(await confirmed).toMatchObject({ type: 'confirm', response: 'dismiss', expected: true });
+    expect(await name).toMatchObject({ type: 'prompt', response: 'accept', promptText: 'Apollo', expected: true });
+    expect(() => manager.verify()).not.toThrow();
+  });
+
+  test('should dismiss unexpected dialogs and report them with the missing ones', async () => {
+    const { page, show } = fakePage();
+    const manager = DialogManager.for(page);
+    manager.expectDialog({ type: 'confirm', message: 'delete' });
+
+    expect((await show('alert', 'XSS')).answer).toBe('dismissed');
+    expect(manager.records).toHaveLength(1);
+    expect(() => manager.verify()).toThrow(DialogExpectationError);
+    expect(() => manager.verify()).toThrow([
+      'Dialogs did not go as expected:',
+      '- unexpected alert "XSS" (dismissed)',
+      '- expected confirm "delete" (accept) never appeared',
+    ].join('\n'));
+  });
+
+  test('should stop handling dialogs once disposed', async () => {
+    const { page } = fakePage();
+    const manager = DialogManager.for(page);
+    expect(DialogManager.takeCreated()).toEqual([manager]);
+
+    manager.dispose();
+    expect((page as unknown as EventEmitter).listenerCount('dialog')).toBe(0);
+    expect(DialogManager.for(page)).not.toBe(manager);
+  });
+});
@@ -0,0 +1,56 @@
+import { APIRequestContext } from '@playwright/test';
+import { ApiResponseInit, createApiResponse } from '../../../wrappers/api';
+
+/**
+ * Request context for unit tests that answers from a script instead of a server
+ * and records every request it was asked to send
+ */
+
+export interface SentRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  form?: unknown;
+  multipart?: Record<string, unknown>;
+}
+
+/** Answer to one request; an Error is thrown as the failure of the request itself */
+export type ScriptedResponse = Pick<ApiResponseInit, 'status' | 'headers' | 'body'> | Error;
+
+export type ScriptedResponder = (sent: SentRequest) => ScriptedResponse | Promise<ScriptedResponse>;
+
+function nextScripted(script: ScriptedResponse[]): ScriptedResponse {
+  const next = script.shift();
+  if (!next) {
+    throw new Error('No scripted response left');
+  }
+  return next;
+}
+
+/**
+ * Answers with the responses of `script` in order, or with what `script` returns for each request
+ */
+export function createScriptedRequest(script: ScriptedResponse[] | ScriptedResponder) {
+  const sent: SentRequest[] = [];
+  const respond: ScriptedResponder = Array.isArray(script) ? () => nextScripted(script) : script;
+
+  const request = {
+    fetch: async (url: string, options: Omit<SentRequest, 'url'>) => {
+      const entry: SentRequest = { ...options, url };
+      sent.push(entry);
+      const next = await respond(entry);
+      if (next instanceof Error) {
+        throw next;
+      }
+      return createApiResponse({
+        url,
+        status: next.status,
+        statusText: next.status < 400 ? 'OK' : 'Error',
+        headers: next.headers,
+        body: next.body,
+      });
+    },
+  };
+  return { request: request as unknown as APIRequestContext, sent };
+}
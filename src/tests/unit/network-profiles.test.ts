@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test';
+import { NETWORK_PROFILES, describeNetworkProfile, isFailingRequest, resolveNetworkProfile } from '../../wrappers/ui/network-profiles';
+
+/**
+ * Unit tests for the network profiles of BasePage, the parts that need no browser
+ */
+
+test.describe('Network Profiles', () => {
+  test('should resolve named profiles and check custom ones', async () => {
+    expect(resolveNetworkProfile('slow-3g')).toBe(NETWORK_PROFILES['slow-3g']);
+    expect(resolveNetworkProfile({ latency: 300, failureRate: 0.5 })).toEqual({ latency: 300, failureRate: 0.5 });
+    expect(() => resolveNetworkProfile('dial-up' as 'offline')).toThrow(
+      'Unknown network profile "dial-up"; expected one of offline, slow-3g, fast-3g, high-latency, flaky'
+    );
+    expect(() => resolveNetworkProfile({ failureRate: 2 })).toThrow('failureRate must be between 0 and 1');
+    expect(() => resolveNetworkProfile({ latency: -100 })).toThrow('must not be negative');
+  });
+
+  test('should fail the same evenly spread requests on every run', async () => {
+    const failing = (rate: number) => Array.from({ length: 10 }, (_, index) => index + 1).filter(number => isFailingRequest(number, rate));
+
+    expect(failing(0.3)).toEqual([4, 7, 10]);
+    expect(failing(0.5)).toEqual([2, 4, 6, 8, 10]);
+    expect(failing(1)).toHaveLength(10);
+    expect(failing(0)).toEqual([]);
+  });
+
+  test('should describe profiles for the report', async () => {
+    expect(describeNetworkProfile(NETWORK_PROFILES['slow-3g'])).toBe('2000ms latency, 50 KB/s down, 50 KB/s up');
+    expect(describeNetworkProfile(NETWORK_PROFILES.flaky)).toBe('200ms latency, 30% failing');
+    expect(describeNetworkProfile(NETWORK_PROFILES.offline)).toBe('offline');
+    expect(describeNetworkProfile({})).toBe('unthrottled');
+  });
+});
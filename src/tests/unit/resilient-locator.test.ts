@@ -0,0 +1,91 @@
+import { test, expect, Page } from '@playwright/test';
+import {
+  LOCATOR_DRIFT_ATTACHMENT,
+  LocatorResolution,
+  ResilientLocator,
+  describeLocatorStrategy,
+  formatLocatorDriftReport,
+  summarizeLocatorDrift,
+} from '../../wrappers/ui/resilient-locator';
+
+/**
+ * Unit tests for the locator drift report of resilient locators, the parts that need no browser
+ */
+
+// Page whose CSS locators are visible when listed
+function fakePage(visible: string[]): Page {
+  return {
+    locator: (css: string) => ({ first: () => ({ isVisible: async () => visible.includes(css) }) }),
+  } as unknown as Page;
+}
+
+const saveButton = (matched: number): LocatorResolution => ({
+  owner: 'SitecoreContentEditor',
+  name: 'Save button',
+  strategies: ['css [data-sc-id="Save"]', 'role button "Save"', 'css .scRibbonButton:has-text("Save")'],
+  matched,
+});
+
+const dialog = (matched: number): LocatorResolution => ({
+  owner: 'SitecoreContentEditor',
+  name: 'modal dialog',
+  strategies: ['css .scModalDialog', 'css .ui-dialog', 'role dialog'],
+  matched,
+});
+
+test.describe('Resilient Locator', () => {
+  test('should describe each kind of strategy', async () => {
+    expect(describeLocatorStrategy({ testId: 'save-btn' })).toBe('test id "save-btn"');
+    expect(describeLocatorStrategy({ role: 'button', name: 'Save' })).toBe('role button "Save"');
+    expect(describeLocatorStrategy({ role: 'dialog' })).toBe('role dialog');
+    expect(describeLocatorStrategy({ text: 'Save' })).toBe('text "Save"');
+    expect(describeLocatorStrategy({ text: /save/i })).toBe('text "/save/i"');
+    expect(describeLocatorStrategy({ css: '.scRibbonButton' })).toBe('css .scRibbonButton');
+  });
+
+  test('should group drift by chain and count the fallbacks that matched', async () => {
+    const summary = summarizeLocatorDrift([
+      { testTitle: 'saves an item', resolution: saveButton(1) },
+      { testTitle: 'saves an item', resolution: saveButton(1) },
+      { testTitle: 'publishes an item', resolution: saveButton(2) },
+      { testTitle: 'creates an item', resolution: dialog(-1) },
+    ]);
+
+    expect(summary).toEqual([
+      { owner: 'SitecoreContentEditor', name: 'modal dialog', primary: 'css .scModalDialog', fallbacks: {}, exhausted: 1, tests: 1 },
+      {
+        owner: 'SitecoreContentEditor',
+        name: 'Save button',
+        primary: 'css [data-sc-id="Save"]',
+        fallbacks: { 'role button "Save"': 2, 'css .scRibbonButton:has-text("Save")': 1 },
+        exhausted: 0,
+        tests: 2,
+      },
+    ]);
+  });
+
+  test('should format the drift report', async () => {
+    const report = formatLocatorDriftReport(summarizeLocatorDrift([
+      { testTitle: 'saves an item', resolution: saveButton(1) },
+      { testTitle: 'creates an item', resolution: dialog(-1) },
+    ]));
+
+    expect(report).toBe([
+      '2 locator chains drifted, 1 ran out of fallbacks:',
+      '- SitecoreContentEditor: modal dialog in 1 test; css .scModalDialog missed, matched nothing 1× ❌',
+      '- SitecoreContentEditor: Save button in 1 test; css [data-sc-id="Save"] missed, matched role button "Save" 1×',
+    ].join('\n'));
+  });
+
+  test('should report the drift of a chain once per test', async () => {
+    const chain = new ResilientLocator(fakePage(['.fallback']), 'Save button', [{ css: '#save' }, { css: '.fallback' }]);
+
+    expect(await chain.isVisible()).toBe(true);
+    expect(await chain.isVisible()).toBe(true);
+    await chain.find();
+
+    const drift = test.info().annotations.filter(annotation => annotation.type === 'locator-drift');
+    expect(drift).toEqual([{ type: 'locator-drift', description: 'page: Save button found by css .fallback (fallback 1 of 1), css #save missed' }]);
+    expect(test.info().attachments.filter(attachment => attachment.name === LOCATOR_DRIFT_ATTACHMENT)).toHaveLength(1);
+  });
+});
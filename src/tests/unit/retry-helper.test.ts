@@ -0,0 +1,165 @@
+import { AssertionError } from 'assert';
+import { test, expect, Browser, BrowserContext, Page } from '@playwright/test';
+import { RetryHelper, RetryOptions, RetrySessionFactory } from '../../utils';
+
+/**
+ * Unit tests for the NUnit RetryAttribute semantics of RetryHelper
+ * Sessions are faked so the tests run without launching a browser
+ */
+
+function createFakeSessionFactory() {
+  const sessions: { browser: number; closed: string[] }[] = [];
+  let browserCount = 0;
+
+  const factory: RetrySessionFactory = async (_attempt, existingBrowser) => {
+    const closed: string[] = [];
+    const browser = existingBrowser || ({
+      id: ++browserCount,
+      close: async () => { closed.push('browser'); },
+    } as unknown as Browser);
+    const context = { close: async () => { closed.push('context'); } } as unknown as BrowserContext;
+    const page = { close: async () => { closed.push('page'); } } as unknown as Page;
+
+    sessions.push({ browser: (browser as unknown as { id: number }).id, closed });
+    return { browser, context, page };
+  };
+
+  return { factory, sessions };
+}
+
+function options(overrides: RetryOptions = {}): RetryOptions {
+  return {
+    retryDelay: 10,
+    resetDataBetweenRetries: false,
+    ...overrides,
+  };
+}
+
+test.describe('RetryHelper NUnit Semantics', () => {
+  test('should not retry with attempts=1', async () => {
+    const { factory } = createFakeSessionFactory();
+    let callCount = 0;
+
+    await expect(RetryHelper.withRetry(async () => {
+      callCount++;
+      expect(false).toBe(true);
+    }, options({ attempts: 1, sessionFactory: factory }))).rejects.toThrow();
+
+    expect(callCount).toBe(1);
+  });
+
+  test('should count attempts as total attempts', async () => {
+    const { factory } = createFakeSessionFactory();
+    let callCount = 0;
+
+    await expect(RetryHelper.withRetry(async () => {
+      callCount++;
+      expect(callCount).toBe(10);
+    }, options({ attempts: 3, sessionFactory: factory }))).rejects.toThrow();
+
+    expect(callCount).toBe(3);
+  });
+
+  test('should return the result once an attempt passes', async () => {
+    const { factory } = createFakeSessionFactory();
+    let callCount = 0;
+
+    const result = await RetryHelper.withRetry(async () => {
+      callCount++;
+      expect(callCount).toBe(2);
+      return 'success';
+    }, options({ attempts: 3, sessionFactory: factory }));
+
+    expect(result).toBe('success');
+    expect(callCount).toBe(2);
+  });
+
+  test('should not retry unexpected exceptions', async () => {
+    const { factory } = createFakeSessionFactory();
+    let callCount = 0;
+
+    await expect(RetryHelper.withRetry(async () => {
+      callCount++;
+      throw new TypeError('Unexpected network error');
+    }, options({ attempts: 3, sessionFactory: factory }))).rejects.toThrow(TypeError);
+
+    expect(callCount).toBe(1);
+  });
+
+  test('should classify assertion failures', async () => {
+    let expectError: unknown;
+    try {
+      expect(1).toBe(2);
+    } catch (error) {
+      expectError = error;
+    }
+
+    expect(RetryHelper.isAssertionFailure(expectError)).toBe(true);
+    expect(RetryHelper.isAssertionFailure(new AssertionError({ message: 'values are not equal' }))).toBe(true);
+    expect(RetryHelper.isAssertionFailure(new Error('Network timeout'))).toBe(false);
+    expect(RetryHelper.isAssertionFailure(new Error('Unexpected dialog'))).toBe(false);
+    expect(RetryHelper.isAssertionFailure(new TypeError('expect is not a function'))).toBe(false);
+    expect(RetryHelper.isAssertionFailure('toBe')).toBe(false);
+  });
+
+  test('should use a fresh browser, context and page for every attempt', async () => {
+    const { factory, sessions } = createFakeSessionFactory();
+
+    await expect(RetryHelper.withRetry(async () => {
+      expect(false).toBe(true);
+    }, options({ attempts: 3, sessionFactory: factory }))).rejects.toThrow();
+
+    expect(sessions.map(session => session.browser)).toEqual([1, 2, 3]);
+    sessions.forEach(session => {
+      expect(session.closed).toEqual(['page', 'context', 'browser']);
+    });
+  });
+
+  test('should reuse the browser when reinitializeBrowser is false', async () => {
+    const { factory, sessions } = createFakeSessionFactory();
+
+    await expect(RetryHelper.withRetry(async () => {
+      expect(false).toBe(true);
+    }, options({ attempts: 2, reinitializeBrowser: false, sessionFactory: factory }))).rejects.toThrow();
+
+    expect(sessions.map(session => session.browser)).toEqual([1, 1]);
+  });
+
+  test('should record every attempt in the report', async () => {
+    const { factory } = createFakeSessionFactory();
+    let callCount = 0;
+
+    await RetryHelper.withRetry(async () => {
+      callCount++;
+      expect(callCount).toBeGreaterThan(1);
+    }, options({ attempts: 3, sessionFactory: factory }));
+
+    const attemptAnnotations = test.info().annotations.filter(a => a.type === 'retry-attempt');
+    expect(attemptAnnotations).toHaveLength(2);
+    expect(attemptAnnotations[0].description).toContain('Attempt 1/3: failed');
+    expect(attemptAnnotations[1].description).toContain('Attempt 2/3: passed');
+    expect(test.info().attachments.some(a => a.name === 'retry-attempts')).toBe(true);
+  });
+
+  test('should run the assertion of expectWithRetry once when the timeout is 0', async () => {
+    let checks = 0;
+
+    await expect(RetryHelper.expectWithRetry(() => ++checks, value => {
+      expect(value).toBe(2);
+    }, { timeout: 0 })).rejects.toThrow();
+    expect(checks).toBe(1);
+
+    await RetryHelper.expectWithRetry(() => 'ready', value => {
+      expect(value).toBe('ready');
+    }, { timeout: 0 });
+  });
+
+  test('should retry the assertion of expectWithRetry until it passes', async () => {
+    let checks = 0;
+
+    await RetryHelper.expectWithRetry(() => ++checks, value => {
+      expect(value).toBe(3);
+    }, { timeout: 1000, interval: 10 });
+    expect(checks).toBe(3);
+  });
+});
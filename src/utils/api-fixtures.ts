@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto';
+import { test as base, expect, APIRequestContext, Request } from '@playwright/test';
+import { ApiJournal } from '../wrappers/api/api-journal';
+import { BaseApiWrapper } from '../wrappers/api/base-api';
+import { ApiInterceptor } from '../wrappers/api/interceptors';
+import { PactRecorder, pactDirFromEnv, pactModeFromEnv } from '../wrappers/api/pact';
+import { FAULT_SCOPE_HEADER, FaultInjectionApi } from '../wrappers/api/fault-injection-api';
+
+/**
+ * Playwright fixtures for API wrapper tests
+ * Import `test` from here instead of @playwright/test to get the API call journal
+ * attached to every test result, and consumer contracts recorded when API_PACT_MODE=record
+ * UI tests can combine it with ui-fixtures, for server faults that only this test sees and that are removed after it
+ */
+
+type RequestOptions = { headers?: Record<string, string> };
+
+const REQUEST_METHODS = new Set(['fetch', 'get', 'post', 'put', 'patch', 'delete', 'head']);
+
+/**
+ * Request context that sends the fault scope with its requests to the test-app, and to no other host
+ */
+function scopeTestAppRequests(request: APIRequestContext, baseURL: string, scope: string): APIRequestContext {
+  const origin = new URL(baseURL).origin;
+  return new Proxy(request, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || !REQUEST_METHODS.has(property)) {
+        return value.bind(target);
+      }
+      return (url: string | Request, options: RequestOptions = {}) => {
+        if (new URL(typeof url === 'string' ? url : url.url(), baseURL).origin !== origin) {
+          return value.call(target, url, options);
+        }
+        return value.call(target, url, { ...options, headers: { [FAULT_SCOPE_HEADER]: scope, ...options.headers } });
+      };
+    },
+  });
+}
+
+export interface ApiFixtures {
+  /** Global interceptors of the test, e.g. `test.use({ apiInterceptors: [correlationIdInterceptor()] })` */
+  apiInterceptors: ApiInterceptor[];
+  /** Installs apiInterceptors and afterwards restores the global interceptors, dropping any the test registered */
+  apiInterceptorScope: void;
+  /** Also attach the journal as HAR (default: API_JOURNAL_HAR=true) */
+  apiJournalHar: boolean;
+  /** Journal of the API calls made by wrappers during the test */
+  apiJournal: ApiJournal;
+  /** Where recorded consumer contracts are written (default: API_PACT_DIR or pacts/) */
+  apiPactDir: string;
+  /** Consumer contract recorder of the test, only when API_PACT_MODE=record */
+  apiPact: PactRecorder | undefined;
+  /** X-Fault-Scope of the test, sent with its requests and page loads to the test-app only */
+  faultScope: string;
+  /** Server-side fault injection of the test-app; the faults only affect this test's requests and are removed after it */
+  serverFaults: FaultInjectionApi;
+}
+
+export const test = base.extend<ApiFixtures>({
+  apiInterceptors: [[], { option: true }],
+
+  apiInterceptorScope: [
+    async ({ apiInterceptors }, use) => {
+      const previous = BaseApiWrapper.replaceGlobal([]);
+      BaseApiWrapper.replaceGlobal([...previous, ...apiInterceptors]);
+      try {
+        await use();
+      } finally {
+        BaseApiWrapper.replaceGlobal(previous);
+      }
+    },
+    { auto: true },
+  ],
+
+  apiJournalHar: [process.env.API_JOURNAL_HAR === 'true', { option: true }],
+
+  apiJournal: [
+    async ({ apiJournalHar }, use, testInfo) => {
+      const journal = ApiJournal.start(testInfo.titlePath.slice(1).join(' › '));
+      try {
+        await use(journal);
+      } finally {
+        ApiJournal.stop();
+        await journal.attach(testInfo, { har: apiJournalHar });
+      }
+    },
+    { auto: true },
+  ],
+
+  apiPactDir: [pactDirFromEnv(), { option: true }],
+
+  apiPact: [
+    async ({ apiPactDir }, use, testInfo) => {
+      if (pactModeFromEnv() !== 'record') {
+        await use(undefined);
+        return;
+      }
+      const recorder = PactRecorder.start(testInfo.titlePath.join(' › '));
+      try {
+        await use(recorder);
+      } finally {
+        PactRecorder.stop();
+        await recorder.save(testInfo, apiPactDir);
+      }
+    },
+    { auto: true },
+  ],
+
+  // eslint-disable-next-line no-empty-pattern
+  faultScope: async ({}, use) => {
+    await use(randomUUID());
+  },
+
+  // Requests to other hosts, e.g. jsonplaceholder or a CDN, go out without the scope header
+  request: async ({ request, baseURL, faultScope }, use) => {
+    await use(baseURL ? scopeTestAppRequests(request, baseURL, faultScope) : request);
+  },
+
+  context: async ({ context, baseURL, faultScope }, use) => {
+    if (baseURL) {
+      const origin = new URL(baseURL).origin;
+      await context.route(
+        url => url.origin === origin,
+        route => route.fallback({ headers: { ...route.request().headers(), [FAULT_SCOPE_HEADER]: faultScope } })
+      );
+    }
+    await use(context);
+  },
+
+  serverFaults: async ({ request }, use) => {
+    const faults = new FaultInjectionApi(request);
+    try {
+      await use(faults);
+    } finally {
+      await faults.removeInjectedFaults();
+    }
+  },
+});
+
+export { expect };
@@ -1,5 +1,9 @@
 export { TestDataManager, TestUser, TestEnvironment } from './test-data';
 export { TestHelpers } from './test-helpers';
+export { RetryHelper, retryTest, Retry, expectWithRetry } from './retry-helper';
+export type { RetryOptions, RetrySession, RetrySessionFactory, RetryTestFunction, RetryAttemptResult } from './retry-helper';
+export type { ApiFixtures } from './api-fixtures';
+export type { UiFixtures } from './ui-fixtures';
 
 // Sitecore utilities
 export { 
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { ApiJournalEntry } from '../wrappers/api/api-journal';
+import {
+  DEFAULT_LATENCY_BASELINE_PATH,
+  EndpointLatency,
+  endpointKey,
+  formatLatencySummary,
+  loadLatencyBaseline,
+  summarizeLatencies,
+  toLatencyBaseline,
+} from '../wrappers/api/latency';
+
+/**
+ * Reporter that summarizes the latency of the API calls of a run from the api-journal.json
+ * attachments: the slowest endpoints and their p95 against the baseline file
+ * API_LATENCY_BASELINE=update stores this run's latencies as the new baseline; baselines depend on
+ * the machine, so they are kept locally or by CI and never committed
+ */
+
+export interface LatencyReporterOptions {
+  /** Baseline file (default: API_LATENCY_BASELINE_FILE or config/latency-baseline.json) */
+  baselineFile?: string;
+  /** Number of endpoints listed (default: 10) */
+  top?: number;
+  /** Relative p95 increase flagged as a regression (default: 0.2) */
+  regressionThreshold?: number;
+  /** Smallest p95 increase in ms flagged as a regression (default: 20) */
+  minIncrease?: number;
+  /** Test files left out, by default the unit tests whose calls are scripted */
+  exclude?: RegExp;
+}
+
+export default class LatencyReporter implements Reporter {
+  private readonly samples: EndpointLatency[] = [];
+  private readonly baselineFile: string;
+  private readonly exclude: RegExp;
+
+  constructor(private readonly options: LatencyReporterOptions = {}) {
+    this.baselineFile = options.baselineFile || process.env.API_LATENCY_BASELINE_FILE || DEFAULT_LATENCY_BASELINE_PATH;
+    this.exclude = options.exclude || /[\\/]tests[\\/]unit[\\/]/;
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (this.exclude.test(test.location.file)) {
+      return;
+    }
+
+    result.attachments
+      .filter(attachment => attachment.name === 'api-journal.json' && attachment.body)
+      .forEach(attachment => {
+        const entries = JSON.parse(attachment.body!.toString('utf8')) as ApiJournalEntry[];
+        entries
+          .filter(entry => entry.status !== undefined)
+          .forEach(entry => {
+            this.samples.push({ endpoint: endpointKey(entry.method, entry.url), latency: entry.latency ?? entry.duration });
+          });
+      });
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.samples.length === 0) {
+      return;
+    }
+
+    const baseline = loadLatencyBaseline(this.baselineFile);
+    const summary = summarizeLatencies(this.samples, baseline);
+    console.log(`\n⏱️ API latency\n${formatLatencySummary(summary, this.options)}`);
+    if (!baseline && process.env.API_LATENCY_BASELINE !== 'update') {
+      console.log(`⏱️ No latency baseline at ${this.baselineFile}; run with API_LATENCY_BASELINE=update to record one on this machine`);
+    }
+
+    if (process.env.API_LATENCY_BASELINE === 'update') {
+      fs.mkdirSync(path.dirname(this.baselineFile), { recursive: true });
+      fs.writeFileSync(this.baselineFile, `${JSON.stringify(toLatencyBaseline(summary), null, 2)}\n`);
+      console.log(`⏱️ Latency baseline written to ${this.baselineFile}`);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import {
+  LOCATOR_DRIFT_ATTACHMENT,
+  LocatorResolution,
+  formatLocatorDriftReport,
+  summarizeLocatorDrift,
+} from '../wrappers/ui/resilient-locator';
+
+/**
+ * Reporter that summarizes the locator drift of a run from the locator-drift.json attachments:
+ * the chains whose primary strategy missed, which fallback matched instead and which ran out of them
+ * The summary is also written to LOCATOR_DRIFT_REPORT_FILE or test-results/locator-drift.json
+ */
+
+export interface LocatorDriftReporterOptions {
+  /** Report file (default: LOCATOR_DRIFT_REPORT_FILE or test-results/locator-drift.json) */
+  outputFile?: string;
+}
+
+export default class LocatorDriftReporter implements Reporter {
+  private readonly drifts: { testTitle: string; resolution: LocatorResolution }[] = [];
+  private readonly outputFile: string;
+
+  constructor(options: LocatorDriftReporterOptions = {}) {
+    this.outputFile = options.outputFile || process.env.LOCATOR_DRIFT_REPORT_FILE || 'test-results/locator-drift.json';
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    result.attachments
+      .filter(attachment => attachment.name === LOCATOR_DRIFT_ATTACHMENT && attachment.body)
+      .forEach(attachment => {
+        this.drifts.push({
+          testTitle: test.titlePath().filter(Boolean).join(' › '),
+          resolution: JSON.parse(attachment.body!.toString('utf8')) as LocatorResolution,
+        });
+      });
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.drifts.length === 0) {
+      return;
+    }
+
+    const summary = summarizeLocatorDrift(this.drifts);
+    console.log(`\n🧭 Locator drift\n${formatLocatorDriftReport(summary)}`);
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, `${JSON.stringify(summary, null, 2)}\n`);
+    console.log(`🧭 Locator drift report written to ${this.outputFile}`);
+  }
+}
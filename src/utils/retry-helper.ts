@@ -0,0 +1,292 @@
+import { test, Browser, BrowserContext, BrowserType, Page, TestInfo, chromium } from '@playwright/test';
+import { TestHelpers } from './test-helpers';
+import { ApiGraphQLError, ApiHttpError, ApiLatencyError, ApiValidationError } from '../wrappers/api/api-errors';
+import { PollTimeoutError } from '../wrappers/api/polling';
+
+/**
+ * NUnit-style retry utility
+ * Mirrors NUnit's RetryAttribute: attempts are total attempts, only assertion
+ * failures are retried, and every attempt runs in a fresh browser session
+ */
+
+export interface RetryOptions {
+  /**
+   * Total number of attempts (not retries after failure)
+   * Must be >= 2 to have any effect (following NUnit behavior)
+   * Default: 3 attempts (2 retries after initial failure)
+   */
+  attempts?: number;
+  retryDelay?: number;
+  resetDataBetweenRetries?: boolean;
+  /** Launch a new browser for every attempt (a new context and page are always created) */
+  reinitializeBrowser?: boolean;
+  /** Creates the browser/context/page for an attempt, defaults to launching chromium */
+  sessionFactory?: RetrySessionFactory;
+}
+
+export interface RetrySession {
+  browser: Browser;
+  context: BrowserContext;
+  page: Page;
+}
+
+/**
+ * Receives the browser from the previous attempt when reinitializeBrowser is false
+ */
+export type RetrySessionFactory = (attempt: number, browser?: Browser) => Promise<RetrySession>;
+
+export type RetryTestFunction<T> = (page: Page, context: BrowserContext, browser: Browser) => Promise<T>;
+
+export interface RetryAttemptResult {
+  attempt: number;
+  status: 'passed' | 'failed';
+  retryable?: boolean;
+  error?: string;
+  duration: number;
+}
+
+export class RetryHelper {
+  private static readonly DEFAULT_OPTIONS = {
+    attempts: 3, // 3 attempts = 1 initial + 2 retries (matching NUnit default)
+    retryDelay: 1000,
+    resetDataBetweenRetries: true,
+    reinitializeBrowser: true,
+  };
+
+  /**
+   * Executes a test function with retry capability and full browser reinitialization
+   * Similar to NUnit's Retry attribute
+   */
+  static async withRetry<T>(testFn: RetryTestFunction<T>, options: RetryOptions = {}): Promise<T> {
+    const opts = { ...RetryHelper.DEFAULT_OPTIONS, ...options };
+    const sessionFactory = opts.sessionFactory || RetryHelper.browserSessionFactory(chromium);
+    const maxAttempts = Math.max(opts.attempts, 1);
+    const results: RetryAttemptResult[] = [];
+    let browser: Browser | undefined;
+
+    if (opts.attempts < 2) {
+      console.log(`⚠️ Retry attempts set to ${opts.attempts}, but minimum is 2 for retries to work (NUnit behavior)`);
+    }
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (maxAttempts > 1) {
+          console.log(`🔄 Attempt ${attempt}/${maxAttempts}`);
+        }
+
+        if (opts.resetDataBetweenRetries && attempt > 1) {
+          await TestHelpers.resetTestData(process.env.BASE_URL);
+        }
+
+        const session = await sessionFactory(attempt, opts.reinitializeBrowser ? undefined : browser);
+        browser = session.browser;
+        const startTime = Date.now();
+
+        try {
+          const result = await testFn(session.page, session.context, session.browser);
+          results.push({ attempt, status: 'passed', duration: Date.now() - startTime });
+
+          if (attempt > 1) {
+            console.log(`✅ Test passed on attempt ${attempt}`);
+          }
+          return result;
+        } catch (error) {
+          const retryable = RetryHelper.isAssertionFailure(error);
+          results.push({
+            attempt,
+            status: 'failed',
+            retryable,
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - startTime,
+          });
+
+          if (!retryable) {
+            if (maxAttempts > 1) {
+              console.log(`💥 Unexpected exception (not retryable): ${(error as Error).message}`);
+            }
+            throw error;
+          }
+
+          if (attempt === maxAttempts) {
+            if (maxAttempts > 1) {
+              console.log(`💥 All ${maxAttempts} attempts failed`);
+            }
+            throw error;
+          }
+
+          console.log(`❌ Attempt ${attempt} failed: ${(error as Error).message}`);
+          console.log(`⏳ Waiting ${opts.retryDelay}ms before retry...`);
+          await new Promise(resolve => setTimeout(resolve, opts.retryDelay));
+        } finally {
+          await session.page.close().catch(() => {});
+          await session.context.close().catch(() => {});
+          if (opts.reinitializeBrowser) {
+            await session.browser.close().catch(() => {});
+          }
+        }
+      }
+    } finally {
+      if (!opts.reinitializeBrowser && browser) {
+        await browser.close().catch(() => {});
+      }
+      await RetryHelper.reportAttempts(results, maxAttempts);
+    }
+
+    // Unreachable: the loop either returns or throws on the last attempt
+    throw new Error('Test failed after all retry attempts');
+  }
+
+  /**
+   * NUnit only retries assertion failures; TypeError, ReferenceError and friends fail immediately
+   */
+  static isAssertionFailure(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+      return false;
+    }
+
+    if (
+      error instanceof TypeError ||
+      error instanceof SyntaxError ||
+      error instanceof ReferenceError ||
+      error instanceof RangeError
+    ) {
+      return false;
+    }
+
+    // Playwright's expect() attaches the matcher result to the error it throws;
+    // API wrappers raise typed errors for unexpected statuses, bodies, slow calls and unmet polls instead
+    if (
+      'matcherResult' in error ||
+      error.name === 'AssertionError' ||
+      error instanceof ApiHttpError ||
+      error instanceof ApiValidationError ||
+      error instanceof ApiGraphQLError ||
+      error instanceof ApiLatencyError ||
+      error instanceof PollTimeoutError
+    ) {
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Default session factory: a new browser (unless one is reused), context and page per attempt
+   */
+  static browserSessionFactory(browserType: BrowserType): RetrySessionFactory {
+    return async (_attempt: number, existingBrowser?: Browser) => {
+      const browser = existingBrowser || await browserType.launch({
+        headless: process.env.HEADLESS === 'true',
+        slowMo: process.env.SLOW_MO ? parseInt(process.env.SLOW_MO) : 0,
+      });
+      const context = await browser.newContext({
+        viewport: { width: 1280, height: 720 },
+        ignoreHTTPSErrors: true,
+      });
+      const page = await context.newPage();
+      return { browser, context, page };
+    };
+  }
+
+  /**
+   * Creates a test wrapper that automatically retries with browser reinitialization
+   * Uses the browser type of the running Playwright project
+   */
+  static createRetryTest(title: string, testFn: RetryTestFunction<void>, options: RetryOptions = {}) {
+    return test(title, async ({ playwright, browserName }) => {
+      await RetryHelper.withRetry(testFn, {
+        sessionFactory: RetryHelper.browserSessionFactory(playwright[browserName]),
+        ...options,
+      });
+    });
+  }
+
+  /**
+   * Decorator-style retry wrapper for existing test functions
+   */
+  static retry(options: RetryOptions = {}) {
+    return function (_target: object, _propertyKey: string, descriptor: PropertyDescriptor) {
+      const originalMethod = descriptor.value;
+
+      descriptor.value = async function (...args: unknown[]) {
+        return RetryHelper.withRetry(
+          async (page: Page, context: BrowserContext, browser: Browser) => {
+            return await originalMethod.apply(this, [page, context, browser, ...args.slice(3)]);
+          },
+          options
+        );
+      };
+
+      return descriptor;
+    };
+  }
+
+  /**
+   * Enhanced expect with retry logic for flaky assertions
+   */
+  static async expectWithRetry<T>(
+    getValue: () => Promise<T> | T,
+    assertion: (value: T) => void | Promise<void>,
+    options: { timeout?: number; interval?: number } = {}
+  ): Promise<void> {
+    const timeout = options.timeout ?? 10000;
+    const interval = options.interval ?? 500;
+    const startTime = Date.now();
+
+    // The assertion always runs at least once, even with a timeout of 0
+    for (;;) {
+      try {
+        const value = await getValue();
+        await assertion(value);
+        return; // Success
+      } catch (error) {
+        if (Date.now() - startTime + interval >= timeout) {
+          throw error; // Final attempt failed
+        }
+        await new Promise(resolve => setTimeout(resolve, interval));
+      }
+    }
+  }
+
+  /**
+   * Adds one annotation per attempt and a JSON summary to the current test report
+   */
+  private static async reportAttempts(results: RetryAttemptResult[], maxAttempts: number): Promise<void> {
+    let testInfo: TestInfo;
+    try {
+      testInfo = test.info();
+    } catch {
+      return; // Not running inside a Playwright test
+    }
+
+    results.forEach(result => {
+      testInfo.annotations.push({
+        type: 'retry-attempt',
+        description: `Attempt ${result.attempt}/${maxAttempts}: ${result.status} in ${result.duration}ms${result.error ? ` - ${result.error}` : ''}`,
+      });
+    });
+
+    await testInfo.attach('retry-attempts', {
+      body: JSON.stringify(results, null, 2),
+      contentType: 'application/json',
+    });
+  }
+}
+
+/**
+ * Global retry test function that can be used like the standard test() function
+ * but with automatic retry capability
+ */
+export function retryTest(title: string, testFn: RetryTestFunction<void>, options: RetryOptions = {}) {
+  return RetryHelper.createRetryTest(title, testFn, options);
+}
+
+/**
+ * Retry decorator for class methods
+ */
+export const Retry = RetryHelper.retry;
+
+/**
+ * Enhanced expect with retry logic
+ */
+export const expectWithRetry = RetryHelper.expectWithRetry;
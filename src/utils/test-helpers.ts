@@ -1,4 +1,5 @@
 import { Page, BrowserContext, APIRequestContext } from '@playwright/test';
+import { DialogManager } from '../wrappers/ui/dialog-manager';
 
 export class TestHelpers {
   static async clearStorage(context: BrowserContext): Promise<void> {
@@ -121,14 +122,11 @@ export class TestHelpers {
     return downloadPath;
   }
 
+  /**
+   * Expects one dialog from the next actions, see DialogManager
+   */
   static async handleAlert(page: Page, accept: boolean = true, text?: string): Promise<void> {
-    page.on('dialog', async dialog => {
-      if (accept) {
-        await dialog.accept(text);
-      } else {
-        await dialog.dismiss();
-      }
-    });
+    DialogManager.for(page).expectDialog({ response: accept ? 'accept' : 'dismiss', promptText: text });
   }
 
   /**
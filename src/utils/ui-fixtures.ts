@@ -0,0 +1,49 @@
+import { test as base, expect } from '@playwright/test';
+import { DialogManager } from '../wrappers/ui/dialog-manager';
+
+/**
+ * Playwright fixtures for UI tests
+ * Import `test` from here instead of @playwright/test to have the JavaScript dialogs of every test checked
+ * against the expected ones: an unexpected dialog or an expected one that never appeared fails the test
+ * Specs that also need the API fixtures combine both with `mergeTests`
+ */
+
+export interface UiFixtures {
+  /** Dialog manager of the page, see dialog-manager.ts */
+  dialogs: DialogManager;
+  /** Verifies every dialog manager used during the test and attaches the dialogs it handled */
+  dialogVerification: void;
+}
+
+export const test = base.extend<UiFixtures>({
+  dialogs: async ({ page }, use) => {
+    await use(DialogManager.for(page));
+  },
+
+  dialogVerification: [
+    async ({ page }, use, testInfo) => {
+      DialogManager.takeCreated();
+      // The page's dialogs are handled from the start, so one the test never expected fails it
+      DialogManager.for(page);
+      await use();
+      const managers = DialogManager.takeCreated();
+      const errors: Error[] = [];
+      for (const manager of managers) {
+        await manager.attach(testInfo);
+        try {
+          manager.verify();
+        } catch (error) {
+          errors.push(error as Error);
+        }
+        manager.dispose();
+      }
+      // A failed test already has its own error; missing dialogs are the likely consequence
+      if (errors.length > 0 && testInfo.status === testInfo.expectedStatus) {
+        throw errors[0];
+      }
+    },
+    { auto: true },
+  ],
+});
+
+export { expect };
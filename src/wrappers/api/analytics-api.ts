@@ -0,0 +1,33 @@
+import { TestAppApiWrapper } from './test-app-api';
+import { schema, Schema } from './schema';
+
+export interface DashboardAnalytics {
+  totalProjects: number;
+  activeProjects: number;
+  completedTasks: number;
+  pendingTasks: number;
+  unreadNotifications: number;
+  totalUsers: number;
+  /** Average progress of all projects in percent */
+  projectProgress: number;
+  /** Average spent/budget ratio of all projects in percent */
+  budgetUtilization: number;
+}
+
+export const dashboardAnalyticsSchema: Schema<DashboardAnalytics> = schema.object({
+  totalProjects: schema.number(),
+  activeProjects: schema.number(),
+  completedTasks: schema.number(),
+  pendingTasks: schema.number(),
+  unreadNotifications: schema.number(),
+  totalUsers: schema.number(),
+  projectProgress: schema.number(),
+  budgetUtilization: schema.number(),
+});
+
+export class AnalyticsApi extends TestAppApiWrapper {
+  async getDashboardAnalytics(): Promise<DashboardAnalytics> {
+    const response = await this.get('/api/analytics/dashboard');
+    return await this.expectPayload<DashboardAnalytics>(response, 200, 'analytics', 'get dashboard analytics', dashboardAnalyticsSchema);
+  }
+}
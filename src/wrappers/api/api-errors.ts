@@ -0,0 +1,291 @@
+import { SchemaIssue, redactSchemaIssues } from './schema';
+import { redactBody, redactHeaders } from './redaction';
+
+/**
+ * Typed errors raised by BaseApiWrapper
+ * Every error carries the (redacted) request and response it failed on, and its
+ * message renders that context so it reads well in the HTML report
+ */
+
+export interface ApiRequestInfo {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ApiResponseInfo {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ApiErrorContext {
+  request: ApiRequestInfo;
+  response?: ApiResponseInfo;
+  /** Total time of the call in milliseconds, including retries */
+  duration?: number;
+  attempts?: number;
+}
+
+const MAX_BODY_LENGTH = 2000;
+
+/**
+ * Playwright reports request timeouts as plain Errors
+ */
+export function isTimeoutError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /timed out after \d+ms|Timeout \d+ms exceeded/i.test(message);
+}
+
+function formatBody(body: unknown): string | undefined {
+  if (body === undefined || body === '') {
+    return undefined;
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+  return text.length > MAX_BODY_LENGTH ? `${text.substring(0, MAX_BODY_LENGTH)}\n... (truncated)` : text;
+}
+
+function formatSection(title: string, firstLine: string, headers: Record<string, string>, body: unknown): string[] {
+  const lines = [`${title}:`, `  ${firstLine}`];
+  Object.entries(headers).forEach(([name, value]) => lines.push(`  ${name}: ${value}`));
+  const text = formatBody(body);
+  if (text) {
+    lines.push('', ...text.split('\n').map(line => `  ${line}`));
+  }
+  return lines;
+}
+
+export class ApiError extends Error {
+  readonly summary: string;
+  readonly request: ApiRequestInfo;
+  readonly response?: ApiResponseInfo;
+  readonly duration?: number;
+  readonly attempts?: number;
+
+  constructor(summary: string, context: ApiErrorContext) {
+    const request: ApiRequestInfo = {
+      ...context.request,
+      headers: redactHeaders(context.request.headers),
+      body: redactBody(context.request.body),
+    };
+    const response: ApiResponseInfo | undefined = context.response && {
+      ...context.response,
+      headers: redactHeaders(context.response.headers),
+      body: redactBody(context.response.body),
+    };
+
+    super(ApiError.render(summary, { ...context, request, response }));
+    this.name = 'ApiError';
+    this.summary = summary;
+    this.request = request;
+    this.response = response;
+    this.duration = context.duration;
+    this.attempts = context.attempts;
+  }
+
+  get status(): number | undefined {
+    return this.response?.status;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      summary: this.summary,
+      status: this.status,
+      duration: this.duration,
+      attempts: this.attempts,
+      request: this.request,
+      response: this.response,
+    };
+  }
+
+  private static render(summary: string, context: ApiErrorContext): string {
+    const { request, response } = context;
+    const timing = [
+      context.duration !== undefined ? `${context.duration}ms` : undefined,
+      context.attempts && context.attempts > 1 ? `${context.attempts} attempts` : undefined,
+    ].filter(Boolean).join(', ');
+
+    const lines = [
+      summary,
+      '',
+      ...formatSection('Request', `${request.method} ${request.url}`, request.headers, request.body),
+      '',
+    ];
+    const responseTitle = timing ? `Response (${timing})` : 'Response';
+    if (response) {
+      const statusLine = `${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+      lines.push(...formatSection(responseTitle, statusLine, response.headers, response.body));
+    } else {
+      lines.push(`${responseTitle}: none received`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * The server answered with a status other than the expected one
+ */
+export class ApiHttpError extends ApiError {
+  readonly expectedStatus: number;
+
+  constructor(expectedStatus: number, context: ApiErrorContext & { response: ApiResponseInfo }) {
+    super(`Expected status ${expectedStatus}, got ${context.response.status}`, context);
+    this.name = 'ApiHttpError';
+    this.expectedStatus = expectedStatus;
+  }
+
+  get status(): number {
+    return (this.response as ApiResponseInfo).status;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), expectedStatus: this.expectedStatus };
+  }
+}
+
+/**
+ * The response arrived with the expected status but its body breaks the API contract:
+ * wrong content type, schema violations (listed in `issues`), or an envelope reporting failure
+ */
+export class ApiValidationError extends ApiError {
+  readonly issues: SchemaIssue[];
+
+  constructor(summary: string, context: ApiErrorContext, issues: SchemaIssue[] = []) {
+    super(summary, context);
+    this.name = 'ApiValidationError';
+    this.issues = redactSchemaIssues(issues);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), issues: this.issues };
+  }
+}
+
+/**
+ * No response arrived within the request timeout
+ */
+export class ApiTimeoutError extends ApiError {
+  readonly timeout: number;
+
+  constructor(timeout: number, context: ApiErrorContext) {
+    super(`Request timed out after ${timeout}ms`, context);
+    this.name = 'ApiTimeoutError';
+    this.timeout = timeout;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), timeout: this.timeout };
+  }
+}
+
+/**
+ * A response arrived, but later than the latency budget of its endpoint allows
+ */
+export class ApiLatencyError extends ApiError {
+  readonly latency: number;
+  readonly budget: number;
+  readonly endpoint: string;
+
+  constructor(latency: number, budget: { endpoint: string; max: number }, context: ApiErrorContext) {
+    super(`Took ${latency}ms, over the ${budget.max}ms budget of ${budget.endpoint}`, context);
+    this.name = 'ApiLatencyError';
+    this.latency = latency;
+    this.budget = budget.max;
+    this.endpoint = budget.endpoint;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), latency: this.latency, budget: this.budget, endpoint: this.endpoint };
+  }
+}
+
+/**
+ * Logging in failed, or the server still rejected the session after re-authenticating
+ */
+export class ApiAuthError extends ApiError {
+  readonly expectedStatus?: number;
+
+  constructor(summary: string, context: ApiErrorContext, expectedStatus?: number) {
+    super(summary, context);
+    this.name = 'ApiAuthError';
+    this.expectedStatus = expectedStatus;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), expectedStatus: this.expectedStatus };
+  }
+}
+
+/**
+ * Replay mode found no recorded response for a request in strict mode
+ */
+export class ApiCassetteMissError extends ApiError {
+  readonly cassette: string;
+  readonly matchKey: string;
+  /** Requests recorded in the cassette, as `METHOD url` */
+  readonly recorded: string[];
+
+  constructor(cassette: string, matchKey: string, recorded: string[], context: ApiErrorContext) {
+    const summary = [
+      `No recorded response matches ${matchKey}`,
+      `Cassette: ${cassette}`,
+      recorded.length > 0 ? 'Recorded requests:' : 'The cassette has no recordings',
+      ...recorded.map(entry => `  - ${entry}`),
+      'Re-record the test with API_RECORD_MODE=record',
+    ].join('\n');
+    super(summary, context);
+    this.name = 'ApiCassetteMissError';
+    this.cassette = cassette;
+    this.matchKey = matchKey;
+    this.recorded = recorded;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), cassette: this.cassette, matchKey: this.matchKey, recorded: this.recorded };
+  }
+}
+
+export interface GraphQLErrorEntry {
+  message: string;
+  path?: Array<string | number>;
+  locations?: Array<{ line: number; column: number }>;
+  extensions?: { code?: string; [key: string]: unknown };
+}
+
+/**
+ * The GraphQL response carried an `errors` array, possibly next to partial data
+ */
+export class ApiGraphQLError extends ApiError {
+  readonly operationName?: string;
+  readonly errors: GraphQLErrorEntry[];
+  /** Data resolved next to the errors (redacted), if any */
+  readonly data?: unknown;
+
+  constructor(operationName: string | undefined, errors: GraphQLErrorEntry[], data: unknown, context: ApiErrorContext) {
+    const summary = [
+      `GraphQL ${operationName || 'operation'} failed with ${errors.length} error${errors.length === 1 ? '' : 's'}:`,
+      ...errors.map(error => {
+        const code = error.extensions?.code ? `[${error.extensions.code}] ` : '';
+        const path = error.path ? ` (at ${error.path.join('.')})` : '';
+        return `  - ${code}${error.message}${path}`;
+      }),
+    ].join('\n');
+    super(summary, context);
+    this.name = 'ApiGraphQLError';
+    this.operationName = operationName;
+    this.errors = errors;
+    this.data = redactBody(data);
+  }
+
+  /** Error codes from the `extensions`, e.g. NOT_FOUND or BAD_USER_INPUT */
+  get codes(): string[] {
+    return this.errors.map(error => error.extensions?.code).filter((code): code is string => !!code);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), operationName: this.operationName, errors: this.errors, data: this.data };
+  }
+}
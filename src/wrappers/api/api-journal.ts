@@ -0,0 +1,198 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { APIResponse, TestInfo } from '@playwright/test';
+import { ApiRequestInfo } from './api-errors';
+import { redactBody, redactHeaders } from './redaction';
+import { HarLog, createHarLog, createHarEntry } from './har';
+
+/**
+ * Per-test journal of the HTTP calls made by API wrappers
+ * BaseApiWrapper records into the active journal; the api-fixtures `test` starts one
+ * per test and attaches it as JSON, as a readable timeline and optionally as HAR
+ */
+
+export interface ApiJournalEntry {
+  wrapper: string;
+  method: string;
+  url: string;
+  params?: Record<string, string>;
+  /** Request headers with secrets masked */
+  requestHeaders: Record<string, string>;
+  /** Request body with secret fields masked */
+  requestBody?: unknown;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  /** First characters of the (masked) response body */
+  responseExcerpt?: string;
+  /** Network or timeout error when no response arrived */
+  error?: string;
+  startedAt: string;
+  /** Milliseconds including retries */
+  duration: number;
+  /** Milliseconds of the last attempt, what latency budgets are checked against */
+  latency?: number;
+  attempts: number;
+}
+
+export interface ApiJournalCall {
+  wrapper: string;
+  request: ApiRequestInfo;
+  params?: Record<string, string>;
+  startedAt: number;
+  attempts: number;
+  response?: APIResponse;
+  latency?: number;
+  error?: unknown;
+}
+
+const EXCERPT_LENGTH = 500;
+
+let activeJournal: ApiJournal | undefined;
+const suspendedScope = new AsyncLocalStorage<boolean>();
+
+function maskText(text: string, contentType: string): string {
+  if (!contentType.includes('json')) {
+    return text;
+  }
+  try {
+    return JSON.stringify(redactBody(JSON.parse(text)));
+  } catch {
+    return text;
+  }
+}
+
+export class ApiJournal {
+  readonly entries: ApiJournalEntry[] = [];
+  /** Full masked response bodies, only kept for the HAR export */
+  private readonly bodies = new Map<ApiJournalEntry, string>();
+
+  constructor(readonly title: string = 'API journal') {}
+
+  /**
+   * Makes a new journal the one wrappers record into, until `stop()`
+   */
+  static start(title?: string): ApiJournal {
+    activeJournal = new ApiJournal(title);
+    return activeJournal;
+  }
+
+  static stop(): void {
+    activeJournal = undefined;
+  }
+
+  static current(): ApiJournal | undefined {
+    return suspendedScope.getStore() ? undefined : activeJournal;
+  }
+
+  /**
+   * Runs calls without journaling them, e.g. the thousands of calls of a load run
+   * Only calls made by `action` are left out, not those other code makes meanwhile
+   */
+  static async suspend<T>(action: () => Promise<T>): Promise<T> {
+    return await suspendedScope.run(true, action);
+  }
+
+  async record(call: ApiJournalCall): Promise<void> {
+    const duration = Date.now() - call.startedAt;
+    const entry: ApiJournalEntry = {
+      wrapper: call.wrapper,
+      method: call.request.method,
+      url: call.request.url,
+      params: call.params,
+      requestHeaders: redactHeaders(call.request.headers),
+      requestBody: redactBody(call.request.body),
+      startedAt: new Date(call.startedAt).toISOString(),
+      duration,
+      latency: call.latency,
+      attempts: call.attempts,
+    };
+
+    if (call.response) {
+      const headers = call.response.headers();
+      entry.status = call.response.status();
+      entry.statusText = call.response.statusText();
+      entry.responseHeaders = redactHeaders(headers);
+      try {
+        const text = maskText(await call.response.text(), headers['content-type'] || '');
+        entry.responseExcerpt = text.length > EXCERPT_LENGTH ? `${text.substring(0, EXCERPT_LENGTH)}...` : text;
+        this.bodies.set(entry, text);
+      } catch {
+        entry.responseExcerpt = undefined;
+      }
+    } else {
+      entry.error = call.error instanceof Error ? call.error.message : String(call.error);
+    }
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * One line per call with its offset from the first call, followed by the response excerpt
+   */
+  toTimeline(): string {
+    if (this.entries.length === 0) {
+      return `${this.title}: no API calls`;
+    }
+
+    const origin = Date.parse(this.entries[0].startedAt);
+    const lines = [`${this.title}: ${this.entries.length} API call${this.entries.length === 1 ? '' : 's'}`, ''];
+    this.entries.forEach(entry => {
+      const offset = `+${Date.parse(entry.startedAt) - origin}ms`.padEnd(9);
+      const outcome = entry.status !== undefined ? `${entry.status} ${entry.statusText || ''}`.trim() : `💥 ${entry.error}`;
+      const attempts = entry.attempts > 1 ? `, ${entry.attempts} attempts` : '';
+      lines.push(`${offset}${entry.method.padEnd(7)}${entry.url} → ${outcome} (${entry.duration}ms${attempts}) [${entry.wrapper}]`);
+      if (entry.requestBody !== undefined) {
+        lines.push(`${' '.repeat(9)}request:  ${JSON.stringify(entry.requestBody)}`);
+      }
+      if (entry.responseExcerpt) {
+        lines.push(`${' '.repeat(9)}response: ${entry.responseExcerpt}`);
+      }
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * HAR 1.2 log of the journal, for replay or inspection in HAR viewers
+   */
+  toHar(): HarLog {
+    return createHarLog(
+      this.entries
+        .filter(entry => entry.status !== undefined)
+        .map(entry =>
+          createHarEntry({
+            startedAt: entry.startedAt,
+            duration: entry.duration,
+            method: entry.method,
+            url: entry.url,
+            requestHeaders: entry.requestHeaders,
+            requestBody: entry.requestBody,
+            status: entry.status as number,
+            statusText: entry.statusText,
+            responseHeaders: entry.responseHeaders || {},
+            responseBody: this.bodies.get(entry) || '',
+          })
+        )
+    );
+  }
+
+  /**
+   * Attaches the journal to the test result; skipped when no calls were made
+   */
+  async attach(testInfo: TestInfo, options: { har?: boolean } = {}): Promise<void> {
+    if (this.entries.length === 0) {
+      return;
+    }
+
+    await testInfo.attach('api-journal.json', {
+      body: JSON.stringify(this.entries, null, 2),
+      contentType: 'application/json',
+    });
+    await testInfo.attach('api-journal.txt', { body: this.toTimeline(), contentType: 'text/plain' });
+    if (options.har) {
+      await testInfo.attach('api-journal.har', {
+        body: JSON.stringify(this.toHar(), null, 2),
+        contentType: 'application/json',
+      });
+    }
+  }
+}
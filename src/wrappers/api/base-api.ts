@@ -1,67 +1,622 @@
-import { APIRequestContext, APIResponse, expect } from '@playwright/test';
+import { APIRequestContext, APIResponse, test } from '@playwright/test';
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  HttpMethod,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  isIdempotentMethod,
+  isRetryableNetworkError,
+  computeBackoff,
+  parseRetryAfter,
+} from './retry-policy';
+import { Schema, SchemaIssue, validateSchema, formatSchemaIssues, redactSchemaIssues } from './schema';
+import {
+  ApiError,
+  ApiErrorContext,
+  ApiRequestInfo,
+  ApiResponseInfo,
+  ApiHttpError,
+  ApiValidationError,
+  ApiTimeoutError,
+  ApiAuthError,
+  ApiLatencyError,
+  isTimeoutError,
+} from './api-errors';
+import { ApiInterceptor, ApiRequestSpec } from './interceptors';
+import { ApiJournal } from './api-journal';
+import { CassetteOptions, cassetteInterceptor, cassetteOptionsFromEnv } from './cassette';
+import { Page } from './pagination';
+import { PollOptions, PollPredicate, PollTimeoutError, pollUntil as poll } from './polling';
+import { redactBody } from './redaction';
+import { MultipartValue, describeRequestBody } from './files';
+import { PactCapture, PactRecorder } from './pact';
+import { LatencyBudgetOptions, findLatencyBudget, latencyBudgetsFromEnv } from './latency';
+import { EventStreamClient, EventStreamOptions, WebSocketClient, WebSocketClientOptions } from './streams';
 
 export interface ApiConfig {
   baseURL: string;
   timeout?: number;
   headers?: Record<string, string>;
+  /** Number of retries after the first attempt (0 disables retrying) */
+  retries?: number;
+  retryPolicy?: RetryPolicy;
+  auth?: AuthConfig;
+  /** What to do when a response violates its schema (default: 'strict', throws) */
+  schemaValidation?: 'strict' | 'warn' | 'off';
+  /** Interceptors of this wrapper, run inside the global ones */
+  interceptors?: ApiInterceptor[];
+  /** HAR record/replay settings (default: from API_RECORD_MODE and related env vars) */
+  cassette?: CassetteOptions;
+  /** Defaults for `pollUntil`, e.g. longer timeouts for slow publishing backends */
+  polling?: PollOptions;
+  /** Provider name in recorded consumer contracts (default: host of the base URL) */
+  provider?: string;
+  /** Latency budgets per endpoint (default: from API_LATENCY_BUDGETS and config/latency-budgets.json) */
+  latencyBudgets?: LatencyBudgetOptions;
+}
+
+export interface ApiCredentials {
+  email?: string;
+  username?: string;
+  password: string;
+  domain?: string;
+}
+
+export interface AuthConfig {
+  /** Credentials used to log in lazily before the first authenticated call */
+  credentials?: ApiCredentials;
+  /** Statuses that invalidate the session and trigger a single re-login (default: 401, 403) */
+  reauthenticateOn?: number[];
+}
+
+export interface AuthSession {
+  token: string;
+  /** Authorization scheme, defaults to Bearer */
+  scheme?: string;
+  user?: unknown;
+  /** Present when the session can be renewed by logging in again */
+  credentials?: ApiCredentials;
+  createdAt: number;
 }
 
 export interface RequestOptions {
   headers?: Record<string, string>;
   timeout?: number;
+  /** JSON body, or raw bytes when given a Buffer (sent as application/octet-stream unless a Content-Type header is set) */
   data?: any;
+  /** application/x-www-form-urlencoded body */
+  form?: Record<string, string | number | boolean>;
+  /** multipart/form-data body; files from `fileFromPath` are retried, streams from `fileStream` are not */
+  multipart?: Record<string, MultipartValue>;
   params?: Record<string, string>;
+  /** Overrides ApiConfig.retries for this call */
+  retries?: number;
+  /** Marks a POST/PATCH call as safe to retry */
+  idempotent?: boolean;
+  /** Runs the call as another user, or anonymously when false */
+  auth?: ApiCredentials | false;
+}
+
+export interface RetryAttempt {
+  method: HttpMethod;
+  url: string;
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+  delay: number;
+}
+
+interface ApiExchange {
+  request: ApiRequestInfo;
+  duration: number;
+  /** Milliseconds of the last attempt */
+  latency: number;
+  attempts: number;
+  /** Consumer contract interaction, when a pact recorder is active */
+  pact?: PactCapture;
 }
 
+/** Set inside polls and load runs; errors of their calls are not reported one by one */
+const quietScope = new AsyncLocalStorage<boolean>();
+
 export abstract class BaseApiWrapper {
+  private static globalInterceptors: ApiInterceptor[] = [];
+
   protected request: APIRequestContext;
   protected config: ApiConfig;
+  private interceptors: ApiInterceptor[];
+  private cassette?: ApiInterceptor;
+  private latencyBudgets: LatencyBudgetOptions;
+  /** Request context of each response, used to build errors */
+  private exchanges = new WeakMap<APIResponse, ApiExchange>();
+  private authState: { active?: AuthSession; sessions: Map<string, AuthSession> } = { sessions: new Map() };
+  private scopedAuth?: ApiCredentials | false;
+  /** Calls of the login flow are plumbing, not part of the consumer contract */
+  private loggingIn = 0;
 
   constructor(request: APIRequestContext, config: ApiConfig) {
     this.request = request;
     this.config = config;
+    this.interceptors = [...(config.interceptors || [])];
+    const cassetteOptions = config.cassette || cassetteOptionsFromEnv();
+    if (cassetteOptions.mode !== 'off') {
+      this.cassette = cassetteInterceptor(cassetteOptions);
+    }
+    this.latencyBudgets = config.latencyBudgets || latencyBudgetsFromEnv();
+  }
+
+  /**
+   * Registers an interceptor for every wrapper; global interceptors run outermost
+   * Prefer the apiInterceptors fixture, which removes them again after the test
+   */
+  static useGlobal(interceptor: ApiInterceptor): void {
+    BaseApiWrapper.globalInterceptors.push(interceptor);
+  }
+
+  static removeGlobal(name: string): void {
+    BaseApiWrapper.globalInterceptors = BaseApiWrapper.globalInterceptors.filter(
+      interceptor => interceptor.name !== name
+    );
+  }
+
+  /**
+   * Replaces the global interceptors and returns the previous ones; the apiInterceptors fixture
+   * uses it to restore them after every test
+   */
+  static replaceGlobal(interceptors: ApiInterceptor[]): ApiInterceptor[] {
+    const previous = BaseApiWrapper.globalInterceptors;
+    BaseApiWrapper.globalInterceptors = [...interceptors];
+    return previous;
+  }
+
+  /**
+   * Runs calls without logging and attaching each of their errors, e.g. the virtual users of a load run
+   * Only calls made by `action` are quiet, not those other code makes meanwhile
+   */
+  static async quietly<T>(action: () => Promise<T>): Promise<T> {
+    return await quietScope.run(true, action);
+  }
+
+  /**
+   * Registers an interceptor for this wrapper (and its `as()` views)
+   */
+  use(interceptor: ApiInterceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  removeInterceptor(name: string): this {
+    this.interceptors.splice(0, this.interceptors.length, ...this.interceptors.filter(i => i.name !== name));
+    return this;
   }
 
   protected async get(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = this.buildUrl(endpoint, options?.params);
-    return await this.request.get(url, {
-      headers: { ...this.config.headers, ...options?.headers },
-      timeout: options?.timeout || this.config.timeout,
-    });
+    return await this.send('GET', endpoint, options);
   }
 
   protected async post(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = this.buildUrl(endpoint, options?.params);
-    return await this.request.post(url, {
-      headers: { ...this.config.headers, ...options?.headers },
-      data: options?.data,
-      timeout: options?.timeout || this.config.timeout,
-    });
+    return await this.send('POST', endpoint, options);
   }
 
   protected async put(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = this.buildUrl(endpoint, options?.params);
-    return await this.request.put(url, {
-      headers: { ...this.config.headers, ...options?.headers },
-      data: options?.data,
-      timeout: options?.timeout || this.config.timeout,
-    });
+    return await this.send('PUT', endpoint, options);
   }
 
   protected async patch(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
+    return await this.send('PATCH', endpoint, options);
+  }
+
+  protected async delete(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
+    return await this.send('DELETE', endpoint, options);
+  }
+
+  /**
+   * Sends a request with the session's Authorization header, logging in again once
+   * when the server rejects the token
+   */
+  protected async send(method: HttpMethod, endpoint: string, options?: RequestOptions): Promise<APIResponse> {
     const url = this.buildUrl(endpoint, options?.params);
-    return await this.request.patch(url, {
-      headers: { ...this.config.headers, ...options?.headers },
+    const session = await this.resolveSession(options?.auth ?? this.scopedAuth, options);
+    const response = await this.sendWithRetries(method, url, options, session);
+
+    const reauthenticateOn = this.config.auth?.reauthenticateOn || [401, 403];
+    if (!session?.credentials || !reauthenticateOn.includes(response.status())) {
+      return response;
+    }
+
+    console.log(`🔐 ${method} ${url} returned ${response.status()}, re-authenticating...`);
+    this.exchanges.get(response)?.pact?.discard();
+    await response.dispose();
+    const renewed = await this.loginOnce(session.credentials);
+    this.storeSession(renewed, session === this.authState.active);
+    return await this.sendWithRetries(method, url, options, renewed);
+  }
+
+  /**
+   * Sends a request, retrying retryable statuses and network errors according to the retry policy
+   */
+  private async sendWithRetries(
+    method: HttpMethod,
+    url: string,
+    options?: RequestOptions,
+    session?: AuthSession
+  ): Promise<APIResponse> {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...this.config.retryPolicy };
+    const streamed = Object.values(options?.multipart || {}).some(value => value instanceof fs.ReadStream);
+    const canRetry = !streamed && (isIdempotentMethod(method) || options?.idempotent || policy.retryNonIdempotent);
+    const retries = canRetry ? options?.retries ?? this.config.retries ?? 0 : 0;
+    const maxAttempts = Math.max(retries, 0) + 1;
+    const timeout = options?.timeout || this.config.timeout;
+    const headers = this.bodyHeaders(
+      { ...this.config.headers, ...this.authHeaders(session), ...options?.headers },
+      options
+    );
+    const body = { data: options?.data, form: options?.form, multipart: options?.multipart };
+    let request: ApiRequestInfo = { method, url, headers, body: describeRequestBody(body) };
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      const attemptStartedAt = Date.now();
+      let response: APIResponse;
+      try {
+        response = await this.dispatch(
+          { method, url, headers: { ...headers }, ...body, timeout, attempt, wrapper: this.constructor.name },
+          sent => (request = { method: sent.method, url: sent.url, headers: sent.headers, body: describeRequestBody(sent) })
+        );
+      } catch (error) {
+        if (timeout && isTimeoutError(error)) {
+          await this.recordCall(request, options, startedAt, attempt, { error });
+          throw await this.raise(
+            new ApiTimeoutError(timeout, { request, duration: Date.now() - startedAt, attempts: attempt })
+          );
+        }
+        if (attempt >= maxAttempts || !policy.retryOnNetworkError || !isRetryableNetworkError(error)) {
+          await this.recordCall(request, options, startedAt, attempt, { error });
+          throw error;
+        }
+        const delay = computeBackoff(attempt, policy);
+        await this.recordRetry({ method, url, attempt, maxAttempts, reason: (error as Error).message, delay });
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (attempt >= maxAttempts || !policy.retryOn.includes(response.status())) {
+        const latency = Date.now() - attemptStartedAt;
+        this.exchanges.set(response, {
+          request,
+          duration: Date.now() - startedAt,
+          latency,
+          attempts: attempt,
+          pact: this.capturePact(method, url, options, session),
+        });
+        await this.recordCall(request, options, startedAt, attempt, { response, latency });
+        await this.checkLatency(response);
+        return response;
+      }
+
+      const retryAfter = policy.respectRetryAfter
+        ? parseRetryAfter(response.headers()['retry-after'])
+        : undefined;
+      const delay = retryAfter !== undefined
+        ? Math.min(retryAfter, policy.maxDelay)
+        : computeBackoff(attempt, policy);
+      await this.recordRetry({ method, url, attempt, maxAttempts, reason: `HTTP ${response.status()}`, delay });
+      await response.dispose();
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Records the outcome of a call in the journal of the running test, if any
+   */
+  private async recordCall(
+    request: ApiRequestInfo,
+    options: RequestOptions | undefined,
+    startedAt: number,
+    attempts: number,
+    outcome: { response?: APIResponse; latency?: number; error?: unknown }
+  ): Promise<void> {
+    await ApiJournal.current()?.record({
+      wrapper: this.constructor.name,
+      request,
+      params: options?.params,
+      startedAt,
+      attempts,
+      ...outcome,
+    });
+  }
+
+  /**
+   * Compares the last attempt's latency with the budget of the endpoint; throws ApiLatencyError
+   * in strict mode and logs a warning otherwise
+   */
+  private async checkLatency(response: APIResponse): Promise<void> {
+    const exchange = this.exchanges.get(response);
+    const { mode, budgets } = this.latencyBudgets;
+    const budget = exchange && mode !== 'off' && findLatencyBudget(budgets, exchange.request.method, exchange.request.url);
+    if (!exchange || !budget || exchange.latency <= budget.max) {
+      return;
+    }
+
+    if (mode === 'strict') {
+      throw await this.raise(new ApiLatencyError(exchange.latency, budget, await this.errorContext(response)));
+    }
+    if (quietScope.getStore()) {
+      return;
+    }
+    const label = `${exchange.request.method} ${exchange.request.url}`;
+    console.warn(`🐢 ${label} took ${exchange.latency}ms, over the ${budget.max}ms budget of ${budget.endpoint}`);
+    await this.attachToReport(`api-latency-warning ${label}`, { latency: exchange.latency, budget: budget.max, endpoint: budget.endpoint });
+  }
+
+  /**
+   * Starts a consumer contract interaction for the call when a pact recorder is active
+   */
+  private capturePact(
+    method: HttpMethod,
+    url: string,
+    options: RequestOptions | undefined,
+    session: AuthSession | undefined
+  ): PactCapture | undefined {
+    const recorder = PactRecorder.current();
+    if (!recorder || this.loggingIn > 0) {
+      return undefined;
+    }
+    const identity = session?.credentials ? this.sessionKey(session.credentials) : undefined;
+    return recorder.capture({
+      consumer: this.constructor.name,
+      provider: this.config.provider || new URL(this.config.baseURL).host,
+      method,
+      url,
+      headers: options?.headers,
       data: options?.data,
-      timeout: options?.timeout || this.config.timeout,
+      form: options?.form,
+      multipart: options?.multipart,
+      auth: session ? { identity } : undefined,
     });
   }
 
-  protected async delete(endpoint: string, options?: RequestOptions): Promise<APIResponse> {
-    const url = this.buildUrl(endpoint, options?.params);
-    return await this.request.delete(url, {
-      headers: { ...this.config.headers, ...options?.headers },
-      timeout: options?.timeout || this.config.timeout,
+  /**
+   * Runs one attempt through the global and wrapper interceptors and the cassette, then sends it
+   */
+  private async dispatch(spec: ApiRequestSpec, onSend: (sent: ApiRequestSpec) => void): Promise<APIResponse> {
+    const chain = [
+      ...BaseApiWrapper.globalInterceptors,
+      ...this.interceptors,
+      ...(this.cassette ? [this.cassette] : []),
+    ];
+    const run = (index: number, current: ApiRequestSpec): Promise<APIResponse> => {
+      if (index < chain.length) {
+        return chain[index].intercept(current, next => run(index + 1, next));
+      }
+      onSend(current);
+      return this.request.fetch(current.url, {
+        method: current.method,
+        headers: current.headers,
+        data: current.data,
+        form: current.form,
+        multipart: current.multipart,
+        timeout: current.timeout,
+      });
+    };
+    return await run(0, spec);
+  }
+
+  /**
+   * Form and multipart bodies get their Content-Type (with boundary) from Playwright, so a
+   * configured JSON Content-Type is dropped; raw Buffers default to application/octet-stream
+   */
+  private bodyHeaders(headers: Record<string, string>, options?: RequestOptions): Record<string, string> {
+    const explicit = Object.keys(options?.headers || {}).some(name => name.toLowerCase() === 'content-type');
+    if (explicit || !(options?.form || options?.multipart || Buffer.isBuffer(options?.data))) {
+      return headers;
+    }
+
+    const result = Object.fromEntries(Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'content-type'));
+    return Buffer.isBuffer(options?.data) ? { ...result, 'Content-Type': 'application/octet-stream' } : result;
+  }
+
+  /**
+   * Logs in with the given (or configured) credentials and makes it the active session
+   */
+  async authenticate(credentials?: ApiCredentials): Promise<AuthSession> {
+    const loginCredentials = credentials || this.config.auth?.credentials;
+    if (!loginCredentials) {
+      throw new Error(`${this.constructor.name}: no credentials configured for authentication`);
+    }
+
+    const session = await this.loginOnce(loginCredentials);
+    this.storeSession(session, true);
+    return session;
+  }
+
+  /**
+   * Makes an existing session active, e.g. to share one login between wrappers
+   */
+  useSession(session: AuthSession): void {
+    this.storeSession(session, true);
+  }
+
+  getSession(): AuthSession | undefined {
+    return this.authState.active;
+  }
+
+  clearSession(): void {
+    this.authState.active = undefined;
+    this.authState.sessions.clear();
+  }
+
+  /**
+   * Returns a view of this wrapper whose calls run as another user (or anonymously when false)
+   * The view shares the session cache, so each user logs in only once
+   */
+  as(credentials: ApiCredentials | false): this {
+    const scoped = Object.create(this) as this;
+    scoped.scopedAuth = credentials;
+    return scoped;
+  }
+
+  /**
+   * Performs the login call for this API; wrappers that support auth override it
+   * The call must pass `auth: false` so it is not authenticated itself
+   */
+  protected async login(_credentials: ApiCredentials): Promise<AuthSession> {
+    throw new Error(`${this.constructor.name} does not support authentication`);
+  }
+
+  private async loginOnce(credentials: ApiCredentials): Promise<AuthSession> {
+    this.loggingIn++;
+    try {
+      return await this.login(credentials);
+    } finally {
+      this.loggingIn--;
+    }
+  }
+
+  private async resolveSession(
+    auth: ApiCredentials | false | undefined,
+    options?: RequestOptions
+  ): Promise<AuthSession | undefined> {
+    if (auth === false || this.hasAuthorizationHeader(options)) {
+      return undefined;
+    }
+
+    if (auth) {
+      const cached = this.authState.sessions.get(this.sessionKey(auth));
+      if (cached) {
+        return cached;
+      }
+      const session = await this.loginOnce(auth);
+      this.storeSession(session, false);
+      return session;
+    }
+
+    if (!this.authState.active && this.config.auth?.credentials) {
+      await this.authenticate();
+    }
+    return this.authState.active;
+  }
+
+  private storeSession(session: AuthSession, makeActive: boolean): void {
+    if (session.credentials) {
+      this.authState.sessions.set(this.sessionKey(session.credentials), session);
+    }
+    if (makeActive) {
+      this.authState.active = session;
+    }
+  }
+
+  private sessionKey(credentials: ApiCredentials): string {
+    const identity = credentials.email || credentials.username || '';
+    return credentials.domain ? `${credentials.domain}\\${identity}` : identity;
+  }
+
+  private hasAuthorizationHeader(options?: RequestOptions): boolean {
+    const headers = { ...this.config.headers, ...options?.headers };
+    return Object.keys(headers).some(header => header.toLowerCase() === 'authorization');
+  }
+
+  private authHeaders(session?: AuthSession): Record<string, string> {
+    return session ? { Authorization: `${session.scheme || 'Bearer'} ${session.token}` } : {};
+  }
+
+  /**
+   * Logs a retry and attaches it to the current test report (no-op outside a test)
+   */
+  protected async recordRetry(retry: RetryAttempt): Promise<void> {
+    console.log(
+      `🔄 ${retry.method} ${retry.url} failed (${retry.reason}) on attempt ${retry.attempt}/${retry.maxAttempts}, retrying in ${retry.delay}ms`
+    );
+    await this.attachToReport(`api-retry ${retry.method} ${retry.url} #${retry.attempt}`, retry);
+  }
+
+  protected async attachToReport(name: string, body: unknown): Promise<void> {
+    let testInfo;
+    try {
+      testInfo = test.info();
+    } catch {
+      return;
+    }
+    await testInfo.attach(name, {
+      body: JSON.stringify(body, null, 2),
+      contentType: 'application/json',
+    });
+  }
+
+  /**
+   * Yields the items of every page in order, fetching the next page only once the previous one is consumed
+   */
+  protected async *paginate<T>(fetchPage: (page: number) => Promise<Page<T>>, firstPage = 1): AsyncGenerator<T> {
+    for (let page = firstPage; ; page++) {
+      const current = await fetchPage(page);
+      yield* current.items;
+      if (current.items.length === 0 || page >= current.totalPages) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Repeats a call until the predicate accepts its result, e.g.
+   * `await api.pollUntil(() => api.getUserById(id), user => user.name === 'Jane', { timeout: 5000 })`
+   * Failed attempts are only reported through the PollTimeoutError, which lists the last observed values
+   */
+  async pollUntil<T>(producer: () => Promise<T>, predicate: PollPredicate<T>, options: PollOptions = {}): Promise<T> {
+    let outcome: { value: T } | { error: unknown };
+    try {
+      outcome = { value: await BaseApiWrapper.quietly(() => poll(producer, predicate, { ...this.config.polling, ...options })) };
+    } catch (error) {
+      outcome = { error };
+    }
+
+    if ('value' in outcome) {
+      return outcome.value;
+    }
+    const { error } = outcome;
+    if (error instanceof PollTimeoutError) {
+      console.log(`⌛ ${this.constructor.name}: ${error.message}`);
+      await this.attachToReport(`api-poll ${options.message || 'timeout'}`, {
+        timeout: error.timeout,
+        attempts: error.attempts,
+        observations: redactBody(error.observations),
+      });
+    } else if (error instanceof ApiError) {
+      // A call that ended polling early, e.g. a rejected session
+      await this.raise(error);
+    }
+    throw error;
+  }
+
+  /**
+   * Opens a Server-Sent Events stream with the session's Authorization header
+   * Streams bypass interceptors, retries and the API journal; their messages are in the returned log
+   */
+  protected async openEventStream<T = unknown>(
+    endpoint: string,
+    options: EventStreamOptions & { params?: Record<string, string> } = {}
+  ): Promise<EventStreamClient<T>> {
+    const session = await this.resolveSession(this.scopedAuth);
+    return await EventStreamClient.open<T>(this.buildUrl(endpoint, options.params), {
+      ...options,
+      headers: { ...this.authHeaders(session), ...options.headers },
+    });
+  }
+
+  /**
+   * Opens a WebSocket on the API's host (ws:// or wss://) with the session's Authorization header
+   */
+  protected async openWebSocket<T = unknown>(
+    endpoint: string,
+    options: WebSocketClientOptions & { params?: Record<string, string> } = {}
+  ): Promise<WebSocketClient<T>> {
+    const session = await this.resolveSession(this.scopedAuth);
+    const url = new URL(this.buildUrl(endpoint, options.params));
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return await WebSocketClient.open<T>(url.toString(), {
+      ...options,
+      headers: { ...this.authHeaders(session), ...options.headers },
     });
   }
 
@@ -75,13 +630,157 @@ export abstract class BaseApiWrapper {
     return url.toString();
   }
 
+  /**
+   * Throws ApiHttpError on any other status, or ApiAuthError when the session was rejected
+   */
   protected async expectStatus(response: APIResponse, expectedStatus: number): Promise<void> {
-    expect(response.status()).toBe(expectedStatus);
+    const status = response.status();
+    if (status === expectedStatus) {
+      this.exchanges.get(response)?.pact?.expectStatus(expectedStatus);
+      return;
+    }
+
+    const context = await this.errorContext(response);
+    const reauthenticateOn = this.config.auth?.reauthenticateOn || [401, 403];
+    if (reauthenticateOn.includes(status)) {
+      throw await this.raise(new ApiAuthError(`Expected status ${expectedStatus}, got ${status}`, context, expectedStatus));
+    }
+    throw await this.raise(new ApiHttpError(expectedStatus, context));
   }
 
   protected async expectJson(response: APIResponse): Promise<any> {
-    expect(response.headers()['content-type']).toContain('application/json');
-    return await response.json();
+    const contentType = response.headers()['content-type'];
+    if (!contentType || !contentType.includes('application/json')) {
+      throw await this.validationError(response, `Expected a JSON response, got ${contentType || 'no content type'}`, [
+        { path: '$', kind: 'type', expected: 'application/json', actual: contentType },
+      ]);
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw await this.validationError(response, `Response body is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Returns the body of a non-empty binary response, optionally checking its content type
+   */
+  protected async expectBinary(response: APIResponse, expectedContentType?: string | RegExp): Promise<Buffer> {
+    const contentType = response.headers()['content-type'] || '';
+    const matches = expectedContentType === undefined
+      || (typeof expectedContentType === 'string'
+        ? contentType.split(';')[0].trim() === expectedContentType
+        : expectedContentType.test(contentType));
+    if (!matches) {
+      throw await this.validationError(
+        response,
+        `Expected a ${expectedContentType} response, got ${contentType || 'no content type'}`,
+        [{ path: '$', kind: 'type', expected: String(expectedContentType), actual: contentType }]
+      );
+    }
+
+    const body = await response.body();
+    if (body.length === 0) {
+      throw await this.validationError(response, 'Expected a binary response body, got an empty one');
+    }
+    if (expectedContentType !== undefined) {
+      this.exchanges.get(response)?.pact?.expectContentType(expectedContentType);
+    }
+    return body;
   }
 
-}
\ No newline at end of file
+  /**
+   * Writes the response body to disk and returns the absolute path; by default into `downloads/`
+   * under the name from Content-Disposition or the URL
+   */
+  protected async saveResponse(response: APIResponse, filePath?: string): Promise<string> {
+    const disposition = /filename\*?=(?:UTF-8'')?"?([^";]+)"?/i.exec(response.headers()['content-disposition'] || '');
+    const fileName = disposition
+      ? decodeURIComponent(disposition[1])
+      : path.basename(new URL(response.url()).pathname) || 'download';
+    const target = path.resolve(filePath || path.join('downloads', path.basename(fileName)));
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, await response.body());
+    return target;
+  }
+
+  /**
+   * Parses the JSON body and validates it against the schema declared by the wrapper method
+   */
+  protected async expectSchema<T>(response: APIResponse, responseSchema: Schema<T>, label?: string): Promise<T> {
+    const data = await this.expectJson(response);
+    const mode = this.config.schemaValidation || 'strict';
+    if (mode === 'off') {
+      return data;
+    }
+
+    const issues = validateSchema(responseSchema, data);
+    if (issues.length > 0) {
+      const summary = formatSchemaIssues(label || response.url(), issues);
+      if (mode === 'strict') {
+        throw await this.validationError(response, summary, issues);
+      }
+      console.warn(`⚠️ ${summary}`);
+      await this.attachToReport(`api-schema-warning ${label || response.url()}`, redactSchemaIssues(issues));
+      return data;
+    }
+    this.exchanges.get(response)?.pact?.expectShape(responseSchema.shape);
+    return data;
+  }
+
+  /**
+   * Builds an ApiValidationError for a response whose body breaks the API contract
+   */
+  protected async validationError(
+    response: APIResponse,
+    summary: string,
+    issues: SchemaIssue[] = []
+  ): Promise<ApiValidationError> {
+    return await this.raise(new ApiValidationError(summary, await this.errorContext(response), issues));
+  }
+
+  /**
+   * Collects the request and response behind an error; the error class redacts secrets
+   */
+  protected async errorContext(response: APIResponse): Promise<ApiErrorContext & { response: ApiResponseInfo }> {
+    const exchange = this.exchanges.get(response);
+    let body: unknown;
+    try {
+      const text = await response.text();
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    } catch {
+      body = undefined;
+    }
+
+    return {
+      request: exchange?.request || { method: 'UNKNOWN', url: response.url(), headers: {} },
+      response: {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: response.headers(),
+        body,
+      },
+      duration: exchange?.duration,
+      attempts: exchange?.attempts,
+    };
+  }
+
+  /**
+   * Logs an error and attaches its context to the report before it is thrown
+   */
+  protected async raise<E extends ApiError>(error: E): Promise<E> {
+    if (quietScope.getStore()) {
+      return error;
+    }
+    console.log(`❌ ${error.name}: ${error.request.method} ${error.request.url} - ${error.summary.split('\n')[0]}`);
+    await this.attachToReport(`api-error ${error.name}`, error);
+    return error;
+  }
+
+}
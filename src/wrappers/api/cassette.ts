@@ -0,0 +1,265 @@
+import { test, TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiInterceptor, ApiNext, ApiRequestSpec, createApiResponse } from './interceptors';
+import { ApiCassetteMissError } from './api-errors';
+import { HarEntry, HarLog, createHarEntry, createHarLog, fromHarContent, fromHarHeaders } from './har';
+import { redactBody, redactHeaders } from './redaction';
+import { describeRequestBody } from './files';
+
+/**
+ * HAR record-and-replay for API wrappers
+ * `record` saves every real exchange into a per-test cassette (a HAR file next to the spec),
+ * `replay` answers from that cassette without touching the network
+ */
+
+export type CassetteMode = 'record' | 'replay' | 'off';
+
+export interface CassetteMatchRules {
+  /** Compare HTTP methods (default: true) */
+  method?: boolean;
+  /** Compare URL paths; hosts are never compared so cassettes work across base URLs (default: true) */
+  path?: boolean;
+  /** Compare query strings regardless of parameter order (default: true) */
+  query?: boolean;
+  /** Compare JSON request bodies (default: false) */
+  body?: boolean;
+  /** Query parameters and top-level body fields left out of matching, e.g. timestamps */
+  ignore?: string[];
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  match?: CassetteMatchRules;
+  /** In replay mode, fail on requests without a recording instead of sending them (default: true) */
+  strict?: boolean;
+  /** Cassette file; defaults to `__cassettes__/<spec file>/<test title>.har` next to the spec */
+  file?: string;
+}
+
+const DEFAULT_MATCH_RULES: Required<CassetteMatchRules> = {
+  method: true,
+  path: true,
+  query: true,
+  body: false,
+  ignore: [],
+};
+
+/**
+ * Reads API_RECORD_MODE (record | replay | off), API_REPLAY_STRICT (default true)
+ * and API_REPLAY_MATCH (comma-separated: method,path,query,body)
+ */
+export function cassetteOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CassetteOptions {
+  const mode = (env.API_RECORD_MODE || 'off').toLowerCase();
+  if (mode !== 'record' && mode !== 'replay' && mode !== 'off') {
+    throw new Error(`Invalid API_RECORD_MODE "${env.API_RECORD_MODE}", expected record, replay or off`);
+  }
+
+  const fields = env.API_REPLAY_MATCH?.split(',').map(field => field.trim().toLowerCase());
+  return {
+    mode,
+    strict: env.API_REPLAY_STRICT !== 'false',
+    match: fields && {
+      method: fields.includes('method'),
+      path: fields.includes('path'),
+      query: fields.includes('query'),
+      body: fields.includes('body'),
+    },
+  };
+}
+
+/**
+ * Default cassette location of a test
+ */
+export function cassetteFileFor(testInfo: TestInfo): string {
+  const slug = testInfo.titlePath
+    .slice(1)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 120);
+  return path.join(path.dirname(testInfo.file), '__cassettes__', path.basename(testInfo.file), `${slug}.har`);
+}
+
+function currentTestInfo(): TestInfo | undefined {
+  try {
+    return test.info();
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeBody(body: unknown, ignore: string[]): string {
+  let value = body;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value as string;
+    }
+  }
+  value = redactBody(value);
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    value = Object.fromEntries(Object.entries(value).filter(([key]) => !ignore.includes(key)));
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Value recorded instead of a secret response field, e.g. `cassette-token` for a login token
+ * Replayed logins hand out this token, so the calls after them send `Bearer cassette-token`
+ */
+export function cassettePlaceholder(field: string): string {
+  return `cassette-${field.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^A-Za-z0-9]+/g, '-').toLowerCase()}`;
+}
+
+/**
+ * Secrets in JSON responses (e.g. login tokens) never end up in cassettes; stable placeholders take their place
+ */
+function redactResponseBody(body: Buffer, contentType: string): Buffer {
+  if (!contentType.includes('json')) {
+    return body;
+  }
+  try {
+    return Buffer.from(JSON.stringify(redactBody(JSON.parse(body.toString('utf-8')), cassettePlaceholder)));
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Match key of a request; recorded entries and live requests are compared by key
+ */
+function matchKey(method: string, url: string, body: unknown, rules: Required<CassetteMatchRules>): string {
+  const parsed = new URL(url);
+  const query = [...parsed.searchParams]
+    .filter(([name]) => !rules.ignore.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const target = `${rules.path ? parsed.pathname : '*'}${rules.query ? (query ? `?${query}` : '') : '?*'}`;
+  const key = `${rules.method ? method.toUpperCase() : '*'} ${target}`;
+  return rules.body ? `${key} ${normalizeBody(body, rules.ignore)}` : key;
+}
+
+interface RecordingCassette {
+  file: string;
+  log: HarLog;
+}
+
+interface ReplayCassette {
+  file: string;
+  entries: HarEntry[];
+  used: Set<HarEntry>;
+}
+
+// Shared by all wrappers of the worker, keyed by cassette file, test and retry
+const recordings = new Map<string, RecordingCassette>();
+const replays = new Map<string, ReplayCassette>();
+
+/**
+ * Interceptor that records to or replays from the current test's cassette
+ * BaseApiWrapper installs it innermost, so other interceptors behave the same in both modes
+ */
+export function cassetteInterceptor(options: CassetteOptions): ApiInterceptor {
+  const rules = { ...DEFAULT_MATCH_RULES, ...options.match };
+  const strict = options.strict ?? true;
+
+  // Each test run starts a fresh recording, so retries overwrite the cassette instead of appending
+  const resolve = (): { key: string; file: string } | undefined => {
+    const testInfo = currentTestInfo();
+    const file = options.file || (testInfo && cassetteFileFor(testInfo));
+    if (!file) {
+      return undefined;
+    }
+    return { key: `${file}#${testInfo?.testId ?? ''}#${testInfo?.retry ?? 0}`, file };
+  };
+
+  const record = async (request: ApiRequestSpec, next: ApiNext) => {
+    const startedAt = Date.now();
+    const response = await next(request);
+    const target = resolve();
+    if (!target) {
+      return response;
+    }
+
+    let cassette = recordings.get(target.key);
+    if (!cassette) {
+      cassette = { file: target.file, log: createHarLog([]) };
+      recordings.set(target.key, cassette);
+    }
+    cassette.log.log.entries.push(
+      createHarEntry({
+        startedAt: new Date(startedAt).toISOString(),
+        duration: Date.now() - startedAt,
+        method: request.method,
+        url: request.url,
+        requestHeaders: redactHeaders(request.headers),
+        requestBody: redactBody(describeRequestBody(request)),
+        status: response.status(),
+        statusText: response.statusText(),
+        responseHeaders: redactHeaders(response.headers()),
+        responseBody: redactResponseBody(await response.body(), response.headers()['content-type'] || ''),
+      })
+    );
+    fs.mkdirSync(path.dirname(cassette.file), { recursive: true });
+    fs.writeFileSync(cassette.file, JSON.stringify(cassette.log, null, 2));
+    return response;
+  };
+
+  const replay = async (request: ApiRequestSpec, next: ApiNext) => {
+    const target = resolve();
+    let cassette = target && replays.get(target.key);
+    if (target && !cassette) {
+      const entries = fs.existsSync(target.file)
+        ? (JSON.parse(fs.readFileSync(target.file, 'utf-8')) as HarLog).log.entries
+        : [];
+      cassette = { file: target.file, entries, used: new Set() };
+      replays.set(target.key, cassette);
+    }
+
+    const key = matchKey(request.method, request.url, describeRequestBody(request), rules);
+    const candidates = (cassette?.entries || []).filter(entry => {
+      const body = entry.request.postData?.text;
+      return matchKey(entry.request.method, entry.request.url, body, rules) === key;
+    });
+    // Identical requests replay in recorded order; the last recording answers any extra calls
+    const entry = candidates.find(candidate => !cassette?.used.has(candidate)) || candidates[candidates.length - 1];
+
+    if (!entry || !cassette) {
+      if (!strict) {
+        return next(request);
+      }
+      throw new ApiCassetteMissError(
+        cassette?.file || '(no cassette outside a test)',
+        key,
+        cassette?.entries.map(recorded => `${recorded.request.method} ${recorded.request.url}`) || [],
+        { request: { method: request.method, url: request.url, headers: request.headers, body: describeRequestBody(request) } }
+      );
+    }
+
+    cassette.used.add(entry);
+    return createApiResponse({
+      url: request.url,
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: fromHarHeaders(entry.response.headers),
+      body: fromHarContent(entry.response.content),
+    });
+  };
+
+  return {
+    name: 'cassette',
+    intercept: (request, next) => {
+      if (options.mode === 'record') {
+        return record(request, next);
+      }
+      if (options.mode === 'replay') {
+        return replay(request, next);
+      }
+      return next(request);
+    },
+  };
+}
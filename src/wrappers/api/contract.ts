@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { BaseApiWrapper, ApiConfig } from './base-api';
+import { ApiError, ApiHttpError, ApiValidationError } from './api-errors';
+import { createApiResponse } from './interceptors';
+import { HttpMethod } from './retry-policy';
+import { SchemaIssue, formatSchemaIssues } from './schema';
+import { MultipartValue, isUploadFile } from './files';
+import { PactRecorder } from './pact';
+import {
+  OpenApiDocument,
+  OpenApiOperationMatch,
+  exampleValue,
+  findMediaType,
+  matchOperation,
+  requiresAuth,
+  successResponse,
+  validateOpenApiParameter,
+  validateOpenApiValue,
+} from './openapi';
+
+/**
+ * Contract check of API wrappers against an OpenAPI document
+ * Every public method of a wrapper is called with sample arguments against a fake request
+ * context that answers from the document, so drift shows up without a running server:
+ * undocumented paths or parameters, request bodies the spec rejects, expected statuses the
+ * spec does not document, and response schemas the documented payloads do not satisfy
+ */
+
+export type ContractViolationKind =
+  | 'unsampled'
+  | 'undocumented'
+  | 'parameter'
+  | 'auth'
+  | 'request-body'
+  | 'status'
+  | 'response-body'
+  | 'error';
+
+export interface ContractViolation {
+  wrapper: string;
+  method: string;
+  kind: ContractViolationKind;
+  message: string;
+}
+
+export type WrapperClass = new (request: APIRequestContext, config?: Partial<ApiConfig>) => BaseApiWrapper;
+
+export interface ContractCheckOptions {
+  document: OpenApiDocument;
+  /** Arguments to call each method with, by method name; methods without a sample are reported */
+  samples: Record<string, unknown[]>;
+  /** Methods that are no request/response calls, e.g. streams, with the reason they are not checked */
+  skip?: Record<string, string>;
+  /** Classes whose methods are shared helpers rather than endpoint calls (default: BaseApiWrapper only) */
+  stopAt?: Array<abstract new (...args: never[]) => unknown>;
+  baseURL?: string;
+}
+
+interface FetchOptions {
+  method: HttpMethod;
+  headers?: Record<string, string>;
+  data?: unknown;
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<string, MultipartValue>;
+}
+
+/**
+ * Names of the methods a wrapper class declares itself or inherits from classes below `stopAt`
+ */
+export function wrapperMethods(
+  wrapperClass: WrapperClass,
+  stopAt: Array<abstract new (...args: never[]) => unknown> = []
+): string[] {
+  const bases = [BaseApiWrapper, ...stopAt].map(base => base.prototype);
+  const names = new Set<string>();
+  for (let proto = wrapperClass.prototype; proto && !bases.includes(proto); proto = Object.getPrototypeOf(proto)) {
+    Object.getOwnPropertyNames(proto)
+      .filter(name => name !== 'constructor' && typeof Object.getOwnPropertyDescriptor(proto, name)?.value === 'function')
+      .forEach(name => names.add(name));
+  }
+  return [...names].sort();
+}
+
+export async function checkWrapperContract(wrapperClass: WrapperClass, options: ContractCheckOptions): Promise<ContractViolation[]> {
+  const violations: ContractViolation[] = [];
+  const wrapper = wrapperClass.name;
+
+  for (const method of wrapperMethods(wrapperClass, options.stopAt).filter(name => !options.skip?.[name])) {
+    const args = options.samples[method];
+    if (!args) {
+      violations.push({ wrapper, method, kind: 'unsampled', message: `${wrapper}.${method} has no contract sample` });
+      continue;
+    }
+    violations.push(...(await PactRecorder.suspend(() => checkMethod(wrapperClass, method, args, options))));
+  }
+  return violations;
+}
+
+async function checkMethod(
+  wrapperClass: WrapperClass,
+  method: string,
+  args: unknown[],
+  options: ContractCheckOptions
+): Promise<ContractViolation[]> {
+  const { document } = options;
+  const violations: ContractViolation[] = [];
+  const report = (kind: ContractViolationKind, message: string) =>
+    violations.push({ wrapper: wrapperClass.name, method, kind, message });
+  const calls: OpenApiOperationMatch[] = [];
+
+  const request = {
+    fetch: async (url: string, fetchOptions: FetchOptions): Promise<APIResponse> => {
+      const label = `${fetchOptions.method} ${new URL(url).pathname}`;
+      const match = matchOperation(document, fetchOptions.method, url);
+      if (!match) {
+        report('undocumented', `${label} is not in the OpenAPI document`);
+        return createApiResponse({ url, status: 404, body: { success: false, message: 'Not in the OpenAPI document' } });
+      }
+      calls.push(match);
+      checkRequest(document, match, url, fetchOptions).forEach(([kind, message]) => report(kind, `${label}: ${message}`));
+      return documentedResponse(document, match, url);
+    },
+  };
+
+  const instance = new wrapperClass(request as unknown as APIRequestContext, {
+    baseURL: options.baseURL || 'http://localhost:3000',
+    retries: 0,
+  });
+  try {
+    const result = await (instance as unknown as Record<string, (...callArgs: unknown[]) => unknown>)[method](...args);
+    if (result && typeof (result as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function') {
+      // paginated iterators only call the API while they are iterated
+      const iterator = (result as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+      while (!(await iterator.next()).done) {
+        continue;
+      }
+    }
+  } catch (error) {
+    const reported = violations.some(violation => violation.kind === 'undocumented');
+    if (!reported) {
+      const last = calls[calls.length - 1];
+      report(...failureViolation(last, error));
+    }
+  }
+  return violations;
+}
+
+function checkRequest(
+  document: OpenApiDocument,
+  match: OpenApiOperationMatch,
+  url: string,
+  options: FetchOptions
+): Array<[ContractViolationKind, string]> {
+  const problems: Array<[ContractViolationKind, string]> = [];
+  const { operation, parameters } = match;
+
+  const authorized = Object.keys(options.headers || {}).some(name => name.toLowerCase() === 'authorization');
+  if (requiresAuth(document, operation) && !authorized) {
+    problems.push(['auth', 'sent without credentials, but the operation requires them']);
+  }
+
+  const issues: SchemaIssue[] = [];
+  parameters
+    .filter(parameter => parameter.in === 'path')
+    .forEach(parameter => issues.push(...validateOpenApiParameter(document, parameter.schema, match.pathParams[parameter.name], `path.${parameter.name}`)));
+
+  const query = new URL(url).searchParams;
+  query.forEach((value, key) => {
+    const deep = /^([^[]+)\[([^\]]+)\]$/.exec(key);
+    const name = deep ? deep[1] : key;
+    const field = deep?.[2];
+    const parameter = parameters.find(candidate => candidate.in === 'query' && candidate.name === name);
+    if (!parameter || (field && parameter.style !== 'deepObject')) {
+      problems.push(['parameter', `query parameter "${key}" is not documented`]);
+      return;
+    }
+    const schema = field ? parameter.schema?.properties?.[field] : parameter.schema;
+    if (field && !schema && parameter.schema?.additionalProperties === false) {
+      problems.push(['parameter', `"${field}" is not a documented ${name} field`]);
+      return;
+    }
+    issues.push(...validateOpenApiParameter(document, schema, value, `query.${key}`));
+  });
+  parameters
+    .filter(parameter => parameter.in === 'query' && parameter.required && !query.has(parameter.name))
+    .forEach(parameter => issues.push({ path: `query.${parameter.name}`, kind: 'missing', expected: parameter.schema?.type }));
+
+  if (issues.length > 0) {
+    problems.push(['parameter', formatSchemaIssues('parameters', issues)]);
+  }
+
+  const body = requestBodyProblem(document, match, options);
+  if (body) {
+    problems.push(['request-body', body]);
+  }
+  return problems;
+}
+
+function requestBodyProblem(document: OpenApiDocument, match: OpenApiOperationMatch, options: FetchOptions): string | undefined {
+  const requestBody = match.operation.requestBody;
+  const headers = Object.fromEntries(Object.entries(options.headers || {}).map(([name, value]) => [name.toLowerCase(), value]));
+  const sent = options.multipart
+    ? { contentType: 'multipart/form-data', value: multipartShape(options.multipart) }
+    : options.form
+      ? { contentType: 'application/x-www-form-urlencoded', value: options.form }
+      : options.data !== undefined
+        ? { contentType: Buffer.isBuffer(options.data) ? headers['content-type'] || 'application/octet-stream' : 'application/json', value: options.data }
+        : undefined;
+
+  if (!sent) {
+    return requestBody?.required ? 'sent without a body, but the operation requires one' : undefined;
+  }
+  const mediaType = requestBody && findMediaType(requestBody.content, sent.contentType);
+  if (!mediaType) {
+    const accepted = Object.keys(requestBody?.content || {});
+    return `sent ${sent.contentType}, but the operation accepts ${accepted.length > 0 ? accepted.join(', ') : 'no body'}`;
+  }
+
+  const schema = requestBody.content[mediaType].schema;
+  if (!schema || Buffer.isBuffer(sent.value)) {
+    return undefined;
+  }
+  const issues = validateOpenApiValue(document, schema, sent.value);
+  return issues.length > 0 ? formatSchemaIssues(`${sent.contentType} request body`, issues) : undefined;
+}
+
+/**
+ * Files become the binary string they are documented as, other fields are sent as text
+ */
+function multipartShape(multipart: Record<string, MultipartValue>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(multipart).map(([field, value]) => [
+      field,
+      isUploadFile(value) || value instanceof fs.ReadStream ? '<binary>' : String(value),
+    ])
+  );
+}
+
+function documentedResponse(document: OpenApiDocument, match: OpenApiOperationMatch, url: string): APIResponse {
+  const success = successResponse(document, match.operation);
+  if (!success) {
+    return createApiResponse({ url, status: 501, body: { success: false, message: 'No success response documented' } });
+  }
+
+  const [contentType, mediaType] = Object.entries(success.response.content || {})[0] || [];
+  if (!contentType) {
+    return createApiResponse({ url, status: success.status });
+  }
+  if (contentType.includes('json')) {
+    return createApiResponse({ url, status: success.status, body: mediaType.schema ? (exampleValue(document, mediaType.schema) as object) : {} });
+  }
+  return createApiResponse({
+    url,
+    status: success.status,
+    headers: { 'Content-Type': contentType.replace('/*', '/octet-stream') },
+    body: Buffer.from([0]),
+  });
+}
+
+function failureViolation(
+  match: OpenApiOperationMatch | undefined,
+  error: unknown
+): [ContractViolationKind, string] {
+  const label = match ? `${match.method} ${match.path}` : 'call';
+  if (error instanceof ApiHttpError && match) {
+    const documented = Object.keys(match.operation.responses).filter(code => /^2\d\d$/.test(code));
+    return ['status', `${label}: the wrapper expects ${error.expectedStatus}, the spec documents ${documented.join(', ') || 'no success status'}`];
+  }
+  if (error instanceof ApiValidationError) {
+    return ['response-body', `${label}: the documented response fails the wrapper's checks\n${error.summary}`];
+  }
+  return ['error', `${label}: ${error instanceof ApiError ? error.summary : String(error)}`];
+}
+
+export function formatContractViolations(violations: ContractViolation[]): string {
+  if (violations.length === 0) {
+    return 'No contract violations';
+  }
+  return [
+    `${violations.length} contract violation${violations.length === 1 ? '' : 's'}:`,
+    ...violations.map(violation =>
+      `  - ${violation.wrapper}.${violation.method} [${violation.kind}] ${violation.message.split('\n').join('\n      ')}`
+    ),
+  ].join('\n');
+}
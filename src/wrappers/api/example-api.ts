@@ -57,8 +57,15 @@ export class ExampleApiWrapper extends BaseApiWrapper {
     await this.expectStatus(response, 200);
   }
 
+  /**
+   * Uses json-server's case-insensitive `name_like` regex filter; the result is filtered
+   * again for backends that ignore it
+   */
   async searchUsers(name: string): Promise<User[]> {
-    const users = await this.getUsers();
+    const pattern = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const response = await this.get('/users', { params: { name_like: pattern } });
+    await this.expectStatus(response, 200);
+    const users: User[] = await this.expectJson(response);
     return users.filter(user => user.name.toLowerCase().includes(name.toLowerCase()));
   }
 }
\ No newline at end of file
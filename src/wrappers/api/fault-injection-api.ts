@@ -0,0 +1,137 @@
+import { TestAppApiWrapper } from './test-app-api';
+import { schema, Schema } from './schema';
+import { PactRecorder } from './pact';
+
+/**
+ * Client for the fault injection admin endpoints of the enhanced test-app server
+ * Unlike faultInjectionInterceptor, which fakes failures inside one wrapper, these faults
+ * happen on the server, so API wrappers, pages and browsers alike see them
+ * Requests carrying the X-Fault-Scope header only see the faults injected with the same header;
+ * the serverFaults fixture gives every test its own scope, so parallel tests keep their faults apart
+ * Its calls control the test setup rather than use the API, so they are kept out of consumer contracts
+ */
+
+/** Header that scopes faults to the clients sending the same value */
+export const FAULT_SCOPE_HEADER = 'X-Fault-Scope';
+
+export type ServerFaultType = 'latency' | 'error' | 'malformed-json' | 'drop';
+
+export interface ServerFaultRule {
+  /** Route pattern: `:id` or `*` match one path segment, `**` the rest, e.g. '/api/users/:id' */
+  path: string;
+  /** Only requests with this method (default: any) */
+  method?: string;
+  type: ServerFaultType;
+  /** Milliseconds before the fault takes effect; for 'latency' faults the added latency */
+  delay?: number;
+  /** Status of 'error' faults, or of the malformed body of 'malformed-json' faults (default: 200) */
+  status?: number;
+  /** Message of the error body of 'error' faults */
+  message?: string;
+  /** Only affect every nth matching request (default: 1, every request) */
+  every?: number;
+  /** Remove the fault after this many injections */
+  times?: number;
+}
+
+export interface ServerFault extends ServerFaultRule {
+  id: number;
+  every: number;
+  /** X-Fault-Scope of the client that injected the fault; unscoped faults affect every client */
+  scope?: string;
+  /** Requests that matched the route so far */
+  matched: number;
+  /** Requests the fault was injected into so far */
+  injected: number;
+}
+
+/** Options of the shortcut methods, everything but the route and kind of fault */
+export type ServerFaultOptions = Omit<ServerFaultRule, 'path' | 'type'>;
+
+export const serverFaultSchema: Schema<ServerFault> = schema.object({
+  id: schema.number(),
+  path: schema.string(),
+  method: schema.optional(schema.string()),
+  type: schema.literal<ServerFaultType>('latency', 'error', 'malformed-json', 'drop'),
+  delay: schema.optional(schema.number()),
+  status: schema.optional(schema.number()),
+  message: schema.optional(schema.string()),
+  every: schema.number(),
+  times: schema.optional(schema.number()),
+  scope: schema.optional(schema.string()),
+  matched: schema.number(),
+  injected: schema.number(),
+});
+
+export class FaultInjectionApi extends TestAppApiWrapper {
+  /** Ids of the faults this client injected and has not removed */
+  private readonly injected = new Set<number>();
+
+  async injectFault(rule: ServerFaultRule): Promise<ServerFault> {
+    const response = await PactRecorder.suspend(() => this.post('/api/admin/faults', { data: rule, auth: false }));
+    const fault = await this.expectPayload<ServerFault>(response, 201, 'fault', 'inject fault', serverFaultSchema);
+    this.injected.add(fault.id);
+    console.log(`💥 Server fault #${fault.id}: ${fault.type} on ${fault.method || '*'} ${fault.path}`);
+    return fault;
+  }
+
+  async injectLatency(path: string, delay: number, options: ServerFaultOptions = {}): Promise<ServerFault> {
+    return await this.injectFault({ ...options, path, type: 'latency', delay });
+  }
+
+  async injectError(path: string, status: number, options: ServerFaultOptions = {}): Promise<ServerFault> {
+    return await this.injectFault({ ...options, path, type: 'error', status });
+  }
+
+  /**
+   * Answers with a truncated JSON body that does not parse
+   */
+  async injectMalformedJson(path: string, options: ServerFaultOptions = {}): Promise<ServerFault> {
+    return await this.injectFault({ ...options, path, type: 'malformed-json' });
+  }
+
+  /**
+   * Closes the connection without answering, as a crashed server or broken network would
+   */
+  async dropConnections(path: string, options: ServerFaultOptions = {}): Promise<ServerFault> {
+    return await this.injectFault({ ...options, path, type: 'drop' });
+  }
+
+  /**
+   * Faults of this client's scope
+   */
+  async getFaults(): Promise<ServerFault[]> {
+    const response = await PactRecorder.suspend(() => this.get('/api/admin/faults', { auth: false }));
+    return await this.expectPayload<ServerFault[]>(response, 200, 'faults', 'get faults', schema.array(serverFaultSchema));
+  }
+
+  async removeFault(id: number): Promise<void> {
+    const response = await PactRecorder.suspend(() => this.delete(`/api/admin/faults/${id}`, { auth: false }));
+    await this.expectSuccess(response, 200, 'remove fault');
+    this.injected.delete(id);
+  }
+
+  /**
+   * Removes every fault of this client's scope and returns how many there were
+   */
+  async clearFaults(): Promise<number> {
+    const response = await PactRecorder.suspend(() => this.delete('/api/admin/faults', { auth: false }));
+    const cleared = await this.expectPayload<number>(response, 200, 'cleared', 'clear faults', schema.number());
+    this.injected.clear();
+    return cleared;
+  }
+
+  /**
+   * Removes the faults this client injected, leaving those of other clients alone
+   * Faults that already expired after their `times` injections are skipped
+   */
+  async removeInjectedFaults(): Promise<void> {
+    for (const id of [...this.injected]) {
+      const response = await PactRecorder.suspend(() => this.delete(`/api/admin/faults/${id}`, { auth: false }));
+      if (response.status() !== 404) {
+        await this.expectSuccess(response, 200, 'remove fault');
+      }
+      this.injected.delete(id);
+    }
+  }
+}
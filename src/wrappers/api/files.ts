@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Files for multipart uploads and binary downloads of API wrappers
+ */
+
+/** A file held in memory; the shape Playwright expects for multipart fields */
+export interface UploadFile {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export type MultipartValue = string | number | boolean | UploadFile | fs.ReadStream;
+
+/** Folders searched for relative file names, after the working directory */
+export const TEST_FILE_DIRS = ['src/tests/fixtures', 'downloads'];
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip',
+};
+
+export function mimeTypeFor(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Absolute path of a test file, looked up as given and then in the fixtures and downloads folders
+ */
+export function resolveTestFile(filePath: string): string {
+  const candidates = path.isAbsolute(filePath)
+    ? [filePath]
+    : [filePath, ...TEST_FILE_DIRS.map(dir => path.join(dir, filePath))].map(candidate => path.resolve(candidate));
+  const found = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  if (!found) {
+    throw new Error(`Test file "${filePath}" not found, looked in:\n${candidates.map(c => `  ${c}`).join('\n')}`);
+  }
+  return found;
+}
+
+/**
+ * Reads a file for upload; unlike a stream it can be sent again when the call is retried
+ */
+export function fileFromPath(filePath: string, mimeType?: string): UploadFile {
+  const resolved = resolveTestFile(filePath);
+  return {
+    name: path.basename(resolved),
+    mimeType: mimeType || mimeTypeFor(resolved),
+    buffer: fs.readFileSync(resolved),
+  };
+}
+
+/**
+ * Streams a file for upload without loading it into memory; calls with streams are never retried
+ */
+export function fileStream(filePath: string): fs.ReadStream {
+  return fs.createReadStream(resolveTestFile(filePath));
+}
+
+export function isUploadFile(value: unknown): value is UploadFile {
+  return typeof value === 'object' && value !== null && Buffer.isBuffer((value as UploadFile).buffer);
+}
+
+/**
+ * Readable stand-in for a request body in logs, journals and cassettes: files become
+ * `<file name, type, size>` and streams `<stream path>`
+ */
+export function describeRequestBody(request: {
+  data?: unknown;
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<string, MultipartValue>;
+}): unknown {
+  if (request.multipart) {
+    return Object.fromEntries(
+      Object.entries(request.multipart).map(([field, value]) => {
+        if (isUploadFile(value)) {
+          return [field, `<file ${value.name}, ${value.mimeType}, ${value.buffer.length} bytes>`];
+        }
+        if (value instanceof fs.ReadStream) {
+          return [field, `<stream ${value.path}>`];
+        }
+        return [field, value];
+      })
+    );
+  }
+  if (request.form) {
+    return request.form;
+  }
+  if (Buffer.isBuffer(request.data)) {
+    return `<binary ${request.data.length} bytes>`;
+  }
+  return request.data;
+}
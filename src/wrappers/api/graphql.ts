@@ -0,0 +1,195 @@
+import { APIRequestContext } from '@playwright/test';
+import { BaseApiWrapper, ApiConfig, RequestOptions } from './base-api';
+import { ApiGraphQLError, GraphQLErrorEntry } from './api-errors';
+import { schema, Schema } from './schema';
+
+/**
+ * GraphQL on top of BaseApiWrapper: typed operations built with `gql`, reusable fragments,
+ * and GraphQL `errors` raised as ApiGraphQLError. Retries, auth, interceptors, journal and
+ * cassettes work exactly as for REST calls
+ */
+
+export type GraphQLOperationKind = 'query' | 'mutation';
+
+export interface GraphQLFragment {
+  readonly name: string;
+  readonly source: string;
+  /** Fragments spread by this one */
+  readonly fragments: GraphQLFragment[];
+}
+
+export interface GraphQLOperation<TData, TVariables> {
+  readonly kind: GraphQLOperationKind;
+  readonly name?: string;
+  /** The operation followed by every fragment it uses */
+  readonly document: string;
+  /** Type carriers only, never set */
+  readonly __data?: TData;
+  readonly __variables?: TVariables;
+}
+
+export interface GraphQLConfig extends ApiConfig {
+  /** Path of the GraphQL endpoint (default: /graphql) */
+  endpoint?: string;
+}
+
+export type GraphQLRequestOptions = Pick<RequestOptions, 'headers' | 'timeout' | 'retries' | 'auth'>;
+
+const graphQLErrorSchema: Schema<GraphQLErrorEntry> = schema.object(
+  {
+    message: schema.string(),
+    path: schema.optional(schema.array(schema.union(schema.string(), schema.number()))),
+    locations: schema.optional(schema.array(schema.object({ line: schema.number(), column: schema.number() }))),
+    extensions: schema.optional(schema.object({ code: schema.optional(schema.string()) }, { unexpected: 'allow' })),
+  },
+  { unexpected: 'allow' }
+);
+
+const graphQLResponseSchema = schema.object({
+  data: schema.optional(schema.nullable(schema.unknown())),
+  errors: schema.optional(schema.array(graphQLErrorSchema)),
+  extensions: schema.optional(schema.unknown()),
+});
+
+/**
+ * Block strings, strings and comments, whose text may look like a spread or a definition
+ */
+const IGNORED_TEXT = /"{3}(?:\\"{3}|(?!"{3})[\s\S])*"{3}|"(?:\\.|[^"\\\n])*"|#[^\n]*/g;
+
+const withoutIgnoredText = (source: string) => source.replace(IGNORED_TEXT, ' ');
+
+function spreadNames(source: string): string[] {
+  return [...withoutIgnoredText(source).matchAll(/\.\.\.\s*([_A-Za-z][_0-9A-Za-z]*)/g)]
+    .map(match => match[1])
+    .filter(name => name !== 'on');
+}
+
+/**
+ * Every fragment used by `fragments` and the fragments they spread, each once, in spread order
+ */
+function collectFragments(fragments: GraphQLFragment[], collected: Map<string, GraphQLFragment> = new Map()) {
+  fragments.forEach(fragment => {
+    if (!collected.has(fragment.name)) {
+      collected.set(fragment.name, fragment);
+      collectFragments(fragment.fragments, collected);
+    }
+  });
+  return collected;
+}
+
+function checkSpreads(owner: string, source: string, available: Map<string, GraphQLFragment>): void {
+  const missing = spreadNames(source).filter(name => !available.has(name));
+  if (missing.length > 0) {
+    throw new Error(`${owner} spreads ${missing.map(name => `"${name}"`).join(', ')} but the fragment was not passed in`);
+  }
+}
+
+/**
+ * Declares a reusable fragment; pass the fragments it spreads after the source
+ */
+export function fragment(source: string, ...fragments: GraphQLFragment[]): GraphQLFragment {
+  const match = /^\s*fragment\s+([_A-Za-z][_0-9A-Za-z]*)\s+on\s+[_A-Za-z]/.exec(withoutIgnoredText(source));
+  if (!match) {
+    throw new Error(`Expected a fragment definition, got: ${source.trim().split('\n')[0]}`);
+  }
+  checkSpreads(`Fragment ${match[1]}`, source, collectFragments(fragments));
+  return { name: match[1], source: source.trim(), fragments };
+}
+
+/**
+ * Declares a typed query or mutation; the fragments it spreads are appended to the document
+ */
+export function gql<TData, TVariables = Record<string, never>>(
+  source: string,
+  ...fragments: GraphQLFragment[]
+): GraphQLOperation<TData, TVariables> {
+  const text = withoutIgnoredText(source);
+  const match = /^\s*(query|mutation|subscription)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/.exec(text);
+  if (match?.[1] === 'subscription') {
+    throw new Error('GraphQL subscriptions are not supported');
+  }
+  if (!match && !text.trim().startsWith('{')) {
+    throw new Error(`Expected a query or mutation, got: ${source.trim().split('\n')[0]}`);
+  }
+
+  const used = collectFragments(fragments);
+  checkSpreads(`Operation ${match?.[2] || '(anonymous)'}`, source, used);
+  return {
+    kind: (match?.[1] as GraphQLOperationKind) || 'query',
+    name: match?.[2],
+    document: [source.trim(), ...[...used.values()].map(f => f.source)].join('\n\n'),
+  };
+}
+
+export abstract class BaseGraphQLWrapper extends BaseApiWrapper {
+  protected readonly endpoint: string;
+
+  constructor(request: APIRequestContext, config: GraphQLConfig) {
+    super(request, config);
+    this.endpoint = config.endpoint || '/graphql';
+  }
+
+  protected async query<TData, TVariables>(
+    operation: GraphQLOperation<TData, TVariables>,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions & { schema?: Schema<TData> }
+  ): Promise<TData> {
+    if (operation.kind !== 'query') {
+      throw new Error(`${operation.name || 'Operation'} is a ${operation.kind}, use mutate()`);
+    }
+    return await this.execute(operation, variables, options);
+  }
+
+  protected async mutate<TData, TVariables>(
+    operation: GraphQLOperation<TData, TVariables>,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions & { schema?: Schema<TData> }
+  ): Promise<TData> {
+    if (operation.kind !== 'mutation') {
+      throw new Error(`${operation.name || 'Operation'} is a ${operation.kind}, use query()`);
+    }
+    return await this.execute(operation, variables, options);
+  }
+
+  /**
+   * Sends the operation and returns its data; queries are retried like GET requests, mutations are not
+   * HTTP failures raise the usual ApiError types, GraphQL `errors` raise ApiGraphQLError
+   */
+  protected async execute<TData, TVariables>(
+    operation: GraphQLOperation<TData, TVariables>,
+    variables?: TVariables,
+    options: GraphQLRequestOptions & { schema?: Schema<TData> } = {}
+  ): Promise<TData> {
+    const label = operation.name || `anonymous ${operation.kind}`;
+    const { schema: dataSchema, ...requestOptions } = options;
+    const response = await this.post(this.endpoint, {
+      ...requestOptions,
+      data: { query: operation.document, variables: variables ?? {}, operationName: operation.name },
+      idempotent: operation.kind === 'query',
+    });
+
+    // GraphQL servers answer request errors with 400 and an errors array
+    if (response.status() !== 400) {
+      await this.expectStatus(response, 200);
+    }
+    const body = await this.expectSchema(response, graphQLResponseSchema, `${label} response`);
+
+    if (body.errors && body.errors.length > 0) {
+      throw await this.raise(
+        new ApiGraphQLError(operation.name, body.errors, body.data, await this.errorContext(response))
+      );
+    }
+    if (body.data === undefined || body.data === null) {
+      throw await this.validationError(response, `GraphQL ${label} returned no data`);
+    }
+    if (dataSchema) {
+      const validated = await this.expectSchema(
+        response,
+        schema.object({ data: dataSchema }, { unexpected: 'allow' }),
+        `${label} data`
+      );
+      return validated.data;
+    }
+    return body.data as TData;
+  }
+}
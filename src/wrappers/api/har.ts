@@ -0,0 +1,140 @@
+/**
+ * Minimal HAR 1.2 model shared by the API journal export and record/replay cassettes
+ */
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text: string;
+  encoding?: 'base64';
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    content: HarContent;
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarExchange {
+  startedAt: string;
+  duration: number;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: unknown;
+  status: number;
+  statusText?: string;
+  responseHeaders: Record<string, string>;
+  responseBody: Buffer | string;
+}
+
+const TEXT_MIME_PATTERN = /^text\/|json|xml|javascript|x-www-form-urlencoded/i;
+
+export function createHarLog(entries: HarEntry[]): HarLog {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'playwright-test-framework', version: '1.0.0' },
+      pages: [],
+      entries,
+    },
+  };
+}
+
+export function toHarHeaders(headers: Record<string, string> = {}): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+export function fromHarHeaders(headers: HarHeader[] = []): Record<string, string> {
+  return Object.fromEntries(headers.map(header => [header.name.toLowerCase(), header.value]));
+}
+
+/**
+ * Text bodies are stored as-is, anything else base64-encoded
+ */
+export function toHarContent(body: Buffer | string, mimeType: string): HarContent {
+  const buffer = typeof body === 'string' ? Buffer.from(body) : body;
+  return TEXT_MIME_PATTERN.test(mimeType)
+    ? { size: buffer.length, mimeType, text: buffer.toString('utf-8') }
+    : { size: buffer.length, mimeType, text: buffer.toString('base64'), encoding: 'base64' };
+}
+
+export function fromHarContent(content: HarContent): Buffer {
+  return Buffer.from(content.text || '', content.encoding === 'base64' ? 'base64' : 'utf-8');
+}
+
+export function createHarEntry(exchange: HarExchange): HarEntry {
+  const requestText = exchange.requestBody === undefined
+    ? undefined
+    : typeof exchange.requestBody === 'string' ? exchange.requestBody : JSON.stringify(exchange.requestBody);
+  const content = toHarContent(
+    exchange.responseBody,
+    exchange.responseHeaders['content-type'] || 'application/octet-stream'
+  );
+
+  return {
+    startedDateTime: exchange.startedAt,
+    time: exchange.duration,
+    request: {
+      method: exchange.method,
+      url: exchange.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(exchange.requestHeaders),
+      queryString: [...new URL(exchange.url).searchParams].map(([name, value]) => ({ name, value })),
+      ...(requestText !== undefined && { postData: { mimeType: 'application/json', text: requestText } }),
+      headersSize: -1,
+      bodySize: requestText?.length ?? 0,
+    },
+    response: {
+      status: exchange.status,
+      statusText: exchange.statusText || '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(exchange.responseHeaders),
+      content,
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: content.size,
+    },
+    cache: {},
+    timings: { send: 0, wait: exchange.duration, receive: 0 },
+  };
+}
@@ -1,3 +1,239 @@
-export { BaseApiWrapper, ApiConfig, RequestOptions } from './base-api';
+export { BaseApiWrapper, ApiConfig, RequestOptions, RetryAttempt, ApiCredentials, AuthConfig, AuthSession } from './base-api';
+export { RetryPolicy, HttpMethod, DEFAULT_RETRY_POLICY, computeBackoff, parseRetryAfter } from './retry-policy';
+export {
+  schema,
+  Schema,
+  SchemaShape,
+  SchemaIssue,
+  SchemaIssueKind,
+  ObjectSchemaOptions,
+  Infer,
+  SchemaValidationError,
+  validateSchema,
+  assertSchema,
+  formatSchemaIssues,
+  redactSchemaIssues,
+  schemaFromShape,
+} from './schema';
+export {
+  ApiError,
+  ApiHttpError,
+  ApiValidationError,
+  ApiTimeoutError,
+  ApiLatencyError,
+  ApiAuthError,
+  ApiCassetteMissError,
+  ApiGraphQLError,
+  GraphQLErrorEntry,
+  ApiErrorContext,
+  ApiRequestInfo,
+  ApiResponseInfo,
+  isTimeoutError,
+} from './api-errors';
+export {
+  ApiInterceptor,
+  ApiRequestSpec,
+  ApiNext,
+  ApiResponseInit,
+  RequestMatcher,
+  LatencySample,
+  FaultRule,
+  createApiResponse,
+  correlationIdInterceptor,
+  headersInterceptor,
+  bearerTokenInterceptor,
+  loggingInterceptor,
+  latencyInterceptor,
+  faultInjectionInterceptor,
+  responseRewriteInterceptor,
+} from './interceptors';
+export { ApiJournal, ApiJournalEntry, ApiJournalCall } from './api-journal';
+export {
+  CassetteMode,
+  CassetteOptions,
+  CassetteMatchRules,
+  cassetteInterceptor,
+  cassetteOptionsFromEnv,
+  cassetteFileFor,
+  cassettePlaceholder,
+} from './cassette';
+export { HarLog, HarEntry, HarHeader, HarContent, HarExchange, createHarLog, createHarEntry } from './har';
+export { REDACTED, redactHeaders, redactBody } from './redaction';
+export {
+  PollOptions,
+  PollPredicate,
+  PollObservation,
+  PollTimeoutError,
+  pollUntil,
+  pollIntervals,
+  expectPollOptions,
+} from './polling';
+export {
+  UploadFile,
+  MultipartValue,
+  TEST_FILE_DIRS,
+  fileFromPath,
+  fileStream,
+  resolveTestFile,
+  mimeTypeFor,
+  describeRequestBody,
+} from './files';
+export { Page, PageInfo, PageQuery, SortKey, ListFilter, pageInfoSchema, toPageParams } from './pagination';
+export {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiOperationMatch,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiResponse,
+  OpenApiSchema,
+  OpenApiMediaType,
+  DEFAULT_OPENAPI_PATH,
+  loadOpenApiDocument,
+  matchOperation,
+  resolveRef,
+  requiresAuth,
+  successResponse,
+  findMediaType,
+  validateOpenApiValue,
+  validateOpenApiParameter,
+  exampleValue,
+} from './openapi';
+export {
+  ContractViolation,
+  ContractViolationKind,
+  ContractCheckOptions,
+  WrapperClass,
+  checkWrapperContract,
+  wrapperMethods,
+  formatContractViolations,
+} from './contract';
+export {
+  PactMode,
+  PactFile,
+  PactInteraction,
+  PactRequest,
+  PactResponse,
+  PactUpload,
+  PactCall,
+  PactCapture,
+  PactRecorder,
+  PactVerificationOptions,
+  PactVerificationResult,
+  DEFAULT_PACT_DIR,
+  pactModeFromEnv,
+  pactDirFromEnv,
+  pactFileFor,
+  loadPacts,
+  verifyPact,
+  formatPactVerification,
+} from './pact';
+export {
+  VirtualUser,
+  LoadOptions,
+  LoadReport,
+  LoadStepStats,
+  LoadLimits,
+  LoadThresholds,
+  runLoad,
+  loadThresholdViolations,
+  formatLoadReport,
+} from './load';
+export {
+  LatencyBudget,
+  LatencyBudgetMode,
+  LatencyBudgetOptions,
+  EndpointLatency,
+  LatencyStats,
+  LatencySummaryEntry,
+  LatencyBaseline,
+  DEFAULT_LATENCY_BUDGETS_PATH,
+  DEFAULT_LATENCY_BASELINE_PATH,
+  latencyStats,
+  loadLatencyBudgets,
+  latencyBudgetsFromEnv,
+  matchesEndpoint,
+  findLatencyBudget,
+  endpointKey,
+  loadLatencyBaseline,
+  summarizeLatencies,
+  toLatencyBaseline,
+  formatLatencySummary,
+} from './latency';
+export {
+  StreamMessage,
+  StreamMatcher,
+  StreamWaitOptions,
+  ServerSentEvent,
+  EventStreamOptions,
+  WebSocketClientOptions,
+  StreamLog,
+  StreamTimeoutError,
+  EventStreamClient,
+  WebSocketClient,
+  eventToMessage,
+  frameToMessage,
+  createEventStreamParser,
+} from './streams';
+export {
+  BaseGraphQLWrapper,
+  GraphQLConfig,
+  GraphQLFragment,
+  GraphQLOperation,
+  GraphQLOperationKind,
+  GraphQLRequestOptions,
+  fragment,
+  gql,
+} from './graphql';
 export { ExampleApiWrapper, User, CreateUserRequest } from './example-api';
-export { TestApiWrapper, TestUser as ApiTestUser, CreateTestUserRequest, TestApiResponse } from './test-api';
\ No newline at end of file
+export {
+  TestApiWrapper,
+  TestUser as ApiTestUser,
+  CreateTestUserRequest,
+  TestApiResponse,
+  UserAvatar,
+  userAvatarSchema,
+} from './test-api';
+export {
+  TestAppApiWrapper,
+  DashboardUser,
+  UserPreferences,
+  envelopeSchema,
+  testUserSchema,
+  dashboardUserSchema,
+  userPreferencesSchema,
+} from './test-app-api';
+export { ProjectsApi, projectSchema, Project, ProjectStatus, Priority, CreateProjectRequest, ProjectFilters, ProjectListQuery } from './projects-api';
+export { TasksApi, taskSchema, Task, TaskStatus, CreateTaskRequest, TaskFilters, TaskListQuery } from './tasks-api';
+export {
+  NotificationsApi,
+  Notification,
+  CreateNotificationRequest,
+  Activity,
+  NotificationStreamEvent,
+  notificationSchema,
+} from './notifications-api';
+export { ReportsApi, reportSchema, Report, ProgressReportData, PerformanceReportData } from './reports-api';
+export { AnalyticsApi, DashboardAnalytics, dashboardAnalyticsSchema } from './analytics-api';
+export { SettingsApi, settingsSchema, Settings, SystemSettings } from './settings-api';
+export { SearchApi, searchResultsSchema, SearchResults, SearchType } from './search-api';
+export {
+  FAULT_SCOPE_HEADER,
+  FaultInjectionApi,
+  ServerFault,
+  ServerFaultRule,
+  ServerFaultOptions,
+  ServerFaultType,
+  serverFaultSchema,
+} from './fault-injection-api';
+export {
+  TestAppGraphQLApi,
+  GraphQLUser,
+  GraphQLProject,
+  GraphQLUserWithProjects,
+  CreateGraphQLProjectInput,
+  USER_FIELDS,
+  PROJECT_FIELDS,
+  graphQLUserSchema,
+  graphQLProjectSchema,
+} from './test-app-graphql';
\ No newline at end of file
@@ -0,0 +1,261 @@
+import { APIResponse } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { HttpMethod } from './retry-policy';
+import { MultipartValue } from './files';
+
+/**
+ * Request/response interceptors for BaseApiWrapper
+ * Interceptors form an onion around every attempt of every call: each one sees the
+ * outgoing request, may change it, and decides what to do with `next(request)` -
+ * await it, replace its response, or skip it and answer on its own
+ */
+
+export interface ApiRequestSpec {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<string, MultipartValue>;
+  timeout?: number;
+  /** 1-based attempt number within the retry loop */
+  attempt: number;
+  /** Class name of the wrapper making the call */
+  wrapper: string;
+}
+
+export type ApiNext = (request: ApiRequestSpec) => Promise<APIResponse>;
+
+export interface ApiInterceptor {
+  /** Used in logs and to remove the interceptor again */
+  name: string;
+  intercept(request: ApiRequestSpec, next: ApiNext): Promise<APIResponse>;
+}
+
+/** Matches requests by URL pattern or predicate; omitted matches everything */
+export type RequestMatcher = RegExp | ((request: ApiRequestSpec) => boolean);
+
+export interface ApiResponseInit {
+  url: string;
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** Objects are serialized as JSON and get a JSON content type by default */
+  body?: string | Buffer | object;
+}
+
+function matches(matcher: RequestMatcher | undefined, request: ApiRequestSpec): boolean {
+  if (!matcher) {
+    return true;
+  }
+  return matcher instanceof RegExp ? matcher.test(request.url) : matcher(request);
+}
+
+/**
+ * Builds an in-memory APIResponse, e.g. for rewritten or injected responses
+ */
+export function createApiResponse(init: ApiResponseInit): APIResponse {
+  const isJson = init.body !== undefined && typeof init.body === 'object' && !Buffer.isBuffer(init.body);
+  const buffer = Buffer.isBuffer(init.body)
+    ? init.body
+    : Buffer.from(isJson ? JSON.stringify(init.body) : (init.body as string | undefined) || '');
+  const headers: Record<string, string> = {
+    ...(isJson ? { 'content-type': 'application/json; charset=utf-8' } : {}),
+    ...Object.fromEntries(Object.entries(init.headers || {}).map(([name, value]) => [name.toLowerCase(), value])),
+  };
+
+  return {
+    url: () => init.url,
+    status: () => init.status,
+    statusText: () => init.statusText || '',
+    ok: () => init.status >= 200 && init.status <= 299,
+    headers: () => ({ ...headers }),
+    headersArray: () => Object.entries(headers).map(([name, value]) => ({ name, value })),
+    body: async () => buffer,
+    text: async () => buffer.toString('utf-8'),
+    json: async () => JSON.parse(buffer.toString('utf-8')),
+    dispose: async () => {},
+    [Symbol.asyncDispose]: async () => {},
+  };
+}
+
+/**
+ * Adds a correlation ID header to every request that does not already carry one
+ */
+export function correlationIdInterceptor(
+  header: string = 'X-Correlation-ID',
+  generate: () => string = randomUUID
+): ApiInterceptor {
+  return {
+    name: 'correlation-id',
+    intercept: (request, next) => {
+      const present = Object.keys(request.headers).some(name => name.toLowerCase() === header.toLowerCase());
+      return next(present ? request : { ...request, headers: { ...request.headers, [header]: generate() } });
+    },
+  };
+}
+
+/**
+ * Adds static headers, without overriding headers set on the call itself
+ */
+export function headersInterceptor(headers: Record<string, string>): ApiInterceptor {
+  return {
+    name: 'headers',
+    intercept: (request, next) => next({ ...request, headers: { ...headers, ...request.headers } }),
+  };
+}
+
+/**
+ * Sends a fixed or dynamically obtained token, for APIs that do not log in through the wrapper
+ */
+export function bearerTokenInterceptor(
+  token: string | (() => string | Promise<string>),
+  scheme: string = 'Bearer'
+): ApiInterceptor {
+  return {
+    name: 'bearer-token',
+    intercept: async (request, next) => {
+      const value = typeof token === 'function' ? await token() : token;
+      return next({ ...request, headers: { ...request.headers, Authorization: `${scheme} ${value}` } });
+    },
+  };
+}
+
+/**
+ * Logs each attempt and its outcome
+ */
+export function loggingInterceptor(log: (message: string) => void = console.log): ApiInterceptor {
+  return {
+    name: 'logging',
+    intercept: async (request, next) => {
+      const attempt = request.attempt > 1 ? ` (attempt ${request.attempt})` : '';
+      log(`📤 ${request.method} ${request.url}${attempt}`);
+      const startedAt = Date.now();
+      try {
+        const response = await next(request);
+        log(`📥 ${response.status()} ${request.method} ${request.url} in ${Date.now() - startedAt}ms`);
+        return response;
+      } catch (error) {
+        log(`💥 ${request.method} ${request.url} failed after ${Date.now() - startedAt}ms: ${(error as Error).message}`);
+        throw error;
+      }
+    },
+  };
+}
+
+export interface LatencySample {
+  method: HttpMethod;
+  url: string;
+  status?: number;
+  duration: number;
+  attempt: number;
+}
+
+/**
+ * Measures every attempt; samples are kept on the interceptor and passed to `onSample`
+ */
+export function latencyInterceptor(
+  onSample?: (sample: LatencySample) => void
+): ApiInterceptor & { samples: LatencySample[] } {
+  const samples: LatencySample[] = [];
+  const record = (sample: LatencySample) => {
+    samples.push(sample);
+    onSample?.(sample);
+  };
+
+  return {
+    name: 'latency',
+    samples,
+    intercept: async (request, next) => {
+      const startedAt = Date.now();
+      const sample = { method: request.method, url: request.url, attempt: request.attempt };
+      try {
+        const response = await next(request);
+        record({ ...sample, status: response.status(), duration: Date.now() - startedAt });
+        return response;
+      } catch (error) {
+        record({ ...sample, duration: Date.now() - startedAt });
+        throw error;
+      }
+    },
+  };
+}
+
+export interface FaultRule {
+  match?: RequestMatcher;
+  /** Answers with this status instead of sending the request */
+  status?: number;
+  body?: string | object;
+  headers?: Record<string, string>;
+  /** Delays the request (or the injected response) by this many milliseconds */
+  delay?: number;
+  /** Throws this error instead of answering, e.g. 'connect ECONNREFUSED' */
+  error?: string;
+  /** Chance between 0 and 1 that a matching request is affected (default: 1) */
+  probability?: number;
+  /** Number of matching requests to affect before the rule expires */
+  times?: number;
+}
+
+/**
+ * Client-side fault injection: delays, error statuses and network errors for matching requests
+ * Faults apply per attempt, so injected retryable statuses exercise the retry policy
+ */
+export function faultInjectionInterceptor(...rules: FaultRule[]): ApiInterceptor {
+  const remaining = new Map(rules.map(rule => [rule, rule.times ?? Infinity]));
+
+  return {
+    name: 'fault-injection',
+    intercept: async (request, next) => {
+      const rule = rules.find(candidate =>
+        (remaining.get(candidate) ?? 0) > 0 &&
+        matches(candidate.match, request) &&
+        Math.random() < (candidate.probability ?? 1)
+      );
+      if (!rule) {
+        return next(request);
+      }
+
+      remaining.set(rule, (remaining.get(rule) ?? 0) - 1);
+      console.log(`💥 Injecting fault into ${request.method} ${request.url}`);
+      if (rule.delay) {
+        await new Promise(resolve => setTimeout(resolve, rule.delay));
+      }
+      if (rule.error) {
+        throw new Error(rule.error);
+      }
+      if (rule.status === undefined) {
+        return next(request);
+      }
+      return createApiResponse({ url: request.url, status: rule.status, headers: rule.headers, body: rule.body });
+    },
+  };
+}
+
+/**
+ * Rewrites JSON bodies of matching responses, e.g. to simulate contract drift
+ */
+export function responseRewriteInterceptor<T = unknown>(
+  match: RequestMatcher | undefined,
+  rewrite: (body: T, response: APIResponse) => unknown
+): ApiInterceptor {
+  return {
+    name: 'response-rewrite',
+    intercept: async (request, next) => {
+      const response = await next(request);
+      if (!matches(match, request) || !(response.headers()['content-type'] || '').includes('application/json')) {
+        return response;
+      }
+
+      const body = rewrite(await response.json() as T, response);
+      await response.dispose();
+      return createApiResponse({
+        url: response.url(),
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: response.headers(),
+        body: body as object,
+      });
+    },
+  };
+}
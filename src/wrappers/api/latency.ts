@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+
+/**
+ * Latency budgets for API calls and per-run latency summaries
+ * Budgets map endpoint patterns to the most milliseconds a call may take, e.g.
+ * `"POST /api/login": 800`; the first matching pattern applies. Patterns are a path with an
+ * optional method, where `:name` or `*` match one segment and `**` the rest of the path
+ */
+
+export type LatencyBudgetMode = 'strict' | 'warn' | 'off';
+
+export interface LatencyBudget {
+  endpoint: string;
+  max: number;
+}
+
+export interface LatencyBudgetOptions {
+  /** What to do when a call exceeds its budget (default: 'warn', logs and attaches a warning) */
+  mode: LatencyBudgetMode;
+  budgets: LatencyBudget[];
+}
+
+export interface EndpointLatency {
+  /** Normalized endpoint, see `endpointKey` */
+  endpoint: string;
+  latency: number;
+}
+
+export interface LatencySummaryEntry {
+  endpoint: string;
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+  /** p95 of the stored baseline, when the endpoint has one */
+  baselineP95?: number;
+  /** Relative change of p95 against the baseline, e.g. 0.25 for 25% slower */
+  regression?: number;
+}
+
+/** Latencies in milliseconds */
+export interface LatencyStats {
+  min: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export type LatencyBaseline = Record<string, { p50: number; p95: number }>;
+
+export const DEFAULT_LATENCY_BUDGETS_PATH = 'config/latency-budgets.json';
+export const DEFAULT_LATENCY_BASELINE_PATH = 'config/latency-baseline.json';
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Nearest-rank percentiles of a list of durations
+ */
+export function latencyStats(durations: number[]): LatencyStats {
+  if (durations.length === 0) {
+    return { min: 0, mean: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+  }
+  const sorted = [...durations].sort((a, b) => a - b);
+  const percentile = (p: number) => round(sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)]);
+  return {
+    min: round(sorted[0]),
+    mean: round(sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length),
+    p50: percentile(50),
+    p95: percentile(95),
+    p99: percentile(99),
+    max: round(sorted[sorted.length - 1]),
+  };
+}
+
+const budgetFiles = new Map<string, LatencyBudget[]>();
+
+/**
+ * Reads a budgets file: a JSON object of endpoint patterns to milliseconds, in match order
+ */
+export function loadLatencyBudgets(filePath: string = DEFAULT_LATENCY_BUDGETS_PATH): LatencyBudget[] {
+  const cached = budgetFiles.get(filePath);
+  if (cached) {
+    return cached;
+  }
+  const budgets = fs.existsSync(filePath)
+    ? Object.entries(JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, number>).map(([endpoint, max]) => ({ endpoint, max }))
+    : [];
+  budgetFiles.set(filePath, budgets);
+  return budgets;
+}
+
+/**
+ * Reads API_LATENCY_BUDGETS (strict | warn | off, default warn) and the budgets file
+ * from API_LATENCY_BUDGETS_FILE (default config/latency-budgets.json)
+ */
+export function latencyBudgetsFromEnv(env: NodeJS.ProcessEnv = process.env): LatencyBudgetOptions {
+  const mode = (env.API_LATENCY_BUDGETS || 'warn').toLowerCase();
+  if (mode !== 'strict' && mode !== 'warn' && mode !== 'off') {
+    throw new Error(`Invalid API_LATENCY_BUDGETS "${env.API_LATENCY_BUDGETS}", expected strict, warn or off`);
+  }
+  return { mode, budgets: mode === 'off' ? [] : loadLatencyBudgets(env.API_LATENCY_BUDGETS_FILE || DEFAULT_LATENCY_BUDGETS_PATH) };
+}
+
+export function matchesEndpoint(pattern: string, method: string, url: string): boolean {
+  const [patternMethod, patternPath] = pattern.includes(' ') ? pattern.split(/\s+/, 2) : [undefined, pattern];
+  if (patternMethod && patternMethod.toUpperCase() !== method.toUpperCase()) {
+    return false;
+  }
+
+  const expected = patternPath.split('/').filter(Boolean);
+  const actual = new URL(url, 'http://localhost').pathname.split('/').filter(Boolean);
+  for (let index = 0; index < expected.length; index++) {
+    if (expected[index] === '**') {
+      return true;
+    }
+    if (index >= actual.length) {
+      return false;
+    }
+    if (expected[index] !== '*' && !expected[index].startsWith(':') && expected[index] !== actual[index]) {
+      return false;
+    }
+  }
+  return expected.length === actual.length;
+}
+
+export function findLatencyBudget(budgets: LatencyBudget[], method: string, url: string): LatencyBudget | undefined {
+  return budgets.find(budget => matchesEndpoint(budget.endpoint, method, url));
+}
+
+/**
+ * `METHOD /path` with numeric and UUID segments replaced by `:id`, so calls to the same
+ * route are summarized together
+ */
+export function endpointKey(method: string, url: string): string {
+  const pathname = new URL(url, 'http://localhost').pathname
+    .split('/')
+    .map(segment => (/^\d+$|^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ? ':id' : segment))
+    .join('/');
+  return `${method.toUpperCase()} ${pathname}`;
+}
+
+export function loadLatencyBaseline(filePath: string = DEFAULT_LATENCY_BASELINE_PATH): LatencyBaseline | undefined {
+  return fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, 'utf8')) as LatencyBaseline) : undefined;
+}
+
+/**
+ * Latency per endpoint, slowest p95 first, compared with the baseline when given
+ */
+export function summarizeLatencies(samples: EndpointLatency[], baseline?: LatencyBaseline): LatencySummaryEntry[] {
+  const byEndpoint = new Map<string, number[]>();
+  samples.forEach(sample => {
+    const latencies = byEndpoint.get(sample.endpoint) || [];
+    latencies.push(sample.latency);
+    byEndpoint.set(sample.endpoint, latencies);
+  });
+
+  return [...byEndpoint.entries()]
+    .map(([endpoint, latencies]) => {
+      const stats = latencyStats(latencies);
+      const entry: LatencySummaryEntry = { endpoint, count: latencies.length, p50: stats.p50, p95: stats.p95, max: stats.max };
+      const previous = baseline?.[endpoint];
+      if (previous && previous.p95 > 0) {
+        entry.baselineP95 = previous.p95;
+        entry.regression = Math.round(((stats.p95 - previous.p95) / previous.p95) * 1000) / 1000;
+      }
+      return entry;
+    })
+    .sort((a, b) => b.p95 - a.p95 || a.endpoint.localeCompare(b.endpoint));
+}
+
+export function toLatencyBaseline(summary: LatencySummaryEntry[]): LatencyBaseline {
+  return Object.fromEntries(
+    [...summary]
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint))
+      .map(entry => [entry.endpoint, { p50: entry.p50, p95: entry.p95 }])
+  );
+}
+
+/**
+ * The slowest endpoints as a table; p95 regressions above `regressionThreshold` (default 20%)
+ * are flagged when they also add at least `minIncrease` (default 20ms), which ignores jitter of fast calls
+ */
+export function formatLatencySummary(
+  summary: LatencySummaryEntry[],
+  options: { top?: number; regressionThreshold?: number; minIncrease?: number } = {}
+): string {
+  const top = options.top ?? 10;
+  const threshold = options.regressionThreshold ?? 0.2;
+  const minIncrease = options.minIncrease ?? 20;
+  const regressed = (entry: LatencySummaryEntry) =>
+    entry.regression !== undefined && entry.regression > threshold && entry.p95 - entry.baselineP95! >= minIncrease;
+  const header = ['endpoint', 'calls', 'p50', 'p95', 'max', 'vs baseline p95'];
+  const rows = summary.slice(0, top).map(entry => [
+    entry.endpoint,
+    String(entry.count),
+    `${entry.p50}ms`,
+    `${entry.p95}ms`,
+    `${entry.max}ms`,
+    entry.regression === undefined
+      ? '-'
+      : `${entry.regression >= 0 ? '+' : ''}${(entry.regression * 100).toFixed(0)}% (${entry.baselineP95}ms)${regressed(entry) ? ' ⚠️' : ''}`,
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  const regressions = summary.filter(regressed).length;
+  return [
+    `Slowest ${rows.length} of ${summary.length} endpoints${regressions > 0 ? `, ${regressions} slower than baseline by more than ${threshold * 100}%` : ''}:`,
+    line(header),
+    ...rows.map(line),
+  ].join('\n');
+}
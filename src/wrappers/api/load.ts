@@ -0,0 +1,284 @@
+import { test } from '@playwright/test';
+import { ApiJournal } from './api-journal';
+import { BaseApiWrapper } from './base-api';
+import { PactRecorder } from './pact';
+import { LatencyStats, latencyStats } from './latency';
+
+/**
+ * Load runs that drive existing wrapper methods from concurrent virtual users
+ * Each virtual user starts after its share of the ramp-up and repeats the iteration, with think
+ * time in between, until the duration is over; every `step` is timed and its failures counted
+ * Calls of a load run are kept out of the API journal, consumer contracts and error reports
+ */
+
+export interface VirtualUser {
+  /** 1-based number of the virtual user */
+  readonly id: number;
+  /** 1-based number of the running iteration */
+  readonly iteration: number;
+  /** Times one operation; a failure is counted and rethrown, which ends the iteration */
+  step<T>(name: string, action: () => Promise<T>): Promise<T>;
+}
+
+export interface LoadOptions<C> {
+  /** Label of the report (default: 'load') */
+  name?: string;
+  virtualUsers: number;
+  /** Total run time in ms, ramp-up included */
+  duration: number;
+  /** Time over which the virtual users start, evenly spread (default: 0, all at once) */
+  rampUp?: number;
+  /** Pause between iterations in ms, fixed or a random range (default: 0) */
+  thinkTime?: number | { min: number; max: number };
+  /** Stops a virtual user after this many iterations, even before the duration is over */
+  maxIterations?: number;
+  /** Prepares a virtual user, e.g. its own wrapper and session; not timed */
+  setUp?: (user: { id: number }) => Promise<C>;
+  iteration: (user: VirtualUser, context: C) => Promise<void>;
+}
+
+export interface LoadStepStats {
+  name: string;
+  count: number;
+  errors: number;
+  errorRate: number;
+  /** Completed operations per second */
+  throughput: number;
+  latency: LatencyStats;
+  /** Occurrences of each distinct error message */
+  errorMessages: Record<string, number>;
+}
+
+export interface LoadReport {
+  name: string;
+  virtualUsers: number;
+  /** Actual run time in ms, including iterations that were still running at the end */
+  duration: number;
+  iterations: number;
+  count: number;
+  errors: number;
+  errorRate: number;
+  throughput: number;
+  latency: LatencyStats;
+  steps: LoadStepStats[];
+}
+
+export interface LoadLimits {
+  p50?: number;
+  p95?: number;
+  p99?: number;
+  /** Highest accepted share of failed operations, 0 to 1 */
+  maxErrorRate?: number;
+  /** Lowest accepted operations per second */
+  minThroughput?: number;
+}
+
+export interface LoadThresholds extends LoadLimits {
+  /** Limits of single steps, by step name */
+  steps?: Record<string, LoadLimits>;
+}
+
+interface Sample {
+  duration: number;
+  error?: string;
+}
+
+/** Step names of failures outside any step */
+const ITERATION_STEP = '(iteration)';
+const SETUP_STEP = '(setUp)';
+
+const MAX_ERROR_MESSAGES = 10;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function thinkTimeOf(thinkTime: LoadOptions<unknown>['thinkTime']): number {
+  if (thinkTime === undefined || typeof thinkTime === 'number') {
+    return thinkTime || 0;
+  }
+  return thinkTime.min + Math.random() * (thinkTime.max - thinkTime.min);
+}
+
+function stepStats(name: string, samples: Sample[], seconds: number): LoadStepStats {
+  const errorMessages: Record<string, number> = {};
+  samples
+    .filter(sample => sample.error !== undefined)
+    .forEach(sample => {
+      const message = sample.error!;
+      if (errorMessages[message] !== undefined || Object.keys(errorMessages).length < MAX_ERROR_MESSAGES) {
+        errorMessages[message] = (errorMessages[message] || 0) + 1;
+      }
+    });
+  const errors = samples.filter(sample => sample.error !== undefined).length;
+  return {
+    name,
+    count: samples.length,
+    errors,
+    errorRate: samples.length > 0 ? errors / samples.length : 0,
+    throughput: Math.round((samples.length / seconds) * 10) / 10,
+    latency: latencyStats(samples.filter(sample => sample.error === undefined).map(sample => sample.duration)),
+    errorMessages,
+  };
+}
+
+/**
+ * Runs the iteration from `virtualUsers` concurrent users and reports latency, throughput
+ * and errors per step; attaches the report to the running test, if any
+ */
+export async function runLoad<C = undefined>(options: LoadOptions<C>): Promise<LoadReport> {
+  const name = options.name || 'load';
+  const samples = new Map<string, Sample[]>();
+  const stepFailures = new Set<unknown>();
+  const startedAt = Date.now();
+  const endsAt = startedAt + options.duration;
+  let iterations = 0;
+
+  const record = (step: string, duration: number, error?: unknown) => {
+    const message = error === undefined ? undefined : (error instanceof Error ? error.message : String(error)).split('\n')[0];
+    const stepSamples = samples.get(step) || [];
+    stepSamples.push({ duration, error: message });
+    samples.set(step, stepSamples);
+  };
+
+  const runUser = async (id: number) => {
+    const delay = options.virtualUsers > 1 ? ((options.rampUp || 0) * (id - 1)) / options.virtualUsers : 0;
+    await sleep(Math.min(delay, options.duration));
+    if (Date.now() >= endsAt) {
+      return;
+    }
+
+    let context: C;
+    try {
+      context = options.setUp ? await options.setUp({ id }) : (undefined as C);
+    } catch (error) {
+      record(SETUP_STEP, 0, error);
+      return;
+    }
+
+    for (let iteration = 1; Date.now() < endsAt && iteration <= (options.maxIterations ?? Infinity); iteration++) {
+      const user: VirtualUser = {
+        id,
+        iteration,
+        step: async (step, action) => {
+          const stepStartedAt = performance.now();
+          try {
+            const result = await action();
+            record(step, performance.now() - stepStartedAt);
+            return result;
+          } catch (error) {
+            record(step, performance.now() - stepStartedAt, error);
+            stepFailures.add(error);
+            throw error;
+          }
+        },
+      };
+      try {
+        await options.iteration(user, context);
+      } catch (error) {
+        if (!stepFailures.has(error)) {
+          record(ITERATION_STEP, 0, error);
+        }
+      }
+      iterations++;
+      await sleep(Math.min(thinkTimeOf(options.thinkTime), Math.max(endsAt - Date.now(), 0)));
+    }
+  };
+
+  console.log(`📈 ${name}: ${options.virtualUsers} virtual users for ${options.duration}ms`);
+  const users = Array.from({ length: options.virtualUsers }, (_, index) => index + 1);
+  await ApiJournal.suspend(() =>
+    PactRecorder.suspend(() => BaseApiWrapper.quietly(() => Promise.all(users.map(runUser))))
+  );
+
+  const duration = Date.now() - startedAt;
+  const seconds = Math.max(duration, 1) / 1000;
+  const steps = [...samples.entries()].map(([step, stepSamples]) => stepStats(step, stepSamples, seconds));
+  const total = stepStats(name, [...samples.values()].flat(), seconds);
+  const report: LoadReport = {
+    name,
+    virtualUsers: options.virtualUsers,
+    duration,
+    iterations,
+    count: total.count,
+    errors: total.errors,
+    errorRate: total.errorRate,
+    throughput: total.throughput,
+    latency: total.latency,
+    steps,
+  };
+  console.log(formatLoadReport(report));
+  await attachLoadReport(report);
+  return report;
+}
+
+async function attachLoadReport(report: LoadReport): Promise<void> {
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    return;
+  }
+  await testInfo.attach(`load-report ${report.name}`, {
+    body: JSON.stringify(report, null, 2),
+    contentType: 'application/json',
+  });
+}
+
+function limitViolations(label: string, stats: Omit<LoadStepStats, 'name' | 'errorMessages'>, limits: LoadLimits): string[] {
+  const violations: string[] = [];
+  (['p50', 'p95', 'p99'] as const).forEach(percentile => {
+    const limit = limits[percentile];
+    if (limit !== undefined && stats.latency[percentile] > limit) {
+      violations.push(`${label}: ${percentile} latency ${stats.latency[percentile]}ms exceeds ${limit}ms`);
+    }
+  });
+  if (limits.maxErrorRate !== undefined && stats.errorRate > limits.maxErrorRate) {
+    violations.push(
+      `${label}: error rate ${(stats.errorRate * 100).toFixed(1)}% (${stats.errors}/${stats.count}) exceeds ${(limits.maxErrorRate * 100).toFixed(1)}%`
+    );
+  }
+  if (limits.minThroughput !== undefined && stats.throughput < limits.minThroughput) {
+    violations.push(`${label}: throughput ${stats.throughput}/s is below ${limits.minThroughput}/s`);
+  }
+  return violations;
+}
+
+/**
+ * Thresholds the report breaks, for `expect(loadThresholdViolations(report, thresholds), formatLoadReport(report)).toEqual([])`
+ */
+export function loadThresholdViolations(report: LoadReport, thresholds: LoadThresholds): string[] {
+  const violations = limitViolations(report.name, report, thresholds);
+  Object.entries(thresholds.steps || {}).forEach(([step, limits]) => {
+    const stats = report.steps.find(candidate => candidate.name === step);
+    if (!stats) {
+      violations.push(`${step}: no operations were run`);
+      return;
+    }
+    violations.push(...limitViolations(step, stats, limits));
+  });
+  return violations;
+}
+
+export function formatLoadReport(report: LoadReport): string {
+  const header = ['step', 'count', 'errors', 'rps', 'p50', 'p95', 'p99', 'max'];
+  const rows = [...report.steps, { ...report, name: 'total', errorMessages: {} }].map(stats => [
+    stats.name,
+    String(stats.count),
+    stats.errors > 0 ? `${stats.errors} (${(stats.errorRate * 100).toFixed(1)}%)` : '0',
+    String(stats.throughput),
+    ...[stats.latency.p50, stats.latency.p95, stats.latency.p99, stats.latency.max].map(ms => `${ms}ms`),
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  const lines = [
+    `${report.name}: ${report.virtualUsers} virtual users, ${(report.duration / 1000).toFixed(1)}s, ${report.iterations} iterations`,
+    line(header),
+    ...rows.map(line),
+  ];
+  report.steps
+    .filter(stats => stats.errors > 0)
+    .forEach(stats => {
+      Object.entries(stats.errorMessages).forEach(([message, count]) => lines.push(`  ${stats.name} ×${count}: ${message}`));
+    });
+  return lines.join('\n');
+}
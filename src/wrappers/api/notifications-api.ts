@@ -0,0 +1,99 @@
+import { TestAppApiWrapper } from './test-app-api';
+import { schema, Schema } from './schema';
+import { Page, PageQuery } from './pagination';
+import { EventStreamClient, EventStreamOptions, WebSocketClient, WebSocketClientOptions } from './streams';
+
+export interface Notification {
+  id: number;
+  title: string;
+  message: string;
+  type: 'info' | 'task' | 'warning' | string;
+  read: boolean;
+  userId: number;
+  createdAt: string;
+}
+
+export interface CreateNotificationRequest {
+  title: string;
+  message: string;
+  type?: string;
+  /** Recipient (default: the authenticated user) */
+  userId?: number;
+}
+
+/**
+ * Something a user did, pushed to every stream as an `activity` event
+ */
+export interface Activity {
+  user: { id: number; name: string };
+  action: 'created' | 'updated' | 'deleted' | string;
+  subject: { type: 'project' | 'task' | string; id: number; name: string };
+}
+
+/** Payload of the `notification` and `activity` events of the notification stream */
+export type NotificationStreamEvent = Notification | Activity;
+
+export const notificationSchema: Schema<Notification> = schema.object({
+  id: schema.number(),
+  title: schema.string(),
+  message: schema.string(),
+  type: schema.string(),
+  read: schema.boolean(),
+  userId: schema.number(),
+  createdAt: schema.string(),
+});
+
+export class NotificationsApi extends TestAppApiWrapper {
+  /**
+   * Returns the notifications of the authenticated user
+   */
+  async getNotifications(query?: PageQuery<Notification>): Promise<Notification[]> {
+    const response = await this.get('/api/notifications', { params: this.toListParams(query) });
+    return await this.expectPayload<Notification[]>(response, 200, 'notifications', 'get notifications', schema.array(notificationSchema));
+  }
+
+  async getNotificationsPage(query: PageQuery<Notification> = {}): Promise<Page<Notification>> {
+    const response = await this.get('/api/notifications', { params: this.toListParams(query) });
+    return await this.expectPage(response, 'notifications', 'get notifications', notificationSchema);
+  }
+
+  iterateNotifications(query: PageQuery<Notification> = {}): AsyncGenerator<Notification> {
+    return this.paginate(page => this.getNotificationsPage({ ...query, page }), query.page);
+  }
+
+  async getUnreadNotifications(): Promise<Notification[]> {
+    return await this.getNotifications({ filter: { read: false } });
+  }
+
+  async markAsRead(id: number): Promise<void> {
+    const response = await this.put(`/api/notifications/${id}/read`);
+    await this.expectSuccess(response, 200, 'mark notification as read');
+  }
+
+  async createNotification(notification: CreateNotificationRequest): Promise<Notification> {
+    const response = await this.post('/api/notifications', { data: notification });
+    return await this.expectPayload<Notification>(response, 201, 'notification', 'create notification', notificationSchema);
+  }
+
+  /**
+   * Opens the live stream of the user's notifications and everyone's activities as Server-Sent Events
+   */
+  async streamNotifications(options?: EventStreamOptions): Promise<EventStreamClient<NotificationStreamEvent>> {
+    return await this.openEventStream<NotificationStreamEvent>('/api/notifications/stream', options);
+  }
+
+  /**
+   * Opens the same stream over WebSocket; answers `{ type: 'ping' }` with `{ type: 'pong' }`
+   */
+  async connectNotifications(options?: WebSocketClientOptions): Promise<WebSocketClient<NotificationStreamEvent>> {
+    return await this.openWebSocket<NotificationStreamEvent>('/ws/notifications', options);
+  }
+
+  /**
+   * Makes the server end the user's open streams; returns how many were open
+   */
+  async disconnectStreams(): Promise<number> {
+    const response = await this.post('/api/notifications/stream/disconnect');
+    return await this.expectPayload<number>(response, 200, 'disconnected', 'disconnect streams', schema.number());
+  }
+}
@@ -0,0 +1,381 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HttpMethod } from './retry-policy';
+import { SchemaIssue } from './schema';
+
+/**
+ * The subset of OpenAPI 3.0 used to describe the test-app: paths, parameters, JSON and
+ * binary bodies, `$ref`, `allOf`/`oneOf` and `nullable`
+ */
+
+export const DEFAULT_OPENAPI_PATH = 'test-app/openapi.json';
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  items?: OpenApiSchema;
+  oneOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+  minimum?: number;
+  maximum?: number;
+  example?: unknown;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  style?: string;
+  explode?: boolean;
+  schema?: OpenApiSchema;
+  description?: string;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiResponse {
+  $ref?: string;
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, OpenApiResponse>;
+  security?: Array<Record<string, string[]>>;
+}
+
+export type OpenApiPathItem = Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>> & {
+  parameters?: OpenApiParameter[];
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  security?: Array<Record<string, string[]>>;
+  paths: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    responses?: Record<string, OpenApiResponse>;
+    securitySchemes?: Record<string, unknown>;
+  };
+}
+
+export interface OpenApiOperationMatch {
+  /** The path template, e.g. `/api/users/{id}` */
+  path: string;
+  method: HttpMethod;
+  operation: OpenApiOperation;
+  /** Path and operation level parameters, references resolved */
+  parameters: OpenApiParameter[];
+  pathParams: Record<string, string>;
+}
+
+export function loadOpenApiDocument(filePath: string = DEFAULT_OPENAPI_PATH): OpenApiDocument {
+  const document = JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf-8')) as OpenApiDocument;
+  if (!document.openapi || !document.paths) {
+    throw new Error(`${filePath} is not an OpenAPI 3 document`);
+  }
+  return document;
+}
+
+/**
+ * Follows a local `#/components/...` reference; other values are returned as they are
+ */
+export function resolveRef<T extends { $ref?: string }>(document: OpenApiDocument, value: T): T {
+  let current = value;
+  const seen = new Set<string>();
+  while (current.$ref) {
+    if (seen.has(current.$ref) || !current.$ref.startsWith('#/')) {
+      throw new Error(`Cannot resolve OpenAPI reference ${current.$ref}`);
+    }
+    seen.add(current.$ref);
+    const target = current.$ref
+      .substring(2)
+      .split('/')
+      .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], document);
+    if (!target) {
+      throw new Error(`OpenAPI reference ${current.$ref} points nowhere`);
+    }
+    current = target as T;
+  }
+  return current;
+}
+
+/**
+ * Finds the operation serving a request; literal path segments win over templated ones
+ */
+export function matchOperation(document: OpenApiDocument, method: HttpMethod, url: string): OpenApiOperationMatch | undefined {
+  const pathname = new URL(url, 'http://localhost').pathname;
+  const candidates = Object.keys(document.paths)
+    .map(template => ({ template, params: matchPath(template, pathname) }))
+    .filter((candidate): candidate is { template: string; params: Record<string, string> } => !!candidate.params)
+    .sort((a, b) => Object.keys(a.params).length - Object.keys(b.params).length);
+
+  for (const { template, params } of candidates) {
+    const pathItem = document.paths[template];
+    const operation = pathItem[method.toLowerCase() as Lowercase<HttpMethod>];
+    if (operation) {
+      const parameters = new Map<string, OpenApiParameter>();
+      [...(pathItem.parameters || []), ...(operation.parameters || [])]
+        .map(parameter => resolveRef(document, parameter))
+        .forEach(parameter => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+      return { path: template, method, operation, parameters: [...parameters.values()], pathParams: params };
+    }
+  }
+  return undefined;
+}
+
+function matchPath(template: string, pathname: string): Record<string, string> | undefined {
+  const names: string[] = [];
+  const pattern = template
+    .split('/')
+    .map(segment => {
+      const param = /^\{(.+)\}$/.exec(segment);
+      if (param) {
+        names.push(param[1]);
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  const match = new RegExp(`^${pattern}/?$`).exec(pathname);
+  return match ? Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])])) : undefined;
+}
+
+/**
+ * Whether the operation requires credentials, by its own `security` or the document default
+ */
+export function requiresAuth(document: OpenApiDocument, operation: OpenApiOperation): boolean {
+  return (operation.security ?? document.security ?? []).length > 0;
+}
+
+/**
+ * The documented success response with the lowest status
+ */
+export function successResponse(
+  document: OpenApiDocument,
+  operation: OpenApiOperation
+): { status: number; response: OpenApiResponse } | undefined {
+  const status = Object.keys(operation.responses)
+    .filter(code => /^2\d\d$/.test(code))
+    .sort()[0];
+  return status ? { status: Number(status), response: resolveRef(document, operation.responses[status]) } : undefined;
+}
+
+/**
+ * The content type of `content` matching `contentType`, honouring wildcards such as `image/*`
+ */
+export function findMediaType(content: Record<string, OpenApiMediaType>, contentType: string): string | undefined {
+  const wanted = contentType.split(';')[0].trim().toLowerCase();
+  return Object.keys(content).find(candidate => {
+    const [type, subtype] = candidate.toLowerCase().split('/');
+    const [wantedType, wantedSubtype] = wanted.split('/');
+    return (type === '*' || type === wantedType) && (subtype === '*' || subtype === wantedSubtype);
+  });
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function describeSchema(document: OpenApiDocument, schema: OpenApiSchema): string {
+  if (schema.$ref) {
+    return schema.$ref.split('/').pop() as string;
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.map(option => describeSchema(document, option)).join(' | ');
+  }
+  return `${schema.type || 'any'}${schema.nullable ? ' | null' : ''}`;
+}
+
+/**
+ * Checks a value against an OpenAPI schema, reporting issues like the response schemas do
+ */
+export function validateOpenApiValue(
+  document: OpenApiDocument,
+  schema: OpenApiSchema,
+  value: unknown,
+  valuePath: string = '$'
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  checkValue(document, schema, value, valuePath, issues);
+  return issues;
+}
+
+function checkValue(document: OpenApiDocument, original: OpenApiSchema, value: unknown, valuePath: string, issues: SchemaIssue[]): void {
+  const schema = resolveRef(document, original);
+  if (value === null) {
+    if (!schema.nullable) {
+      issues.push({ path: valuePath, kind: 'type', expected: describeSchema(document, original), actual: value });
+    }
+    return;
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach(part => checkValue(document, part, value, valuePath, issues));
+  }
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter(option => validateOpenApiValue(document, option, value, valuePath).length === 0);
+    if (matching.length !== 1) {
+      issues.push({ path: valuePath, kind: 'value', expected: `exactly one of ${describeSchema(document, schema)}`, actual: value });
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path: valuePath, kind: 'value', expected: describeSchema(document, schema), actual: value });
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+      if (typeof value !== schema.type) {
+        issues.push({ path: valuePath, kind: 'type', expected: schema.type, actual: value });
+      }
+      return;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        issues.push({ path: valuePath, kind: 'type', expected: schema.type, actual: value });
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path: valuePath, kind: 'type', expected: 'array', actual: value });
+        return;
+      }
+      if (schema.items) {
+        value.forEach((item, index) => checkValue(document, schema.items as OpenApiSchema, item, `${valuePath}[${index}]`, issues));
+      }
+      return;
+    case 'object':
+      checkObject(document, schema, value, valuePath, issues);
+      return;
+  }
+}
+
+function checkObject(document: OpenApiDocument, schema: OpenApiSchema, value: unknown, valuePath: string, issues: SchemaIssue[]): void {
+  if (typeOf(value) !== 'object') {
+    issues.push({ path: valuePath, kind: 'type', expected: 'object', actual: value });
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = schema.properties || {};
+  (schema.required || [])
+    .filter(key => record[key] === undefined)
+    .forEach(key => issues.push({ path: `${valuePath}.${key}`, kind: 'missing', expected: describeSchema(document, properties[key] || {}) }));
+
+  Object.entries(record)
+    .filter(([, fieldValue]) => fieldValue !== undefined)
+    .forEach(([key, fieldValue]) => {
+      if (properties[key]) {
+        checkValue(document, properties[key], fieldValue, `${valuePath}.${key}`, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${valuePath}.${key}`, kind: 'unexpected', actual: fieldValue });
+      } else if (typeof schema.additionalProperties === 'object') {
+        checkValue(document, schema.additionalProperties, fieldValue, `${valuePath}.${key}`, issues);
+      }
+    });
+}
+
+/**
+ * Checks a query or path parameter, which arrives as a string
+ */
+export function validateOpenApiParameter(
+  document: OpenApiDocument,
+  schema: OpenApiSchema | undefined,
+  value: string,
+  valuePath: string
+): SchemaIssue[] {
+  const resolved = schema ? resolveRef(document, schema) : {};
+  if (resolved.enum) {
+    return resolved.enum.map(String).includes(value)
+      ? []
+      : [{ path: valuePath, kind: 'value', expected: describeSchema(document, resolved), actual: value }];
+  }
+
+  const valid = {
+    integer: /^-?\d+$/.test(value),
+    number: value.trim() !== '' && !Number.isNaN(Number(value)),
+    boolean: value === 'true' || value === 'false',
+  }[resolved.type as string];
+  if (valid === false) {
+    return [{ path: valuePath, kind: 'type', expected: resolved.type, actual: value }];
+  }
+  if (
+    (resolved.minimum !== undefined && Number(value) < resolved.minimum) ||
+    (resolved.maximum !== undefined && Number(value) > resolved.maximum)
+  ) {
+    return [{ path: valuePath, kind: 'value', expected: `${resolved.minimum ?? '-∞'}..${resolved.maximum ?? '∞'}`, actual: value }];
+  }
+  return [];
+}
+
+const STRING_EXAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00.000Z',
+  date: '2024-01-01',
+  email: 'user@example.com',
+  password: 'Secret123!',
+  uri: 'http://localhost:3000/',
+};
+
+/**
+ * A value that satisfies the schema: its `example`, the first enum value or option,
+ * or a placeholder per type; objects get every property, arrays one item
+ */
+export function exampleValue(document: OpenApiDocument, original: OpenApiSchema): unknown {
+  const schema = resolveRef(document, original);
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (schema.enum) {
+    return schema.enum[0];
+  }
+  if (schema.oneOf) {
+    return exampleValue(document, schema.oneOf[0]);
+  }
+  if (schema.allOf) {
+    return Object.assign({}, ...schema.allOf.map(part => exampleValue(document, part)));
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return STRING_EXAMPLES[schema.format as string] ?? 'string';
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 1;
+    case 'boolean':
+      return true;
+    case 'array':
+      return schema.items ? [exampleValue(document, schema.items)] : [];
+    case 'object':
+    default:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, exampleValue(document, property)])
+      );
+  }
+}
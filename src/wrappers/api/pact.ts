@@ -0,0 +1,481 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { APIRequestContext, TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MultipartValue, isUploadFile, mimeTypeFor, resolveTestFile } from './files';
+import { redactBody, redactHeaders } from './redaction';
+import { SchemaShape, formatSchemaIssues, schemaFromShape, validateSchema } from './schema';
+
+/**
+ * Consumer-driven contracts recorded from API wrapper usage
+ * In `record` mode every call a test makes through a wrapper becomes an interaction: the request
+ * as sent and the minimal response the consumer relied on (the status it expected, the content
+ * type it checked and the shapes of the schemas it validated). Interactions of passing tests are
+ * written to pact-like JSON files, one per consumer and provider, that `verifyPact` replays
+ * against a running provider without a broker
+ * Calls the consumer did not check are kept too, they build the provider state later calls rely on
+ */
+
+export type PactMode = 'record' | 'verify' | 'off';
+
+export const DEFAULT_PACT_DIR = 'pacts';
+
+export interface PactUpload {
+  name: string;
+  mimeType: string;
+  /** File content; streamed files keep their path instead */
+  base64?: string;
+  path?: string;
+}
+
+export interface PactRequest {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  /** Headers the consumer set on the call itself, secrets masked */
+  headers?: Record<string, string>;
+  /** JSON body, secret fields masked */
+  body?: unknown;
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<string, string | PactUpload>;
+  /** Raw body, base64 encoded */
+  binary?: string;
+}
+
+export interface PactResponse {
+  /** Status the consumer expected; absent when it never checked one */
+  status?: number;
+  /** Pattern the Content-Type header has to match */
+  contentType?: string;
+  /** One shape per schema the consumer validated the body with */
+  shapes?: SchemaShape[];
+}
+
+export interface PactInteraction {
+  description: string;
+  /** Title of the test that recorded the interaction; the provider is reset between states */
+  providerState: string;
+  /** Position within the provider state across all consumers, the order calls are replayed in */
+  sequence: number;
+  /** Present when the consumer sent a session token; identity is the user it logged in as */
+  auth?: { identity?: string };
+  request: PactRequest;
+  response: PactResponse;
+}
+
+export interface PactFile {
+  consumer: { name: string };
+  provider: { name: string };
+  interactions: PactInteraction[];
+  metadata: { pactSpecification: { version: string } };
+}
+
+export interface PactCall {
+  consumer: string;
+  provider: string;
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  data?: unknown;
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<string, MultipartValue>;
+  auth?: { identity?: string };
+}
+
+export interface PactVerificationOptions {
+  baseURL: string;
+  /** Brings the provider into the state of the next interactions, e.g. by resetting its data */
+  setUp?: (providerState: string) => Promise<void>;
+  /** Logs in as the recorded identity (or a default user) and returns the auth headers */
+  authenticate?: (identity: string | undefined) => Promise<Record<string, string>>;
+}
+
+export interface PactVerificationResult {
+  consumer: string;
+  provider: string;
+  interaction: PactInteraction;
+  problems: string[];
+}
+
+/**
+ * Reads API_PACT_MODE (record | verify | off)
+ */
+export function pactModeFromEnv(env: NodeJS.ProcessEnv = process.env): PactMode {
+  const mode = (env.API_PACT_MODE || 'off').toLowerCase();
+  if (mode !== 'record' && mode !== 'verify' && mode !== 'off') {
+    throw new Error(`Invalid API_PACT_MODE "${env.API_PACT_MODE}", expected record, verify or off`);
+  }
+  return mode;
+}
+
+/**
+ * Pact directory from API_PACT_DIR, default `pacts/`
+ */
+export function pactDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.API_PACT_DIR || DEFAULT_PACT_DIR;
+}
+
+export function pactFileFor(dir: string, consumer: string, provider: string): string {
+  const slug = (name: string) => name.replace(/[^A-Za-z0-9._-]+/g, '-');
+  return path.join(dir, `${slug(consumer)}-${slug(provider)}.json`);
+}
+
+/**
+ * An interaction being recorded; the wrapper's expectations fill in the response
+ */
+export class PactCapture {
+  private discarded = false;
+
+  constructor(readonly consumer: string, readonly provider: string, readonly interaction: PactInteraction) {}
+
+  get isDiscarded(): boolean {
+    return this.discarded;
+  }
+
+  /**
+   * Leaves the call out of the pact, e.g. an attempt the wrapper repeated after logging in again
+   */
+  discard(): void {
+    this.discarded = true;
+  }
+
+  expectStatus(status: number): void {
+    this.interaction.response.status = status;
+  }
+
+  expectContentType(contentType: string | RegExp): void {
+    this.interaction.response.contentType = typeof contentType === 'string'
+      ? `^${contentType.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*(;|$)`
+      : contentType.source;
+  }
+
+  expectShape(shape: SchemaShape): void {
+    const tolerant = tolerantShape(shape);
+    const shapes = this.interaction.response.shapes || [];
+    if (!shapes.some(existing => JSON.stringify(existing) === JSON.stringify(tolerant))) {
+      this.interaction.response.shapes = [...shapes, tolerant];
+    }
+  }
+}
+
+/**
+ * The consumer only relies on the fields it reads, so providers may add others;
+ * forbidden fields stay forbidden
+ */
+function tolerantShape(shape: SchemaShape): SchemaShape {
+  switch (shape.type) {
+    case 'nullable':
+    case 'optional':
+      return { ...shape, of: tolerantShape(shape.of) };
+    case 'array':
+      return { ...shape, items: tolerantShape(shape.items) };
+    case 'record':
+      return { ...shape, values: tolerantShape(shape.values) };
+    case 'union':
+      return { ...shape, options: shape.options.map(tolerantShape) };
+    case 'object':
+      return {
+        ...shape,
+        fields: Object.fromEntries(Object.entries(shape.fields).map(([key, field]) => [key, tolerantShape(field)])),
+        unexpected: 'allow',
+      };
+    default:
+      return shape;
+  }
+}
+
+let activeRecorder: PactRecorder | undefined;
+const suspendedScope = new AsyncLocalStorage<boolean>();
+
+export class PactRecorder {
+  readonly captures: PactCapture[] = [];
+
+  constructor(readonly providerState: string) {}
+
+  /**
+   * Makes a new recorder the one wrappers record into, until `stop()`
+   */
+  static start(providerState: string): PactRecorder {
+    activeRecorder = new PactRecorder(providerState);
+    return activeRecorder;
+  }
+
+  static stop(): void {
+    activeRecorder = undefined;
+  }
+
+  static current(): PactRecorder | undefined {
+    return suspendedScope.getStore() ? undefined : activeRecorder;
+  }
+
+  /**
+   * Runs calls against fake providers, e.g. the OpenAPI contract check, without recording them
+   * Calls other code makes meanwhile are still recorded
+   */
+  static async suspend<T>(action: () => Promise<T>): Promise<T> {
+    return await suspendedScope.run(true, action);
+  }
+
+  capture(call: PactCall): PactCapture {
+    const url = new URL(call.url);
+    const request: PactRequest = { method: call.method, path: url.pathname };
+    if ([...url.searchParams.keys()].length > 0) {
+      request.query = Object.fromEntries(url.searchParams);
+    }
+    const headers = redactHeaders(call.headers);
+    if (Object.keys(headers).length > 0) {
+      request.headers = headers;
+    }
+    if (Buffer.isBuffer(call.data)) {
+      request.binary = call.data.toString('base64');
+    } else if (call.data !== undefined) {
+      request.body = redactBody(call.data);
+    }
+    if (call.form) {
+      request.form = redactBody(call.form) as Record<string, string | number | boolean>;
+    }
+    if (call.multipart) {
+      request.multipart = Object.fromEntries(
+        Object.entries(call.multipart).map(([field, value]) => [field, toPactUpload(value)])
+      );
+    }
+
+    const capture = new PactCapture(call.consumer, call.provider, {
+      description: `${call.consumer}: ${call.method} ${url.pathname}`,
+      providerState: this.providerState,
+      sequence: 0,
+      ...(call.auth ? { auth: call.auth } : {}),
+      request,
+      response: {},
+    });
+    this.captures.push(capture);
+    return capture;
+  }
+
+  /**
+   * Recorded interactions by pact file; back-to-back repeats of a GET, e.g. while polling, are kept once
+   */
+  pacts(): Array<{ consumer: string; provider: string; interactions: PactInteraction[] }> {
+    const pacts = new Map<string, { consumer: string; provider: string; interactions: PactInteraction[] }>();
+    let previous: string | undefined;
+    let sequence = 0;
+    this.captures
+      .filter(capture => !capture.isDiscarded)
+      .forEach(capture => {
+        const key = `${capture.consumer}\n${capture.provider}`;
+        const fingerprint = `${key}\n${JSON.stringify({ ...capture.interaction, sequence: 0 })}`;
+        if (fingerprint === previous && capture.interaction.request.method === 'GET') {
+          return;
+        }
+        previous = fingerprint;
+        const pact = pacts.get(key) || { consumer: capture.consumer, provider: capture.provider, interactions: [] };
+        pact.interactions.push({ ...capture.interaction, sequence: sequence++ });
+        pacts.set(key, pact);
+      });
+    return [...pacts.values()];
+  }
+
+  /**
+   * Merges the recorded interactions into the pact files, replacing earlier recordings of
+   * the same provider state; returns the files written
+   */
+  async write(dir: string = pactDirFromEnv()): Promise<string[]> {
+    const written: string[] = [];
+    for (const { consumer, provider, interactions } of this.pacts()) {
+      const file = pactFileFor(dir, consumer, provider);
+      await withFileLock(file, () => {
+        const existing = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as PactFile) : undefined;
+        const pact: PactFile = {
+          consumer: { name: consumer },
+          provider: { name: provider },
+          interactions: [
+            ...(existing?.interactions || []).filter(interaction => interaction.providerState !== this.providerState),
+            ...interactions,
+          ].sort((a, b) => a.providerState.localeCompare(b.providerState) || a.sequence - b.sequence),
+          metadata: { pactSpecification: { version: '2.0.0' } },
+        };
+        fs.writeFileSync(file, JSON.stringify(pact, null, 2));
+      });
+      written.push(file);
+    }
+    return written;
+  }
+
+  /**
+   * Writes the pacts only when the test passed, so failed expectations never become contracts
+   */
+  async save(testInfo: TestInfo, dir?: string): Promise<void> {
+    if (testInfo.status !== 'passed' || testInfo.expectedStatus !== 'passed') {
+      return;
+    }
+    const files = await this.write(dir);
+    if (files.length > 0) {
+      console.log(`🤝 Recorded consumer contracts: ${files.join(', ')}`);
+    }
+  }
+}
+
+function toPactUpload(value: MultipartValue): string | PactUpload {
+  if (isUploadFile(value)) {
+    return { name: value.name, mimeType: value.mimeType, base64: value.buffer.toString('base64') };
+  }
+  if (value instanceof fs.ReadStream) {
+    const filePath = path.relative(process.cwd(), String(value.path));
+    return { name: path.basename(filePath), mimeType: mimeTypeFor(filePath), path: filePath };
+  }
+  return String(value);
+}
+
+/**
+ * Serializes writers of one file across Playwright workers with a lock directory
+ */
+async function withFileLock(file: string, action: () => void, timeout = 10000): Promise<void> {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      fs.mkdirSync(lock);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST' || Date.now() > deadline) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  }
+  try {
+    action();
+  } finally {
+    fs.rmSync(lock, { recursive: true, force: true });
+  }
+}
+
+export function loadPacts(dir: string = pactDirFromEnv()): PactFile[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')) as PactFile);
+}
+
+/**
+ * Replays the interactions of a provider's pacts against it, state by state, and checks that
+ * the responses still give each consumer what it relied on
+ * Pass all pacts of the provider: one consumer's calls can build the state another relies on
+ */
+export async function verifyPact(
+  request: APIRequestContext,
+  pacts: PactFile | PactFile[],
+  options: PactVerificationOptions
+): Promise<PactVerificationResult[]> {
+  const results: PactVerificationResult[] = [];
+  const authHeaders = new Map<string, Record<string, string>>();
+  let state: string | undefined;
+
+  const entries = (Array.isArray(pacts) ? pacts : [pacts])
+    .flatMap(pact => pact.interactions.map(interaction => ({ pact, interaction })))
+    .sort((a, b) =>
+      a.interaction.providerState.localeCompare(b.interaction.providerState) || a.interaction.sequence - b.interaction.sequence
+    );
+
+  for (const { pact, interaction } of entries) {
+    if (interaction.providerState !== state) {
+      state = interaction.providerState;
+      await options.setUp?.(state);
+    }
+
+    let problems: string[];
+    try {
+      let headers = { ...interaction.request.headers };
+      if (interaction.auth) {
+        if (!options.authenticate) {
+          throw new Error('the interaction is authenticated but no authenticate option was given');
+        }
+        const identity = interaction.auth.identity || '';
+        if (!authHeaders.has(identity)) {
+          authHeaders.set(identity, await options.authenticate(interaction.auth.identity));
+        }
+        headers = { ...headers, ...authHeaders.get(identity) };
+      }
+      problems = await replay(request, interaction, headers, options.baseURL);
+    } catch (error) {
+      problems = [`${(error as Error).message}`];
+    }
+    results.push({ consumer: pact.consumer.name, provider: pact.provider.name, interaction, problems });
+  }
+  return results;
+}
+
+async function replay(
+  request: APIRequestContext,
+  interaction: PactInteraction,
+  headers: Record<string, string>,
+  baseURL: string
+): Promise<string[]> {
+  const { request: sent, response: expected } = interaction;
+  const url = new URL(sent.path, baseURL);
+  Object.entries(sent.query || {}).forEach(([name, value]) => url.searchParams.set(name, value));
+
+  const typed = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+  const response = await request.fetch(url.toString(), {
+    method: sent.method,
+    headers: sent.binary && !typed ? { ...headers, 'Content-Type': 'application/octet-stream' } : headers,
+    data: sent.binary ? Buffer.from(sent.binary, 'base64') : sent.body,
+    form: sent.form,
+    multipart: sent.multipart && fromPactMultipart(sent.multipart),
+  });
+
+  const problems: string[] = [];
+  if (expected.status !== undefined && response.status() !== expected.status) {
+    problems.push(`expected status ${expected.status}, got ${response.status()}`);
+  }
+  const contentType = response.headers()['content-type'] || '';
+  if (expected.contentType && !new RegExp(expected.contentType).test(contentType)) {
+    problems.push(`expected a Content-Type matching /${expected.contentType}/, got ${contentType || 'none'}`);
+  }
+  if (expected.shapes?.length) {
+    let body: unknown;
+    try {
+      body = JSON.parse(await response.text());
+    } catch {
+      problems.push(`expected a JSON body, got ${contentType || 'no content type'}`);
+      return problems;
+    }
+    expected.shapes.forEach(shape => {
+      const issues = validateSchema(schemaFromShape(shape), body);
+      if (issues.length > 0) {
+        problems.push(formatSchemaIssues('response body', issues));
+      }
+    });
+  }
+  await response.dispose();
+  return problems;
+}
+
+function fromPactMultipart(multipart: Record<string, string | PactUpload>) {
+  return Object.fromEntries(
+    Object.entries(multipart).map(([field, value]) => {
+      if (typeof value === 'string') {
+        return [field, value];
+      }
+      const buffer = value.base64 !== undefined
+        ? Buffer.from(value.base64, 'base64')
+        : fs.readFileSync(resolveTestFile(value.path || value.name));
+      return [field, { name: value.name, mimeType: value.mimeType, buffer }];
+    })
+  );
+}
+
+export function formatPactVerification(results: PactVerificationResult[]): string {
+  const failed = results.filter(result => result.problems.length > 0);
+  const lines = [`${results.length - failed.length}/${results.length} interactions verified`];
+  failed.forEach(result => {
+    lines.push(`  - ${result.interaction.description} (${result.interaction.providerState})`);
+    result.problems.forEach(problem => lines.push(`      ${problem.split('\n').join('\n      ')}`));
+  });
+  return lines.join('\n');
+}
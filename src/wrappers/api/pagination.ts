@@ -0,0 +1,63 @@
+import { schema, Schema } from './schema';
+
+/**
+ * Query conventions of the test-app list endpoints:
+ * `page` (1-based), `pageSize`, `sort=field,-field` and `filter[field]=value`
+ */
+
+/** A field name, prefixed with '-' for descending order */
+export type SortKey<T> = Extract<keyof T, string> | `-${Extract<keyof T, string>}`;
+
+/**
+ * Filter values: exact match, an array for any of the values, or '~text' for case-insensitive contains
+ */
+export type ListFilter<T> = {
+  [K in keyof T]?: string | number | boolean | Array<string | number | boolean>;
+};
+
+export interface PageQuery<T> {
+  page?: number;
+  pageSize?: number;
+  sort?: SortKey<T> | SortKey<T>[];
+  filter?: ListFilter<T>;
+}
+
+export interface PageInfo {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Page<T> extends PageInfo {
+  items: T[];
+}
+
+export const pageInfoSchema: Schema<PageInfo> = schema.object({
+  page: schema.number(),
+  pageSize: schema.number(),
+  total: schema.number(),
+  totalPages: schema.number(),
+});
+
+/**
+ * Query params of a page query; undefined parts are left out
+ */
+export function toPageParams<T>(query: PageQuery<T> = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.page !== undefined) {
+    params.page = String(query.page);
+  }
+  if (query.pageSize !== undefined) {
+    params.pageSize = String(query.pageSize);
+  }
+  if (query.sort !== undefined) {
+    params.sort = ([] as string[]).concat(query.sort).join(',');
+  }
+  Object.entries(query.filter || {}).forEach(([field, value]) => {
+    if (value !== undefined && value !== null) {
+      params[`filter[${field}]`] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+  });
+  return params;
+}
@@ -0,0 +1,176 @@
+import { ApiAuthError } from './api-errors';
+import { redactBody } from './redaction';
+
+/**
+ * Polling for eventually consistent APIs, e.g. publishing or indexing that completes
+ * after the call returned. Shares its schedule with Playwright's `expect.poll`
+ */
+
+export interface PollOptions {
+  /** Total time to wait in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Delay before the second attempt (default: 250) */
+  interval?: number;
+  /** Factor applied to the delay after every attempt, at least 1 (default: 1.5, 1 polls at a fixed rate) */
+  backoff?: number;
+  /** Upper bound of the delay (default: 2000) */
+  maxInterval?: number;
+  /** Number of observed values shown when polling times out (default: 5) */
+  history?: number;
+  /** What is being waited for, shown in the failure message */
+  message?: string;
+  /** Errors that end polling at once instead of counting as an observation (default: auth failures) */
+  stopOn?: (error: unknown) => boolean;
+}
+
+export type PollPredicate<T> = (value: T) => boolean | Promise<boolean>;
+
+export interface PollObservation<T> {
+  attempt: number;
+  /** Milliseconds since polling started */
+  elapsed: number;
+  value?: T;
+  /** Error thrown by the call or the predicate */
+  error?: string;
+}
+
+const DEFAULT_POLL_OPTIONS = {
+  timeout: 10000,
+  interval: 250,
+  backoff: 1.5,
+  maxInterval: 2000,
+  history: 5,
+};
+
+const VALUE_PREVIEW_LENGTH = 200;
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return `${error.name}: ${error.message.split('\n')[0]}`;
+  }
+  return String(error);
+}
+
+function preview(value: unknown): string {
+  let text: string;
+  try {
+    text = JSON.stringify(redactBody(value)) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > VALUE_PREVIEW_LENGTH ? `${text.substring(0, VALUE_PREVIEW_LENGTH)}...` : text;
+}
+
+/**
+ * Thrown when the condition is still not met once the timeout has passed
+ */
+export class PollTimeoutError<T = unknown> extends Error {
+  readonly timeout: number;
+  readonly attempts: number;
+  /** The most recent observations, oldest first */
+  readonly observations: PollObservation<T>[];
+
+  constructor(description: string, timeout: number, attempts: number, observations: PollObservation<T>[]) {
+    const lines = observations.map(observation => {
+      const outcome = observation.error !== undefined ? `💥 ${observation.error}` : preview(observation.value);
+      return `  #${observation.attempt} +${observation.elapsed}ms ${outcome}`;
+    });
+    super(
+      [
+        `Timed out after ${timeout}ms waiting for ${description} (${attempts} attempt${attempts === 1 ? '' : 's'})`,
+        `Last ${observations.length} observed value${observations.length === 1 ? '' : 's'}:`,
+        ...lines,
+      ].join('\n')
+    );
+    this.name = 'PollTimeoutError';
+    this.timeout = timeout;
+    this.attempts = attempts;
+    this.observations = observations;
+  }
+
+  get lastValue(): T | undefined {
+    return [...this.observations].reverse().find(observation => observation.error === undefined)?.value;
+  }
+}
+
+/**
+ * Delays between attempts, usable as `intervals` of `expect.poll`
+ */
+export function pollIntervals(options: PollOptions = {}): number[] {
+  const opts = { ...DEFAULT_POLL_OPTIONS, ...options };
+  // A zero or shrinking delay never adds up to the timeout
+  if (!(opts.interval > 0) || !(opts.maxInterval > 0)) {
+    throw new Error(`interval and maxInterval must be positive, got ${opts.interval} and ${opts.maxInterval}`);
+  }
+  if (!(opts.backoff >= 1)) {
+    throw new Error(`backoff must be at least 1, got ${opts.backoff}`);
+  }
+  const intervals: number[] = [];
+  let delay = Math.min(opts.interval, opts.maxInterval);
+  let total = 0;
+  while (total < opts.timeout) {
+    intervals.push(delay);
+    total += delay;
+    if (delay >= opts.maxInterval) {
+      break;
+    }
+    delay = Math.min(Math.max(Math.round(delay * opts.backoff), 1), opts.maxInterval);
+  }
+  return intervals;
+}
+
+/**
+ * Options for `expect.poll` following the same schedule as `pollUntil`:
+ * `await expect.poll(() => api.getUserById(id), expectPollOptions({ timeout: 5000 })).toMatchObject(...)`
+ */
+export function expectPollOptions(options: PollOptions = {}): { timeout: number; intervals: number[]; message?: string } {
+  return {
+    timeout: options.timeout ?? DEFAULT_POLL_OPTIONS.timeout,
+    intervals: pollIntervals(options),
+    ...(options.message && { message: options.message }),
+  };
+}
+
+/**
+ * Calls `producer` until `predicate` accepts its result and returns that result
+ * Errors of the call or the predicate count as unmet attempts; throws PollTimeoutError
+ * with the last observed values when the timeout passes
+ */
+export async function pollUntil<T>(
+  producer: () => Promise<T>,
+  predicate: PollPredicate<T>,
+  options: PollOptions = {}
+): Promise<T> {
+  const opts = { ...DEFAULT_POLL_OPTIONS, ...options };
+  const stopOn = options.stopOn ?? ((error: unknown) => error instanceof ApiAuthError);
+  const intervals = pollIntervals(opts);
+  const observations: PollObservation<T>[] = [];
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const observation: PollObservation<T> = { attempt, elapsed: 0 };
+    try {
+      observation.value = await producer();
+      if (await predicate(observation.value)) {
+        return observation.value;
+      }
+    } catch (error) {
+      if (stopOn(error)) {
+        throw error;
+      }
+      observation.error = describeError(error);
+    }
+    observation.elapsed = Date.now() - startedAt;
+    observations.push(observation);
+    if (observations.length > opts.history) {
+      observations.shift();
+    }
+
+    const remaining = opts.timeout - (Date.now() - startedAt);
+    if (remaining <= 0) {
+      throw new PollTimeoutError(opts.message || 'the condition to be met', opts.timeout, attempt, observations);
+    }
+    const delay = intervals[Math.min(attempt - 1, intervals.length - 1)] ?? opts.interval;
+    await new Promise(resolve => setTimeout(resolve, Math.min(delay, remaining)));
+  }
+}
@@ -0,0 +1,90 @@
+import { TestAppApiWrapper } from './test-app-api';
+import { schema, Schema } from './schema';
+import { Page, PageQuery } from './pagination';
+
+export type ProjectStatus = 'planning' | 'active' | 'completed' | 'on-hold';
+export type Priority = 'low' | 'medium' | 'high';
+
+export interface Project {
+  id: number;
+  name: string;
+  description: string;
+  status: ProjectStatus;
+  priority: Priority;
+  startDate: string;
+  endDate: string | null;
+  progress: number;
+  budget: number;
+  spent: number;
+  teamMembers: number[];
+  tags: string[];
+  createdBy: number;
+  createdAt: string;
+}
+
+export const projectSchema: Schema<Project> = schema.object({
+  id: schema.number(),
+  name: schema.string(),
+  description: schema.string(),
+  status: schema.literal('planning', 'active', 'completed', 'on-hold'),
+  priority: schema.literal('low', 'medium', 'high'),
+  startDate: schema.string(),
+  endDate: schema.nullable(schema.string()),
+  progress: schema.number(),
+  budget: schema.number(),
+  spent: schema.number(),
+  teamMembers: schema.array(schema.number()),
+  tags: schema.array(schema.string()),
+  createdBy: schema.number(),
+  createdAt: schema.string(),
+});
+
+export type CreateProjectRequest = Pick<Project, 'name'> &
+  Partial<Omit<Project, 'id' | 'name' | 'createdBy' | 'createdAt'>>;
+
+export interface ProjectFilters {
+  status?: ProjectStatus;
+  priority?: Priority;
+  search?: string;
+}
+
+export type ProjectListQuery = ProjectFilters & PageQuery<Project>;
+
+export class ProjectsApi extends TestAppApiWrapper {
+  async getProjects(query?: ProjectListQuery): Promise<Project[]> {
+    const response = await this.get('/api/projects', { params: this.toListParams(query) });
+    return await this.expectPayload<Project[]>(response, 200, 'projects', 'get projects', schema.array(projectSchema));
+  }
+
+  async getProjectsPage(query: ProjectListQuery = {}): Promise<Page<Project>> {
+    const response = await this.get('/api/projects', { params: this.toListParams(query) });
+    return await this.expectPage(response, 'projects', 'get projects', projectSchema);
+  }
+
+  /**
+   * Iterates the matching projects page by page, starting at `query.page`
+   */
+  iterateProjects(query: ProjectListQuery = {}): AsyncGenerator<Project> {
+    return this.paginate(page => this.getProjectsPage({ ...query, page }), query.page);
+  }
+
+  async getProjectById(id: number): Promise<Project> {
+    const response = await this.get(`/api/projects/${id}`);
+    return await this.expectPayload<Project>(response, 200, 'project', 'get project', projectSchema);
+  }
+
+  async createProject(projectData: CreateProjectRequest): Promise<Project> {
+    const response = await this.post('/api/projects', { data: projectData });
+    return await this.expectPayload<Project>(response, 201, 'project', 'create project', projectSchema);
+  }
+
+  async updateProject(id: number, projectData: Partial<CreateProjectRequest>): Promise<Project> {
+    const response = await this.put(`/api/projects/${id}`, { data: projectData });
+    return await this.expectPayload<Project>(response, 200, 'project', 'update project', projectSchema);
+  }
+
+  async deleteProject(id: number): Promise<void> {
+    const response = await this.delete(`/api/projects/${id}`);
+    await this.expectSuccess(response, 200, 'delete project');
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Secret redaction for anything that leaves the wrapper: error messages,
+ * report attachments and logs
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** Body fields whose values are never shown */
+export const SECRET_FIELD_PATTERN = /password|secret|token|authorization|api[-_]?key/i;
+
+/** Headers whose values are never shown */
+export const SECRET_HEADER_PATTERN = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key)$/i;
+
+export function redactHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    redacted[name] = SECRET_HEADER_PATTERN.test(name) ? REDACTED : value;
+  });
+  return redacted;
+}
+
+/**
+ * Deep-copies a JSON-like value, replacing the values of secret fields with REDACTED
+ * or with what `replacement` returns for the field
+ */
+export function redactBody(body: unknown, replacement: (field: string) => string = () => REDACTED): unknown {
+  if (Array.isArray(body)) {
+    return body.map(item => redactBody(item, replacement));
+  }
+  if (body === null || typeof body !== 'object') {
+    return body;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  Object.entries(body as Record<string, unknown>).forEach(([key, value]) => {
+    redacted[key] = SECRET_FIELD_PATTERN.test(key) ? replacement(key) : redactBody(value, replacement);
+  });
+  return redacted;
+}
@@ -0,0 +1,77 @@
+import { TestAppApiWrapper } from './test-app-api';
+import { schema, Schema } from './schema';
+
+export interface ProgressReportData {
+  totalProjects: number;
+  activeProjects: number;
+  completedTasks: number;
+  pendingTasks: number;
+  teamProductivity: number;
+  budgetUtilization: number;
+}
+
+export interface PerformanceReportData {
+  teamMembers: number;
+  averageTaskCompletion: number;
+  onTimeDelivery: number;
+  qualityScore: number;
+  customerSatisfaction: number;
+}
+
+interface ReportBase<TType extends string, TData> {
+  id: number;
+  name: string;
+  type: TType;
+  data: TData;
+  generatedAt: string;
+  generatedBy: number;
+}
+
+export type Report =
+  | ReportBase<'progress', ProgressReportData>
+  | ReportBase<'performance', PerformanceReportData>;
+
+const reportFields = {
+  id: schema.number(),
+  name: schema.string(),
+  generatedAt: schema.string(),
+  generatedBy: schema.number(),
+};
+
+export const reportSchema: Schema<Report> = schema.union(
+  schema.object({
+    ...reportFields,
+    type: schema.literal('progress'),
+    data: schema.object({
+      totalProjects: schema.number(),
+      activeProjects: schema.number(),
+      completedTasks: schema.number(),
+      pendingTasks: schema.number(),
+      teamProductivity: schema.number(),
+      budgetUtilization: schema.number(),
+    }),
+  }),
+  schema.object({
+    ...reportFields,
+    type: schema.literal('performance'),
+    data: schema.object({
+      teamMembers: schema.number(),
+      averageTaskCompletion: schema.number(),
+      onTimeDelivery: schema.number(),
+      qualityScore: schema.number(),
+      customerSatisfaction: schema.number(),
+    }),
+  })
+);
+
+export class ReportsApi extends TestAppApiWrapper {
+  async getReports(): Promise<Report[]> {
+    const response = await this.get('/api/reports');
+    return await this.expectPayload<Report[]>(response, 200, 'reports', 'get reports', schema.array(reportSchema));
+  }
+
+  async getReportsByType<T extends Report['type']>(type: T): Promise<Extract<Report, { type: T }>[]> {
+    const reports = await this.getReports();
+    return reports.filter((report): report is Extract<Report, { type: T }> => report.type === type);
+  }
+}
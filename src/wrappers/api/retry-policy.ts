@@ -0,0 +1,88 @@
+/**
+ * Retry policy for API wrappers
+ * Decides which failed requests are retried and how long to wait between attempts
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+export interface RetryPolicy {
+  /** Status codes that trigger a retry (default: 429, 502, 503, 504) */
+  retryOn?: number[];
+  /** Retry when the request fails at the network level (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Delay before the first retry in ms, doubled on every further retry (default: 200) */
+  baseDelay?: number;
+  /** Upper bound for any single delay in ms, including Retry-After (default: 10000) */
+  maxDelay?: number;
+  /** Random fraction (0-1) added to or removed from each backoff delay (default: 0.2) */
+  jitter?: number;
+  /** Honor the Retry-After header on 429/503 responses (default: true) */
+  respectRetryAfter?: boolean;
+  /** Also retry POST and PATCH requests (default: false) */
+  retryNonIdempotent?: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retryOn: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  baseDelay: 200,
+  maxDelay: 10000,
+  jitter: 0.2,
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const NETWORK_ERROR_PATTERNS = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'socket hang up',
+];
+
+export function isIdempotentMethod(method: HttpMethod): boolean {
+  return IDEMPOTENT_METHODS.includes(method);
+}
+
+/**
+ * Network errors surface from Playwright as plain Errors, so match on the system error codes
+ */
+export function isRetryableNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return NETWORK_ERROR_PATTERNS.some(pattern => message.includes(pattern));
+}
+
+/**
+ * Exponential backoff for the given retry number (1 = first retry), capped at maxDelay
+ */
+export function computeBackoff(retry: number, policy: Required<RetryPolicy>): number {
+  const exponential = policy.baseDelay * Math.pow(2, retry - 1);
+  const spread = exponential * policy.jitter;
+  const jittered = exponential + (Math.random() * 2 - 1) * spread;
+  return Math.round(Math.min(Math.max(jittered, 0), policy.maxDelay));
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value.trim());
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(date - now, 0);
+  }
+
+  return undefined;
+}
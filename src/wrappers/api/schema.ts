@@ -0,0 +1,309 @@
+import { REDACTED, SECRET_FIELD_PATTERN } from './redaction';
+
+/**
+ * Lightweight runtime schemas for API responses
+ * Schemas carry their TypeScript type, so a wrapper method that validates
+ * with `Schema<Project>` also returns a `Project`
+ */
+
+export type SchemaIssueKind = 'missing' | 'type' | 'value' | 'unexpected';
+
+export interface SchemaIssue {
+  /** JSONPath-like location, e.g. `$.users[0].email` */
+  path: string;
+  kind: SchemaIssueKind;
+  expected?: string;
+  actual?: unknown;
+}
+
+/**
+ * JSON form of a schema, e.g. to store a consumer's expectations in a contract file
+ */
+export type SchemaShape =
+  | { type: 'string' | 'number' | 'boolean' | 'unknown' }
+  | { type: 'literal'; values: Array<string | number | boolean> }
+  | { type: 'nullable' | 'optional'; of: SchemaShape }
+  | { type: 'array'; items: SchemaShape }
+  | { type: 'record'; values: SchemaShape }
+  | { type: 'union'; options: SchemaShape[] }
+  | { type: 'object'; fields: Record<string, SchemaShape>; unexpected?: 'allow'; forbid?: string[] };
+
+export interface Schema<T> {
+  readonly description: string;
+  readonly isOptional: boolean;
+  readonly shape: SchemaShape;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Phantom property carrying the validated type, never set at runtime */
+  readonly __type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export interface ObjectSchemaOptions {
+  /** How to treat fields that are not in the shape (default: 'error') */
+  unexpected?: 'error' | 'allow';
+  /** Fields that must never be present, reported even when unexpected fields are allowed */
+  forbid?: string[];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function primitive<T>(name: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    description: name,
+    isOptional: false,
+    shape: { type: name },
+    check(value, path, issues) {
+      if (typeof value !== name || (name === 'number' && Number.isNaN(value))) {
+        issues.push({ path, kind: 'type', expected: name, actual: value });
+      }
+    },
+  };
+}
+
+export const schema = {
+  string: (): Schema<string> => primitive<string>('string'),
+  number: (): Schema<number> => primitive<number>('number'),
+  boolean: (): Schema<boolean> => primitive<boolean>('boolean'),
+
+  unknown: (): Schema<unknown> => ({
+    description: 'unknown',
+    isOptional: false,
+    shape: { type: 'unknown' },
+    check() {},
+  }),
+
+  literal<T extends string | number | boolean>(...values: T[]): Schema<T> {
+    const description = values.map(value => JSON.stringify(value)).join(' | ');
+    return {
+      description,
+      isOptional: false,
+      shape: { type: 'literal', values },
+      check(value, path, issues) {
+        if (!values.includes(value as T)) {
+          issues.push({ path, kind: 'value', expected: description, actual: value });
+        }
+      },
+    };
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      description: `${inner.description} | null`,
+      isOptional: inner.isOptional,
+      shape: { type: 'nullable', of: inner.shape },
+      check(value, path, issues) {
+        if (value !== null) {
+          inner.check(value, path, issues);
+        }
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      description: inner.description,
+      isOptional: true,
+      shape: { type: 'optional', of: inner.shape },
+      check(value, path, issues) {
+        if (value !== undefined) {
+          inner.check(value, path, issues);
+        }
+      },
+    };
+  },
+
+  array<T>(items: Schema<T>): Schema<T[]> {
+    return {
+      description: `${items.description}[]`,
+      isOptional: false,
+      shape: { type: 'array', items: items.shape },
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push({ path, kind: 'type', expected: 'array', actual: value });
+          return;
+        }
+        value.forEach((item, index) => items.check(item, `${path}[${index}]`, issues));
+      },
+    };
+  },
+
+  record<T>(values: Schema<T>): Schema<Record<string, T>> {
+    return {
+      description: `Record<string, ${values.description}>`,
+      isOptional: false,
+      shape: { type: 'record', values: values.shape },
+      check(value, path, issues) {
+        if (typeOf(value) !== 'object') {
+          issues.push({ path, kind: 'type', expected: 'object', actual: value });
+          return;
+        }
+        Object.entries(value as Record<string, unknown>).forEach(([key, item]) =>
+          values.check(item, `${path}.${key}`, issues)
+        );
+      },
+    };
+  },
+
+  /**
+   * Passes when any option passes; otherwise reports the issues of the closest option
+   */
+  union<Options extends Schema<unknown>[]>(...options: Options): Schema<Infer<Options[number]>> {
+    return {
+      description: options.map(option => option.description).join(' | '),
+      isOptional: false,
+      shape: { type: 'union', options: options.map(option => option.shape) },
+      check(value, path, issues) {
+        const results = options.map(option => {
+          const optionIssues: SchemaIssue[] = [];
+          option.check(value, path, optionIssues);
+          return optionIssues;
+        });
+        if (results.some(optionIssues => optionIssues.length === 0)) {
+          return;
+        }
+        issues.push(...results.reduce((best, current) => (current.length < best.length ? current : best)));
+      },
+    };
+  },
+
+  object<Shape extends Record<string, Schema<unknown>>>(
+    shape: Shape,
+    options: ObjectSchemaOptions = {}
+  ): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+    const unexpected = options.unexpected || 'error';
+    const forbidden = options.forbid || [];
+
+    return {
+      description: 'object',
+      isOptional: false,
+      shape: {
+        type: 'object',
+        fields: Object.fromEntries(Object.entries(shape).map(([key, fieldSchema]) => [key, fieldSchema.shape])),
+        ...(unexpected === 'allow' && { unexpected: 'allow' as const }),
+        ...(forbidden.length > 0 && { forbid: forbidden }),
+      },
+      check(value, path, issues) {
+        if (typeOf(value) !== 'object') {
+          issues.push({ path, kind: 'type', expected: 'object', actual: value });
+          return;
+        }
+
+        const record = value as Record<string, unknown>;
+        Object.entries(shape).forEach(([key, fieldSchema]) => {
+          if (record[key] === undefined) {
+            if (!fieldSchema.isOptional) {
+              issues.push({ path: `${path}.${key}`, kind: 'missing', expected: fieldSchema.description });
+            }
+            return;
+          }
+          fieldSchema.check(record[key], `${path}.${key}`, issues);
+        });
+
+        Object.keys(record)
+          .filter(key => !(key in shape))
+          .filter(key => unexpected === 'error' || forbidden.includes(key))
+          .forEach(key => issues.push({ path: `${path}.${key}`, kind: 'unexpected', actual: record[key] }));
+      },
+    };
+  },
+};
+
+/**
+ * Rebuilds a schema from its shape, e.g. to verify a provider against a stored contract
+ */
+export function schemaFromShape(shape: SchemaShape): Schema<unknown> {
+  switch (shape.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return schema[shape.type]();
+    case 'unknown':
+      return schema.unknown();
+    case 'literal':
+      return schema.literal(...shape.values);
+    case 'nullable':
+      return schema.nullable(schemaFromShape(shape.of));
+    case 'optional':
+      return schema.optional(schemaFromShape(shape.of));
+    case 'array':
+      return schema.array(schemaFromShape(shape.items));
+    case 'record':
+      return schema.record(schemaFromShape(shape.values));
+    case 'union':
+      return schema.union(...shape.options.map(schemaFromShape));
+    case 'object':
+      return schema.object(
+        Object.fromEntries(Object.entries(shape.fields).map(([key, field]) => [key, schemaFromShape(field)])),
+        { unexpected: shape.unexpected, forbid: shape.forbid }
+      );
+  }
+}
+
+export class SchemaValidationError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(label: string, issues: SchemaIssue[]) {
+    super(formatSchemaIssues(label, issues));
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export function validateSchema<T>(responseSchema: Schema<T>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  responseSchema.check(value, '$', issues);
+  return issues;
+}
+
+export function assertSchema<T>(responseSchema: Schema<T>, value: unknown, label: string = 'value'): T {
+  const issues = validateSchema(responseSchema, value);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(label, issues);
+  }
+  return value as T;
+}
+
+function isSecretPath(path: string): boolean {
+  return SECRET_FIELD_PATTERN.test(path.split('.').pop() || '');
+}
+
+function formatActual(path: string, value: unknown): string {
+  if (isSecretPath(path)) {
+    return `${typeOf(value)} "${REDACTED}"`;
+  }
+  const json = JSON.stringify(value);
+  const excerpt = json !== undefined && json.length > 60 ? `${json.substring(0, 57)}...` : json;
+  return `${typeOf(value)} ${excerpt}`;
+}
+
+/**
+ * Replaces the actual values of secret fields, for issues that leave the process (reports, logs)
+ */
+export function redactSchemaIssues(issues: SchemaIssue[]): SchemaIssue[] {
+  return issues.map(issue =>
+    issue.actual !== undefined && isSecretPath(issue.path) ? { ...issue, actual: REDACTED } : issue
+  );
+}
+
+/**
+ * Renders issues as a diff: `-` missing, `~` wrong type or value, `+` unexpected
+ */
+export function formatSchemaIssues(label: string, issues: SchemaIssue[]): string {
+  const lines = issues.map(issue => {
+    switch (issue.kind) {
+      case 'missing':
+        return `  - ${issue.path}: missing (expected ${issue.expected})`;
+      case 'unexpected':
+        return `  + ${issue.path}: unexpected field (${formatActual(issue.path, issue.actual)})`;
+      default:
+        return `  ~ ${issue.path}: expected ${issue.expected}, got ${formatActual(issue.path, issue.actual)}`;
+    }
+  });
+  return [`Schema validation failed for ${label} (${issues.length} issue${issues.length === 1 ? '' : 's'}):`, ...lines].join('\n');
+}
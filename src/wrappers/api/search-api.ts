@@ -0,0 +1,28 @@
+import { TestAppApiWrapper, DashboardUser, dashboardUserSchema } from './test-app-api';
+import { Project, projectSchema } from './projects-api';
+import { Task, taskSchema } from './tasks-api';
+import { schema, Schema } from './schema';
+
+export type SearchType = 'users' | 'projects' | 'tasks';
+
+export interface SearchResults {
+  users: DashboardUser[];
+  projects: Project[];
+  tasks: Task[];
+}
+
+export const searchResultsSchema: Schema<SearchResults> = schema.object({
+  users: schema.array(dashboardUserSchema),
+  projects: schema.array(projectSchema),
+  tasks: schema.array(taskSchema),
+});
+
+export class SearchApi extends TestAppApiWrapper {
+  /**
+   * Searches users, projects and tasks, or only the given type
+   */
+  async search(query: string, type?: SearchType): Promise<SearchResults> {
+    const response = await this.get('/api/search', { params: this.toParams({ query, type }) });
+    return await this.expectPayload<SearchResults>(response, 200, 'results', 'search', searchResultsSchema);
+  }
+}
@@ -0,0 +1,37 @@
+import { TestAppApiWrapper, UserPreferences, userPreferencesSchema } from './test-app-api';
+import { schema, Schema } from './schema';
+
+export interface SystemSettings {
+  maintenanceMode: boolean;
+  allowRegistration: boolean;
+  defaultTheme: string;
+  /** Session timeout in minutes */
+  sessionTimeout: number;
+}
+
+export interface Settings {
+  systemSettings: SystemSettings;
+  userPreferences: UserPreferences;
+}
+
+export const settingsSchema: Schema<Settings> = schema.object({
+  systemSettings: schema.object({
+    maintenanceMode: schema.boolean(),
+    allowRegistration: schema.boolean(),
+    defaultTheme: schema.string(),
+    sessionTimeout: schema.number(),
+  }),
+  userPreferences: userPreferencesSchema,
+});
+
+export class SettingsApi extends TestAppApiWrapper {
+  async getSettings(): Promise<Settings> {
+    const response = await this.get('/api/settings');
+    return await this.expectPayload<Settings>(response, 200, 'settings', 'get settings', settingsSchema);
+  }
+
+  async updatePreferences(preferences: Partial<UserPreferences>): Promise<UserPreferences> {
+    const response = await this.put('/api/settings/preferences', { data: preferences });
+    return await this.expectPayload<UserPreferences>(response, 200, 'preferences', 'update preferences', userPreferencesSchema);
+  }
+}
@@ -0,0 +1,368 @@
+import WebSocket from 'ws';
+
+/**
+ * Clients for streaming endpoints, Server-Sent Events and WebSocket
+ * Every client collects what it receives in order in a StreamLog, so tests can wait for messages
+ * and assert on their sequence; BasePage captures the streams of a page into the same log
+ */
+
+export interface StreamMessage<T = unknown> {
+  /** SSE event name, the `type` of a JSON WebSocket message, or 'message' */
+  event: string;
+  /** Payload, parsed when it is JSON; for JSON WebSocket messages with a `type`, their `data` */
+  data: T;
+  /** SSE event id, or the `id` of a JSON WebSocket message */
+  id?: string;
+  /** WebSocket frames the client sent are logged as well */
+  direction: 'received' | 'sent';
+  receivedAt: number;
+}
+
+export type StreamMatcher<T> = string | ((message: StreamMessage<T>) => boolean);
+
+export interface StreamWaitOptions {
+  /** Milliseconds to wait (default: 5000) */
+  timeout?: number;
+  /** Only consider messages from this index of the log on, e.g. `log.messages.length` before an action */
+  from?: number;
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface EventStreamOptions {
+  headers?: Record<string, string>;
+  /** Resume after this event id, as a reconnecting client would */
+  lastEventId?: string;
+  /** Reconnect with Last-Event-ID when the connection ends (default: true) */
+  reconnect?: boolean;
+}
+
+export interface WebSocketClientOptions {
+  headers?: Record<string, string>;
+  protocols?: string | string[];
+  /** Milliseconds to wait for the connection (default: 10000) */
+  timeout?: number;
+}
+
+const DEFAULT_WAIT_TIMEOUT = 5000;
+const MAX_LISTED_MESSAGES = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function parsePayload(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function describe(message: StreamMessage): string {
+  const text = typeof message.data === 'string' ? message.data : JSON.stringify(message.data);
+  const preview = text === undefined ? '' : text.length > 120 ? `${text.substring(0, 120)}...` : text;
+  return `${message.direction === 'sent' ? '→' : '←'} ${message.event}${message.id !== undefined ? ` #${message.id}` : ''} ${preview}`;
+}
+
+/**
+ * Message of a Server-Sent Event, with its data parsed when it is JSON
+ */
+export function eventToMessage<T = unknown>(event: string, data: string, id?: string): StreamMessage<T> {
+  return { event, data: parsePayload(data) as T, id, direction: 'received', receivedAt: Date.now() };
+}
+
+/**
+ * Turns a WebSocket frame into a message: JSON frames with a `type` are read as `{ id?, type, data }`
+ */
+export function frameToMessage<T = unknown>(payload: string | Buffer, direction: StreamMessage['direction']): StreamMessage<T> {
+  const parsed = parsePayload(payload.toString());
+  if (parsed && typeof parsed === 'object' && typeof (parsed as { type?: unknown }).type === 'string') {
+    const { id, type, data } = parsed as { id?: unknown; type: string; data?: unknown };
+    return {
+      event: type,
+      data: (data === undefined ? parsed : data) as T,
+      id: id === undefined || id === null ? undefined : String(id),
+      direction,
+      receivedAt: Date.now(),
+    };
+  }
+  return { event: 'message', data: parsed as T, direction, receivedAt: Date.now() };
+}
+
+/**
+ * Incremental text/event-stream parser; chunks may split lines anywhere
+ */
+export function createEventStreamParser(onEvent: (event: ServerSentEvent) => void): { push(chunk: string): void } {
+  let buffer = '';
+  let data: string[] = [];
+  let event = '';
+  let id: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = () => {
+    if (data.length > 0 || id !== undefined || retry !== undefined) {
+      onEvent({ event: event || 'message', data: data.join('\n'), id, retry });
+    }
+    data = [];
+    event = '';
+    id = undefined;
+    retry = undefined;
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\n|\r/);
+      buffer = lines.pop() || '';
+      lines.forEach(line => {
+        if (line === '') {
+          dispatch();
+          return;
+        }
+        if (line.startsWith(':')) {
+          return;
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.substring(0, separator);
+        const value = separator === -1 ? '' : line.substring(separator + 1).replace(/^ /, '');
+        if (field === 'data') {
+          data.push(value);
+        } else if (field === 'event') {
+          event = value;
+        } else if (field === 'id') {
+          id = value;
+        } else if (field === 'retry' && /^\d+$/.test(value)) {
+          retry = Number(value);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Thrown when no matching message arrived in time; lists the last messages of the stream
+ */
+export class StreamTimeoutError extends Error {
+  readonly timeout: number;
+  readonly messages: StreamMessage[];
+
+  constructor(description: string, timeout: number, messages: StreamMessage[]) {
+    const last = messages.slice(-MAX_LISTED_MESSAGES);
+    super(
+      [
+        `Timed out after ${timeout}ms waiting for ${description}`,
+        messages.length === 0 ? 'No messages received' : `Last ${last.length} of ${messages.length} messages:`,
+        ...last.map(message => `  ${describe(message)}`),
+      ].join('\n')
+    );
+    this.name = 'StreamTimeoutError';
+    this.timeout = timeout;
+    this.messages = messages;
+  }
+}
+
+/**
+ * Messages of a stream in arrival order, with waiting for the ones still to come
+ */
+export class StreamLog<T = unknown> {
+  readonly messages: StreamMessage<T>[] = [];
+  private readonly waiters = new Set<() => void>();
+
+  constructor(readonly label: string) {}
+
+  push(message: StreamMessage<T>): void {
+    this.messages.push(message);
+    this.waiters.forEach(wake => wake());
+  }
+
+  /**
+   * Messages from the server, optionally of one event
+   */
+  received(event?: string): StreamMessage<T>[] {
+    return this.messages.filter(message => message.direction === 'received' && (event === undefined || message.event === event));
+  }
+
+  /**
+   * Resolves with the first received message (already logged or still to come) that matches
+   */
+  async waitFor(match: StreamMatcher<T>, options: StreamWaitOptions = {}): Promise<StreamMessage<T>> {
+    const [message] = await this.waitForCount(1, match, options);
+    return message;
+  }
+
+  /**
+   * Resolves once `count` received messages match, with the first `count` of them
+   */
+  async waitForCount(count: number, match?: StreamMatcher<T>, options: StreamWaitOptions = {}): Promise<StreamMessage<T>[]> {
+    const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+    const matches = (message: StreamMessage<T>) =>
+      message.direction === 'received' &&
+      (match === undefined || (typeof match === 'string' ? message.event === match : match(message)));
+    const found = () => this.messages.slice(options.from || 0).filter(matches);
+
+    if (found().length >= count) {
+      return found().slice(0, count);
+    }
+    return await new Promise((resolve, reject) => {
+      const wake = () => {
+        const current = found();
+        if (current.length >= count) {
+          clearTimeout(timer);
+          this.waiters.delete(wake);
+          resolve(current.slice(0, count));
+        }
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(wake);
+        const description = typeof match === 'string' ? `"${match}" events` : match ? 'matching messages' : 'messages';
+        reject(new StreamTimeoutError(`${count} ${description} on ${this.label} (got ${found().length})`, timeout, this.messages));
+      }, timeout);
+      this.waiters.add(wake);
+    });
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Server-Sent Events client over fetch, so requests can carry headers; like EventSource it
+ * reconnects when the connection ends and resumes with Last-Event-ID
+ */
+export class EventStreamClient<T = unknown> extends StreamLog<T> {
+  lastEventId?: string;
+  /** Reconnection delay, as last sent by the server */
+  retryDelay = 1000;
+  /** How often the stream was opened, 2 and more after reconnecting */
+  connections = 0;
+  private controller?: AbortController;
+  private closed = false;
+
+  private constructor(readonly url: string, private readonly options: EventStreamOptions) {
+    super(url);
+    this.lastEventId = options.lastEventId;
+  }
+
+  static async open<T = unknown>(url: string, options: EventStreamOptions = {}): Promise<EventStreamClient<T>> {
+    const client = new EventStreamClient<T>(url, options);
+    await client.connect();
+    return client;
+  }
+
+  /**
+   * Cuts the connection as a network failure would; the client reconnects unless `reconnect` is off
+   */
+  drop(): void {
+    this.controller?.abort();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.controller?.abort();
+  }
+
+  private async connect(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const response = await fetch(this.url, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...this.options.headers,
+        ...(this.lastEventId !== undefined && { 'Last-Event-ID': this.lastEventId }),
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      controller.abort();
+      throw new Error(`Could not open event stream ${this.url}: ${response.status} ${response.statusText}`);
+    }
+
+    this.connections++;
+    void this.read(response.body, controller);
+  }
+
+  private async read(body: ReadableStream<Uint8Array>, controller: AbortController): Promise<void> {
+    const parser = createEventStreamParser(event => {
+      if (event.id !== undefined) {
+        this.lastEventId = event.id;
+      }
+      if (event.retry !== undefined) {
+        this.retryDelay = event.retry;
+      }
+      if (event.data !== '') {
+        this.push(eventToMessage<T>(event.event, event.data, event.id));
+      }
+    });
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        parser.push(decoder.decode(chunk.value, { stream: true }));
+      }
+    } catch {
+      // Dropped or closed
+    }
+
+    while (!this.closed && this.options.reconnect !== false && this.controller === controller) {
+      await sleep(this.retryDelay);
+      try {
+        await this.connect();
+        return;
+      } catch (error) {
+        console.log(`🔌 ${this.url}: ${error instanceof Error ? error.message : String(error)}, retrying in ${this.retryDelay}ms`);
+      }
+    }
+  }
+}
+
+/**
+ * WebSocket client that logs received and sent messages
+ */
+export class WebSocketClient<T = unknown> extends StreamLog<T> {
+  /** Resolves with the close code and reason once the connection is closed, by either side */
+  readonly closed: Promise<{ code: number; reason: string }>;
+
+  private constructor(readonly url: string, private readonly socket: WebSocket) {
+    super(url);
+    socket.on('message', (payload: Buffer) => this.push(frameToMessage<T>(payload, 'received')));
+    // Errors after opening end in 'close'
+    socket.on('error', () => undefined);
+    this.closed = new Promise(resolve => socket.on('close', (code: number, reason: Buffer) => resolve({ code, reason: reason.toString() })));
+  }
+
+  static async open<T = unknown>(url: string, options: WebSocketClientOptions = {}): Promise<WebSocketClient<T>> {
+    const socket = new WebSocket(url, options.protocols, { headers: options.headers, handshakeTimeout: options.timeout ?? 10000 });
+    const client = new WebSocketClient<T>(url, socket);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('unexpected-response', (_request, response) => {
+        reject(new Error(`Could not open WebSocket ${url}: ${response.statusCode} ${response.statusMessage}`));
+        socket.terminate();
+      });
+      socket.once('error', reject);
+    });
+    return client;
+  }
+
+  /**
+   * Sends a message, JSON-encoded unless it is a string
+   */
+  send(message: unknown): void {
+    const payload = typeof message === 'string' ? message : JSON.stringify(message);
+    this.socket.send(payload);
+    this.push(frameToMessage<T>(payload, 'sent'));
+  }
+
+  async close(code: number = 1000, reason?: string): Promise<{ code: number; reason: string }> {
+    if (this.socket.readyState !== WebSocket.CLOSED) {
+      this.socket.close(code, reason);
+    }
+    return await this.closed;
+  }
+}
@@ -0,0 +1,81 @@
+import { TestAppApiWrapper } from './test-app-api';
+import { Priority } from './projects-api';
+import { schema, Schema } from './schema';
+import { Page, PageQuery } from './pagination';
+
+export type TaskStatus = 'pending' | 'in-progress' | 'completed';
+
+export interface Task {
+  id: number;
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: Priority;
+  projectId: number | null;
+  assignedTo: number | null;
+  dueDate: string | null;
+  completedDate: string | null;
+  estimatedHours: number;
+  actualHours: number;
+  tags: string[];
+  createdBy: number;
+  createdAt: string;
+}
+
+export const taskSchema: Schema<Task> = schema.object({
+  id: schema.number(),
+  title: schema.string(),
+  description: schema.string(),
+  status: schema.literal('pending', 'in-progress', 'completed'),
+  priority: schema.literal('low', 'medium', 'high'),
+  projectId: schema.nullable(schema.number()),
+  assignedTo: schema.nullable(schema.number()),
+  dueDate: schema.nullable(schema.string()),
+  completedDate: schema.nullable(schema.string()),
+  estimatedHours: schema.number(),
+  actualHours: schema.number(),
+  tags: schema.array(schema.string()),
+  createdBy: schema.number(),
+  createdAt: schema.string(),
+});
+
+export type CreateTaskRequest = Pick<Task, 'title'> &
+  Partial<Omit<Task, 'id' | 'title' | 'createdBy' | 'createdAt'>>;
+
+export interface TaskFilters {
+  status?: TaskStatus;
+  priority?: Priority;
+  projectId?: number;
+  assignedTo?: number;
+}
+
+export type TaskListQuery = TaskFilters & PageQuery<Task>;
+
+export class TasksApi extends TestAppApiWrapper {
+  async getTasks(query?: TaskListQuery): Promise<Task[]> {
+    const response = await this.get('/api/tasks', { params: this.toListParams(query) });
+    return await this.expectPayload<Task[]>(response, 200, 'tasks', 'get tasks', schema.array(taskSchema));
+  }
+
+  async getTasksPage(query: TaskListQuery = {}): Promise<Page<Task>> {
+    const response = await this.get('/api/tasks', { params: this.toListParams(query) });
+    return await this.expectPage(response, 'tasks', 'get tasks', taskSchema);
+  }
+
+  /**
+   * Iterates the matching tasks page by page, starting at `query.page`
+   */
+  iterateTasks(query: TaskListQuery = {}): AsyncGenerator<Task> {
+    return this.paginate(page => this.getTasksPage({ ...query, page }), query.page);
+  }
+
+  async createTask(taskData: CreateTaskRequest): Promise<Task> {
+    const response = await this.post('/api/tasks', { data: taskData });
+    return await this.expectPayload<Task>(response, 201, 'task', 'create task', taskSchema);
+  }
+
+  async updateTask(id: number, taskData: Partial<CreateTaskRequest>): Promise<Task> {
+    const response = await this.put(`/api/tasks/${id}`, { data: taskData });
+    return await this.expectPayload<Task>(response, 200, 'task', 'update task', taskSchema);
+  }
+}
@@ -1,5 +1,7 @@
-import { APIRequestContext } from '@playwright/test';
-import { BaseApiWrapper, ApiConfig } from './base-api';
+import { TestAppApiWrapper, envelopeSchema, testUserSchema } from './test-app-api';
+import { schema, Schema } from './schema';
+import { Page, PageQuery } from './pagination';
+import { UploadFile, fileFromPath } from './files';
 
 export interface TestUser {
   id: number;
@@ -22,39 +24,56 @@ export interface TestApiResponse<T> {
   users?: T[];
 }
 
-export class TestApiWrapper extends BaseApiWrapper {
-  constructor(request: APIRequestContext, config?: Partial<ApiConfig>) {
-    const defaultConfig: ApiConfig = {
-      baseURL: process.env.BASE_URL || 'http://localhost:3000',
-      timeout: 30000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      retries: 3,
-    };
-    
-    super(request, { ...defaultConfig, ...config });
-  }
+export interface UserAvatar {
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  alt: string;
+}
 
+export const userAvatarSchema: Schema<UserAvatar> = schema.object({
+  url: schema.string(),
+  filename: schema.string(),
+  mimeType: schema.string(),
+  size: schema.number(),
+  alt: schema.string(),
+});
+
+const testApiResponseSchema = envelopeSchema({
+  user: schema.optional(testUserSchema),
+  users: schema.optional(schema.array(testUserSchema)),
+});
+
+export class TestApiWrapper extends TestAppApiWrapper {
   async getUsers(): Promise<TestUser[]> {
     const response = await this.get('/api/users');
     await this.expectStatus(response, 200);
-    const data: TestApiResponse<TestUser> = await this.expectJson(response);
+    const data = await this.expectSchema(response, testApiResponseSchema, 'get users response');
     
     if (!data.success || !data.users) {
-      throw new Error('Failed to get users: ' + (data.message || 'Unknown error'));
+      throw await this.validationError(response, 'Failed to get users: ' + (data.message || 'Unknown error'));
     }
     
     return data.users;
   }
 
+  async getUsersPage(query: PageQuery<TestUser> = {}): Promise<Page<TestUser>> {
+    const response = await this.get('/api/users', { params: this.toListParams(query) });
+    return await this.expectPage(response, 'users', 'get users', testUserSchema);
+  }
+
+  iterateUsers(query: PageQuery<TestUser> = {}): AsyncGenerator<TestUser> {
+    return this.paginate(page => this.getUsersPage({ ...query, page }), query.page);
+  }
+
   async getUserById(id: number): Promise<TestUser> {
     const response = await this.get(`/api/users/${id}`);
     await this.expectStatus(response, 200);
-    const data: TestApiResponse<TestUser> = await this.expectJson(response);
+    const data = await this.expectSchema(response, testApiResponseSchema, 'get user response');
     
     if (!data.success || !data.user) {
-      throw new Error('Failed to get user: ' + (data.message || 'Unknown error'));
+      throw await this.validationError(response, 'Failed to get user: ' + (data.message || 'Unknown error'));
     }
     
     return data.user;
@@ -63,10 +82,10 @@ export class TestApiWrapper extends BaseApiWrapper {
   async createUser(userData: CreateTestUserRequest): Promise<TestUser> {
     const response = await this.post('/api/users', { data: userData });
     await this.expectStatus(response, 201);
-    const data: TestApiResponse<TestUser> = await this.expectJson(response);
+    const data = await this.expectSchema(response, testApiResponseSchema, 'create user response');
     
     if (!data.success || !data.user) {
-      throw new Error('Failed to create user: ' + (data.message || 'Unknown error'));
+      throw await this.validationError(response, 'Failed to create user: ' + (data.message || 'Unknown error'));
     }
     
     return data.user;
@@ -75,10 +94,10 @@ export class TestApiWrapper extends BaseApiWrapper {
   async updateUser(id: number, userData: Partial<CreateTestUserRequest>): Promise<TestUser> {
     const response = await this.put(`/api/users/${id}`, { data: userData });
     await this.expectStatus(response, 200);
-    const data: TestApiResponse<TestUser> = await this.expectJson(response);
+    const data = await this.expectSchema(response, testApiResponseSchema, 'update user response');
     
     if (!data.success || !data.user) {
-      throw new Error('Failed to update user: ' + (data.message || 'Unknown error'));
+      throw await this.validationError(response, 'Failed to update user: ' + (data.message || 'Unknown error'));
     }
     
     return data.user;
@@ -87,43 +106,100 @@ export class TestApiWrapper extends BaseApiWrapper {
   async deleteUser(id: number): Promise<void> {
     const response = await this.delete(`/api/users/${id}`);
     await this.expectStatus(response, 200);
-    const data: TestApiResponse<TestUser> = await this.expectJson(response);
+    const data = await this.expectSchema(response, testApiResponseSchema, 'delete user response');
     
     if (!data.success) {
-      throw new Error('Failed to delete user: ' + (data.message || 'Unknown error'));
+      throw await this.validationError(response, 'Failed to delete user: ' + (data.message || 'Unknown error'));
     }
   }
 
+  /**
+   * Filters on the server; the result is filtered again because the basic server ignores list queries
+   */
   async searchUsers(name: string): Promise<TestUser[]> {
-    const users = await this.getUsers();
-    return users.filter(user => user.name.toLowerCase().includes(name.toLowerCase()));
+    const response = await this.get('/api/users', { params: this.toListParams({ filter: { name: `~${name}` } }) });
+    await this.expectStatus(response, 200);
+    const data = await this.expectSchema(response, testApiResponseSchema, 'search users response');
+
+    if (!data.success || !data.users) {
+      throw await this.validationError(response, 'Failed to search users: ' + (data.message || 'Unknown error'));
+    }
+
+    return data.users.filter(user => user.name.toLowerCase().includes(name.toLowerCase()));
   }
 
-  async loginUser(email: string, password: string): Promise<TestUser> {
-    const response = await this.post('/api/login', { data: { email, password } });
+  /**
+   * Uploads an avatar as multipart/form-data; `file` may be a path under the fixtures or downloads folder
+   */
+  async uploadAvatar(userId: number, file: UploadFile | string, alt?: string): Promise<UserAvatar> {
+    const response = await this.post(`/api/users/${userId}/avatar`, {
+      multipart: {
+        avatar: typeof file === 'string' ? fileFromPath(file) : file,
+        ...(alt !== undefined && { alt }),
+      },
+    });
+    return await this.expectPayload<UserAvatar>(response, 201, 'avatar', 'upload avatar', userAvatarSchema);
+  }
+
+  /**
+   * Uploads an avatar as the raw request body
+   */
+  async uploadAvatarBytes(userId: number, bytes: Buffer, mimeType: string): Promise<UserAvatar> {
+    const response = await this.put(`/api/users/${userId}/avatar`, {
+      data: bytes,
+      headers: { 'Content-Type': mimeType },
+    });
+    return await this.expectPayload<UserAvatar>(response, 201, 'avatar', 'upload avatar', userAvatarSchema);
+  }
+
+  async downloadAvatar(userId: number): Promise<Buffer> {
+    const response = await this.get(`/api/users/${userId}/avatar`);
     await this.expectStatus(response, 200);
-    const data: TestApiResponse<TestUser> = await this.expectJson(response);
-    
-    if (!data.success || !data.user) {
-      throw new Error('Failed to login: ' + (data.message || 'Unknown error'));
-    }
-    
-    return data.user;
+    return await this.expectBinary(response, /^image\//);
+  }
+
+  /**
+   * Saves the avatar to `filePath`, or to `downloads/` under its uploaded name
+   */
+  async saveAvatar(userId: number, filePath?: string): Promise<string> {
+    const response = await this.get(`/api/users/${userId}/avatar`);
+    await this.expectStatus(response, 200);
+    await this.expectBinary(response, /^image\//);
+    return await this.saveResponse(response, filePath);
+  }
+
+  /**
+   * Logs in and keeps the token as the active session for subsequent calls
+   */
+  async loginUser(email: string, password: string): Promise<TestUser> {
+    const session = await this.authenticate({ email, password });
+    return session.user as TestUser;
   }
 
   async healthCheck(): Promise<{ status: string; timestamp: string; service: string }> {
-    const response = await this.get('/health');
+    const response = await this.get('/health', { auth: false });
     await this.expectStatus(response, 200);
-    return await this.expectJson(response);
+    return await this.expectSchema(
+      response,
+      schema.object({ status: schema.string(), timestamp: schema.string(), service: schema.string() }),
+      'health check response'
+    );
   }
 
   async resetData(): Promise<void> {
-    const response = await this.post('/api/reset');
+    const response = await this.post('/api/reset', { auth: false });
     await this.expectStatus(response, 200);
-    const data: TestApiResponse<any> = await this.expectJson(response);
+    const data = await this.expectSchema(
+      response,
+      envelopeSchema({
+        counts: schema.optional(schema.record(schema.number())),
+        userCount: schema.optional(schema.number()),
+      }),
+      'reset data response'
+    );
     
     if (!data.success) {
-      throw new Error('Failed to reset data: ' + (data.message || 'Unknown error'));
+      throw await this.validationError(response, 'Failed to reset data: ' + (data.message || 'Unknown error'));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { BaseApiWrapper, ApiConfig, ApiCredentials, AuthSession } from './base-api';
+import { ApiAuthError } from './api-errors';
+import type { TestUser } from './test-api';
+import { schema, Schema } from './schema';
+import { Page, PageQuery, pageInfoSchema, toPageParams } from './pagination';
+import { TestDataManager } from '../../utils/test-data';
+
+export interface UserPreferences {
+  theme: 'light' | 'dark' | string;
+  notifications: boolean;
+  language: string;
+  timezone: string;
+}
+
+/**
+ * User as returned by the enhanced server (password stripped)
+ */
+export interface DashboardUser extends TestUser {
+  role: 'user' | 'admin' | string;
+  department: string;
+  avatar: string;
+  phone: string;
+  location: string;
+  joinDate: string;
+  lastLogin: string | null;
+  preferences: UserPreferences;
+}
+
+export const userPreferencesSchema: Schema<UserPreferences> = schema.object({
+  theme: schema.string(),
+  notifications: schema.boolean(),
+  language: schema.string(),
+  timezone: schema.string(),
+});
+
+/**
+ * Users as served by either test-app server: the basic server only has the core fields,
+ * the enhanced one adds profile fields, and neither may ever return the password
+ */
+export const testUserSchema: Schema<TestUser> = schema.object(
+  {
+    id: schema.number(),
+    name: schema.string(),
+    email: schema.string(),
+    username: schema.string(),
+  },
+  { unexpected: 'allow', forbid: ['password'] }
+);
+
+export const dashboardUserSchema: Schema<DashboardUser> = schema.object({
+  id: schema.number(),
+  name: schema.string(),
+  email: schema.string(),
+  username: schema.string(),
+  role: schema.string(),
+  department: schema.string(),
+  avatar: schema.string(),
+  phone: schema.string(),
+  location: schema.string(),
+  joinDate: schema.string(),
+  lastLogin: schema.nullable(schema.string()),
+  preferences: userPreferencesSchema,
+});
+
+/**
+ * Schema of the `{ success, message?, pagination?, ...payload }` envelope used by every test-app endpoint
+ */
+export function envelopeSchema<Payload extends Record<string, Schema<unknown>>>(payload: Payload) {
+  return schema.object({
+    success: schema.boolean(),
+    message: schema.optional(schema.string()),
+    pagination: schema.optional(pageInfoSchema),
+    ...payload,
+  });
+}
+
+/**
+ * Base for wrappers around the enhanced test-app server
+ * Every endpoint answers with a `{ success, message?, <payload> }` envelope and,
+ * apart from login, health and reset, requires a `mock_token_<id>_<ts>` bearer token
+ */
+export abstract class TestAppApiWrapper extends BaseApiWrapper {
+  constructor(request: APIRequestContext, config?: Partial<ApiConfig>) {
+    const regularUser = TestDataManager.getInstance().getUser('regular');
+    const defaultConfig: ApiConfig = {
+      baseURL: process.env.BASE_URL || 'http://localhost:3000',
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      retries: 3,
+      provider: 'test-app',
+      auth: {
+        credentials: { email: regularUser.email, password: regularUser.password },
+      },
+    };
+
+    super(request, { ...defaultConfig, ...config });
+  }
+
+  protected async login(credentials: ApiCredentials): Promise<AuthSession> {
+    const response = await this.post('/api/login', {
+      data: { email: credentials.email, password: credentials.password },
+      auth: false,
+    });
+    await this.expectStatus(response, 200);
+    const data = await this.expectSchema(
+      response,
+      envelopeSchema({ user: testUserSchema, token: schema.string() }),
+      'login response'
+    );
+
+    if (!data.success || !data.token) {
+      throw await this.raise(
+        new ApiAuthError('Failed to login: ' + (data.message || 'Unknown error'), await this.errorContext(response))
+      );
+    }
+
+    return { token: data.token, user: data.user, credentials, createdAt: Date.now() };
+  }
+
+  /**
+   * Checks the status and envelope, validates the payload stored under `key`
+   * against its schema and returns it
+   */
+  protected async expectPayload<T>(
+    response: APIResponse,
+    expectedStatus: number,
+    key: string,
+    action: string,
+    payloadSchema: Schema<T>
+  ): Promise<T> {
+    await this.expectStatus(response, expectedStatus);
+    const data = await this.expectSchema(
+      response,
+      envelopeSchema({ [key]: payloadSchema }),
+      `${action} response`
+    );
+
+    if (!data.success || data[key] === undefined) {
+      throw await this.validationError(response, `Failed to ${action}: ` + (data.message || 'Unknown error'));
+    }
+
+    return data[key] as T;
+  }
+
+  /**
+   * Checks a list response and returns its items with the page info
+   */
+  protected async expectPage<T>(
+    response: APIResponse,
+    key: string,
+    action: string,
+    itemSchema: Schema<T>
+  ): Promise<Page<T>> {
+    await this.expectStatus(response, 200);
+    const data = await this.expectSchema(
+      response,
+      envelopeSchema({ [key]: schema.array(itemSchema), pagination: pageInfoSchema }),
+      `${action} response`
+    );
+
+    if (!data.success || data[key] === undefined) {
+      throw await this.validationError(response, `Failed to ${action}: ` + (data.message || 'Unknown error'));
+    }
+
+    return { items: data[key] as T[], ...data.pagination };
+  }
+
+  /**
+   * Checks the status and envelope of endpoints that only return a message
+   */
+  protected async expectSuccess(response: APIResponse, expectedStatus: number, action: string): Promise<void> {
+    await this.expectStatus(response, expectedStatus);
+    const data = await this.expectSchema(response, envelopeSchema({}), `${action} response`);
+
+    if (!data.success) {
+      throw await this.validationError(response, `Failed to ${action}: ` + (data.message || 'Unknown error'));
+    }
+  }
+
+  /**
+   * Drops undefined filters and stringifies the rest for use as query params
+   */
+  protected toParams(filters?: object): Record<string, string> | undefined {
+    if (!filters) {
+      return undefined;
+    }
+
+    const params: Record<string, string> = {};
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params[key] = String(value);
+      }
+    });
+    return params;
+  }
+
+  /**
+   * Query params of a list query: page, sort and filter conventions plus the endpoint's own filters
+   */
+  protected toListParams<T>(query: PageQuery<T> & object = {}): Record<string, string> {
+    const { page, pageSize, sort, filter, ...filters } = query;
+    return { ...this.toParams(filters), ...toPageParams({ page, pageSize, sort, filter }) };
+  }
+}
@@ -0,0 +1,208 @@
+import { APIRequestContext } from '@playwright/test';
+import { ApiCredentials, AuthSession } from './base-api';
+import { BaseGraphQLWrapper, GraphQLConfig, fragment, gql } from './graphql';
+import { TestApiWrapper } from './test-api';
+import { ProjectStatus, Priority } from './projects-api';
+import { schema, Schema } from './schema';
+import { TestDataManager } from '../../utils/test-data';
+
+/**
+ * GraphQL view of the enhanced test-app server (POST /graphql)
+ * IDs are strings, as the GraphQL ID type requires
+ */
+
+export interface GraphQLUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+export interface GraphQLProject {
+  id: string;
+  name: string;
+  status: ProjectStatus;
+  priority: Priority;
+  progress: number;
+  owner: GraphQLUser | null;
+  members: GraphQLUser[];
+}
+
+export interface GraphQLUserWithProjects extends GraphQLUser {
+  projects: Array<Pick<GraphQLProject, 'id' | 'name' | 'status'>>;
+}
+
+export interface CreateGraphQLProjectInput {
+  name: string;
+  description?: string;
+  status?: ProjectStatus;
+  priority?: Priority;
+  tags?: string[];
+}
+
+export const USER_FIELDS = fragment(`
+  fragment UserFields on User {
+    id
+    name
+    email
+    role
+  }
+`);
+
+export const PROJECT_FIELDS = fragment(
+  `
+  fragment ProjectFields on Project {
+    id
+    name
+    status
+    priority
+    progress
+    owner { ...UserFields }
+    members { ...UserFields }
+  }
+`,
+  USER_FIELDS
+);
+
+export const graphQLUserSchema: Schema<GraphQLUser> = schema.object({
+  id: schema.string(),
+  name: schema.string(),
+  email: schema.string(),
+  role: schema.string(),
+});
+
+export const graphQLProjectSchema: Schema<GraphQLProject> = schema.object({
+  id: schema.string(),
+  name: schema.string(),
+  status: schema.literal('planning', 'active', 'completed', 'on-hold'),
+  priority: schema.literal('low', 'medium', 'high'),
+  progress: schema.number(),
+  owner: schema.nullable(graphQLUserSchema),
+  members: schema.array(graphQLUserSchema),
+});
+
+const GET_USER = gql<{ user: GraphQLUserWithProjects | null }, { id: string }>(
+  `
+  query GetUser($id: ID!) {
+    user(id: $id) {
+      ...UserFields
+      projects { id name status }
+    }
+  }
+`,
+  USER_FIELDS
+);
+
+const GET_USERS = gql<{ users: GraphQLUser[] }>(
+  `
+  query GetUsers {
+    users { ...UserFields }
+  }
+`,
+  USER_FIELDS
+);
+
+const GET_PROJECT = gql<{ project: GraphQLProject | null }, { id: string }>(
+  `
+  query GetProject($id: ID!) {
+    project(id: $id) { ...ProjectFields }
+  }
+`,
+  PROJECT_FIELDS
+);
+
+const GET_PROJECTS = gql<{ projects: GraphQLProject[] }, { status?: ProjectStatus }>(
+  `
+  query GetProjects($status: String) {
+    projects(status: $status) { ...ProjectFields }
+  }
+`,
+  PROJECT_FIELDS
+);
+
+const CREATE_PROJECT = gql<{ createProject: GraphQLProject }, { input: CreateGraphQLProjectInput }>(
+  `
+  mutation CreateProject($input: ProjectInput!) {
+    createProject(input: $input) { ...ProjectFields }
+  }
+`,
+  PROJECT_FIELDS
+);
+
+const UPDATE_PROJECT_STATUS = gql<{ updateProjectStatus: GraphQLProject }, { id: string; status: ProjectStatus }>(
+  `
+  mutation UpdateProjectStatus($id: ID!, $status: String!) {
+    updateProjectStatus(id: $id, status: $status) { ...ProjectFields }
+  }
+`,
+  PROJECT_FIELDS
+);
+
+export class TestAppGraphQLApi extends BaseGraphQLWrapper {
+  constructor(request: APIRequestContext, config?: Partial<GraphQLConfig>) {
+    const regularUser = TestDataManager.getInstance().getUser('regular');
+    const defaultConfig: GraphQLConfig = {
+      baseURL: process.env.BASE_URL || 'http://localhost:3000',
+      endpoint: '/graphql',
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      retries: 3,
+      provider: 'test-app',
+      auth: {
+        credentials: { email: regularUser.email, password: regularUser.password },
+      },
+    };
+
+    super(request, { ...defaultConfig, ...config });
+  }
+
+  /**
+   * Tokens come from the REST login endpoint
+   */
+  protected async login(credentials: ApiCredentials): Promise<AuthSession> {
+    return await new TestApiWrapper(this.request, { baseURL: this.config.baseURL, timeout: this.config.timeout })
+      .authenticate(credentials);
+  }
+
+  async getUser(id: number | string): Promise<GraphQLUserWithProjects | null> {
+    const data = await this.query(GET_USER, { id: String(id) });
+    return data.user;
+  }
+
+  async getUsers(): Promise<GraphQLUser[]> {
+    const data = await this.query(GET_USERS, undefined, {
+      schema: schema.object({ users: schema.array(graphQLUserSchema) }),
+    });
+    return data.users;
+  }
+
+  async getProject(id: number | string): Promise<GraphQLProject | null> {
+    const data = await this.query(GET_PROJECT, { id: String(id) }, {
+      schema: schema.object({ project: schema.nullable(graphQLProjectSchema) }),
+    });
+    return data.project;
+  }
+
+  async getProjects(status?: ProjectStatus): Promise<GraphQLProject[]> {
+    const data = await this.query(GET_PROJECTS, { status }, {
+      schema: schema.object({ projects: schema.array(graphQLProjectSchema) }),
+    });
+    return data.projects;
+  }
+
+  async createProject(input: CreateGraphQLProjectInput): Promise<GraphQLProject> {
+    const data = await this.mutate(CREATE_PROJECT, { input }, {
+      schema: schema.object({ createProject: graphQLProjectSchema }),
+    });
+    return data.createProject;
+  }
+
+  async updateProjectStatus(id: number | string, status: ProjectStatus): Promise<GraphQLProject> {
+    const data = await this.mutate(UPDATE_PROJECT_STATUS, { id: String(id), status }, {
+      schema: schema.object({ updateProjectStatus: graphQLProjectSchema }),
+    });
+    return data.updateProjectStatus;
+  }
+}
@@ -1,9 +1,75 @@
 import { Page, Locator, expect, BrowserContext } from '@playwright/test';
+import {
+  EventStreamClient,
+  EventStreamOptions,
+  StreamLog,
+  WebSocketClient,
+  WebSocketClientOptions,
+  eventToMessage,
+  frameToMessage,
+} from '../api/streams';
+import { NetworkProfile, NetworkProfileName, NetworkProfileOptions, applyNetworkProfile, clearNetworkProfile } from './network-profiles';
+import { LocatorStrategy, ResilientLocator, ResilientLocatorOptions } from './resilient-locator';
+import { DialogManager } from './dialog-manager';
 
 export interface PageConfig {
   timeout?: number;
   baseURL?: string;
   viewport?: { width: number; height: number };
+  /** Load state `waitForPageLoad` waits for (default: 'networkidle'); pages that keep a stream open never become network idle */
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+}
+
+interface RecordedEvent {
+  url: string;
+  type: string;
+  data: string;
+  id: string;
+}
+
+let eventSourceCaptures = 0;
+
+function matchesUrl(url: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url);
+}
+
+/**
+ * Runs in the page: makes every EventSource report its events to the binding
+ * Named events are reported once the page listens for them, plus 'message', 'open' and 'error'
+ */
+function recordEventSources(binding: string): void {
+  const OriginalEventSource = window.EventSource;
+  if (!OriginalEventSource) {
+    return;
+  }
+  const addEventListener = OriginalEventSource.prototype.addEventListener;
+  const recorded = new WeakMap<EventSource, Set<string>>();
+
+  const record = (source: EventSource, type: string) => {
+    const types = recorded.get(source) || new Set<string>();
+    if (types.has(type)) {
+      return;
+    }
+    recorded.set(source, types.add(type));
+    addEventListener.call(source, type, (event: Event) => {
+      const { data, lastEventId } = event as MessageEvent;
+      const report = (window as unknown as Record<string, (event: RecordedEvent) => void>)[binding];
+      report({ url: source.url, type, data: typeof data === 'string' ? data : '', id: lastEventId || '' });
+    });
+  };
+
+  OriginalEventSource.prototype.addEventListener = function (this: EventSource, ...args: Parameters<EventSource['addEventListener']>) {
+    record(this, args[0]);
+    addEventListener.apply(this, args);
+  } as EventSource['addEventListener'];
+
+  class RecordingEventSource extends OriginalEventSource {
+    constructor(url: string | URL, init?: EventSourceInit) {
+      super(url, init);
+      ['open', 'error', 'message'].forEach(type => record(this, type));
+    }
+  }
+  window.EventSource = RecordingEventSource;
 }
 
 export abstract class BasePage {
@@ -29,7 +95,7 @@ export abstract class BasePage {
   }
 
   async waitForPageLoad(): Promise<void> {
-    await this.page.waitForLoadState('networkidle');
+    await this.page.waitForLoadState(this.config.waitUntil || 'networkidle');
   }
 
   async reload(): Promise<void> {
@@ -149,14 +215,95 @@ export abstract class BasePage {
     await locator.setInputFiles(filePath);
   }
 
+  /**
+   * JavaScript dialogs of the page: expected ones are answered, any other fails the test
+   */
+  get dialogs(): DialogManager {
+    return DialogManager.for(this.page);
+  }
+
+  /**
+   * Expects one dialog from the next actions; `dialogs.expectDialog` also waits for it
+   */
   protected async handleDialog(accept: boolean = true, promptText?: string): Promise<void> {
-    this.page.on('dialog', async dialog => {
-      if (accept) {
-        await dialog.accept(promptText);
-      } else {
-        await dialog.dismiss();
+    this.dialogs.expectDialog({ response: accept ? 'accept' : 'dismiss', promptText });
+  }
+
+  /**
+   * Logs the frames, sent and received, of the page's WebSockets whose URL contains the string
+   * or matches the RegExp, from now on
+   */
+  captureWebSocket(urlPattern: string | RegExp): StreamLog {
+    const log = new StreamLog(`page WebSocket ${urlPattern}`);
+    this.page.on('websocket', socket => {
+      if (!matchesUrl(socket.url(), urlPattern)) {
+        return;
+      }
+      socket.on('framereceived', frame => log.push(frameToMessage(frame.payload, 'received')));
+      socket.on('framesent', frame => log.push(frameToMessage(frame.payload, 'sent')));
+    });
+    return log;
+  }
+
+  /**
+   * Logs the events the page's EventSources receive, including 'open' (again after each
+   * reconnect) and 'error'; call it before navigating, it takes effect in new documents
+   */
+  async captureEventSource(urlPattern: string | RegExp): Promise<StreamLog> {
+    const log = new StreamLog(`page EventSource ${urlPattern}`);
+    const binding = `__captureEventSource${++eventSourceCaptures}`;
+    await this.page.exposeBinding(binding, (_source, event: RecordedEvent) => {
+      if (matchesUrl(event.url, urlPattern)) {
+        log.push(eventToMessage(event.type, event.data, event.id || undefined));
       }
     });
+    await this.page.addInitScript(recordEventSources, binding);
+    return log;
+  }
+
+  /**
+   * Opens a Server-Sent Events stream from the test itself, next to the page's own;
+   * relative URLs resolve against the base URL, or the page
+   */
+  async openEventStream<T = unknown>(url: string, options?: EventStreamOptions): Promise<EventStreamClient<T>> {
+    return await EventStreamClient.open<T>(this.resolveUrl(url), options);
+  }
+
+  /**
+   * Opens a WebSocket from the test itself; http(s) URLs are turned into ws(s)
+   */
+  async openWebSocket<T = unknown>(url: string, options?: WebSocketClientOptions): Promise<WebSocketClient<T>> {
+    const resolved = new URL(this.resolveUrl(url));
+    resolved.protocol = resolved.protocol.replace(/^http/, 'ws');
+    return await WebSocketClient.open<T>(resolved.toString(), options);
+  }
+
+  /**
+   * Emulates network conditions for the page, e.g. 'offline', 'slow-3g' or 'flaky', optionally only
+   * for some URLs; see network-profiles.ts
+   */
+  async applyNetworkProfile(profile: NetworkProfileName | NetworkProfile, options?: NetworkProfileOptions): Promise<void> {
+    await applyNetworkProfile(this.page, profile, options);
+  }
+
+  async clearNetworkProfile(): Promise<void> {
+    await clearNetworkProfile(this.page);
+  }
+
+  /**
+   * Element found by the first strategy of the chain that matches, e.g. a test id, then a role, then CSS;
+   * fallbacks that match are reported as locator drift, see resilient-locator.ts
+   */
+  protected resilientLocator(name: string, strategies: LocatorStrategy[], options?: ResilientLocatorOptions): ResilientLocator {
+    return new ResilientLocator(this.page, name, strategies, {
+      timeout: this.config.timeout,
+      owner: this.constructor.name,
+      ...options,
+    });
+  }
+
+  protected resolveUrl(url: string): string {
+    return new URL(url, this.config.baseURL || this.page.url()).toString();
   }
 
   protected async waitForResponse(urlPattern: string | RegExp, timeout?: number): Promise<void> {
@@ -0,0 +1,79 @@
+import { Page } from '@playwright/test';
+import { Modal } from '../modal';
+import { Form, FormFields } from '../form';
+import { Priority, ProjectStatus } from '../../../api/projects-api';
+
+export interface ProjectFormData {
+  name: string;
+  description?: string;
+  status?: ProjectStatus;
+  priority?: Priority;
+  budget?: number;
+}
+
+export interface TaskFormData {
+  title: string;
+  description?: string;
+  /** Name of the project, as listed in the project select */
+  project?: string;
+  /** Name of the assignee, as listed in the assignee select */
+  assignee?: string;
+  priority?: Priority;
+  /** Due date as YYYY-MM-DD */
+  dueDate?: string;
+}
+
+const PROJECT_FIELDS: FormFields<ProjectFormData> = {
+  name: 'project-name-input',
+  description: 'project-description-input',
+  status: { testId: 'project-status-input', kind: 'select' },
+  priority: { testId: 'project-priority-input', kind: 'select' },
+  budget: 'project-budget-input',
+};
+
+const TASK_FIELDS: FormFields<TaskFormData> = {
+  title: 'task-title-input',
+  description: 'task-description-input',
+  project: { testId: 'task-project-input', kind: 'select-label' },
+  assignee: { testId: 'task-assignee-input', kind: 'select-label' },
+  priority: { testId: 'task-priority-input', kind: 'select' },
+  dueDate: 'task-due-date-input',
+};
+
+export class CreateProjectModal extends Modal {
+  static readonly FIELDS = Object.values(PROJECT_FIELDS).map(field => typeof field === 'string' ? field : field.testId);
+
+  readonly form: Form<ProjectFormData>;
+
+  constructor(page: Page) {
+    super(page, 'create-project-modal', { submitTestId: 'submit-project-btn' });
+    this.form = new Form(page, '[data-testid="create-project-modal"]', PROJECT_FIELDS, 'submit-project-btn');
+  }
+
+  async fill(project: Partial<ProjectFormData>): Promise<void> {
+    await this.form.fill(project);
+  }
+
+  async getName(): Promise<string> {
+    return await this.form.field('name').inputValue();
+  }
+}
+
+export class CreateTaskModal extends Modal {
+  static readonly FIELDS = Object.values(TASK_FIELDS).map(field => typeof field === 'string' ? field : field.testId);
+
+  readonly form: Form<TaskFormData>;
+
+  constructor(page: Page) {
+    super(page, 'create-task-modal', { submitTestId: 'submit-task-btn' });
+    this.form = new Form(page, '[data-testid="create-task-modal"]', TASK_FIELDS, 'submit-task-btn');
+  }
+
+  /**
+   * Fills the form; the project and assignee selects are loaded after the modal opens,
+   * so selecting them waits for their options
+   */
+  async fill(task: Partial<TaskFormData>): Promise<void> {
+    await this.form.fill(task);
+  }
+}
@@ -0,0 +1,224 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { DataTable, DataTableRow } from '../data-table';
+import { DialogManager } from '../../dialog-manager';
+import { ProjectStatus } from '../../../api/projects-api';
+import { TaskStatus } from '../../../api/tasks-api';
+
+/**
+ * Table of a dashboard section; its cells carry `<entity>-<field>-<id>` test ids,
+ * e.g. `project-status-3`, and its action buttons `<action>-<entity>-<id>`
+ */
+export abstract class DashboardTable<TRow extends DataTableRow = DataTableRow> extends DataTable<TRow> {
+  constructor(page: Page, section: string, entity: string, keyField: string) {
+    super(page, `[data-testid="${section}-section"]`, { body: `[data-testid="${section}-table-tbody"]`, entity, keyField });
+  }
+}
+
+export interface ProjectRow extends DataTableRow {
+  name: string;
+  description: string;
+  status: string;
+  priority: string;
+  /** e.g. '45%' */
+  progress: string;
+  /** e.g. '$50,000' */
+  budget: string;
+}
+
+export interface TaskRow extends DataTableRow {
+  title: string;
+  /** e.g. 'Project #2' */
+  project: string;
+  /** e.g. 'User #1' */
+  assignee: string;
+  status: string;
+  priority: string;
+  dueDate: string;
+}
+
+export interface UserRow extends DataTableRow {
+  name: string;
+  email: string;
+  role: string;
+  department: string;
+  lastLogin: string;
+}
+
+export interface ReportRow extends DataTableRow {
+  name: string;
+  type: string;
+  generated: string;
+  generatedBy: string;
+}
+
+export class ProjectsTable extends DashboardTable<ProjectRow> {
+  private readonly statusFilter: Locator;
+  private readonly createButton: Locator;
+  private readonly previousPageButton: Locator;
+  private readonly nextPageButton: Locator;
+  private readonly pageInfo: Locator;
+
+  constructor(page: Page) {
+    super(page, 'projects', 'project', 'name');
+    this.statusFilter = this.getChildLocator('[data-testid="project-status-filter"]');
+    this.createButton = this.getChildLocator('[data-testid="create-project-btn"]');
+    this.previousPageButton = this.getChildLocator('[data-testid="projects-prev-page"]');
+    this.nextPageButton = this.getChildLocator('[data-testid="projects-next-page"]');
+    this.pageInfo = this.getChildLocator('[data-testid="projects-page-info"]');
+  }
+
+  /**
+   * Filters by status, or shows every project for '', and waits for the first page
+   */
+  async filterByStatus(status: ProjectStatus | ''): Promise<void> {
+    await this.filterBy(this.statusFilter, status, '/api/projects');
+  }
+
+  async openCreateModal(): Promise<void> {
+    await this.createButton.click();
+  }
+
+  /**
+   * Opens the project modal filled with the project
+   */
+  async editProject(id: number): Promise<void> {
+    await this.clickRowAction('edit', id);
+  }
+
+  /**
+   * Deletes the project, accepting the confirmation dialog
+   */
+  async deleteProject(id: number): Promise<void> {
+    const confirmed = DialogManager.for(this.page).expectDialog({ type: 'confirm', message: 'delete this project' });
+    await this.clickRowAction('delete', id);
+    await confirmed;
+    await expect(this.cell(id, 'name')).toHaveCount(0);
+  }
+
+  async nextPage(): Promise<void> {
+    await this.nextPageButton.click();
+  }
+
+  async previousPage(): Promise<void> {
+    await this.previousPageButton.click();
+  }
+
+  /** Current page and number of pages from the "Page 1 of 3" label */
+  async getPageInfo(): Promise<{ page: number; totalPages: number }> {
+    const [, page, totalPages] = (await this.pageInfo.textContent() || '').match(/Page (\d+) of (\d+)/) || [];
+    return { page: Number(page || 0), totalPages: Number(totalPages || 0) };
+  }
+
+  async expectPage(page: number, totalPages?: number): Promise<void> {
+    await expect(this.pageInfo).toContainText(totalPages === undefined ? `Page ${page} of` : `Page ${page} of ${totalPages}`);
+    if (page === 1) {
+      await expect(this.previousPageButton).toBeDisabled();
+    } else {
+      await expect(this.previousPageButton).toBeEnabled();
+    }
+    if (totalPages !== undefined) {
+      if (page === totalPages) {
+        await expect(this.nextPageButton).toBeDisabled();
+      } else {
+        await expect(this.nextPageButton).toBeEnabled();
+      }
+    }
+  }
+}
+
+export class TasksTable extends DashboardTable<TaskRow> {
+  private readonly statusFilter: Locator;
+  private readonly createButton: Locator;
+
+  constructor(page: Page) {
+    super(page, 'tasks', 'task', 'title');
+    this.statusFilter = this.getChildLocator('[data-testid="task-status-filter"]');
+    this.createButton = this.getChildLocator('[data-testid="create-task-btn"]');
+  }
+
+  /**
+   * Filters by status, or shows every task for '', and waits for the tasks
+   */
+  async filterByStatus(status: TaskStatus | ''): Promise<void> {
+    await this.filterBy(this.statusFilter, status, '/api/tasks');
+  }
+
+  async openCreateModal(): Promise<void> {
+    await this.createButton.click();
+  }
+
+  async completeTask(id: number): Promise<void> {
+    await this.clickRowAction('complete', id);
+    await expect(this.cell(id, 'status')).toHaveText('completed');
+  }
+}
+
+export class UsersTable extends DashboardTable<UserRow> {
+  private readonly addButton: Locator;
+
+  constructor(page: Page) {
+    super(page, 'users', 'user', 'name');
+    this.addButton = this.getChildLocator('[data-testid="add-user-btn"]');
+  }
+
+  async clickAddUser(): Promise<void> {
+    await this.addButton.click();
+  }
+
+  async expectAddUserAvailable(): Promise<void> {
+    await expect(this.addButton).toBeVisible();
+    await expect(this.addButton).toBeEnabled();
+  }
+
+  async viewUser(id: number): Promise<void> {
+    await this.clickRowAction('view', id);
+  }
+
+  async editUser(id: number): Promise<void> {
+    await this.clickRowAction('edit', id);
+  }
+}
+
+/** Performance and financial figures shown above the reports table */
+export type ReportMetric =
+  | 'team-productivity'
+  | 'on-time-delivery'
+  | 'quality-score'
+  | 'total-budget'
+  | 'amount-spent'
+  | 'remaining-budget';
+
+export class ReportsTable extends DashboardTable<ReportRow> {
+  private readonly generateButton: Locator;
+
+  constructor(page: Page) {
+    super(page, 'reports', 'report', 'name');
+    this.generateButton = this.getChildLocator('[data-testid="generate-report-btn"]');
+  }
+
+  async generateReport(): Promise<void> {
+    await this.generateButton.click();
+  }
+
+  async expectGenerateAvailable(): Promise<void> {
+    await expect(this.generateButton).toBeVisible();
+    await expect(this.generateButton).toBeEnabled();
+  }
+
+  metric(metric: ReportMetric): Locator {
+    return this.getChildLocator(`[data-testid="${metric}"]`);
+  }
+
+  async getMetric(metric: ReportMetric): Promise<string> {
+    await expect(this.metric(metric)).toBeVisible();
+    return (await this.metric(metric).textContent() || '').trim();
+  }
+
+  async viewReport(id: number): Promise<void> {
+    await this.clickRowAction('view', id);
+  }
+
+  async downloadReport(id: number): Promise<void> {
+    await this.clickRowAction('download', id);
+  }
+}
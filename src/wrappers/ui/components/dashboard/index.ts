@@ -0,0 +1,18 @@
+export { Sidebar, DashboardSection, DASHBOARD_SECTIONS } from './sidebar';
+export { NotificationsDropdown } from './notifications-dropdown';
+export { UserMenu } from './user-menu';
+export {
+  DashboardTable,
+  ProjectsTable,
+  TasksTable,
+  UsersTable,
+  ReportsTable,
+  ReportMetric,
+  ProjectRow,
+  TaskRow,
+  UserRow,
+  ReportRow,
+} from './dashboard-tables';
+export { CreateProjectModal, CreateTaskModal, ProjectFormData, TaskFormData } from './dashboard-modals';
+export { SettingsSection, DashboardPreferences } from './settings-section';
+export { ProfileSection, ProfileFormData } from './profile-section';
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { Dropdown } from '../dropdown';
+
+/**
+ * Notification bell of the dashboard header with its unread badge and dropdown
+ * The badge follows the live notification stream, so it can change while a test runs
+ */
+export class NotificationsDropdown extends Dropdown {
+  private readonly badge: Locator;
+
+  constructor(page: Page) {
+    super(page, '[data-testid="notifications-btn"]', {
+      trigger: '.notification-bell',
+      menu: '[data-testid="notifications-dropdown"]',
+      item: '.notification-item',
+      openClass: 'show',
+    });
+    this.badge = this.getChildLocator('[data-testid="notification-badge"]');
+  }
+
+  notification(id: number): Locator {
+    return this.menu.locator(`[data-testid="notification-${id}"]`);
+  }
+
+  async getBadgeCount(): Promise<number> {
+    return parseInt(await this.badge.textContent() || '0', 10);
+  }
+
+  async expectBadgeCount(count: number): Promise<void> {
+    await expect(this.badge).toHaveText(String(count));
+  }
+
+  async expectNotification(id: number, read?: boolean): Promise<void> {
+    await this.open();
+    await expect(this.notification(id)).toBeVisible();
+    if (read !== undefined) {
+      await expect(this.notification(id)).toHaveClass(read ? /\bread\b/ : /\bunread\b/);
+    }
+  }
+
+  async markAsRead(id: number): Promise<void> {
+    await this.open();
+    await Promise.all([
+      this.page.waitForResponse(response => response.url().endsWith(`/api/notifications/${id}/read`)),
+      this.notification(id).click(),
+    ]);
+  }
+}
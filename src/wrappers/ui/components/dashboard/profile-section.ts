@@ -0,0 +1,76 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+import { Form } from '../form';
+
+export interface ProfileFormData {
+  name?: string;
+  email?: string;
+  phone?: string;
+  department?: string;
+  location?: string;
+}
+
+/**
+ * Profile section of the dashboard, filled with the signed-in user
+ */
+export class ProfileSection extends BaseComponent {
+  readonly form: Form<ProfileFormData>;
+  private readonly updateButton: Locator;
+
+  constructor(page: Page) {
+    super(page, '[data-testid="profile-section"]');
+    this.form = new Form<ProfileFormData>(page, '[data-testid="profile-section"]', {
+      name: 'profile-name',
+      email: 'profile-email',
+      phone: 'profile-phone',
+      department: 'profile-department',
+      location: 'profile-location',
+    }, 'update-profile-btn');
+    this.updateButton = this.getChildLocator('[data-testid="update-profile-btn"]');
+  }
+
+  field(name: keyof ProfileFormData): Locator {
+    return this.form.field(name);
+  }
+
+  /** Label of a field, e.g. to check the form is accessible */
+  label(name: keyof ProfileFormData): Locator {
+    return this.getChildLocator(`label[for="profile${name.charAt(0).toUpperCase()}${name.slice(1)}"]`);
+  }
+
+  async expectFields(): Promise<void> {
+    await this.form.expectFields();
+    await expect(this.updateButton).toBeEnabled();
+  }
+
+  async getProfile(): Promise<Required<ProfileFormData>> {
+    return await this.form.getValues();
+  }
+
+  async fill(profile: ProfileFormData): Promise<void> {
+    await this.form.fill(profile);
+  }
+
+  /**
+   * Changes the given fields and saves the profile; invalid fields are left to the browser's
+   * validation, which keeps the form from being sent
+   */
+  async updateProfile(profile: ProfileFormData): Promise<void> {
+    await this.fill(profile);
+    await this.submit();
+  }
+
+  async submit(): Promise<void> {
+    await this.form.submit();
+  }
+
+  /** Message of the browser's validation of a field, empty when it is valid */
+  async getValidationMessage(name: keyof ProfileFormData): Promise<string> {
+    return await this.form.getValidationMessage(name);
+  }
+
+  /** Validation messages of the invalid fields */
+  async getValidationErrors(): Promise<Partial<Record<keyof ProfileFormData, string>>> {
+    return await this.form.getValidationErrors();
+  }
+}
@@ -0,0 +1,76 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+import { Form } from '../form';
+
+export interface DashboardPreferences {
+  theme?: 'light' | 'dark';
+  language?: 'en' | 'es' | 'fr';
+  timezone?: 'EST' | 'CST' | 'PST';
+  notifications?: boolean;
+}
+
+/**
+ * Settings section of the dashboard: user preferences and account actions
+ */
+export class SettingsSection extends BaseComponent {
+  readonly form: Form<DashboardPreferences>;
+  private readonly saveButton: Locator;
+  private readonly changePasswordButton: Locator;
+  private readonly exportDataButton: Locator;
+  private readonly deleteAccountButton: Locator;
+
+  constructor(page: Page) {
+    super(page, '[data-testid="settings-section"]');
+    this.form = new Form<DashboardPreferences>(page, '[data-testid="settings-section"]', {
+      theme: { testId: 'theme-select', kind: 'select' },
+      language: { testId: 'language-select', kind: 'select' },
+      timezone: { testId: 'timezone-select', kind: 'select' },
+      notifications: { testId: 'notifications-enabled', kind: 'checkbox' },
+    }, 'save-preferences-btn');
+    this.saveButton = this.getChildLocator('[data-testid="save-preferences-btn"]');
+    this.changePasswordButton = this.getChildLocator('[data-testid="change-password-btn"]');
+    this.exportDataButton = this.getChildLocator('[data-testid="export-data-btn"]');
+    this.deleteAccountButton = this.getChildLocator('[data-testid="delete-account-btn"]');
+  }
+
+  async expectForm(): Promise<void> {
+    await this.form.expectFields();
+    await expect(this.saveButton).toBeEnabled();
+  }
+
+  /**
+   * Preferences as the form shows them, once they are loaded from the server
+   */
+  async getPreferences(): Promise<Required<DashboardPreferences>> {
+    return await this.form.getValues() as Required<DashboardPreferences>;
+  }
+
+  async expectPreferences(preferences: DashboardPreferences): Promise<void> {
+    await this.form.expectValues(preferences);
+  }
+
+  /**
+   * Changes the given preferences, leaving the others as they are, and saves them
+   */
+  async savePreferences(preferences: DashboardPreferences): Promise<void> {
+    await this.form.fill(preferences);
+    await Promise.all([
+      this.page.waitForResponse(response => response.url().endsWith('/api/settings/preferences') && response.request().method() === 'PUT'),
+      this.form.submit(),
+    ]);
+  }
+
+  async expectAccountActions(): Promise<void> {
+    await expect(this.changePasswordButton).toBeVisible();
+    await expect(this.exportDataButton).toBeVisible();
+    await expect(this.deleteAccountButton).toBeVisible();
+  }
+
+  async changePassword(): Promise<void> {
+    await this.changePasswordButton.click();
+  }
+
+  async exportData(): Promise<void> {
+    await this.exportDataButton.click();
+  }
+}
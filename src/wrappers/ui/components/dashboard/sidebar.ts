@@ -0,0 +1,54 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+export type DashboardSection = 'overview' | 'projects' | 'tasks' | 'users' | 'reports' | 'settings' | 'profile';
+
+export const DASHBOARD_SECTIONS: DashboardSection[] = ['overview', 'projects', 'tasks', 'users', 'reports', 'settings', 'profile'];
+
+/**
+ * Sidebar navigation of the dashboard, collapsed by the menu toggle of the header
+ */
+export class Sidebar extends BaseComponent {
+  private readonly menuToggle: Locator;
+
+  constructor(page: Page) {
+    super(page, '#sidebar');
+    this.menuToggle = page.locator('[data-testid="menu-toggle"]');
+  }
+
+  navLink(section: DashboardSection): Locator {
+    return this.getChildLocator(`[data-testid="nav-${section}"]`);
+  }
+
+  async navigateTo(section: DashboardSection): Promise<void> {
+    await this.navLink(section).click();
+    await expect(this.page.locator(`[data-testid="${section}-section"]`)).toBeVisible();
+  }
+
+  async expectActive(section: DashboardSection): Promise<void> {
+    await expect(this.navLink(section)).toHaveClass(/active/);
+  }
+
+  async toggle(): Promise<void> {
+    await this.menuToggle.click();
+  }
+
+  async isCollapsed(): Promise<boolean> {
+    return /\bcollapsed\b/.test(await this.rootLocator.getAttribute('class') || '');
+  }
+
+  async expectCollapsed(collapsed: boolean = true): Promise<void> {
+    if (collapsed) {
+      await expect(this.rootLocator).toHaveClass(/collapsed/);
+    } else {
+      await expect(this.rootLocator).not.toHaveClass(/collapsed/);
+    }
+  }
+
+  /**
+   * On narrow viewports the sidebar starts collapsed and the toggle shows it on top of the content
+   */
+  async expectShown(): Promise<void> {
+    await expect(this.rootLocator).toHaveClass(/show/);
+  }
+}
@@ -0,0 +1,43 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+/**
+ * Signed-in user of the dashboard header with the logout button
+ */
+export class UserMenu extends BaseComponent {
+  private readonly avatar: Locator;
+  private readonly userName: Locator;
+  private readonly logoutButton: Locator;
+
+  constructor(page: Page) {
+    super(page, '[data-testid="user-menu"]');
+    this.avatar = this.getChildLocator('[data-testid="user-avatar"]');
+    this.userName = this.getChildLocator('[data-testid="current-user-name"]');
+    this.logoutButton = this.getChildLocator('[data-testid="logout-btn"]');
+  }
+
+  async getUserName(): Promise<string> {
+    return (await this.userName.textContent() || '').trim();
+  }
+
+  async getInitials(): Promise<string> {
+    return (await this.avatar.textContent() || '').trim();
+  }
+
+  async expectUserName(name: string | RegExp): Promise<void> {
+    await expect(this.userName).toHaveText(name);
+  }
+
+  async expectLogoutAvailable(): Promise<void> {
+    await expect(this.logoutButton).toBeVisible();
+    await expect(this.logoutButton).toBeEnabled();
+  }
+
+  /**
+   * Logs out and waits for the login page
+   */
+  async logout(): Promise<void> {
+    await this.logoutButton.click();
+    await this.page.waitForURL(url => url.pathname === '/');
+  }
+}
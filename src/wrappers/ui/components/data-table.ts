@@ -0,0 +1,190 @@
+import { Page, Locator, Response, expect } from '@playwright/test';
+import { BaseComponent } from './base-component';
+
+/** Row of a `DataTable`; the other properties are the texts of its cells */
+export interface DataTableRow {
+  id: number;
+}
+
+export interface DataTableOptions {
+  /** Table body, relative to the root */
+  body: string;
+  /** Entity of the cell and action test ids, e.g. 'project' for `project-name-3` and `edit-project-3` */
+  entity: string;
+  /** Field naming a row, e.g. 'name' or 'title' */
+  keyField: string;
+}
+
+export type SortDirection = 'ascending' | 'descending';
+
+/**
+ * Converts the field of a cell test id into a row property, e.g. 'due-date' into 'dueDate'
+ */
+function toRowKey(field: string): string {
+  return field.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Table whose cells carry `<entity>-<field>-<id>` test ids and whose row actions carry
+ * `<action>-<entity>-<id>` test ids; rows are extracted as objects keyed by field, e.g.
+ * `{ id: 3, name: 'Apollo', dueDate: '2025-01-31' }` for `project-name-3` and `project-due-date-3`
+ */
+export class DataTable<TRow extends DataTableRow = DataTableRow> extends BaseComponent {
+  protected readonly body: Locator;
+  protected readonly entity: string;
+  private readonly keyField: string;
+
+  constructor(page: Page, rootSelector: string, options: DataTableOptions) {
+    super(page, rootSelector);
+    this.body = this.getChildLocator(options.body);
+    this.entity = options.entity;
+    this.keyField = options.keyField;
+  }
+
+  get rows(): Locator {
+    return this.body.locator('tr');
+  }
+
+  row(id: number): Locator {
+    return this.rows.filter({ has: this.cell(id, this.keyField) });
+  }
+
+  cell(id: number, field: string): Locator {
+    return this.body.locator(`[data-testid="${this.entity}-${field}-${id}"]`);
+  }
+
+  rowAction(action: string, id: number): Locator {
+    return this.body.locator(`[data-testid="${action}-${this.entity}-${id}"]`);
+  }
+
+  async waitForRows(): Promise<void> {
+    await this.rows.first().waitFor({ state: 'visible' });
+  }
+
+  async getRowCount(): Promise<number> {
+    return await this.rows.count();
+  }
+
+  async getHeaders(): Promise<string[]> {
+    return (await this.getChildLocator('thead th').allTextContents()).map(text => text.trim());
+  }
+
+  async getCellText(id: number, field: string): Promise<string> {
+    return (await this.cell(id, field).textContent() || '').trim();
+  }
+
+  /**
+   * Rows as shown, in order; rows without cell test ids, such as "No projects found", are left out
+   */
+  async getRows(): Promise<TRow[]> {
+    const pattern = `^${this.entity}-(.+)-(\\d+)$`;
+    const rows = await this.rows.evaluateAll((rows, pattern) => rows.map(row => {
+      const cells: [string, string, number][] = [];
+      row.querySelectorAll('[data-testid]').forEach(element => {
+        const match = (element.getAttribute('data-testid') || '').match(new RegExp(pattern));
+        if (match) {
+          cells.push([match[1], (element.textContent || '').trim(), Number(match[2])]);
+        }
+      });
+      return cells;
+    }), pattern);
+
+    return rows.filter(cells => cells.length > 0).map(cells => {
+      const row: Record<string, string | number> = { id: cells[0][2] };
+      for (const [field, text] of cells) {
+        row[toRowKey(field)] = text;
+      }
+      return row as unknown as TRow;
+    });
+  }
+
+  async getRow(id: number): Promise<TRow | undefined> {
+    return (await this.getRows()).find(row => row.id === id);
+  }
+
+  /**
+   * Id of the newest row whose name (or title) is exactly this text
+   */
+  async findRowId(name: string): Promise<number | undefined> {
+    const prefix = `${this.entity}-${this.keyField}-`;
+    const cells = await this.body.locator(`[data-testid^="${prefix}"]`).evaluateAll(
+      (elements, prefix) => elements.map(element => ({
+        id: Number((element.getAttribute('data-testid') || '').slice(prefix.length)),
+        text: (element.textContent || '').trim(),
+      })),
+      prefix
+    );
+    const ids = cells.filter(cell => cell.text === name).map(cell => cell.id);
+    return ids.length > 0 ? Math.max(...ids) : undefined;
+  }
+
+  async getRowIdOrThrow(name: string): Promise<number> {
+    const id = await this.findRowId(name);
+    if (id === undefined) {
+      throw new Error(`No ${this.entity} named "${name}" in the table`);
+    }
+    return id;
+  }
+
+  async expectRow(name: string): Promise<void> {
+    await expect(this.body.locator(`[data-testid^="${this.entity}-${this.keyField}-"]`, { hasText: name }).first()).toBeVisible();
+  }
+
+  async expectNoRow(name: string): Promise<void> {
+    await expect(this.body.locator(`[data-testid^="${this.entity}-${this.keyField}-"]`, { hasText: name })).toHaveCount(0);
+  }
+
+  /** Text of the same column in every row, e.g. all statuses */
+  async getColumn(field: string): Promise<string[]> {
+    return (await this.body.locator(`[data-testid^="${this.entity}-${field}-"]`).allTextContents()).map(text => text.trim());
+  }
+
+  /**
+   * Text of the column under a header in every row, for columns whose cells have no test id
+   */
+  async getColumnByHeader(header: string): Promise<string[]> {
+    const index = (await this.getHeaders()).indexOf(header);
+    if (index === -1) {
+      throw new Error(`No column "${header}" in the ${this.entity} table`);
+    }
+    return (await this.rows.locator(`td:nth-child(${index + 1})`).allTextContents()).map(text => text.trim());
+  }
+
+  /**
+   * Sorts by a sortable header, clicking it until its `aria-sort` has the direction
+   */
+  async sortBy(header: string, direction: SortDirection = 'ascending'): Promise<void> {
+    const headerCell = this.getChildLocator('thead th').filter({ hasText: header });
+    for (let clicks = 0; clicks < 2 && await headerCell.getAttribute('aria-sort') !== direction; clicks++) {
+      await headerCell.click();
+    }
+    await expect(headerCell).toHaveAttribute('aria-sort', direction);
+  }
+
+  /**
+   * Checks that the rows are in order of a field, e.g. after sorting or for a list the server sorted
+   */
+  async expectSortedBy(
+    field: string,
+    direction: SortDirection = 'ascending',
+    compare: (a: string, b: string) => number = (a, b) => a.localeCompare(b, undefined, { numeric: true })
+  ): Promise<void> {
+    const values = await this.getColumn(field);
+    const sorted = [...values].sort((a, b) => direction === 'ascending' ? compare(a, b) : compare(b, a));
+    expect(values, `${this.entity} rows sorted by ${field}, ${direction}`).toEqual(sorted);
+  }
+
+  /**
+   * Selects a filter of the table and waits for the list it reloads, e.g. GET /api/projects
+   */
+  async filterBy(filter: string | Locator, value: string, listPath: string): Promise<void> {
+    const select = typeof filter === 'string' ? this.getChildLocator(filter) : filter;
+    const isList = (response: Response) =>
+      response.request().method() === 'GET' && new URL(response.url()).pathname === listPath;
+    await Promise.all([this.page.waitForResponse(isList), select.selectOption(value)]);
+  }
+
+  async clickRowAction(action: string, id: number): Promise<void> {
+    await this.rowAction(action, id).click();
+  }
+}
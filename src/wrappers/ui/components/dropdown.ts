@@ -0,0 +1,91 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from './base-component';
+
+export interface DropdownOptions {
+  /** Element toggling the menu, relative to the root; the root itself when omitted */
+  trigger?: string;
+  /** Menu, relative to the root */
+  menu: string;
+  /** Items, relative to the menu */
+  item: string;
+  /** Class the menu has while open, e.g. 'show'; without it the menu is open while it is visible */
+  openClass?: string;
+}
+
+/**
+ * Menu opened by clicking a trigger and closed by clicking outside of it,
+ * e.g. the notifications of the dashboard or the user menu of the launchpad
+ */
+export class Dropdown extends BaseComponent {
+  protected readonly trigger: Locator;
+  protected readonly menu: Locator;
+  private readonly itemSelector: string;
+  private readonly openClass?: RegExp;
+
+  constructor(page: Page, rootSelector: string, options: DropdownOptions) {
+    super(page, rootSelector);
+    this.trigger = options.trigger ? this.getChildLocator(options.trigger) : this.rootLocator;
+    this.menu = this.getChildLocator(options.menu);
+    this.itemSelector = options.item;
+    this.openClass = options.openClass ? new RegExp(`\\b${options.openClass}\\b`) : undefined;
+  }
+
+  get items(): Locator {
+    return this.menu.locator(this.itemSelector);
+  }
+
+  item(text: string | RegExp): Locator {
+    return this.items.filter({ hasText: text });
+  }
+
+  async isOpen(): Promise<boolean> {
+    if (this.openClass) {
+      return this.openClass.test(await this.menu.getAttribute('class') || '');
+    }
+    return await this.menu.isVisible();
+  }
+
+  async open(): Promise<void> {
+    if (!(await this.isOpen())) {
+      await this.trigger.click();
+    }
+    await this.expectOpen();
+  }
+
+  /**
+   * Closes the menu by clicking outside of it, as a user would
+   */
+  async close(): Promise<void> {
+    await this.page.mouse.click(1, 1);
+    await this.expectClosed();
+  }
+
+  async expectOpen(): Promise<void> {
+    if (this.openClass) {
+      await expect(this.menu).toHaveClass(this.openClass);
+    } else {
+      await expect(this.menu).toBeVisible();
+    }
+  }
+
+  async expectClosed(): Promise<void> {
+    if (this.openClass) {
+      await expect(this.menu).not.toHaveClass(this.openClass);
+    } else {
+      await expect(this.menu).toBeHidden();
+    }
+  }
+
+  async getItems(): Promise<string[]> {
+    await this.open();
+    return (await this.items.allTextContents()).map(text => text.trim());
+  }
+
+  /**
+   * Opens the menu and clicks the item with this text
+   */
+  async select(text: string | RegExp): Promise<void> {
+    await this.open();
+    await this.item(text).first().click();
+  }
+}
@@ -0,0 +1,130 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from './base-component';
+
+/**
+ * How a field is filled: text inputs are filled, selects choose an option by value
+ * ('select') or by its label ('select-label'), checkboxes are checked or unchecked
+ */
+export type FormFieldKind = 'text' | 'select' | 'select-label' | 'checkbox';
+
+export interface FormField {
+  testId: string;
+  kind?: FormFieldKind;
+}
+
+/** Field of each property of the form data, a test id alone for text inputs */
+export type FormFields<T> = { [K in keyof T]-?: string | FormField };
+
+/** Values of a form as shown: checkboxes as booleans, every other field as text */
+export type FormValues<T> = { [K in keyof T]-?: NonNullable<T[K]> extends boolean ? boolean : string };
+
+/**
+ * Form whose fields carry test ids, filled from and read into a typed object,
+ * e.g. `new Form<ProfileFormData>(page, '[data-testid="profile-section"]', { name: 'profile-name', ... })`
+ */
+export class Form<T extends object> extends BaseComponent {
+  private readonly fields: FormFields<T>;
+  private readonly submitButton: Locator;
+
+  constructor(page: Page, rootSelector: string, fields: FormFields<T>, submitTestId?: string) {
+    super(page, rootSelector);
+    this.fields = fields;
+    this.submitButton = this.getChildLocator(submitTestId ? `[data-testid="${submitTestId}"]` : '[type="submit"]');
+  }
+
+  get names(): (keyof T)[] {
+    return Object.keys(this.fields) as (keyof T)[];
+  }
+
+  field(name: keyof T): Locator {
+    return this.getChildLocator(`[data-testid="${this.definition(name).testId}"]`);
+  }
+
+  async expectFields(): Promise<void> {
+    for (const name of this.names) {
+      await expect(this.field(name)).toBeVisible();
+    }
+  }
+
+  /**
+   * Fills the given fields, leaving the others as they are
+   */
+  async fill(data: Partial<T>): Promise<void> {
+    for (const name of this.names) {
+      const value = data[name];
+      if (value === undefined) {
+        continue;
+      }
+      const field = this.field(name);
+      switch (this.definition(name).kind || 'text') {
+        case 'checkbox':
+          await field.setChecked(Boolean(value));
+          break;
+        case 'select':
+          await field.selectOption(String(value));
+          break;
+        case 'select-label':
+          await field.selectOption({ label: String(value) });
+          break;
+        default:
+          await field.fill(String(value));
+      }
+    }
+  }
+
+  async getValues(): Promise<FormValues<T>> {
+    const values: Record<string, string | boolean> = {};
+    for (const name of this.names) {
+      values[name as string] = this.definition(name).kind === 'checkbox'
+        ? await this.field(name).isChecked()
+        : await this.field(name).inputValue();
+    }
+    return values as FormValues<T>;
+  }
+
+  async expectValues(data: Partial<T>): Promise<void> {
+    for (const name of this.names) {
+      const value = data[name];
+      if (value === undefined) {
+        continue;
+      }
+      if (this.definition(name).kind === 'checkbox') {
+        if (value) {
+          await expect(this.field(name)).toBeChecked();
+        } else {
+          await expect(this.field(name)).not.toBeChecked();
+        }
+      } else {
+        await expect(this.field(name)).toHaveValue(String(value));
+      }
+    }
+  }
+
+  async submit(): Promise<void> {
+    await this.submitButton.click();
+  }
+
+  /** Message of the browser's validation of a field, empty when it is valid */
+  async getValidationMessage(name: keyof T): Promise<string> {
+    return await this.field(name).evaluate(input => (input as HTMLInputElement).validationMessage);
+  }
+
+  /**
+   * Validation messages of the invalid fields; the browser keeps a form with any from being sent
+   */
+  async getValidationErrors(): Promise<Partial<Record<keyof T, string>>> {
+    const errors: Partial<Record<keyof T, string>> = {};
+    for (const name of this.names) {
+      const message = await this.getValidationMessage(name);
+      if (message) {
+        errors[name] = message;
+      }
+    }
+    return errors;
+  }
+
+  private definition(name: keyof T): FormField {
+    const field = this.fields[name];
+    return typeof field === 'string' ? { testId: field } : field;
+  }
+}
@@ -0,0 +1,88 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+/** Applications of the mock launchpad by name, with the test id prefix of their card */
+export const LAUNCHPAD_APPS = {
+  'Content Editor': 'content-editor',
+  'Experience Editor': 'experience-editor',
+  'Media Library': 'media-library',
+  'Marketing Automation': 'marketing-automation',
+  'Experience Analytics': 'analytics',
+  'User Manager': 'user-manager',
+} as const;
+
+export type LaunchpadAppName = keyof typeof LAUNCHPAD_APPS;
+
+export function isLaunchpadAppName(name: string): name is LaunchpadAppName {
+  return Object.prototype.hasOwnProperty.call(LAUNCHPAD_APPS, name);
+}
+
+/**
+ * Application card of the mock launchpad with its statistics, Open and Help buttons
+ */
+export class AppCard extends BaseComponent {
+  readonly name: LaunchpadAppName;
+  private readonly key: string;
+
+  constructor(page: Page, name: LaunchpadAppName) {
+    super(page, `[data-testid="${LAUNCHPAD_APPS[name]}-card"]`);
+    this.name = name;
+    this.key = LAUNCHPAD_APPS[name];
+  }
+
+  get root(): Locator {
+    return this.rootLocator;
+  }
+
+  async getTitle(): Promise<string> {
+    return (await this.getChildText('.card-title')).trim();
+  }
+
+  async getSubtitle(): Promise<string> {
+    return (await this.getChildText('.card-subtitle')).trim();
+  }
+
+  /** Statistics of the card by label, e.g. `{ Items: '1247', Templates: '89' }` */
+  async getStats(): Promise<Record<string, string>> {
+    const stats = await this.getChildLocator('.stat-item').evaluateAll(items => items.map(item => [
+      (item.querySelector('.stat-label')?.textContent || '').trim(),
+      (item.querySelector('.stat-value')?.textContent || '').trim(),
+    ]));
+    return Object.fromEntries(stats);
+  }
+
+  async expectDetails(subtitle: string | RegExp): Promise<void> {
+    await expect(this.getChildLocator('.card-title')).toContainText(this.name);
+    await expect(this.getChildLocator('.card-subtitle')).toContainText(subtitle);
+    await expect(this.getChildLocator('.stat-value')).toHaveCount(2);
+    await expect(this.getChildLocator(`[data-testid="open-${this.key}"]`)).toBeVisible();
+    await expect(this.getChildLocator(`[data-testid="${this.key}-help"]`)).toBeVisible();
+  }
+
+  /**
+   * Opens the application with the Open button
+   */
+  async open(): Promise<void> {
+    await this.clickChild(`[data-testid="open-${this.key}"]`);
+  }
+
+  /**
+   * Opens the application by clicking the card itself rather than one of its buttons
+   */
+  async click(): Promise<void> {
+    await this.clickChild('.card-title');
+  }
+
+  async hover(): Promise<void> {
+    await this.rootLocator.hover();
+  }
+
+  async showHelp(): Promise<void> {
+    await this.clickChild(`[data-testid="${this.key}-help"]`);
+  }
+
+  /** Cards fade in one after the other once the page has loaded */
+  async expectFadedIn(): Promise<void> {
+    await expect(this.rootLocator).toHaveClass(/fade-in/);
+  }
+}
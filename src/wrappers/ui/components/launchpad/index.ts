@@ -0,0 +1,5 @@
+export { AppCard, LAUNCHPAD_APPS, LaunchpadAppName, isLaunchpadAppName } from './app-card';
+export { StatsPanel, LaunchpadStat, parseStatValue } from './stats-panel';
+export { SearchSuggestions } from './search-suggestions';
+export { QuickActionsPanel, QuickAction, QUICK_ACTIONS } from './quick-actions-panel';
+export { RecentActivityFeed, LaunchpadActivity } from './recent-activity-feed';
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+export type QuickAction =
+  | 'Create Content Item'
+  | 'Upload Media'
+  | 'Publish Content'
+  | 'Preview Site'
+  | 'View Reports'
+  | 'System Settings';
+
+export const QUICK_ACTIONS: QuickAction[] = [
+  'Create Content Item',
+  'Upload Media',
+  'Publish Content',
+  'Preview Site',
+  'View Reports',
+  'System Settings',
+];
+
+/**
+ * Quick actions below the application cards of the mock launchpad
+ */
+export class QuickActionsPanel extends BaseComponent {
+  private readonly actions: Locator;
+
+  constructor(page: Page) {
+    super(page, '.quick-actions');
+    this.actions = this.getChildLocator('.quick-action');
+  }
+
+  action(action: QuickAction): Locator {
+    return this.actions.filter({ hasText: action });
+  }
+
+  async getActions(): Promise<string[]> {
+    return (await this.getChildLocator('.quick-action-text').allTextContents()).map(text => text.trim());
+  }
+
+  async expectActions(actions: QuickAction[] = QUICK_ACTIONS): Promise<void> {
+    await expect(this.getChildLocator('.quick-action-text')).toHaveText(actions);
+  }
+
+  async run(action: QuickAction): Promise<void> {
+    await this.action(action).click();
+  }
+}
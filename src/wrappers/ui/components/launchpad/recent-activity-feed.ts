@@ -0,0 +1,47 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+export interface LaunchpadActivity {
+  icon: string;
+  text: string;
+  time: string;
+}
+
+/**
+ * Recent activity list of the mock launchpad, newest first
+ */
+export class RecentActivityFeed extends BaseComponent {
+  private readonly items: Locator;
+
+  constructor(page: Page) {
+    super(page, '.recent-activity');
+    this.items = this.getChildLocator('[data-testid="activity-list"] .activity-item');
+  }
+
+  async getCount(): Promise<number> {
+    return await this.items.count();
+  }
+
+  async getActivities(): Promise<LaunchpadActivity[]> {
+    return await this.items.evaluateAll(items => items.map(item => ({
+      icon: (item.querySelector('.activity-icon')?.textContent || '').trim(),
+      text: (item.querySelector('.activity-text')?.textContent || '').trim(),
+      time: (item.querySelector('.activity-time')?.textContent || '').trim(),
+    })));
+  }
+
+  /**
+   * Checks that the feed lists activities, each with an icon, a text and a time
+   */
+  async expectActivities(): Promise<void> {
+    await expect(this.items.first()).toBeVisible();
+    const first = this.items.first();
+    for (const part of ['.activity-icon', '.activity-text', '.activity-time']) {
+      await expect(first.locator(part)).not.toBeEmpty();
+    }
+  }
+
+  async expectLatest(text: string | RegExp): Promise<void> {
+    await expect(this.items.first().locator('.activity-text')).toContainText(text);
+  }
+}
@@ -0,0 +1,63 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+/**
+ * Global search of the launchpad header; from three characters on it suggests matching applications
+ */
+export class SearchSuggestions extends BaseComponent {
+  private readonly input: Locator;
+  private readonly suggestions: Locator;
+
+  constructor(page: Page) {
+    super(page, '.search-container');
+    this.input = this.getChildLocator('[data-testid="global-search"]');
+    this.suggestions = this.getChildLocator('.search-suggestions .search-suggestion-item');
+  }
+
+  async type(term: string): Promise<void> {
+    await this.input.fill(term);
+  }
+
+  async clear(): Promise<void> {
+    await this.input.clear();
+  }
+
+  async getValue(): Promise<string> {
+    return await this.input.inputValue();
+  }
+
+  async expectValue(value: string): Promise<void> {
+    await expect(this.input).toHaveValue(value);
+  }
+
+  async getSuggestions(): Promise<string[]> {
+    return (await this.suggestions.allTextContents()).map(text => text.trim());
+  }
+
+  /**
+   * Waits for exactly these suggestions, in order; `[]` waits for none
+   */
+  async expectSuggestions(names: string[]): Promise<void> {
+    await expect(this.suggestions).toHaveText(names);
+  }
+
+  /**
+   * Picks a suggestion, which fills it in and searches for it
+   */
+  async select(name: string): Promise<void> {
+    await this.suggestions.filter({ hasText: name }).first().click();
+    await this.expectSuggestions([]);
+  }
+
+  /**
+   * Searches for the term with Enter
+   */
+  async search(term: string): Promise<void> {
+    await this.type(term);
+    await this.input.press('Enter');
+  }
+
+  async isFocused(): Promise<boolean> {
+    return await this.input.evaluate(input => input === document.activeElement);
+  }
+}
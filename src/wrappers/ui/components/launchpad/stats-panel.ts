@@ -0,0 +1,62 @@
+import { Page, Locator } from '@playwright/test';
+import { BaseComponent } from '../base-component';
+
+export type LaunchpadStat =
+  | 'content-items-count'
+  | 'templates-count'
+  | 'pages-count'
+  | 'variants-count'
+  | 'media-items-count'
+  | 'media-size'
+  | 'campaigns-count'
+  | 'contacts-count'
+  | 'page-views-count'
+  | 'visitors-count'
+  | 'users-count'
+  | 'roles-count';
+
+const MULTIPLIERS: Record<string, number> = { '': 1, K: 1000, M: 1000000 };
+
+/**
+ * Turns a displayed count such as '1,247' or '45.2K' into a number
+ */
+export function parseStatValue(value: string): number {
+  const match = value.trim().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)([KM]?)$/);
+  if (!match) {
+    throw new Error(`"${value}" is not a count`);
+  }
+  return Math.round(Number(match[1]) * MULTIPLIERS[match[2]]);
+}
+
+/**
+ * Statistics shown on the launchpad's application cards; the launchpad varies them a little
+ * on load and every 30 seconds, so compare them by range rather than exact value
+ */
+export class StatsPanel extends BaseComponent {
+  constructor(page: Page) {
+    super(page, '[data-testid="launchpad-grid"]');
+  }
+
+  stat(stat: LaunchpadStat): Locator {
+    return this.getChildLocator(`[data-testid="${stat}"]`);
+  }
+
+  async getStat(stat: LaunchpadStat): Promise<string> {
+    return (await this.getChildText(`[data-testid="${stat}"]`)).trim();
+  }
+
+  /**
+   * A count as a number; throws for statistics that are not counts, such as the media size
+   */
+  async getCount(stat: LaunchpadStat): Promise<number> {
+    return parseStatValue(await this.getStat(stat));
+  }
+
+  async getAll(): Promise<Record<LaunchpadStat, string>> {
+    const stats = await this.getChildLocator('.stat-value[data-testid]').evaluateAll(values => values.map(value => [
+      value.getAttribute('data-testid') || '',
+      (value.textContent || '').trim(),
+    ]));
+    return Object.fromEntries(stats) as Record<LaunchpadStat, string>;
+  }
+}
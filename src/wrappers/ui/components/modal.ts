@@ -0,0 +1,73 @@
+import { Page, Locator, Response, expect } from '@playwright/test';
+import { BaseComponent } from './base-component';
+
+export interface ModalOptions {
+  /** Test id of the submit button */
+  submitTestId?: string;
+  /** Close button, relative to the modal (default: the × of the dashboard modals, '.close') */
+  closeSelector?: string;
+}
+
+/**
+ * Modal dialog identified by its test id, e.g. `create-project-modal`
+ */
+export class Modal extends BaseComponent {
+  private readonly closeButton: Locator;
+  protected readonly submitButton: Locator;
+
+  constructor(page: Page, testId: string, options: ModalOptions = {}) {
+    super(page, `[data-testid="${testId}"]`);
+    this.closeButton = this.getChildLocator(options.closeSelector || '.close');
+    this.submitButton = this.getChildLocator(options.submitTestId ? `[data-testid="${options.submitTestId}"]` : '[type="submit"]');
+  }
+
+  /**
+   * Opens the modal with the element that shows it, e.g. a "New Project" button
+   */
+  async open(trigger: Locator): Promise<void> {
+    await trigger.click();
+    await this.expectOpen();
+  }
+
+  async isOpen(): Promise<boolean> {
+    return await this.rootLocator.isVisible();
+  }
+
+  async expectOpen(): Promise<void> {
+    await expect(this.rootLocator).toBeVisible();
+  }
+
+  async expectClosed(): Promise<void> {
+    await expect(this.rootLocator).toBeHidden();
+  }
+
+  async close(): Promise<void> {
+    await this.closeButton.click();
+    await this.expectClosed();
+  }
+
+  /**
+   * Submits the form as filled; required fields left empty keep the modal open
+   */
+  async submit(): Promise<void> {
+    await this.submitButton.click();
+  }
+
+  /**
+   * Submits and returns the response of the request it sends, e.g. `POST /api/projects`
+   */
+  async submitAndWaitForResponse(method: string, path: string): Promise<Response> {
+    const [response] = await Promise.all([
+      this.page.waitForResponse(response => response.request().method() === method && new URL(response.url()).pathname === path),
+      this.submit(),
+    ]);
+    return response;
+  }
+
+  /** Fields the modal shows, by test id */
+  async expectFields(testIds: string[]): Promise<void> {
+    for (const testId of testIds) {
+      await expect(this.getChildLocator(`[data-testid="${testId}"]`)).toBeVisible();
+    }
+  }
+}
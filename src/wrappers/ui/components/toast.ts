@@ -0,0 +1,54 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BaseComponent } from './base-component';
+
+export type ToastType = 'success' | 'error' | 'warning' | 'info';
+
+/**
+ * Short-lived messages appended to the page, e.g. the dashboard's `.toast.toast-success`;
+ * the type is a class made of a prefix and the type
+ */
+export class Toast extends BaseComponent {
+  private readonly typeClassPrefix: string;
+
+  constructor(page: Page, selector: string = '.toast', typeClassPrefix: string = 'toast-') {
+    super(page, selector);
+    this.typeClassPrefix = typeClassPrefix;
+  }
+
+  /** Toasts with this message and type, as far as given */
+  matching(message?: string | RegExp, type?: ToastType): Locator {
+    let toasts = type ? this.rootLocator.and(this.page.locator(`.${this.typeClassPrefix}${type}`)) : this.rootLocator;
+    if (message !== undefined) {
+      toasts = toasts.filter({ hasText: message });
+    }
+    return toasts;
+  }
+
+  /**
+   * Waits for a toast; toasts disappear after a few seconds, so wait right after the action showing it
+   */
+  async expectToast(message: string | RegExp, type?: ToastType): Promise<void> {
+    await expect(this.matching(message, type).first()).toBeVisible();
+  }
+
+  /**
+   * Waits for the next toast of a type and returns its message
+   */
+  async waitForToast(type?: ToastType, timeout?: number): Promise<string> {
+    const toast = this.matching(undefined, type).last();
+    await toast.waitFor({ state: 'visible', timeout });
+    return (await toast.textContent() || '').trim();
+  }
+
+  async expectNoToast(type?: ToastType): Promise<void> {
+    await expect(this.matching(undefined, type)).toHaveCount(0);
+  }
+
+  async waitForDismissed(message?: string | RegExp, timeout?: number): Promise<void> {
+    await expect(this.matching(message)).toHaveCount(0, { timeout });
+  }
+
+  async getMessages(type?: ToastType): Promise<string[]> {
+    return (await this.matching(undefined, type).allTextContents()).map(text => text.trim());
+  }
+}
@@ -0,0 +1,245 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage, PageConfig } from './base-page';
+import { TestLoginPage } from './test-login-page';
+import { Modal } from './components/modal';
+import { Toast } from './components/toast';
+import {
+  CreateProjectModal,
+  CreateTaskModal,
+  DashboardPreferences,
+  DashboardSection,
+  NotificationsDropdown,
+  ProfileFormData,
+  ProfileSection,
+  ProjectFormData,
+  ProjectsTable,
+  ReportsTable,
+  SettingsSection,
+  Sidebar,
+  TaskFormData,
+  TasksTable,
+  UserMenu,
+  UsersTable,
+} from './components/dashboard';
+import { ProjectStatus } from '../api/projects-api';
+import { TaskStatus } from '../api/tasks-api';
+
+export type DashboardCard = 'total-projects' | 'active-tasks' | 'team-members' | 'budget-utilization';
+
+/**
+ * Project management dashboard of the test-app at /dashboard
+ * Sections and widgets are components; the page offers the user's intents on top of them,
+ * e.g. `createProject({...})` opens the projects section and the modal, submits it and waits for the new project
+ */
+export class DashboardPage extends BasePage {
+  readonly sidebar: Sidebar;
+  readonly notifications: NotificationsDropdown;
+  readonly userMenu: UserMenu;
+  readonly projectsTable: ProjectsTable;
+  readonly tasksTable: TasksTable;
+  readonly usersTable: UsersTable;
+  readonly reportsTable: ReportsTable;
+  readonly createProjectModal: CreateProjectModal;
+  readonly createTaskModal: CreateTaskModal;
+  readonly settings: SettingsSection;
+  readonly profile: ProfileSection;
+  readonly toast: Toast;
+
+  private readonly overviewSection: Locator;
+  private readonly globalSearch: Locator;
+  private readonly liveStatus: Locator;
+  private readonly recentProjectsTable: Locator;
+  private readonly addProjectButton: Locator;
+  private readonly activityItems: Locator;
+
+  constructor(page: Page, config?: PageConfig) {
+    // The dashboard keeps its notification stream open, so it never becomes network idle
+    super(page, '/dashboard', { waitUntil: 'load', ...config });
+
+    this.sidebar = new Sidebar(page);
+    this.notifications = new NotificationsDropdown(page);
+    this.userMenu = new UserMenu(page);
+    this.projectsTable = new ProjectsTable(page);
+    this.tasksTable = new TasksTable(page);
+    this.usersTable = new UsersTable(page);
+    this.reportsTable = new ReportsTable(page);
+    this.createProjectModal = new CreateProjectModal(page);
+    this.createTaskModal = new CreateTaskModal(page);
+    this.settings = new SettingsSection(page);
+    this.profile = new ProfileSection(page);
+    this.toast = new Toast(page);
+
+    this.overviewSection = page.locator('[data-testid="overview-section"]');
+    this.globalSearch = page.locator('[data-testid="global-search"]');
+    this.liveStatus = page.locator('[data-testid="live-status"]');
+    this.recentProjectsTable = page.locator('[data-testid="recent-projects-table"]');
+    this.addProjectButton = page.locator('[data-testid="add-project-btn"]');
+    this.activityItems = page.locator('[data-testid="activity-item"]');
+  }
+
+  // Navigation and setup methods
+  /**
+   * Opens the dashboard and waits for the analytics of the overview cards
+   */
+  async navigateToDashboard(): Promise<void> {
+    await Promise.all([this.waitForResponse(/\/api\/analytics\/dashboard/), this.navigate()]);
+    await this.expectVisible(this.overviewSection);
+  }
+
+  /**
+   * Signs in on the login page, which leads to the launchpad, then opens the dashboard
+   */
+  async login(email: string, password: string): Promise<void> {
+    const loginPage = new TestLoginPage(this.page, this.config);
+    await loginPage.navigateToLogin();
+    await loginPage.login(email, password);
+    await this.page.waitForURL('**/sitecore-launchpad');
+    await this.navigateToDashboard();
+  }
+
+  async reloadDashboard(): Promise<void> {
+    await Promise.all([this.waitForResponse(/\/api\/analytics\/dashboard/), this.reload()]);
+    await this.expectVisible(this.overviewSection);
+  }
+
+  async openSection(section: DashboardSection): Promise<void> {
+    await this.sidebar.navigateTo(section);
+  }
+
+  async expectSection(section: DashboardSection): Promise<void> {
+    await this.expectVisible(this.page.locator(`[data-testid="${section}-section"]`));
+    await this.sidebar.expectActive(section);
+  }
+
+  // Overview methods
+  async getCardValue(card: DashboardCard): Promise<number> {
+    await this.expectVisible(this.page.locator(`[data-testid="${card}-card"]`));
+    return parseInt(await this.getText(this.page.locator(`[data-testid="${card}-value"]`)), 10);
+  }
+
+  async expectOverview(): Promise<void> {
+    await this.expectVisible(this.recentProjectsTable);
+    await this.expectVisible(this.addProjectButton);
+  }
+
+  async expectLatestActivity(text: string | RegExp): Promise<void> {
+    await expect(this.activityItems.first()).toContainText(text);
+  }
+
+  async expectLiveStatus(status: 'connected' | 'reconnecting' | 'offline'): Promise<void> {
+    await this.expectText(this.liveStatus, status);
+  }
+
+  // Header methods
+  async search(term: string): Promise<void> {
+    await this.fillInput(this.globalSearch, term);
+  }
+
+  async clearSearch(): Promise<void> {
+    await this.globalSearch.clear();
+  }
+
+  async expectSearchValue(value: string): Promise<void> {
+    await this.expectValue(this.globalSearch, value);
+  }
+
+  async logout(): Promise<void> {
+    await this.userMenu.logout();
+  }
+
+  // Projects methods
+  /**
+   * Creates a project through the modal of the projects section and returns its id; the table
+   * is paginated, so the new row may be on a later page
+   */
+  async createProject(project: ProjectFormData): Promise<number> {
+    await this.openSection('projects');
+    await this.projectsTable.openCreateModal();
+    await this.createProjectModal.expectOpen();
+    await this.createProjectModal.fill(project);
+    const id = await this.submitAndGetId(this.createProjectModal, '/api/projects', 'project');
+    await this.createProjectModal.expectClosed();
+    await this.expectToast('Project created successfully');
+    return id;
+  }
+
+  async filterProjects(status: ProjectStatus | ''): Promise<void> {
+    await this.openSection('projects');
+    await this.projectsTable.filterByStatus(status);
+  }
+
+  async deleteProject(name: string): Promise<void> {
+    await this.openSection('projects');
+    await this.projectsTable.deleteProject(await this.projectsTable.getRowIdOrThrow(name));
+    await this.expectToast('Project deleted successfully');
+  }
+
+  // Tasks methods
+  /**
+   * Creates a task through the modal of the tasks section and returns its id
+   */
+  async createTask(task: TaskFormData): Promise<number> {
+    await this.openSection('tasks');
+    await this.tasksTable.openCreateModal();
+    await this.createTaskModal.expectOpen();
+    await this.createTaskModal.fill(task);
+    const id = await this.submitAndGetId(this.createTaskModal, '/api/tasks', 'task');
+    await this.createTaskModal.expectClosed();
+    await this.expectToast('Task created successfully');
+    await this.tasksTable.expectRow(task.title);
+    return id;
+  }
+
+  async filterTasks(status: TaskStatus | ''): Promise<void> {
+    await this.openSection('tasks');
+    await this.tasksTable.filterByStatus(status);
+  }
+
+  async completeTask(title: string): Promise<void> {
+    await this.openSection('tasks');
+    await this.tasksTable.completeTask(await this.tasksTable.getRowIdOrThrow(title));
+    await this.expectToast('Task completed successfully');
+  }
+
+  // Settings and profile methods
+  async savePreferences(preferences: DashboardPreferences): Promise<void> {
+    await this.openSection('settings');
+    await this.settings.savePreferences(preferences);
+    await this.expectToast('Preferences saved successfully');
+  }
+
+  async updateProfile(profile: ProfileFormData): Promise<void> {
+    await this.openSection('profile');
+    await this.profile.updateProfile(profile);
+    await this.expectToast('Profile updated successfully');
+  }
+
+  async generateReport(): Promise<void> {
+    await this.openSection('reports');
+    await this.reportsTable.generateReport();
+    await this.expectToast(/Report generation started/);
+  }
+
+  /**
+   * Submits a create form and returns the id the server gave the new item
+   */
+  private async submitAndGetId(modal: Modal, path: string, key: string): Promise<number> {
+    const response = await modal.submitAndWaitForResponse('POST', path);
+    if (response.status() !== 201) {
+      throw new Error(`Creating the ${key} failed with ${response.status()}: ${await response.text()}`);
+    }
+    return (await response.json())[key].id;
+  }
+
+  // Toast methods
+  /**
+   * Waits for a toast; they disappear after three seconds
+   */
+  async expectToast(message: string | RegExp, type: 'success' | 'error' = 'success'): Promise<void> {
+    await this.toast.expectToast(message, type);
+  }
+
+  async isDarkTheme(): Promise<boolean> {
+    return /\bdark-theme\b/.test(await this.page.locator('body').getAttribute('class') || '');
+  }
+}
@@ -0,0 +1,190 @@
+import { Page, Dialog, TestInfo } from '@playwright/test';
+
+/**
+ * Handles the JavaScript dialogs of a page (alert, confirm, prompt, beforeunload) with a single listener
+ * Tests queue the dialogs they expect and how to answer them; any other dialog is dismissed and fails
+ * the test, and so does an expected dialog that never appeared. The ui-fixtures verify every
+ * manager at the end of the test and attach their dialogs as dialogs.json
+ */
+
+export type DialogType = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+
+export interface ExpectedDialog {
+  /** Any type when omitted */
+  type?: DialogType;
+  /** Text the message contains, or a RegExp it matches; any message when omitted */
+  message?: string | RegExp;
+  /** Answer to the dialog (default: 'accept') */
+  response?: 'accept' | 'dismiss';
+  /** Text entered into a prompt before accepting it */
+  promptText?: string;
+}
+
+export interface DialogRecord {
+  type: string;
+  message: string;
+  response: 'accept' | 'dismiss';
+  promptText?: string;
+  /** Whether the dialog was expected, i.e. matched a queued expectation */
+  expected: boolean;
+  timestamp: string;
+}
+
+interface PendingDialog {
+  expected: ExpectedDialog;
+  resolve: (record: DialogRecord) => void;
+}
+
+export const DIALOGS_ATTACHMENT = 'dialogs.json';
+
+export function describeExpectedDialog(expected: ExpectedDialog): string {
+  const message = expected.message === undefined ? '' : ` "${expected.message}"`;
+  return `${expected.type || 'dialog'}${message} (${expected.response || 'accept'})`;
+}
+
+export function matchesExpectedDialog(expected: ExpectedDialog, type: string, message: string): boolean {
+  if (expected.type && expected.type !== type) {
+    return false;
+  }
+  if (expected.message === undefined) {
+    return true;
+  }
+  return typeof expected.message === 'string' ? message.includes(expected.message) : expected.message.test(message);
+}
+
+/**
+ * Thrown by `verify` when an unexpected dialog appeared or an expected one did not
+ */
+export class DialogExpectationError extends Error {
+  constructor(readonly unexpected: DialogRecord[], readonly missing: ExpectedDialog[]) {
+    super([
+      'Dialogs did not go as expected:',
+      ...unexpected.map(record => `- unexpected ${record.type} "${record.message}" (dismissed)`),
+      ...missing.map(expected => `- expected ${describeExpectedDialog(expected)} never appeared`),
+    ].join('\n'));
+    this.name = 'DialogExpectationError';
+  }
+}
+
+const managers = new WeakMap<Page, DialogManager>();
+const created = new Set<DialogManager>();
+
+/**
+ * Dialog handling of a page, e.g.
+ * `const deleted = DialogManager.for(page).expectDialog({ type: 'confirm', message: 'delete' });`
+ */
+export class DialogManager {
+  readonly records: DialogRecord[] = [];
+  private readonly pending: PendingDialog[] = [];
+  private readonly listener = (dialog: Dialog) => this.handle(dialog);
+
+  private constructor(private readonly page: Page) {
+    page.on('dialog', this.listener);
+  }
+
+  /**
+   * The manager of the page, created with the first call
+   */
+  static for(page: Page): DialogManager {
+    let manager = managers.get(page);
+    if (!manager) {
+      manager = new DialogManager(page);
+      managers.set(page, manager);
+      created.add(manager);
+    }
+    return manager;
+  }
+
+  /**
+   * Managers created since the last call, for the fixture that verifies them at the end of a test
+   */
+  static takeCreated(): DialogManager[] {
+    const taken = [...created];
+    created.clear();
+    return taken;
+  }
+
+  /**
+   * Queues a dialog the next actions show; resolves once it has been answered
+   * Dialogs are matched to the first queued expectation they fit, so their order does not matter
+   */
+  expectDialog(expected: ExpectedDialog = {}): Promise<DialogRecord> {
+    return new Promise(resolve => this.pending.push({ expected, resolve }));
+  }
+
+  /** Expected dialogs that have not appeared yet */
+  get missing(): ExpectedDialog[] {
+    return this.pending.map(pending => pending.expected);
+  }
+
+  get unexpected(): DialogRecord[] {
+    return this.records.filter(record => !record.expected);
+  }
+
+  /**
+   * Throws a DialogExpectationError when an unexpected dialog appeared or an expected one is missing
+   */
+  verify(): void {
+    if (this.unexpected.length > 0 || this.missing.length > 0) {
+      throw new DialogExpectationError(this.unexpected, this.missing);
+    }
+  }
+
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.records.length === 0) {
+      return;
+    }
+
+    this.records.forEach(record => {
+      testInfo.annotations.push({
+        type: 'dialog',
+        description: `${record.type} "${record.message}" (${record.response}${record.expected ? '' : ', unexpected'})`,
+      });
+    });
+    await testInfo.attach(DIALOGS_ATTACHMENT, {
+      body: JSON.stringify(this.records, null, 2),
+      contentType: 'application/json',
+    });
+  }
+
+  /**
+   * Stops handling the page's dialogs and forgets the expected ones
+   */
+  dispose(): void {
+    this.page.off('dialog', this.listener);
+    this.pending.length = 0;
+    managers.delete(this.page);
+    created.delete(this);
+  }
+
+  private async handle(dialog: Dialog): Promise<void> {
+    const type = dialog.type();
+    const message = dialog.message();
+    const index = this.pending.findIndex(pending => matchesExpectedDialog(pending.expected, type, message));
+    const pending = index === -1 ? undefined : this.pending.splice(index, 1)[0];
+    const response = pending?.expected.response || (pending ? 'accept' : 'dismiss');
+    const record: DialogRecord = {
+      type,
+      message,
+      response,
+      promptText: pending?.expected.promptText,
+      expected: pending !== undefined,
+      timestamp: new Date().toISOString(),
+    };
+    this.records.push(record);
+
+    if (!pending) {
+      console.log(`💬 Unexpected ${type} dismissed: ${message}`);
+    }
+    try {
+      if (response === 'accept') {
+        await dialog.accept(record.promptText);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {
+      // The page was closed while the dialog was open
+    }
+    pending?.resolve(record);
+  }
+}
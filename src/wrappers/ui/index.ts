@@ -1,10 +1,95 @@
 export { BasePage, PageConfig } from './base-page';
 export { BaseComponent } from './components/base-component';
+export { DataTable, DataTableOptions, DataTableRow, SortDirection } from './components/data-table';
+export { Modal, ModalOptions } from './components/modal';
+export { Form, FormField, FormFieldKind, FormFields, FormValues } from './components/form';
+export { Dropdown, DropdownOptions } from './components/dropdown';
+export { Toast, ToastType } from './components/toast';
+export {
+  NETWORK_PROFILES,
+  NetworkEmulation,
+  NetworkProfile,
+  NetworkProfileName,
+  NetworkProfileOptions,
+  NetworkUrlPattern,
+  applyNetworkProfile,
+  clearNetworkProfile,
+  describeNetworkProfile,
+  isFailingRequest,
+  resolveNetworkProfile,
+} from './network-profiles';
+export {
+  LOCATOR_DRIFT_ATTACHMENT,
+  LocatorChainError,
+  LocatorDriftEntry,
+  LocatorResolution,
+  LocatorRole,
+  LocatorStrategy,
+  ResilientLocator,
+  ResilientLocatorOptions,
+  describeLocatorStrategy,
+  formatLocatorDriftReport,
+  summarizeLocatorDrift,
+} from './resilient-locator';
+export {
+  DIALOGS_ATTACHMENT,
+  DialogExpectationError,
+  DialogManager,
+  DialogRecord,
+  DialogType,
+  ExpectedDialog,
+  describeExpectedDialog,
+  matchesExpectedDialog,
+} from './dialog-manager';
 export { ExampleHomePage, ExampleLoginPage } from './example-page';
 export { TestLoginPage } from './test-login-page';
+export { DashboardPage, DashboardCard } from './dashboard-page';
+export {
+  CreateProjectModal,
+  CreateTaskModal,
+  DASHBOARD_SECTIONS,
+  DashboardPreferences,
+  DashboardSection,
+  DashboardTable,
+  NotificationsDropdown,
+  ProfileFormData,
+  ProfileSection,
+  ProjectFormData,
+  ProjectRow,
+  ProjectsTable,
+  ReportMetric,
+  ReportRow,
+  ReportsTable,
+  SettingsSection,
+  Sidebar,
+  TaskFormData,
+  TaskRow,
+  TasksTable,
+  UserMenu,
+  UserRow,
+  UsersTable,
+} from './components/dashboard';
 export { GooglePage } from './google-page';
 
 // Sitecore Page Objects
 export { SitecoreBasePage, SitecorePageConfig } from './sitecore-base-page';
 export { SitecoreLoginPage } from './sitecore-login-page';
-export { SitecoreContentEditor } from './sitecore-content-editor';
\ No newline at end of file
+export { SitecoreContentEditor } from './sitecore-content-editor';
+export { SitecoreLaunchpadPage, LaunchpadUserMenuItem } from './sitecore-launchpad-page';
+export { SitecoreShellLaunchpadPage } from './sitecore-shell-launchpad-page';
+export { LaunchpadPage, LaunchpadTarget, createLaunchpadPage, getLaunchpadTarget } from './launchpad';
+export {
+  AppCard,
+  LAUNCHPAD_APPS,
+  LaunchpadActivity,
+  LaunchpadAppName,
+  LaunchpadStat,
+  QUICK_ACTIONS,
+  QuickAction,
+  QuickActionsPanel,
+  RecentActivityFeed,
+  SearchSuggestions,
+  StatsPanel,
+  isLaunchpadAppName,
+  parseStatValue,
+} from './components/launchpad';
\ No newline at end of file
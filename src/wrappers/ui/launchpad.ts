@@ -0,0 +1,58 @@
+import { Page } from '@playwright/test';
+import { PageConfig } from './base-page';
+import { SitecoreLaunchpadPage } from './sitecore-launchpad-page';
+import { SitecoreShellLaunchpadPage } from './sitecore-shell-launchpad-page';
+
+/**
+ * What the mock launchpad of the test-app and the real Sitecore Launchpad have in common,
+ * so that the same tests can run against either of them
+ */
+export interface LaunchpadPage {
+  readonly page: Page;
+
+  /** Opens the launchpad of a signed in user */
+  navigate(): Promise<void>;
+
+  /** Signs in and waits for the launchpad */
+  login(username: string, password: string): Promise<void>;
+
+  waitForLaunchpad(): Promise<void>;
+
+  /** Names of the applications offered, in the order shown */
+  getAppNames(): Promise<string[]>;
+
+  expectApp(name: string): Promise<void>;
+
+  /** Opens an application and waits until it is being opened */
+  openApp(name: string): Promise<void>;
+
+  getUserName(): Promise<string>;
+
+  /** Signs out and waits for the login page */
+  logout(): Promise<void>;
+}
+
+export type LaunchpadTarget = 'mock' | 'sitecore';
+
+const LAUNCHPAD_TARGETS: LaunchpadTarget[] = ['mock', 'sitecore'];
+
+/**
+ * Launchpad the tests run against, from `LAUNCHPAD_TARGET` (default: 'mock')
+ */
+export function getLaunchpadTarget(): LaunchpadTarget {
+  const target = process.env.LAUNCHPAD_TARGET || 'mock';
+  if (!LAUNCHPAD_TARGETS.includes(target as LaunchpadTarget)) {
+    throw new Error(`Unknown LAUNCHPAD_TARGET "${target}", expected one of: ${LAUNCHPAD_TARGETS.join(', ')}`);
+  }
+  return target as LaunchpadTarget;
+}
+
+/**
+ * Creates the page object of the mock launchpad or of the real Sitecore Launchpad;
+ * `config.baseURL` is the test-app or the Sitecore CM instance respectively
+ */
+export function createLaunchpadPage(page: Page, target: LaunchpadTarget, config?: PageConfig): LaunchpadPage {
+  return target === 'sitecore'
+    ? new SitecoreShellLaunchpadPage(page, config)
+    : new SitecoreLaunchpadPage(page, config);
+}
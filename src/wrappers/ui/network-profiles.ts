@@ -0,0 +1,202 @@
+import { Page, Route, test } from '@playwright/test';
+
+/**
+ * Network condition profiles for UI tests: offline, slow connections, latency and flaky requests
+ * Unscoped profiles are emulated with CDP throttling on Chromium; scoped or flaky profiles, and
+ * every profile on Firefox and WebKit, with routes that delay, throttle or abort requests
+ */
+
+export type NetworkProfileName = 'offline' | 'slow-3g' | 'fast-3g' | 'high-latency' | 'flaky';
+
+export interface NetworkProfile {
+  /** Every request fails as if there were no connection */
+  offline?: boolean;
+  /** Milliseconds added to every request */
+  latency?: number;
+  /** Bytes per second the responses are received with (default: unlimited) */
+  downloadThroughput?: number;
+  /** Bytes per second request bodies are sent with (default: unlimited) */
+  uploadThroughput?: number;
+  /** Share of requests, between 0 and 1, whose connection is reset; the same requests fail on every run */
+  failureRate?: number;
+}
+
+export type NetworkEmulation = 'cdp' | 'route';
+
+export type NetworkUrlPattern = string | RegExp;
+
+export interface NetworkProfileOptions {
+  /** Only requests to these URLs, as globs or RegExps (default: every request) */
+  urls?: NetworkUrlPattern | NetworkUrlPattern[];
+  /** How to emulate the profile (default: 'cdp' on Chromium when unscoped and without failures, else 'route') */
+  emulation?: NetworkEmulation;
+}
+
+/** Throughputs follow the Chrome DevTools presets */
+export const NETWORK_PROFILES: Record<NetworkProfileName, NetworkProfile> = {
+  offline: { offline: true },
+  'slow-3g': { latency: 2000, downloadThroughput: 50 * 1024, uploadThroughput: 50 * 1024 },
+  'fast-3g': { latency: 563, downloadThroughput: 180 * 1024, uploadThroughput: 84 * 1024 },
+  'high-latency': { latency: 2000 },
+  flaky: { latency: 200, failureRate: 0.3 },
+};
+
+interface ActiveNetworkProfile {
+  label: string;
+  clear(): Promise<void>;
+}
+
+const activeProfiles = new WeakMap<Page, ActiveNetworkProfile>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Looks up a named profile and checks custom ones
+ */
+export function resolveNetworkProfile(profile: NetworkProfileName | NetworkProfile): NetworkProfile {
+  if (typeof profile === 'string') {
+    const named = NETWORK_PROFILES[profile];
+    if (!named) {
+      throw new Error(`Unknown network profile "${profile}"; expected one of ${Object.keys(NETWORK_PROFILES).join(', ')}`);
+    }
+    return named;
+  }
+
+  const { latency, downloadThroughput, uploadThroughput, failureRate } = profile;
+  [latency, downloadThroughput, uploadThroughput].forEach(value => {
+    if (value !== undefined && !(value >= 0)) {
+      throw new Error(`Invalid network profile ${JSON.stringify(profile)}: latency and throughputs must not be negative`);
+    }
+  });
+  if (failureRate !== undefined && !(failureRate >= 0 && failureRate <= 1)) {
+    throw new Error(`Invalid network profile ${JSON.stringify(profile)}: failureRate must be between 0 and 1`);
+  }
+  return profile;
+}
+
+/**
+ * Whether the nth request (1-based) fails: failures are spread evenly, e.g. every
+ * third to fourth request for 0.3, so runs are repeatable
+ */
+export function isFailingRequest(requestNumber: number, failureRate: number = 0): boolean {
+  return Math.floor(requestNumber * failureRate) > Math.floor((requestNumber - 1) * failureRate);
+}
+
+export function describeNetworkProfile(profile: NetworkProfile): string {
+  if (profile.offline) {
+    return 'offline';
+  }
+  const parts = [
+    profile.latency ? `${profile.latency}ms latency` : undefined,
+    profile.downloadThroughput ? `${Math.round(profile.downloadThroughput / 1024)} KB/s down` : undefined,
+    profile.uploadThroughput ? `${Math.round(profile.uploadThroughput / 1024)} KB/s up` : undefined,
+    profile.failureRate ? `${Math.round(profile.failureRate * 100)}% failing` : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'unthrottled';
+}
+
+function report(description: string): void {
+  console.log(`📶 ${description}`);
+  try {
+    test.info().annotations.push({ type: 'network-profile', description });
+  } catch {
+    // Not running inside a Playwright test
+  }
+}
+
+function isChromium(page: Page): boolean {
+  return page.context().browser()?.browserType().name() === 'chromium';
+}
+
+async function emulateWithCdp(page: Page, profile: NetworkProfile): Promise<() => Promise<void>> {
+  const session = await page.context().newCDPSession(page);
+  await session.send('Network.enable');
+  await session.send('Network.emulateNetworkConditions', {
+    offline: !!profile.offline,
+    latency: profile.latency || 0,
+    downloadThroughput: profile.downloadThroughput || -1,
+    uploadThroughput: profile.uploadThroughput || -1,
+  });
+
+  return async () => {
+    await session.send('Network.emulateNetworkConditions', { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 });
+    await session.detach();
+  };
+}
+
+async function emulateWithRoutes(page: Page, profile: NetworkProfile, patterns: NetworkUrlPattern[]): Promise<() => Promise<void>> {
+  if (profile.offline && patterns.length === 0) {
+    await page.context().setOffline(true);
+    return async () => await page.context().setOffline(false);
+  }
+
+  let requests = 0;
+  const handler = async (route: Route) => {
+    const request = route.request();
+    const requestNumber = ++requests;
+    if (profile.offline) {
+      await route.abort('internetdisconnected');
+      return;
+    }
+    const uploadTime = profile.uploadThroughput ? ((request.postDataBuffer()?.length || 0) / profile.uploadThroughput) * 1000 : 0;
+    await sleep((profile.latency || 0) + uploadTime);
+
+    if (isFailingRequest(requestNumber, profile.failureRate)) {
+      console.log(`📶 Resetting connection of ${request.method()} ${request.url()}`);
+      await route.abort('connectionreset');
+      return;
+    }
+    if (!profile.downloadThroughput) {
+      await route.fallback();
+      return;
+    }
+    const response = await route.fetch();
+    const body = await response.body();
+    await sleep((body.length / profile.downloadThroughput) * 1000);
+    await route.fulfill({ response, body });
+  };
+
+  const routes = patterns.length > 0 ? patterns : ['**/*'];
+  await Promise.all(routes.map(pattern => page.route(pattern, handler)));
+  return async () => {
+    await Promise.all(routes.map(pattern => page.unroute(pattern, handler)));
+  };
+}
+
+/**
+ * Applies a network profile to the page, replacing the one applied before, and notes it in the report
+ */
+export async function applyNetworkProfile(
+  page: Page,
+  profile: NetworkProfileName | NetworkProfile,
+  options: NetworkProfileOptions = {}
+): Promise<void> {
+  const resolved = resolveNetworkProfile(profile);
+  const patterns = options.urls === undefined ? [] : Array.isArray(options.urls) ? options.urls : [options.urls];
+  const emulation =
+    options.emulation || (isChromium(page) && patterns.length === 0 && !resolved.failureRate ? 'cdp' : 'route');
+  if (emulation === 'cdp' && (patterns.length > 0 || resolved.failureRate)) {
+    throw new Error('CDP throttling applies to every request alike; use route emulation for scoped or flaky profiles');
+  }
+
+  await clearNetworkProfile(page);
+  const clear = emulation === 'cdp' ? await emulateWithCdp(page, resolved) : await emulateWithRoutes(page, resolved, patterns);
+  const name = typeof profile === 'string' ? profile : 'custom';
+  const scope = patterns.length > 0 ? patterns.map(String).join(', ') : 'all requests';
+  const label = `${name} (${describeNetworkProfile(resolved)}) on ${scope}`;
+  activeProfiles.set(page, { label, clear });
+  report(`Applied network profile ${label} via ${emulation === 'cdp' ? 'CDP throttling' : 'routes'}`);
+}
+
+/**
+ * Restores normal network conditions; does nothing when no profile is applied
+ */
+export async function clearNetworkProfile(page: Page): Promise<void> {
+  const active = activeProfiles.get(page);
+  if (!active) {
+    return;
+  }
+  activeProfiles.delete(page);
+  await active.clear();
+  report(`Cleared network profile ${active.label}`);
+}
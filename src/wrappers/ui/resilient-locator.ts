@@ -0,0 +1,270 @@
+import { Page, Locator, TestInfo, expect, test } from '@playwright/test';
+
+/**
+ * Resilient locators: an ordered chain of strategies, the first one that finds the element wins
+ * A chain whose primary strategy misses has drifted; each drift is logged, annotated and attached to
+ * the test as locator-drift.json, once per test, and the locator drift reporter summarizes them at
+ * the end of the run
+ */
+
+export type LocatorRole = Parameters<Page['getByRole']>[0];
+
+export type LocatorStrategy =
+  | { testId: string }
+  | { role: LocatorRole; name?: string | RegExp; exact?: boolean }
+  | { text: string | RegExp; exact?: boolean }
+  | { css: string };
+
+export interface ResilientLocatorOptions {
+  /** Element or page the strategies search within (default: the page) */
+  within?: Locator;
+  /** Milliseconds `resolve` waits for any strategy to match (default: 10000) */
+  timeout?: number;
+  /** State a match must have (default: 'visible') */
+  state?: 'visible' | 'attached';
+  /** Page object the chain belongs to, for the report */
+  owner?: string;
+}
+
+/** Outcome of resolving a chain whose primary strategy missed */
+export interface LocatorResolution {
+  owner: string;
+  name: string;
+  strategies: string[];
+  /** Index of the strategy that matched, -1 when none did */
+  matched: number;
+}
+
+export const LOCATOR_DRIFT_ATTACHMENT = 'locator-drift.json';
+
+const POLL_INTERVAL = 250;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function describeLocatorStrategy(strategy: LocatorStrategy): string {
+  if ('testId' in strategy) {
+    return `test id "${strategy.testId}"`;
+  }
+  if ('role' in strategy) {
+    return strategy.name === undefined ? `role ${strategy.role}` : `role ${strategy.role} "${strategy.name}"`;
+  }
+  if ('text' in strategy) {
+    return `text "${strategy.text}"`;
+  }
+  return `css ${strategy.css}`;
+}
+
+function toLocator(scope: Page | Locator, strategy: LocatorStrategy): Locator {
+  if ('testId' in strategy) {
+    return scope.getByTestId(strategy.testId);
+  }
+  if ('role' in strategy) {
+    return scope.getByRole(strategy.role, { name: strategy.name, exact: strategy.exact });
+  }
+  if ('text' in strategy) {
+    return scope.getByText(strategy.text, { exact: strategy.exact });
+  }
+  return scope.locator(strategy.css);
+}
+
+/**
+ * Thrown when no strategy of a chain finds the element
+ */
+export class LocatorChainError extends Error {
+  constructor(readonly resolution: LocatorResolution, timeout: number) {
+    super(`${resolution.owner}: ${resolution.name} not found within ${timeout}ms, tried ${resolution.strategies.join(', ')}`);
+    this.name = 'LocatorChainError';
+  }
+}
+
+// Drift each test already reported, so chains that are checked over and over add one entry per test
+const reportedDrift = new WeakMap<TestInfo, Set<string>>();
+
+function currentTestInfo(): TestInfo | undefined {
+  try {
+    return test.info();
+  } catch {
+    return undefined; // Not running inside a Playwright test
+  }
+}
+
+function report(resolution: LocatorResolution): void {
+  const testInfo = currentTestInfo();
+  if (testInfo) {
+    const key = JSON.stringify(resolution);
+    const reported = reportedDrift.get(testInfo) || new Set<string>();
+    reportedDrift.set(testInfo, reported);
+    if (reported.has(key)) {
+      return;
+    }
+    reported.add(key);
+  }
+
+  const message = resolution.matched === -1
+    ? `${resolution.owner}: ${resolution.name} not found by any of ${resolution.strategies.length} strategies`
+    : `${resolution.owner}: ${resolution.name} found by ${resolution.strategies[resolution.matched]} (fallback ${resolution.matched} of ${resolution.strategies.length - 1}), ${resolution.strategies[0]} missed`;
+  console.log(`🧭 Locator drift: ${message}`);
+  if (!testInfo) {
+    return;
+  }
+  testInfo.annotations.push({ type: 'locator-drift', description: message });
+  testInfo.attachments.push({
+    name: LOCATOR_DRIFT_ATTACHMENT,
+    contentType: 'application/json',
+    body: Buffer.from(JSON.stringify(resolution)),
+  });
+}
+
+/**
+ * Element found by the first of several strategies that matches, e.g.
+ * `[{ testId: 'save-btn' }, { role: 'button', name: 'Save' }, { css: '.scRibbonButton:has-text("Save")' }]`
+ */
+export class ResilientLocator {
+  readonly strategies: LocatorStrategy[];
+  private readonly scope: Page | Locator;
+  private readonly candidates: Locator[];
+
+  constructor(page: Page, readonly name: string, strategies: LocatorStrategy[], private readonly options: ResilientLocatorOptions = {}) {
+    if (strategies.length === 0) {
+      throw new Error(`Locator chain "${name}" needs at least one strategy`);
+    }
+    this.strategies = strategies;
+    this.scope = options.within || page;
+    this.candidates = strategies.map(strategy => toLocator(this.scope, strategy).first());
+  }
+
+  /**
+   * Any of the strategies, for assertions; unlike `resolve` it records no drift
+   */
+  get locator(): Locator {
+    return this.candidates.slice(1).reduce((chain, candidate) => chain.or(candidate), this.candidates[0]).first();
+  }
+
+  /**
+   * The element as found by the first matching strategy, checking them in order until the timeout
+   */
+  async resolve(timeout: number = this.options.timeout ?? 10000): Promise<Locator> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const found = await this.find();
+      if (found) {
+        return found;
+      }
+      if (Date.now() >= deadline) {
+        const resolution = this.resolution(-1);
+        report(resolution);
+        throw new LocatorChainError(resolution, timeout);
+      }
+      await sleep(Math.min(POLL_INTERVAL, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  /**
+   * Checks every strategy once, without waiting; undefined when none matches
+   */
+  async find(): Promise<Locator | undefined> {
+    for (let index = 0; index < this.candidates.length; index++) {
+      if (await this.matches(this.candidates[index])) {
+        if (index > 0) {
+          report(this.resolution(index));
+        }
+        return this.candidates[index];
+      }
+    }
+    return undefined;
+  }
+
+  async isVisible(): Promise<boolean> {
+    return (await this.find()) !== undefined;
+  }
+
+  async waitFor(timeout?: number): Promise<void> {
+    await this.resolve(timeout);
+  }
+
+  async click(options?: { timeout?: number; force?: boolean }): Promise<void> {
+    await (await this.resolve(options?.timeout)).click({ force: options?.force });
+  }
+
+  async fill(value: string, options?: { timeout?: number }): Promise<void> {
+    await (await this.resolve(options?.timeout)).fill(value);
+  }
+
+  async press(key: string, options?: { timeout?: number }): Promise<void> {
+    await (await this.resolve(options?.timeout)).press(key);
+  }
+
+  async textContent(options?: { timeout?: number }): Promise<string> {
+    return await (await this.resolve(options?.timeout)).textContent() || '';
+  }
+
+  async expectVisible(timeout?: number): Promise<void> {
+    await expect(await this.resolve(timeout)).toBeVisible();
+  }
+
+  private async matches(candidate: Locator): Promise<boolean> {
+    if (this.options.state === 'attached') {
+      return (await candidate.count()) > 0;
+    }
+    return await candidate.isVisible();
+  }
+
+  private resolution(matched: number): LocatorResolution {
+    return {
+      owner: this.options.owner || 'page',
+      name: this.name,
+      strategies: this.strategies.map(describeLocatorStrategy),
+      matched,
+    };
+  }
+}
+
+export interface LocatorDriftEntry {
+  owner: string;
+  name: string;
+  primary: string;
+  /** How often each fallback matched, by strategy */
+  fallbacks: Record<string, number>;
+  /** How often no strategy matched */
+  exhausted: number;
+  tests: number;
+}
+
+/**
+ * Groups the drift of a run by chain, chains that ran out of fallbacks first
+ */
+export function summarizeLocatorDrift(drifts: { testTitle: string; resolution: LocatorResolution }[]): LocatorDriftEntry[] {
+  const entries = new Map<string, LocatorDriftEntry>();
+  const tests = new Map<string, Set<string>>();
+  for (const { testTitle, resolution } of drifts) {
+    const key = `${resolution.owner}: ${resolution.name}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { owner: resolution.owner, name: resolution.name, primary: resolution.strategies[0], fallbacks: {}, exhausted: 0, tests: 0 };
+      entries.set(key, entry);
+      tests.set(key, new Set());
+    }
+    if (resolution.matched === -1) {
+      entry.exhausted++;
+    } else {
+      const strategy = resolution.strategies[resolution.matched];
+      entry.fallbacks[strategy] = (entry.fallbacks[strategy] || 0) + 1;
+    }
+    tests.get(key)!.add(testTitle);
+    entry.tests = tests.get(key)!.size;
+  }
+  return [...entries.values()]
+    .sort((a, b) => b.exhausted - a.exhausted || b.tests - a.tests || `${a.owner} ${a.name}`.localeCompare(`${b.owner} ${b.name}`));
+}
+
+export function formatLocatorDriftReport(entries: LocatorDriftEntry[]): string {
+  const exhausted = entries.filter(entry => entry.exhausted > 0).length;
+  return [
+    `${entries.length} locator chain${entries.length === 1 ? '' : 's'} drifted${exhausted > 0 ? `, ${exhausted} ran out of fallbacks` : ''}:`,
+    ...entries.map(entry => {
+      const fallbacks = Object.entries(entry.fallbacks).map(([strategy, count]) => `${strategy} ${count}×`);
+      const outcome = [...fallbacks, ...(entry.exhausted > 0 ? [`nothing ${entry.exhausted}× ❌`] : [])].join(', ');
+      return `- ${entry.owner}: ${entry.name} in ${entry.tests} test${entry.tests === 1 ? '' : 's'}; ${entry.primary} missed, matched ${outcome}`;
+    }),
+  ].join('\n');
+}
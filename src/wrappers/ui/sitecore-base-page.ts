@@ -31,7 +31,7 @@ export abstract class SitecoreBasePage extends BasePage {
     });
 
     // Initialize common Sitecore elements
-    this.sitecoreHeader = page.locator('#scHeader, .sc-header');
+    this.sitecoreHeader = page.locator('#scHeader, .sc-header, .sc-globalHeader');
     this.startMenuButton = page.locator('#scStartMenuButton, [data-sc-id="StartMenuButton"]');
     this.searchBox = page.locator('#scSearchBox, [data-sc-id="SearchBox"]');
     this.userMenu = page.locator('#scUserOptions, .sc-user-menu');
@@ -49,6 +49,13 @@ export abstract class SitecoreBasePage extends BasePage {
     this.ribbonButton = page.locator('.scRibbonButton, .sc-ribbon-button');
   }
 
+  /**
+   * Base URL of the Sitecore CM instance
+   */
+  protected get baseURL(): string {
+    return this.config.baseURL || '';
+  }
+
   /**
    * Wait for Sitecore page to be fully loaded
    */
@@ -148,76 +155,56 @@ export abstract class SitecoreBasePage extends BasePage {
   }
 
   /**
-   * Click ribbon button by text or data attribute
+   * Click ribbon button by role, Sitecore id, text, then title or CSS class
    */
   async clickRibbonButton(buttonIdentifier: string): Promise<void> {
     console.log(`🎀 Clicking ribbon button: ${buttonIdentifier}`);
     
-    // Try multiple selectors for ribbon buttons
-    const selectors = [
-      `[title="${buttonIdentifier}"]`,
-      `[data-sc-id="${buttonIdentifier}"]`,
-      `[onclick*="${buttonIdentifier}"]`,
-      `.scRibbonButton:has-text("${buttonIdentifier}")`,
-      `.sc-ribbon-button:has-text("${buttonIdentifier}")`
-    ];
+    const button = this.resilientLocator(`ribbon button "${buttonIdentifier}"`, [
+      { role: 'button', name: buttonIdentifier },
+      { css: `[data-sc-id="${buttonIdentifier}"]` },
+      { text: buttonIdentifier, exact: true },
+      { css: `[title="${buttonIdentifier}"]` },
+      { css: `[onclick*="${buttonIdentifier}"]` },
+      { css: `.scRibbonButton:has-text("${buttonIdentifier}")` },
+      { css: `.sc-ribbon-button:has-text("${buttonIdentifier}")` }
+    ], { timeout: 10000 });
     
-    for (const selector of selectors) {
-      const button = this.page.locator(selector).first();
-      if (await button.isVisible({ timeout: 2000 })) {
-        await button.click();
-        await this.page.waitForTimeout(1000);
-        return;
-      }
-    }
-    
-    throw new Error(`Ribbon button not found: ${buttonIdentifier}`);
+    await button.click();
+    await this.page.waitForTimeout(1000);
   }
 
   /**
    * Wait for modal dialog to appear
    */
   async waitForDialog(timeout: number = 10000): Promise<Locator> {
-    const dialogSelectors = [
-      '.scModalDialog',
-      '.ui-dialog',
-      '.sc-dialog',
-      '[role="dialog"]'
-    ];
-    
-    for (const selector of dialogSelectors) {
-      try {
-        const dialog = this.page.locator(selector);
-        await dialog.waitFor({ state: 'visible', timeout });
-        return dialog;
-      } catch (error) {
-        // Try next selector
-      }
-    }
+    const dialog = this.resilientLocator('modal dialog', [
+      { css: '.scModalDialog' },
+      { css: '.ui-dialog' },
+      { css: '.sc-dialog' },
+      { role: 'dialog' }
+    ]);
     
-    throw new Error('Dialog did not appear within timeout');
+    return await dialog.resolve(timeout);
   }
 
   /**
    * Close modal dialog
    */
   async closeDialog(): Promise<void> {
-    const closeSelectors = [
-      '.scModalDialog .scClose',
-      '.ui-dialog-titlebar-close',
-      '.sc-dialog-close',
-      '[data-sc-id="Cancel"]',
-      'button:has-text("Cancel")',
-      'button:has-text("Close")'
-    ];
+    const closeButton = await this.resilientLocator('dialog close button', [
+      { css: '.scModalDialog .scClose' },
+      { css: '.ui-dialog-titlebar-close' },
+      { css: '.sc-dialog-close' },
+      { css: '[data-sc-id="Cancel"]' },
+      { role: 'button', name: 'Cancel' },
+      { role: 'button', name: 'Close' }
+    ]).find();
     
-    for (const selector of closeSelectors) {
-      const closeButton = this.page.locator(selector).first();
-      if (await closeButton.isVisible({ timeout: 2000 })) {
-        await closeButton.click();
-        await this.page.waitForTimeout(500);
-        return;
-      }
+    if (closeButton) {
+      await closeButton.click();
+      await this.page.waitForTimeout(500);
+      return;
     }
     
     // Fallback: press Escape
@@ -1,5 +1,6 @@
 import { Page, Locator, expect } from '@playwright/test';
 import { SitecoreBasePage, SitecorePageConfig } from './sitecore-base-page';
+import { ResilientLocator } from './resilient-locator';
 
 /**
  * Sitecore Content Editor Page Object
@@ -7,36 +8,36 @@ import { SitecoreBasePage, SitecorePageConfig } from './sitecore-base-page';
  */
 export class SitecoreContentEditor extends SitecoreBasePage {
   // Content tree elements
-  readonly contentTreePane: Locator;
+  readonly contentTreePane: ResilientLocator;
   readonly contentTreeRoot: Locator;
   readonly selectedTreeItem: Locator;
   readonly treeNodeGlyph: Locator;
   
   // Content area elements
-  readonly contentArea: Locator;
+  readonly contentArea: ResilientLocator;
   readonly itemEditor: Locator;
   readonly fieldEditor: Locator;
   readonly fieldValue: Locator;
   
   // Ribbon elements (Content Editor specific)
-  readonly homeTab: Locator;
-  readonly navigateTab: Locator;
-  readonly developerTab: Locator;
-  readonly viewTab: Locator;
-  readonly versionsTab: Locator;
+  readonly homeTab: ResilientLocator;
+  readonly navigateTab: ResilientLocator;
+  readonly developerTab: ResilientLocator;
+  readonly viewTab: ResilientLocator;
+  readonly versionsTab: ResilientLocator;
   
   // Ribbon buttons
-  readonly saveButton: Locator;
-  readonly saveAllButton: Locator;
-  readonly newItemButton: Locator;
-  readonly deleteItemButton: Locator;
-  readonly duplicateItemButton: Locator;
-  readonly publishButton: Locator;
-  readonly previewButton: Locator;
+  readonly saveButton: ResilientLocator;
+  readonly saveAllButton: ResilientLocator;
+  readonly newItemButton: ResilientLocator;
+  readonly deleteItemButton: ResilientLocator;
+  readonly duplicateItemButton: ResilientLocator;
+  readonly publishButton: ResilientLocator;
+  readonly previewButton: ResilientLocator;
   
   // Search and filter
-  readonly quickSearchBox: Locator;
-  readonly searchResults: Locator;
+  readonly quickSearchBox: ResilientLocator;
+  readonly searchResults: ResilientLocator;
   readonly filterDropdown: Locator;
   
   // Status and messages
@@ -49,36 +50,36 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     super(page, '/sitecore/shell/Applications/Content%20Manager/default.aspx', config);
     
     // Content tree elements
-    this.contentTreePane = page.locator('#ContentTreePanel, .sc-contenttree-panel');
+    this.contentTreePane = this.resilientLocator('content tree pane', [{ css: '#ContentTreePanel' }, { css: '.sc-contenttree-panel' }]);
     this.contentTreeRoot = page.locator('#ContentTreeInnerPanel, .sc-contenttree-inner');
     this.selectedTreeItem = page.locator('.scContentTreeNodeSelected, .sc-tree-node-selected');
     this.treeNodeGlyph = page.locator('.scContentTreeNodeGlyph, .sc-tree-glyph');
     
     // Content area
-    this.contentArea = page.locator('#ContentEditor, .sc-content-editor');
+    this.contentArea = this.resilientLocator('content area', [{ css: '#ContentEditor' }, { css: '.sc-content-editor' }]);
     this.itemEditor = page.locator('#ItemEditor, .sc-item-editor');
     this.fieldEditor = page.locator('.scFieldEditor, .sc-field-editor');
     this.fieldValue = page.locator('.scFieldValue, .sc-field-value');
     
     // Ribbon tabs
-    this.homeTab = page.locator('[data-sc-id="HomeTab"], .scRibbonTab:has-text("Home")');
-    this.navigateTab = page.locator('[data-sc-id="NavigateTab"], .scRibbonTab:has-text("Navigate")');
-    this.developerTab = page.locator('[data-sc-id="DeveloperTab"], .scRibbonTab:has-text("Developer")');
-    this.viewTab = page.locator('[data-sc-id="ViewTab"], .scRibbonTab:has-text("View")');
-    this.versionsTab = page.locator('[data-sc-id="VersionsTab"], .scRibbonTab:has-text("Versions")');
+    this.homeTab = this.ribbonTab('HomeTab', 'Home');
+    this.navigateTab = this.ribbonTab('NavigateTab', 'Navigate');
+    this.developerTab = this.ribbonTab('DeveloperTab', 'Developer');
+    this.viewTab = this.ribbonTab('ViewTab', 'View');
+    this.versionsTab = this.ribbonTab('VersionsTab', 'Versions');
     
     // Ribbon buttons
-    this.saveButton = page.locator('[data-sc-id="Save"], .scRibbonButton:has-text("Save")').first();
-    this.saveAllButton = page.locator('[data-sc-id="SaveAll"], .scRibbonButton:has-text("Save All")').first();
-    this.newItemButton = page.locator('[data-sc-id="NewItem"], .scRibbonButton:has-text("New Item")').first();
-    this.deleteItemButton = page.locator('[data-sc-id="Delete"], .scRibbonButton:has-text("Delete")').first();
-    this.duplicateItemButton = page.locator('[data-sc-id="Duplicate"], .scRibbonButton:has-text("Duplicate")').first();
-    this.publishButton = page.locator('[data-sc-id="Publish"], .scRibbonButton:has-text("Publish")').first();
-    this.previewButton = page.locator('[data-sc-id="Preview"], .scRibbonButton:has-text("Preview")').first();
+    this.saveButton = this.ribbonCommand('Save', 'Save');
+    this.saveAllButton = this.ribbonCommand('SaveAll', 'Save All');
+    this.newItemButton = this.ribbonCommand('NewItem', 'New Item');
+    this.deleteItemButton = this.ribbonCommand('Delete', 'Delete');
+    this.duplicateItemButton = this.ribbonCommand('Duplicate', 'Duplicate');
+    this.publishButton = this.ribbonCommand('Publish', 'Publish');
+    this.previewButton = this.ribbonCommand('Preview', 'Preview');
     
     // Search elements
-    this.quickSearchBox = page.locator('#QuickSearch, .sc-quick-search');
-    this.searchResults = page.locator('#SearchResults, .sc-search-results');
+    this.quickSearchBox = this.resilientLocator('quick search box', [{ css: '#QuickSearch' }, { css: '.sc-quick-search' }]);
+    this.searchResults = this.resilientLocator('search results', [{ css: '#SearchResults' }, { css: '.sc-search-results' }]);
     this.filterDropdown = page.locator('#FilterDropdown, .sc-filter-dropdown');
     
     // Status elements
@@ -88,6 +89,60 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     this.notificationArea = page.locator('#NotificationArea, .sc-notification-area');
   }
 
+  /**
+   * Ribbon tab by its Sitecore id, then by role and text
+   */
+  private ribbonTab(scId: string, text: string): ResilientLocator {
+    return this.resilientLocator(`${text} tab`, [
+      { css: `[data-sc-id="${scId}"]` },
+      { role: 'tab', name: text },
+      { css: `.scRibbonTab:has-text("${text}")` }
+    ]);
+  }
+
+  /**
+   * Ribbon button by its Sitecore id, then by role and text
+   */
+  private ribbonCommand(scId: string, text: string): ResilientLocator {
+    return this.resilientLocator(`${text} button`, [
+      { css: `[data-sc-id="${scId}"]` },
+      { role: 'button', name: text, exact: true },
+      { css: `.scRibbonButton:has-text("${text}")` }
+    ]);
+  }
+
+  /**
+   * Editable field by name: its data-sc-field container, its id, then its label
+   */
+  private field(fieldName: string): ResilientLocator {
+    return this.resilientLocator(`field "${fieldName}"`, [
+      { css: `[data-sc-field="${fieldName}"] input, [data-sc-field="${fieldName}"] textarea` },
+      { css: `[id*="${fieldName}"]` },
+      { css: `label:has-text("${fieldName}") + * input, label:has-text("${fieldName}") + * textarea` }
+    ], { timeout: 5000 });
+  }
+
+  /**
+   * Item name input of the new item and duplicate dialogs
+   */
+  private itemNameField(dialog: Locator): ResilientLocator {
+    return this.resilientLocator('item name field', [
+      { css: '#ItemName' },
+      { css: '[name="ItemName"]' },
+      { css: 'input[type="text"]' }
+    ], { within: dialog });
+  }
+
+  /**
+   * Clicks a dialog button by its Sitecore id, then by role
+   */
+  private async dialogButton(dialog: Locator, scId: string): Promise<void> {
+    await this.resilientLocator(`${scId} dialog button`, [
+      { css: `[data-sc-id="${scId}"]` },
+      { role: 'button', name: scId }
+    ], { within: dialog }).click();
+  }
+
   /**
    * Navigate to Content Editor and wait for it to load
    */
@@ -103,8 +158,8 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     console.log('⏳ Waiting for Content Editor to load...');
     
     // Wait for main panels to be visible
-    await this.contentTreePane.waitFor({ state: 'visible', timeout: 30000 });
-    await this.contentArea.waitFor({ state: 'visible', timeout: 30000 });
+    await this.contentTreePane.waitFor(30000);
+    await this.contentArea.waitFor(30000);
     
     // Wait for ribbon to be ready
     await this.ribbon.waitFor({ state: 'visible', timeout: 30000 });
@@ -131,36 +186,24 @@ export class SitecoreContentEditor extends SitecoreBasePage {
       currentPath += `/${part}`;
       
       // Find the tree node
-      const nodeSelectors = [
-        `[title="${part}"]`,
-        `[data-sc-path="${currentPath}"]`,
-        `.scContentTreeNode:has-text("${part}")`,
-        `.sc-tree-node:has-text("${part}")`
-      ];
+      const node = await this.resilientLocator(`tree node "${currentPath}"`, [
+        { css: `[title="${part}"]` },
+        { css: `[data-sc-path="${currentPath}"]` },
+        { css: `.scContentTreeNode:has-text("${part}")` },
+        { css: `.sc-tree-node:has-text("${part}")` }
+      ], { timeout: 5000 }).resolve();
       
-      let nodeFound = false;
-      for (const selector of nodeSelectors) {
-        const node = this.page.locator(selector).first();
-        if (await node.isVisible({ timeout: 2000 })) {
-          // Expand if not the final item
-          if (currentPath !== itemPath) {
-            const expandGlyph = node.locator('..').locator('.scContentTreeNodeGlyph').first();
-            if (await expandGlyph.isVisible()) {
-              await expandGlyph.click();
-              await this.page.waitForTimeout(1000);
-            }
-          } else {
-            // Click to select the final item
-            await node.click();
-            await this.waitForItemLoad();
-          }
-          nodeFound = true;
-          break;
+      // Expand if not the final item
+      if (currentPath !== itemPath) {
+        const expandGlyph = node.locator('..').locator('.scContentTreeNodeGlyph').first();
+        if (await expandGlyph.isVisible()) {
+          await expandGlyph.click();
+          await this.page.waitForTimeout(1000);
         }
-      }
-      
-      if (!nodeFound) {
-        throw new Error(`Tree node not found: ${part}`);
+      } else {
+        // Click to select the final item
+        await node.click();
+        await this.waitForItemLoad();
       }
     }
     
@@ -185,22 +228,8 @@ export class SitecoreContentEditor extends SitecoreBasePage {
    * Get field value by field name
    */
   async getFieldValue(fieldName: string): Promise<string> {
-    const fieldSelectors = [
-      `[data-sc-field="${fieldName}"] input`,
-      `[data-sc-field="${fieldName}"] textarea`,
-      `[id*="${fieldName}"]`,
-      `label:has-text("${fieldName}") + * input`,
-      `label:has-text("${fieldName}") + * textarea`
-    ];
-    
-    for (const selector of fieldSelectors) {
-      const field = this.page.locator(selector).first();
-      if (await field.isVisible({ timeout: 2000 })) {
-        return await field.inputValue();
-      }
-    }
-    
-    throw new Error(`Field not found: ${fieldName}`);
+    const field = await this.field(fieldName).resolve();
+    return await field.inputValue();
   }
 
   /**
@@ -209,30 +238,15 @@ export class SitecoreContentEditor extends SitecoreBasePage {
   async setFieldValue(fieldName: string, value: string): Promise<void> {
     console.log(`📝 Setting field '${fieldName}' to: ${value}`);
     
-    const fieldSelectors = [
-      `[data-sc-field="${fieldName}"] input`,
-      `[data-sc-field="${fieldName}"] textarea`,
-      `[id*="${fieldName}"]`,
-      `label:has-text("${fieldName}") + * input`,
-      `label:has-text("${fieldName}") + * textarea`
-    ];
-    
-    for (const selector of fieldSelectors) {
-      const field = this.page.locator(selector).first();
-      if (await field.isVisible({ timeout: 2000 })) {
-        await field.clear();
-        await field.fill(value);
-        
-        // Trigger change event
-        await field.blur();
-        await this.page.waitForTimeout(500);
-        
-        console.log(`✅ Field '${fieldName}' updated`);
-        return;
-      }
-    }
+    const field = await this.field(fieldName).resolve();
+    await field.clear();
+    await field.fill(value);
+    
+    // Trigger change event
+    await field.blur();
+    await this.page.waitForTimeout(500);
     
-    throw new Error(`Field not found or not editable: ${fieldName}`);
+    console.log(`✅ Field '${fieldName}' updated`);
   }
 
   /**
@@ -268,16 +282,18 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     const dialog = await this.waitForDialog();
     
     // Select template
-    const templateSelector = dialog.locator(`[title="${templateName}"], [data-sc-template="${templateName}"], td:has-text("${templateName}")`).first();
-    await templateSelector.click();
+    await this.resilientLocator(`template "${templateName}"`, [
+      { css: `[title="${templateName}"]` },
+      { css: `[data-sc-template="${templateName}"]` },
+      { css: `td:has-text("${templateName}")` }
+    ], { within: dialog }).click();
     
     // Enter item name
-    const nameField = dialog.locator('#ItemName, [name="ItemName"], input[type="text"]').first();
+    const nameField = this.itemNameField(dialog);
     await nameField.fill(itemName);
     
     // Click OK button
-    const okButton = dialog.locator('[data-sc-id="OK"], button:has-text("OK")').first();
-    await okButton.click();
+    await this.dialogButton(dialog, 'OK');
     
     // Wait for dialog to close and item to load
     await this.waitForItemLoad();
@@ -297,8 +313,11 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     const dialog = await this.waitForDialog();
     
     // Confirm deletion
-    const confirmButton = dialog.locator('[data-sc-id="Yes"], button:has-text("Yes"), button:has-text("Delete")').first();
-    await confirmButton.click();
+    await this.resilientLocator('delete confirmation', [
+      { css: '[data-sc-id="Yes"]' },
+      { role: 'button', name: 'Yes' },
+      { role: 'button', name: 'Delete' }
+    ], { within: dialog }).click();
     
     await this.waitForSitecoreOperation();
     
@@ -317,13 +336,11 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     const dialog = await this.waitForDialog();
     
     // Enter new name
-    const nameField = dialog.locator('#ItemName, [name="ItemName"], input[type="text"]').first();
-    await nameField.clear();
+    const nameField = this.itemNameField(dialog);
     await nameField.fill(newName);
     
     // Click OK
-    const okButton = dialog.locator('[data-sc-id="OK"], button:has-text("OK")').first();
-    await okButton.click();
+    await this.dialogButton(dialog, 'OK');
     
     await this.waitForItemLoad();
     
@@ -348,8 +365,7 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     }
     
     // Click Publish button
-    const publishBtn = dialog.locator('[data-sc-id="Publish"], button:has-text("Publish")').first();
-    await publishBtn.click();
+    await this.dialogButton(dialog, 'Publish');
     
     // Wait for publish to complete
     await this.waitForSitecoreOperation(60000); // Publishing can take longer
@@ -383,7 +399,7 @@ export class SitecoreContentEditor extends SitecoreBasePage {
     await this.quickSearchBox.press('Enter');
     
     // Wait for search results
-    await this.searchResults.waitFor({ state: 'visible', timeout: 10000 });
+    await this.searchResults.waitFor(10000);
     
     console.log('✅ Search completed');
   }
@@ -446,8 +462,8 @@ export class SitecoreContentEditor extends SitecoreBasePage {
    */
   async verifyContentEditor(): Promise<boolean> {
     try {
-      await expect(this.contentTreePane).toBeVisible();
-      await expect(this.contentArea).toBeVisible();
+      await this.contentTreePane.expectVisible();
+      await this.contentArea.expectVisible();
       await expect(this.ribbon).toBeVisible();
       
       // Check that we have at least one tree node
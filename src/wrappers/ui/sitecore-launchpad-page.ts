@@ -0,0 +1,215 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage, PageConfig } from './base-page';
+import { TestLoginPage } from './test-login-page';
+import { Dropdown } from './components/dropdown';
+import { Toast, ToastType } from './components/toast';
+import type { LaunchpadPage } from './launchpad';
+import {
+  AppCard,
+  LAUNCHPAD_APPS,
+  LaunchpadAppName,
+  QuickActionsPanel,
+  RecentActivityFeed,
+  SearchSuggestions,
+  StatsPanel,
+  isLaunchpadAppName,
+} from './components/launchpad';
+
+export type LaunchpadUserMenuItem = 'Profile Settings' | 'Account Preferences' | 'Help & Support' | 'About Sitecore';
+
+/**
+ * Mock Sitecore Launchpad of the test-app at /sitecore-launchpad
+ * Everything the real Sitecore Launchpad also has is part of `LaunchpadPage`; search, quick actions,
+ * recent activity and statistics exist in the mock only and are components of this page
+ */
+export class SitecoreLaunchpadPage extends BasePage implements LaunchpadPage {
+  readonly search: SearchSuggestions;
+  readonly quickActions: QuickActionsPanel;
+  readonly recentActivity: RecentActivityFeed;
+  readonly stats: StatsPanel;
+  readonly userMenu: Dropdown;
+  readonly notifications: Toast;
+
+  private readonly logo: Locator;
+  private readonly launchpadGrid: Locator;
+  private readonly cards: Locator;
+  private readonly title: Locator;
+  private readonly subtitle: Locator;
+  private readonly breadcrumbHome: Locator;
+  private readonly breadcrumbCurrent: Locator;
+  private readonly userProfile: Locator;
+  private readonly userName: Locator;
+  private readonly userRole: Locator;
+  private readonly userAvatar: Locator;
+  private readonly logoutButton: Locator;
+  private readonly modal: Locator;
+
+  constructor(page: Page, config?: PageConfig) {
+    super(page, '/sitecore-launchpad', config);
+
+    this.search = new SearchSuggestions(page);
+    this.quickActions = new QuickActionsPanel(page);
+    this.recentActivity = new RecentActivityFeed(page);
+    this.stats = new StatsPanel(page);
+    this.userMenu = new Dropdown(page, '[data-testid="user-profile"]', { menu: '.user-menu-dropdown', item: '.user-menu-item' });
+    this.notifications = new Toast(page, '.sitecore-notification', 'notification-');
+
+    this.logo = page.locator('[data-testid="sitecore-logo"]');
+    this.launchpadGrid = page.locator('[data-testid="launchpad-grid"]');
+    this.cards = this.launchpadGrid.locator('.launchpad-card');
+    this.title = page.locator('h1.launchpad-title');
+    this.subtitle = page.locator('.launchpad-subtitle');
+    this.breadcrumbHome = page.locator('[data-testid="breadcrumb-home"]');
+    this.breadcrumbCurrent = page.locator('[data-testid="breadcrumb-current"]');
+    this.userProfile = page.locator('[data-testid="user-profile"]');
+    this.userName = page.locator('[data-testid="user-name"]');
+    this.userRole = page.locator('[data-testid="user-role"]');
+    this.userAvatar = page.locator('[data-testid="user-avatar"]');
+    this.logoutButton = page.locator('[data-testid="logout-btn"]');
+    this.modal = page.locator('.sitecore-modal');
+  }
+
+  // Navigation and setup methods
+  async navigate(): Promise<void> {
+    await super.navigate();
+    await this.waitForLaunchpad();
+  }
+
+  /**
+   * Signs in through the login page of the test-app, which redirects to the launchpad
+   */
+  async login(email: string, password: string): Promise<void> {
+    const loginPage = new TestLoginPage(this.page, this.config);
+    await loginPage.navigateToLogin();
+    await loginPage.login(email, password);
+    await this.page.waitForURL('**/sitecore-launchpad');
+    await this.waitForLaunchpad();
+  }
+
+  async waitForLaunchpad(): Promise<void> {
+    await this.expectVisible(this.launchpadGrid);
+  }
+
+  /**
+   * Signs out with the header button; the launchpad redirects to the login page after a short delay
+   */
+  async logout(): Promise<void> {
+    await this.clickElement(this.logoutButton);
+    await this.page.waitForURL(url => url.pathname === '/');
+  }
+
+  async goHome(): Promise<void> {
+    await this.clickElement(this.breadcrumbHome);
+  }
+
+  // Header methods
+  async expectHeader(): Promise<void> {
+    await this.expectText(this.logo, 'Sitecore Experience Platform');
+    await this.search.waitForVisible();
+    await this.expectVisible(this.userProfile);
+    await this.expectVisible(this.logoutButton);
+  }
+
+  async expectHeading(): Promise<void> {
+    await this.expectVisible(this.title);
+    await expect(this.subtitle).toContainText('Select an application to get started');
+    await this.expectVisible(this.breadcrumbHome);
+    await this.expectText(this.breadcrumbCurrent, 'Launchpad');
+  }
+
+  async getLogoColor(): Promise<string> {
+    return await this.logo.evaluate(element => getComputedStyle(element).color);
+  }
+
+  // User methods
+  async getUserName(): Promise<string> {
+    return (await this.getText(this.userName)).trim();
+  }
+
+  async getUserRole(): Promise<string> {
+    return (await this.getText(this.userRole)).trim();
+  }
+
+  async getUserInitials(): Promise<string> {
+    return (await this.getText(this.userAvatar)).trim();
+  }
+
+  async expectUserRole(role: string | RegExp): Promise<void> {
+    await this.expectText(this.userRole, role);
+  }
+
+  async openUserMenu(): Promise<void> {
+    await this.userMenu.open();
+  }
+
+  /**
+   * Closes the user menu by clicking outside of it
+   */
+  async closeUserMenu(): Promise<void> {
+    await this.userMenu.close();
+  }
+
+  /** Items of the user menu without their icons */
+  async getUserMenuItems(): Promise<string[]> {
+    await this.userMenu.open();
+    return await this.userMenu.items.evaluateAll(items => items.map(item => (item.lastChild?.textContent || '').trim()));
+  }
+
+  async chooseUserMenuItem(item: LaunchpadUserMenuItem): Promise<void> {
+    await this.userMenu.select(item);
+  }
+
+  // Application methods
+  appCard(name: LaunchpadAppName): AppCard {
+    return new AppCard(this.page, name);
+  }
+
+  async getAppNames(): Promise<string[]> {
+    return (await this.cards.locator('.card-title').allTextContents()).map(name => name.trim());
+  }
+
+  async expectApp(name: string): Promise<void> {
+    await this.appCard(this.toAppName(name)).waitForVisible();
+  }
+
+  async expectApps(names: string[] = Object.keys(LAUNCHPAD_APPS)): Promise<void> {
+    await expect(this.cards).toHaveCount(names.length);
+    for (const name of names) {
+      await this.expectApp(name);
+    }
+  }
+
+  /**
+   * Opens an application with its Open button; the mock only announces it, it stays on the launchpad
+   */
+  async openApp(name: string): Promise<void> {
+    await this.appCard(this.toAppName(name)).open();
+    await this.expectNotification(`Opening ${name}...`, 'success');
+  }
+
+  async getHelp(name: LaunchpadAppName): Promise<string> {
+    await this.appCard(name).showHelp();
+    await this.expectText(this.modal.locator('h2'), 'Help');
+    return (await this.getText(this.modal.locator('p'))).trim();
+  }
+
+  async closeModal(): Promise<void> {
+    await this.clickElement(this.modal.locator('button', { hasText: 'Close' }));
+    await this.expectHidden(this.modal);
+  }
+
+  // Notification methods
+  /**
+   * Waits for a notification; only the latest one is shown, for four seconds
+   */
+  async expectNotification(message: string | RegExp, type?: ToastType): Promise<void> {
+    await this.notifications.expectToast(message, type);
+  }
+
+  private toAppName(name: string): LaunchpadAppName {
+    if (!isLaunchpadAppName(name)) {
+      throw new Error(`Unknown launchpad application "${name}"`);
+    }
+    return name;
+  }
+}
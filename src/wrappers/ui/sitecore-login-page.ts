@@ -44,7 +44,7 @@ export class SitecoreLoginPage extends SitecoreBasePage {
    * Navigate to login page and wait for form to load
    */
   async navigate(): Promise<void> {
-    await this.page.goto(this.baseURL + this.path);
+    await this.page.goto(this.baseURL + this.url);
     await this.waitForLoginForm();
   }
 
@@ -0,0 +1,82 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { SitecoreBasePage, SitecorePageConfig } from './sitecore-base-page';
+import { SitecoreLoginPage } from './sitecore-login-page';
+import type { LaunchpadPage } from './launchpad';
+
+/**
+ * Launchpad of a real Sitecore CM instance at /sitecore/shell/client/Applications/Launchpad
+ */
+export class SitecoreShellLaunchpadPage extends SitecoreBasePage implements LaunchpadPage {
+  private readonly launchpadItems: Locator;
+  private readonly accountName: Locator;
+  private readonly accountLogout: Locator;
+
+  constructor(page: Page, config?: SitecorePageConfig) {
+    super(page, '/sitecore/shell/client/Applications/Launchpad', config);
+
+    this.launchpadItems = page.locator('.sc-launchpad-item, [data-sc-id*="LaunchpadItem"]');
+    this.accountName = page.locator('.sc-accountInformation li:not(:has(.logout))').first();
+    this.accountLogout = page.locator('.sc-accountInformation .logout, .sc-accountInformation a[href*="logout"]').first();
+  }
+
+  async navigate(): Promise<void> {
+    await super.navigate();
+    await this.waitForLaunchpad();
+  }
+
+  /**
+   * Signs in through the Sitecore login page, which opens the launchpad by default
+   */
+  async login(username: string, password: string): Promise<void> {
+    const loginPage = new SitecoreLoginPage(this.page, this.config);
+    await loginPage.navigate();
+    await loginPage.login(username, password);
+    if (!this.page.url().includes('/Launchpad')) {
+      await this.navigate();
+    }
+    await this.waitForLaunchpad();
+  }
+
+  async waitForLaunchpad(): Promise<void> {
+    await expect(this.launchpadItems.first()).toBeVisible({ timeout: 30000 });
+  }
+
+  async getAppNames(): Promise<string[]> {
+    const names = await this.launchpadItems.evaluateAll(items => items.map(item =>
+      (item.querySelector('.sc-launchpad-text')?.textContent || item.getAttribute('title') || '').trim()
+    ));
+    return names.filter(name => name.length > 0);
+  }
+
+  async expectApp(name: string): Promise<void> {
+    await expect(this.appItem(name)).toBeVisible();
+  }
+
+  /**
+   * Opens an application; Sitecore replaces the launchpad with it
+   */
+  async openApp(name: string): Promise<void> {
+    await this.appItem(name).click();
+    await this.page.waitForURL(url => !url.pathname.includes('/Launchpad'), { timeout: 30000 });
+  }
+
+  async getUserName(): Promise<string> {
+    return (await this.getText(this.accountName)).trim();
+  }
+
+  /**
+   * Signs out with the account link of the launchpad header, falling back to the generic Sitecore logout
+   */
+  async logout(): Promise<void> {
+    if (await this.accountLogout.isVisible()) {
+      await this.accountLogout.click();
+      await this.page.waitForURL('**/login**', { timeout: 10000 });
+      return;
+    }
+    await super.logout();
+  }
+
+  private appItem(name: string): Locator {
+    return this.launchpadItems.filter({ hasText: name }).first();
+  }
+}
@@ -232,16 +232,15 @@ export class TestLoginPage extends BasePage {
     // Should focus on login button
   }
 
-  async dismissAlert(): Promise<void> {
-    this.page.on('dialog', async dialog => {
-      await dialog.dismiss();
-    });
+  /**
+   * Expects an alert from the next actions and dismisses it
+   */
+  async dismissAlert(message?: string | RegExp): Promise<void> {
+    this.dialogs.expectDialog({ type: 'alert', message, response: 'dismiss' });
   }
 
-  async acceptAlert(): Promise<void> {
-    this.page.on('dialog', async dialog => {
-      await dialog.accept();
-    });
+  async acceptAlert(message?: string | RegExp): Promise<void> {
+    this.dialogs.expectDialog({ type: 'alert', message, response: 'accept' });
   }
 
   // Session management helpers
@@ -308,17 +307,11 @@ export class TestLoginPage extends BasePage {
 
   // Network simulation helpers
   async simulateSlowNetwork(): Promise<void> {
-    await this.page.route('**/*', async route => {
-      // Add 2 second delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      await route.continue();
-    });
+    await this.applyNetworkProfile('high-latency');
   }
 
   async simulateNetworkError(): Promise<void> {
-    await this.page.route('**/api/login', async route => {
-      await route.abort('failed');
-    });
+    await this.applyNetworkProfile('offline', { urls: '**/api/login' });
   }
 
   async mockLoginAPI(response: any, status: number = 200): Promise<void> {
@@ -4,6 +4,7 @@ class DashboardApp {
         this.currentUser = null;
         this.authToken = null;
         this.currentSection = 'overview';
+        this.projectsQuery = { status: '', page: 1, pageSize: 5 };
         this.init();
     }
 
@@ -11,6 +12,7 @@ class DashboardApp {
         this.checkAuthentication();
         this.setupEventListeners();
         this.loadInitialData();
+        this.connectNotificationStream();
     }
 
     // Authentication and setup
@@ -164,6 +166,14 @@ class DashboardApp {
             this.filterProjects(e.target.value);
         });
 
+        // Projects pagination
+        document.getElementById('projectsPrevPage').addEventListener('click', () => {
+            this.loadProjects(this.projectsQuery.page - 1);
+        });
+        document.getElementById('projectsNextPage').addEventListener('click', () => {
+            this.loadProjects(this.projectsQuery.page + 1);
+        });
+
         // Task status filter
         document.getElementById('taskStatusFilter').addEventListener('change', (e) => {
             this.filterTasks(e.target.value);
@@ -295,19 +305,37 @@ class DashboardApp {
     }
 
     // Projects management
-    async loadProjects() {
+    async loadProjects(page = this.projectsQuery.page) {
         try {
-            const response = await this.makeAuthenticatedRequest('/api/projects');
+            const params = new URLSearchParams({ page, pageSize: this.projectsQuery.pageSize });
+            if (this.projectsQuery.status) {
+                params.set('filter[status]', this.projectsQuery.status);
+            }
+            const response = await this.makeAuthenticatedRequest(`/api/projects?${params}`);
             const data = await response.json();
 
+            if (data.success && data.pagination.page > data.pagination.totalPages) {
+                // The last page emptied, e.g. after a delete
+                return this.loadProjects(data.pagination.totalPages);
+            }
+
             if (data.success) {
+                this.projectsQuery.page = data.pagination.page;
                 this.renderProjectsTable(data.projects);
+                this.renderProjectsPagination(data.pagination);
             }
         } catch (error) {
             console.error('Error loading projects:', error);
         }
     }
 
+    renderProjectsPagination(pagination) {
+        document.getElementById('projectsPageInfo').textContent =
+            `Page ${pagination.page} of ${pagination.totalPages} (${pagination.total} projects)`;
+        document.getElementById('projectsPrevPage').disabled = pagination.page <= 1;
+        document.getElementById('projectsNextPage').disabled = pagination.page >= pagination.totalPages;
+    }
+
     async loadRecentProjects() {
         try {
             const response = await this.makeAuthenticatedRequest('/api/projects');
@@ -460,17 +488,8 @@ class DashboardApp {
     }
 
     async filterProjects(status) {
-        try {
-            const url = status ? `/api/projects?status=${status}` : '/api/projects';
-            const response = await this.makeAuthenticatedRequest(url);
-            const data = await response.json();
-
-            if (data.success) {
-                this.renderProjectsTable(data.projects);
-            }
-        } catch (error) {
-            console.error('Error filtering projects:', error);
-        }
+        this.projectsQuery.status = status;
+        await this.loadProjects(1);
     }
 
     // Tasks management
@@ -830,6 +849,54 @@ class DashboardApp {
         }
     }
 
+    // Live notifications and activities over Server-Sent Events; EventSource reconnects by itself
+    // and resumes after the last event it received
+    connectNotificationStream() {
+        if (!this.authToken || !window.EventSource) return;
+
+        this.notificationStream = new EventSource(`/api/notifications/stream?token=${encodeURIComponent(this.authToken)}`);
+        this.notificationStream.addEventListener('open', () => this.setLiveStatus('connected'));
+        this.notificationStream.addEventListener('error', () => this.setLiveStatus('reconnecting'));
+        this.notificationStream.addEventListener('notification', (e) => {
+            this.handleLiveNotification(JSON.parse(e.data));
+        });
+        this.notificationStream.addEventListener('activity', (e) => {
+            this.handleLiveActivity(JSON.parse(e.data));
+        });
+    }
+
+    setLiveStatus(status) {
+        const liveStatus = document.getElementById('liveStatus');
+        liveStatus.textContent = status;
+        liveStatus.className = `live-status ${status}`;
+    }
+
+    handleLiveNotification(notification) {
+        const badge = document.getElementById('notificationBadge');
+        badge.textContent = (parseInt(badge.textContent, 10) || 0) + 1;
+
+        if (document.getElementById('notificationsDropdown').classList.contains('show')) {
+            this.loadNotifications();
+        }
+        this.showSuccess(`🔔 ${notification.title}`);
+    }
+
+    handleLiveActivity(activity) {
+        const feed = document.getElementById('activityFeed');
+        const empty = feed.querySelector('[data-testid="activity-empty"]');
+        if (empty) empty.remove();
+
+        const item = document.createElement('li');
+        item.className = 'activity-item';
+        item.setAttribute('data-testid', 'activity-item');
+        item.textContent = `${activity.user.name} ${activity.action} ${activity.subject.type} "${activity.subject.name}"`;
+        feed.prepend(item);
+
+        while (feed.children.length > 10) {
+            feed.lastElementChild.remove();
+        }
+    }
+
     // Search functionality
     async handleGlobalSearch(query) {
         if (query.length < 2) return;
@@ -959,6 +1026,7 @@ class DashboardApp {
     }
 
     logout() {
+        if (this.notificationStream) this.notificationStream.close();
         sessionStorage.removeItem('authToken');
         sessionStorage.removeItem('currentUser');
         window.location.href = '/';
@@ -1,6 +1,9 @@
 const express = require('express');
 const path = require('path');
 const cors = require('cors');
+const { GraphQLError, createGraphQLHandler } = require('./graphql');
+const { createEventHub, createEventStreamHandler, attachWebSocketStream } = require('./realtime');
+const { createFaultInjector } = require('./faults');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -8,6 +11,7 @@ const PORT = process.env.PORT || 3000;
 // Middleware
 app.use(cors());
 app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
 
 // Add request logging for debugging
 app.use((req, res, next) => {
@@ -15,6 +19,11 @@ app.use((req, res, next) => {
     next();
 });
 
+// Fault injection for tests: latency, error statuses, malformed JSON and dropped connections per route
+const faultInjector = createFaultInjector();
+app.use('/api/admin/faults', faultInjector.router);
+app.use(faultInjector.middleware);
+
 app.use(express.static(path.join(__dirname, '../public')));
 
 // Original users data for reset functionality
@@ -205,7 +214,7 @@ let tasks = [
     }
 ];
 
-let notifications = [
+const originalNotifications = [
     {
         id: 1,
         title: 'Welcome to the platform!',
@@ -235,6 +244,8 @@ let notifications = [
     }
 ];
 
+let notifications = originalNotifications.map(notification => ({ ...notification }));
+
 let reports = [
     {
         id: 1,
@@ -267,28 +278,218 @@ let reports = [
     }
 ];
 
-// Authentication middleware
-function authenticateToken(req, res, next) {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
+// Resolves the user of a bearer token, or the status and message to reject it with
+function userFromBearerToken(token) {
     if (!token) {
-        return res.status(401).json({ success: false, message: 'Access token required' });
+        return { status: 401, message: 'Access token required' };
     }
 
     // Simple token validation (in real app, use JWT)
     if (token.startsWith('mock_token_')) {
         const userId = parseInt(token.split('_')[2]);
         const user = users.find(u => u.id === userId);
-        if (user) {
-            req.user = user;
-            next();
-        } else {
-            return res.status(403).json({ success: false, message: 'Invalid token' });
+        return user ? { user } : { status: 403, message: 'Invalid token' };
+    }
+    return { status: 403, message: 'Invalid token format' };
+}
+
+// Resolves the user of a request's bearer token
+function userFromToken(req) {
+    const authHeader = req.headers['authorization'];
+    return userFromBearerToken(authHeader && authHeader.split(' ')[1]);
+}
+
+// Authentication middleware
+function authenticateToken(req, res, next) {
+    const { user, status, message } = userFromToken(req);
+    if (!user) {
+        return res.status(status).json({ success: false, message });
+    }
+    req.user = user;
+    next();
+}
+
+// Live notifications and activities, see realtime.js
+const eventHub = createEventHub();
+
+// Tells every connected client what a user just did
+function publishActivity(user, action, subject) {
+    eventHub.publish('activity', {
+        user: { id: user.id, name: user.name },
+        action,
+        subject
+    });
+}
+
+// List query conventions shared by the list endpoints:
+//   page, pageSize        1-based page (pageSize defaults to 10, at most 100); without either the whole list is one page
+//   sort=field,-field     ascending, or descending with a leading '-'
+//   filter[field]=value   exact match, 'a,b' for any of, '~text' for case-insensitive contains
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 10;
+
+function matchesFilter(value, expected) {
+    const values = Array.isArray(value) ? value : [value];
+    if (expected.startsWith('~')) {
+        const needle = expected.substring(1).toLowerCase();
+        return values.some(v => String(v).toLowerCase().includes(needle));
+    }
+    const options = expected.split(',');
+    return values.some(v => options.includes(v === null ? 'null' : String(v)));
+}
+
+function compareValues(a, b) {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+}
+
+function parsePositiveInt(value, name) {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw new Error(`${name} must be a positive integer`);
+    }
+    return number;
+}
+
+function applyListQuery(items, query) {
+    const fields = new Set(items.flatMap(item => Object.keys(item)));
+    const checkField = (field, kind) => {
+        if (items.length > 0 && !fields.has(field)) {
+            throw new Error(`Unknown ${kind} field: ${field}`);
         }
-    } else {
-        return res.status(403).json({ success: false, message: 'Invalid token format' });
+    };
+
+    let result = [...items];
+
+    if (query.filter !== undefined) {
+        if (typeof query.filter !== 'object' || Array.isArray(query.filter)) {
+            throw new Error('filter must be given as filter[field]=value');
+        }
+        Object.entries(query.filter).forEach(([field, expected]) => {
+            checkField(field, 'filter');
+            result = result.filter(item => matchesFilter(item[field], String(expected)));
+        });
+    }
+
+    if (query.sort !== undefined) {
+        const keys = String(query.sort).split(',').filter(Boolean).map(key => ({
+            field: key.replace(/^[-+]/, ''),
+            direction: key.startsWith('-') ? -1 : 1
+        }));
+        keys.forEach(key => checkField(key.field, 'sort'));
+        result.sort((a, b) => {
+            for (const key of keys) {
+                const order = compareValues(a[key.field], b[key.field]);
+                if (order !== 0) return order * key.direction;
+            }
+            return 0;
+        });
+    }
+
+    const total = result.length;
+    const paged = query.page !== undefined || query.pageSize !== undefined;
+    const page = query.page !== undefined ? parsePositiveInt(query.page, 'page') : 1;
+    const pageSize = query.pageSize !== undefined ? parsePositiveInt(query.pageSize, 'pageSize') : DEFAULT_PAGE_SIZE;
+    if (pageSize > MAX_PAGE_SIZE) {
+        throw new Error(`pageSize must not exceed ${MAX_PAGE_SIZE}`);
+    }
+
+    if (!paged) {
+        return { items: result, pagination: { page: 1, pageSize: total, total, totalPages: 1 } };
+    }
+    return {
+        items: result.slice((page - 1) * pageSize, page * pageSize),
+        pagination: { page, pageSize, total, totalPages: Math.max(1, Math.ceil(total / pageSize)) }
+    };
+}
+
+// Sends one page of a list endpoint under `key`, or 400 for an invalid list query
+function sendList(req, res, key, items) {
+    try {
+        const { items: pageItems, pagination } = applyListQuery(items, req.query);
+        res.json({ success: true, [key]: pageItems, pagination });
+    } catch (error) {
+        res.status(400).json({ success: false, message: error.message });
+    }
+}
+
+// Avatar uploads: images up to 1 MB, kept in memory until the next reset
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const MAX_AVATAR_SIZE = 1024 * 1024;
+const avatars = new Map();
+
+// Minimal multipart/form-data parser, enough for file uploads from tests
+function parseMultipart(body, contentType) {
+    const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || '');
+    if (!match || !Buffer.isBuffer(body)) {
+        throw new Error('Expected a multipart/form-data body with a boundary');
+    }
+
+    const delimiter = Buffer.from(`--${match[1] || match[2]}`);
+    const fields = {};
+    const files = {};
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+        const next = body.indexOf(delimiter, start + delimiter.length);
+        if (next === -1) break;
+        // Each part is CRLF, headers, blank line, content, CRLF
+        const part = body.subarray(start + delimiter.length + 2, next - 2);
+        const headerEnd = part.indexOf('\r\n\r\n');
+        if (headerEnd !== -1) {
+            const headers = part.subarray(0, headerEnd).toString('utf-8');
+            const content = part.subarray(headerEnd + 4);
+            const name = /name="([^"]*)"/i.exec(headers);
+            const filename = /filename="([^"]*)"/i.exec(headers);
+            const type = /content-type:\s*([^\r\n]+)/i.exec(headers);
+            if (name && filename) {
+                files[name[1]] = {
+                    filename: filename[1],
+                    mimeType: type ? type[1].trim() : 'application/octet-stream',
+                    buffer: Buffer.from(content)
+                };
+            } else if (name) {
+                fields[name[1]] = content.toString('utf-8');
+            }
+        }
+        start = next;
+    }
+    return { fields, files };
+}
+
+function storeAvatar(req, res, userId, file) {
+    const user = users.find(u => u.id === userId);
+    if (!user) {
+        return res.status(404).json({ success: false, message: 'User not found' });
     }
+    if (req.user.id !== userId && req.user.role !== 'admin') {
+        return res.status(403).json({ success: false, message: 'You can only change your own avatar' });
+    }
+    if (!file || file.buffer.length === 0) {
+        return res.status(400).json({ success: false, message: 'Avatar file is required' });
+    }
+    if (!AVATAR_TYPES.includes(file.mimeType)) {
+        return res.status(415).json({ success: false, message: `Unsupported avatar type: ${file.mimeType}` });
+    }
+    if (file.buffer.length > MAX_AVATAR_SIZE) {
+        return res.status(413).json({ success: false, message: 'Avatar must not exceed 1 MB' });
+    }
+
+    avatars.set(userId, { ...file, uploadedAt: new Date().toISOString() });
+    user.avatar = `/api/users/${userId}/avatar`;
+    res.status(201).json({
+        success: true,
+        message: 'Avatar uploaded successfully',
+        avatar: {
+            url: user.avatar,
+            filename: file.filename,
+            mimeType: file.mimeType,
+            size: file.buffer.length,
+            alt: file.alt || user.name
+        }
+    });
 }
 
 // API Routes
@@ -339,10 +540,7 @@ app.post('/api/login', (req, res) => {
 // User Management
 app.get('/api/users', authenticateToken, (req, res) => {
     const safeUsers = users.map(({ password, ...user }) => user);
-    res.json({
-        success: true,
-        users: safeUsers
-    });
+    sendList(req, res, 'users', safeUsers);
 });
 
 app.get('/api/users/:id', authenticateToken, (req, res) => {
@@ -363,6 +561,61 @@ app.get('/api/users/:id', authenticateToken, (req, res) => {
     }
 });
 
+app.post('/api/users', authenticateToken, (req, res) => {
+    const { name, email, password, username } = req.body;
+
+    if (!name || !email) {
+        return res.status(400).json({
+            success: false,
+            message: 'Name and email are required'
+        });
+    }
+
+    if (users.find(u => u.email === email)) {
+        return res.status(409).json({
+            success: false,
+            message: 'User with this email already exists'
+        });
+    }
+
+    if (username && users.find(u => u.username === username)) {
+        return res.status(409).json({
+            success: false,
+            message: 'User with this username already exists'
+        });
+    }
+
+    const newUser = {
+        id: Math.max(0, ...users.map(u => u.id)) + 1,
+        email,
+        password: password || 'defaultPassword123!',
+        name,
+        username: username || name.toLowerCase().replace(/\s+/g, ''),
+        role: 'user',
+        department: req.body.department || 'General',
+        avatar: '/avatars/default.jpg',
+        phone: req.body.phone || '',
+        location: req.body.location || '',
+        joinDate: new Date().toISOString().split('T')[0],
+        lastLogin: null,
+        preferences: {
+            theme: 'light',
+            notifications: true,
+            language: 'en',
+            timezone: 'UTC'
+        }
+    };
+
+    users.push(newUser);
+
+    const { password: _, ...userWithoutPassword } = newUser;
+    res.status(201).json({
+        success: true,
+        message: 'User created successfully',
+        user: userWithoutPassword
+    });
+});
+
 app.put('/api/users/:id', authenticateToken, (req, res) => {
     const userId = parseInt(req.params.id);
     const updates = req.body;
@@ -387,6 +640,54 @@ app.put('/api/users/:id', authenticateToken, (req, res) => {
     });
 });
 
+app.delete('/api/users/:id', authenticateToken, (req, res) => {
+    const userId = parseInt(req.params.id);
+    const userIndex = users.findIndex(u => u.id === userId);
+
+    if (userIndex === -1) {
+        return res.status(404).json({
+            success: false,
+            message: 'User not found'
+        });
+    }
+
+    users.splice(userIndex, 1);
+
+    res.json({
+        success: true,
+        message: 'User deleted successfully'
+    });
+});
+
+// Avatars: multipart upload (field "avatar", optional "alt"), raw image upload and download
+app.post('/api/users/:id/avatar', authenticateToken, express.raw({ type: 'multipart/form-data', limit: '2mb' }), (req, res) => {
+    let upload;
+    try {
+        upload = parseMultipart(req.body, req.headers['content-type']);
+    } catch (error) {
+        return res.status(400).json({ success: false, message: error.message });
+    }
+    const file = upload.files.avatar && { ...upload.files.avatar, alt: upload.fields.alt };
+    storeAvatar(req, res, parseInt(req.params.id), file);
+});
+
+app.put('/api/users/:id/avatar', authenticateToken, express.raw({ type: () => true, limit: '2mb' }), (req, res) => {
+    const mimeType = (req.headers['content-type'] || 'application/octet-stream').split(';')[0].trim();
+    const file = Buffer.isBuffer(req.body) && { filename: `avatar-${req.params.id}`, mimeType, buffer: req.body };
+    storeAvatar(req, res, parseInt(req.params.id), file);
+});
+
+app.get('/api/users/:id/avatar', authenticateToken, (req, res) => {
+    const avatar = avatars.get(parseInt(req.params.id));
+    if (!avatar) {
+        return res.status(404).json({ success: false, message: 'Avatar not found' });
+    }
+
+    res.set('Content-Type', avatar.mimeType);
+    res.set('Content-Disposition', `inline; filename="${avatar.filename}"`);
+    res.send(avatar.buffer);
+});
+
 // Projects Management
 app.get('/api/projects', authenticateToken, (req, res) => {
     const { status, priority, search } = req.query;
@@ -408,10 +709,7 @@ app.get('/api/projects', authenticateToken, (req, res) => {
         );
     }
     
-    res.json({
-        success: true,
-        projects: filteredProjects
-    });
+    sendList(req, res, 'projects', filteredProjects);
 });
 
 app.get('/api/projects/:id', authenticateToken, (req, res) => {
@@ -434,12 +732,23 @@ app.get('/api/projects/:id', authenticateToken, (req, res) => {
 app.post('/api/projects', authenticateToken, (req, res) => {
     const newProject = {
         id: projects.length + 1,
+        description: '',
+        status: 'planning',
+        priority: 'medium',
+        startDate: new Date().toISOString().split('T')[0],
+        endDate: null,
+        progress: 0,
+        budget: 0,
+        spent: 0,
+        teamMembers: [],
+        tags: [],
         ...req.body,
         createdBy: req.user.id,
         createdAt: new Date().toISOString()
     };
     
     projects.push(newProject);
+    publishActivity(req.user, 'created', { type: 'project', id: newProject.id, name: newProject.name });
     
     res.status(201).json({
         success: true,
@@ -460,6 +769,7 @@ app.put('/api/projects/:id', authenticateToken, (req, res) => {
     }
     
     projects[projectIndex] = { ...projects[projectIndex], ...req.body };
+    publishActivity(req.user, 'updated', { type: 'project', id, name: projects[projectIndex].name });
     
     res.json({
         success: true,
@@ -479,7 +789,8 @@ app.delete('/api/projects/:id', authenticateToken, (req, res) => {
         });
     }
     
-    projects.splice(projectIndex, 1);
+    const [deletedProject] = projects.splice(projectIndex, 1);
+    publishActivity(req.user, 'deleted', { type: 'project', id, name: deletedProject.name });
     
     res.json({
         success: true,
@@ -509,21 +820,29 @@ app.get('/api/tasks', authenticateToken, (req, res) => {
         filteredTasks = filteredTasks.filter(t => t.assignedTo === parseInt(assignedTo));
     }
     
-    res.json({
-        success: true,
-        tasks: filteredTasks
-    });
+    sendList(req, res, 'tasks', filteredTasks);
 });
 
 app.post('/api/tasks', authenticateToken, (req, res) => {
     const newTask = {
         id: tasks.length + 1,
+        description: '',
+        status: 'pending',
+        priority: 'medium',
+        projectId: null,
+        assignedTo: null,
+        dueDate: null,
+        completedDate: null,
+        estimatedHours: 0,
+        actualHours: 0,
+        tags: [],
         ...req.body,
         createdBy: req.user.id,
         createdAt: new Date().toISOString()
     };
     
     tasks.push(newTask);
+    publishActivity(req.user, 'created', { type: 'task', id: newTask.id, name: newTask.title });
     
     res.status(201).json({
         success: true,
@@ -544,6 +863,7 @@ app.put('/api/tasks/:id', authenticateToken, (req, res) => {
     }
     
     tasks[taskIndex] = { ...tasks[taskIndex], ...req.body };
+    publishActivity(req.user, 'updated', { type: 'task', id, name: tasks[taskIndex].title });
     
     res.json({
         success: true,
@@ -556,9 +876,53 @@ app.put('/api/tasks/:id', authenticateToken, (req, res) => {
 app.get('/api/notifications', authenticateToken, (req, res) => {
     const userNotifications = notifications.filter(n => n.userId === req.user.id);
     
+    sendList(req, res, 'notifications', userNotifications);
+});
+
+// Creates a notification (for the caller unless userId is given) and pushes it to the recipient's streams
+app.post('/api/notifications', authenticateToken, (req, res) => {
+    const { title, message, type = 'info', userId = req.user.id } = req.body || {};
+    if (!title || !message) {
+        return res.status(400).json({
+            success: false,
+            message: 'Title and message are required'
+        });
+    }
+    if (!users.some(u => u.id === userId)) {
+        return res.status(404).json({
+            success: false,
+            message: 'User not found'
+        });
+    }
+
+    const notification = {
+        id: notifications.length + 1,
+        title,
+        message,
+        type,
+        read: false,
+        userId,
+        createdAt: new Date().toISOString()
+    };
+    notifications.push(notification);
+    eventHub.publish('notification', notification, userId);
+
+    res.status(201).json({
+        success: true,
+        message: 'Notification created successfully',
+        notification
+    });
+});
+
+// Live notifications and activities as Server-Sent Events; also at ws://<host>/ws/notifications
+app.get('/api/notifications/stream', createEventStreamHandler(eventHub, userFromBearerToken));
+
+// Drops the caller's open streams, to test how clients reconnect
+app.post('/api/notifications/stream/disconnect', authenticateToken, (req, res) => {
     res.json({
         success: true,
-        notifications: userNotifications
+        message: 'Streams disconnected',
+        disconnected: eventHub.disconnect(req.user.id)
     });
 });
 
@@ -605,7 +969,7 @@ app.get('/api/analytics/dashboard', authenticateToken, (req, res) => {
             unreadNotifications: userNotifications,
             totalUsers: users.length,
             projectProgress: projects.reduce((acc, p) => acc + p.progress, 0) / projects.length,
-            budgetUtilization: projects.reduce((acc, p) => acc + (p.spent / p.budget * 100), 0) / projects.length
+            budgetUtilization: projects.reduce((acc, p) => acc + (p.budget ? p.spent / p.budget * 100 : 0), 0) / projects.length
         }
     });
 });
@@ -698,6 +1062,9 @@ app.get('/api/search', authenticateToken, (req, res) => {
 app.post('/api/reset', (req, res) => {
     users.length = 0;
     users.push(...originalUsers.map(user => ({ ...user })));
+    avatars.clear();
+    notifications.length = 0;
+    notifications.push(...originalNotifications.map(notification => ({ ...notification })));
     
     // Reset other data stores
     projects.length = 0;
@@ -752,6 +1119,146 @@ app.post('/api/reset', (req, res) => {
     });
 });
 
+// GraphQL over users and projects, e.g.
+//   query GetProject($id: ID!) { project(id: $id) { name owner { name } members { name } } }
+const PROJECT_STATUSES = ['planning', 'active', 'completed', 'on-hold'];
+
+const findProject = (id) => {
+    const project = projects.find(p => p.id === parseInt(id));
+    if (!project) {
+        throw new GraphQLError(`Project ${id} not found`, { code: 'NOT_FOUND' });
+    }
+    return project;
+};
+
+const checkStatus = (status) => {
+    if (status !== undefined && status !== null && !PROJECT_STATUSES.includes(status)) {
+        throw new GraphQLError(`Invalid project status "${status}", expected one of ${PROJECT_STATUSES.join(', ')}`, { code: 'BAD_USER_INPUT' });
+    }
+};
+
+const graphqlTypeDefs = `
+    type Query {
+        me: User!
+        user(id: ID!): User
+        users: [User!]!
+        project(id: ID!): Project
+        projects(status: String): [Project!]!
+    }
+
+    type Mutation {
+        createProject(input: ProjectInput!): Project!
+        updateProjectStatus(id: ID!, status: String!): Project!
+    }
+
+    type User {
+        id: ID!
+        name: String!
+        email: String!
+        username: String!
+        role: String!
+        department: String
+        avatar: String
+        projects: [Project!]!
+    }
+
+    type Project {
+        id: ID!
+        name: String!
+        description: String
+        status: String!
+        priority: String!
+        progress: Int!
+        budget: Float!
+        tags: [String!]!
+        owner: User
+        members: [User!]!
+    }
+
+    input ProjectInput {
+        name: String!
+        description: String
+        status: String
+        priority: String
+        tags: [String!]
+    }
+`;
+
+const graphqlResolvers = {
+    Query: {
+        me: (_, args, context) => context.user,
+        user: (_, { id }) => {
+            const user = users.find(u => u.id === parseInt(id));
+            if (!user) {
+                throw new GraphQLError(`User ${id} not found`, { code: 'NOT_FOUND' });
+            }
+            return user;
+        },
+        users: () => users,
+        project: (_, { id }) => findProject(id),
+        projects: (_, { status }) => {
+            checkStatus(status);
+            return status ? projects.filter(p => p.status === status) : projects;
+        }
+    },
+    Mutation: {
+        createProject: (_, { input }, context) => {
+            if (input.name.trim() === '') {
+                throw new GraphQLError('Project name is required', { code: 'BAD_USER_INPUT' });
+            }
+            checkStatus(input.status);
+            const project = {
+                id: Math.max(0, ...projects.map(p => p.id)) + 1,
+                description: '',
+                status: 'planning',
+                priority: 'medium',
+                startDate: new Date().toISOString().split('T')[0],
+                endDate: null,
+                progress: 0,
+                budget: 0,
+                spent: 0,
+                teamMembers: [],
+                tags: [],
+                ...input,
+                createdBy: context.user.id,
+                createdAt: new Date().toISOString()
+            };
+            projects.push(project);
+            return project;
+        },
+        updateProjectStatus: (_, { id, status }) => {
+            checkStatus(status);
+            const project = findProject(id);
+            project.status = status;
+            return project;
+        }
+    },
+    User: {
+        projects: (user) => projects.filter(p => p.createdBy === user.id || (p.teamMembers || []).includes(user.id))
+    },
+    Project: {
+        owner: (project) => users.find(u => u.id === project.createdBy),
+        members: (project) => (project.teamMembers || []).map(id => users.find(u => u.id === id)).filter(Boolean)
+    }
+};
+
+const graphqlHandler = createGraphQLHandler(graphqlTypeDefs, graphqlResolvers, (req) => ({ user: req.user }));
+
+// Rejected tokens answer 401/403 with a GraphQL error body, so clients can log in again
+app.post('/graphql', (req, res, next) => {
+    const { user, status, message } = userFromToken(req);
+    if (!user) {
+        return res.status(status).json({ errors: [new GraphQLError(message, { code: 'UNAUTHENTICATED' }).toJSON()] });
+    }
+    req.user = user;
+    next();
+}, graphqlHandler);
+
+// OpenAPI document of the REST API, kept in sync with the wrappers by the contract tests
+app.get('/api/openapi.json', (req, res) => {
+    res.sendFile(path.join(__dirname, '../openapi.json'));
+});
+
 // Health check endpoint
 app.get('/health', (req, res) => {
     res.status(200).json({
@@ -795,12 +1302,14 @@ app.use((req, res) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
     console.log(`Enhanced test server running at http://localhost:${PORT}`);
     console.log(`Login Page: http://localhost:${PORT}/`);
     console.log(`Sitecore Launchpad: http://localhost:${PORT}/sitecore-launchpad (requires login)`);
     console.log(`Dashboard: http://localhost:${PORT}/dashboard`);
     console.log(`Health check: http://localhost:${PORT}/health`);
+    console.log(`Fault injection: http://localhost:${PORT}/api/admin/faults`);
+    console.log(`Notification stream: http://localhost:${PORT}/api/notifications/stream, ws://localhost:${PORT}/ws/notifications`);
     console.log(`API endpoints available at http://localhost:${PORT}/api/`);
     console.log(`\nTest Credentials:`);
     console.log(`- test@example.com / password123`);
@@ -808,4 +1317,6 @@ app.listen(PORT, () => {
     console.log(`- john.doe@example.com / SecurePass123!`);
 });
 
+attachWebSocketStream(server, eventHub, userFromBearerToken, '/ws/notifications');
+
 module.exports = app;
\ No newline at end of file
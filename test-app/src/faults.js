@@ -0,0 +1,178 @@
+// Server-side fault injection for tests, controlled through /api/admin/faults
+// A fault targets a route pattern (with an optional method) and adds latency, answers with an error
+// status or malformed JSON, or drops the connection. `every: n` only affects every nth matching
+// request; `times: n` removes the fault after n injections.
+// A fault injected with an X-Fault-Scope header only affects requests with the same header, so
+// tests running in parallel do not see each other's faults; listing and clearing faults also stays
+// within the caller's scope. Faults injected without the header affect every client of the server.
+
+const express = require('express');
+
+const FAULT_TYPES = ['latency', 'error', 'malformed-json', 'drop'];
+const SCOPE_HEADER = 'X-Fault-Scope';
+const MAX_DELAY = 60000;
+// Cut off in the middle of an object, so JSON parsers fail
+const MALFORMED_BODY = '{"success": true, "data": {"id": 1, "name": "Trunc';
+
+// `:id` or `*` match one path segment, `**` the rest of the path
+function pathPattern(pattern) {
+    const source = pattern
+        .split('/')
+        .map(segment => {
+            if (segment === '**') {
+                return '.*';
+            }
+            if (segment === '*' || segment.startsWith(':')) {
+                return '[^/]+';
+            }
+            return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('/');
+    return new RegExp(`^${source.replace(/\/\.\*$/, '(/.*)?')}$`);
+}
+
+const isCount = value => value === undefined || (Number.isInteger(value) && value >= 1);
+
+// Returns the error message for an invalid fault, or null
+function validateFault(body) {
+    const { path, method, type, delay, status, message, every, times } = body || {};
+    if (typeof path !== 'string' || !path.startsWith('/')) {
+        return 'path must be a route pattern starting with /';
+    }
+    if (method !== undefined && typeof method !== 'string') {
+        return 'method must be a string';
+    }
+    if (!FAULT_TYPES.includes(type)) {
+        return `type must be one of ${FAULT_TYPES.join(', ')}`;
+    }
+    if (delay !== undefined && (typeof delay !== 'number' || delay < 0 || delay > MAX_DELAY)) {
+        return `delay must be between 0 and ${MAX_DELAY} ms`;
+    }
+    if (type === 'latency' && !delay) {
+        return 'latency faults need a delay';
+    }
+    if (type === 'error' && !(Number.isInteger(status) && status >= 400 && status <= 599)) {
+        return 'error faults need a status between 400 and 599';
+    }
+    if (status !== undefined && !(Number.isInteger(status) && status >= 100 && status <= 599)) {
+        return 'status must be an HTTP status code';
+    }
+    if (message !== undefined && typeof message !== 'string') {
+        return 'message must be a string';
+    }
+    if (!isCount(every) || !isCount(times)) {
+        return 'every and times must be positive integers';
+    }
+    return null;
+}
+
+function createFaultInjector() {
+    let lastId = 0;
+    const faults = [];
+
+    const toJson = ({ pattern, ...fault }) => fault;
+
+    const scopeOf = req => req.get(SCOPE_HEADER) || undefined;
+    // Faults listed, removed and cleared by this caller
+    const ownFaults = req => faults.filter(fault => fault.scope === scopeOf(req));
+    // Faults affecting this request: its scope's and the unscoped ones
+    const appliesTo = (fault, req) => !fault.scope || fault.scope === scopeOf(req);
+
+    const remove = fault => {
+        const index = faults.indexOf(fault);
+        if (index !== -1) {
+            faults.splice(index, 1);
+        }
+    };
+
+    const inject = (fault, req, res, next) => {
+        fault.injected++;
+        if (fault.times !== undefined && fault.injected >= fault.times) {
+            remove(fault);
+        }
+        console.log(`💥 Injecting ${fault.type} fault #${fault.id} into ${req.method} ${req.originalUrl}`);
+
+        setTimeout(() => {
+            if (fault.type === 'drop') {
+                req.socket.destroy();
+                return;
+            }
+            res.set('X-Injected-Fault', String(fault.id));
+            if (fault.type === 'latency') {
+                next();
+            } else if (fault.type === 'error') {
+                res.status(fault.status).json({ success: false, message: fault.message || `Injected ${fault.status} fault` });
+            } else {
+                res.status(fault.status || 200).type('application/json').send(MALFORMED_BODY);
+            }
+        }, fault.delay || 0);
+    };
+
+    const router = express.Router();
+
+    router.get('/', (req, res) => {
+        res.json({ success: true, faults: ownFaults(req).map(toJson) });
+    });
+
+    router.post('/', (req, res) => {
+        const error = validateFault(req.body);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const { path, method, type, delay, status, message, every, times } = req.body;
+        const fault = {
+            id: ++lastId,
+            path,
+            method: method ? method.toUpperCase() : undefined,
+            type,
+            delay,
+            status,
+            message,
+            every: every || 1,
+            times,
+            scope: scopeOf(req),
+            matched: 0,
+            injected: 0,
+            pattern: pathPattern(path)
+        };
+        faults.push(fault);
+        res.status(201).json({ success: true, message: 'Fault injected', fault: toJson(fault) });
+    });
+
+    router.delete('/', (req, res) => {
+        const cleared = ownFaults(req);
+        cleared.forEach(remove);
+        res.json({ success: true, message: 'Faults cleared', cleared: cleared.length });
+    });
+
+    router.delete('/:id', (req, res) => {
+        const fault = ownFaults(req).find(f => f.id === parseInt(req.params.id));
+        if (!fault) {
+            return res.status(404).json({ success: false, message: 'Fault not found' });
+        }
+        remove(fault);
+        res.json({ success: true, message: 'Fault removed' });
+    });
+
+    // Every matching fault counts the request; the first one whose turn it is gets injected
+    const middleware = (req, res, next) => {
+        if (faults.length === 0 || req.path.startsWith('/api/admin/')) {
+            return next();
+        }
+
+        const matching = faults.filter(
+            fault => appliesTo(fault, req) && (!fault.method || fault.method === req.method) && fault.pattern.test(req.path)
+        );
+        matching.forEach(fault => fault.matched++);
+        const fault = matching.find(candidate => candidate.matched % candidate.every === 0);
+        if (!fault) {
+            return next();
+        }
+        inject(fault, req, res, next);
+    };
+
+    return { router, middleware };
+}
+
+module.exports = { createFaultInjector };
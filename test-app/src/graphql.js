@@ -0,0 +1,105 @@
+// GraphQL endpoint of the test-app, built on the graphql reference implementation
+// The schema is given as SDL plus resolvers by type and field; every error carries an extensions.code:
+// GRAPHQL_PARSE_FAILED, GRAPHQL_VALIDATION_FAILED and BAD_USER_INPUT for rejected requests,
+// the code of the GraphQLError a resolver threw, or INTERNAL_SERVER_ERROR for any other error
+
+const graphql = require('graphql');
+
+class GraphQLError extends graphql.GraphQLError {
+    constructor(message, { code = 'INTERNAL_SERVER_ERROR' } = {}) {
+        super(message, { extensions: { code } });
+    }
+}
+
+// Attaches resolvers such as { Query: { user: (_, { id }, context) => ... } } to the schema's fields
+function buildSchema(typeDefs, resolvers) {
+    const schema = graphql.buildSchema(typeDefs);
+    Object.entries(resolvers).forEach(([typeName, fields]) => {
+        const type = schema.getType(typeName);
+        if (!graphql.isObjectType(type)) {
+            throw new Error(`Resolvers given for unknown type "${typeName}"`);
+        }
+        Object.entries(fields).forEach(([fieldName, resolve]) => {
+            const field = type.getFields()[fieldName];
+            if (!field) {
+                throw new Error(`Resolver given for unknown field "${typeName}.${fieldName}"`);
+            }
+            field.resolve = resolve;
+        });
+    });
+    return schema;
+}
+
+function formatError(error, code) {
+    const json = error.toJSON();
+    return { ...json, extensions: { code, ...json.extensions } };
+}
+
+/**
+ * Express handler for POST { query, variables?, operationName? }
+ * Parse and validation failures answer 400, execution errors 200 with partial data;
+ * anything else that goes wrong is passed on to the Express error handler
+ */
+function createGraphQLHandler(typeDefs, resolvers, getContext = () => ({})) {
+    const schema = buildSchema(typeDefs, resolvers);
+
+    const handle = async (req, res) => {
+        const { query, variables, operationName } = req.body || {};
+        const fail = (code, errors) => res.status(400).json({ errors: errors.map(error => formatError(error, code)) });
+
+        if (typeof query !== 'string' || query.trim() === '') {
+            return fail('BAD_REQUEST', [new graphql.GraphQLError('Must provide query string.')]);
+        }
+        if (variables !== undefined && variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+            return fail('BAD_USER_INPUT', [new graphql.GraphQLError('Variables must be provided as an object.')]);
+        }
+
+        let document;
+        try {
+            document = graphql.parse(query);
+        } catch (error) {
+            return fail('GRAPHQL_PARSE_FAILED', [error]);
+        }
+
+        const validationErrors = graphql.validate(schema, document);
+        if (validationErrors.length > 0) {
+            return fail('GRAPHQL_VALIDATION_FAILED', validationErrors);
+        }
+
+        const operation = graphql.getOperationAST(document, operationName);
+        if (!operation) {
+            const message = operationName
+                ? `Unknown operation named "${operationName}".`
+                : 'Must provide operation name if query contains multiple operations.';
+            return fail('GRAPHQL_VALIDATION_FAILED', [new graphql.GraphQLError(message)]);
+        }
+        if (operation.operation === 'subscription') {
+            return fail('GRAPHQL_VALIDATION_FAILED', [new graphql.GraphQLError('Subscriptions are not supported.')]);
+        }
+
+        const result = await graphql.execute({
+            schema,
+            document,
+            operationName,
+            variableValues: variables,
+            contextValue: getContext(req)
+        });
+        // Without data the variables could not be coerced and nothing was executed
+        if (!('data' in result)) {
+            return fail('BAD_USER_INPUT', result.errors);
+        }
+        res.json(result.errors
+            ? { data: result.data, errors: result.errors.map(error => formatError(error, 'INTERNAL_SERVER_ERROR')) }
+            : { data: result.data });
+    };
+
+    return async (req, res, next) => {
+        try {
+            await handle(req, res);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+module.exports = { GraphQLError, createGraphQLHandler };
@@ -0,0 +1,149 @@
+// Real-time notification stream of the test-app, served both as Server-Sent Events and over WebSocket
+// Every event gets an increasing id and is kept in a short history, so a client that reconnects
+// with the id of the last event it saw (Last-Event-ID or ?lastEventId=) receives what it missed, in order.
+// Events addressed to a user only reach that user's connections; events without a user reach everyone.
+
+const { WebSocketServer } = require('ws');
+
+const HISTORY_SIZE = 200;
+const HEARTBEAT_INTERVAL = 15000;
+// Reconnection delay suggested to EventSource clients
+const RETRY_DELAY = 1000;
+
+function createEventHub({ historySize = HISTORY_SIZE } = {}) {
+    let lastId = 0;
+    const history = [];
+    const subscribers = new Set();
+
+    const visibleTo = (event, userId) => event.userId === null || event.userId === userId;
+
+    return {
+        publish(type, data, userId = null) {
+            const event = { id: ++lastId, type, data, userId, timestamp: new Date().toISOString() };
+            history.push(event);
+            if (history.length > historySize) {
+                history.shift();
+            }
+            subscribers.forEach(subscriber => {
+                if (visibleTo(event, subscriber.userId)) {
+                    subscriber.send(event);
+                }
+            });
+            return event;
+        },
+
+        // Events after the given id that the user may see, oldest first
+        since(eventId, userId) {
+            const after = eventId ? Number(eventId) : NaN;
+            return Number.isFinite(after) ? history.filter(event => event.id > after && visibleTo(event, userId)) : [];
+        },
+
+        subscribe(userId, send, close) {
+            const subscriber = { userId, send, close };
+            subscribers.add(subscriber);
+            return () => subscribers.delete(subscriber);
+        },
+
+        // Ends the open connections (of one user, or all), so clients have to reconnect
+        disconnect(userId) {
+            let count = 0;
+            [...subscribers].forEach(subscriber => {
+                if (userId === undefined || subscriber.userId === userId) {
+                    subscriber.close();
+                    subscribers.delete(subscriber);
+                    count++;
+                }
+            });
+            return count;
+        }
+    };
+}
+
+// Streams accept the bearer token as header or, for EventSource and browser WebSockets
+// that cannot set headers, as ?token=
+function streamToken(req) {
+    const header = req.headers['authorization'];
+    if (header) {
+        return header.split(' ')[1];
+    }
+    return new URL(req.url, 'http://localhost').searchParams.get('token');
+}
+
+function lastEventIdOf(req) {
+    return req.headers['last-event-id'] || new URL(req.url, 'http://localhost').searchParams.get('lastEventId');
+}
+
+function toWireEvent(event) {
+    return { id: event.id, type: event.type, data: event.data, timestamp: event.timestamp };
+}
+
+// GET handler streaming the user's events as text/event-stream
+function createEventStreamHandler(hub, authenticate) {
+    return (req, res) => {
+        const { user, status, message } = authenticate(streamToken(req));
+        if (!user) {
+            return res.status(status).json({ success: false, message });
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive'
+        });
+        res.write(`retry: ${RETRY_DELAY}\n\n`);
+
+        const send = event => {
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        };
+        hub.since(lastEventIdOf(req), user.id).forEach(send);
+
+        const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+        const unsubscribe = hub.subscribe(user.id, send, () => res.end());
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    };
+}
+
+// WebSocket endpoint sending each event as `{ id, type, data, timestamp }`
+// Clients may send `{ "type": "ping" }` and get `{ "type": "pong" }` back
+function attachWebSocketStream(server, hub, authenticate, path) {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req, socket, head) => {
+        if (new URL(req.url, 'http://localhost').pathname !== path) {
+            socket.destroy();
+            return;
+        }
+        const { user, status, message } = authenticate(streamToken(req));
+        if (!user) {
+            socket.end(`HTTP/1.1 ${status} ${status === 401 ? 'Unauthorized' : 'Forbidden'}\r\nContent-Type: text/plain\r\n\r\n${message}`);
+            return;
+        }
+
+        wss.handleUpgrade(req, socket, head, ws => {
+            const send = event => ws.send(JSON.stringify(toWireEvent(event)));
+            hub.since(lastEventIdOf(req), user.id).forEach(send);
+
+            const unsubscribe = hub.subscribe(user.id, send, () => ws.close(1012, 'Server restart'));
+            ws.on('message', raw => {
+                let message;
+                try {
+                    message = JSON.parse(raw.toString());
+                } catch {
+                    ws.send(JSON.stringify({ type: 'error', data: { message: 'Messages must be JSON' } }));
+                    return;
+                }
+                if (message.type === 'ping') {
+                    ws.send(JSON.stringify({ type: 'pong', data: message.data ?? null }));
+                }
+            });
+            ws.on('close', unsubscribe);
+        });
+    });
+
+    return wss;
+}
+
+module.exports = { createEventHub, createEventStreamHandler, attachWebSocketStream };